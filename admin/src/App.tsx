@@ -4,6 +4,7 @@ import { authProvider } from "./authProvider";
 import { i18nProvider } from "./i18n";
 import { theme } from "./theme";
 import { Layout } from "./layout/Layout";
+import { LoginPage } from "./layout/LoginPage";
 
 import { TeacherList, TeacherEdit, TeacherCreate } from "./resources/teachers";
 import { PlaceList, PlaceEdit, PlaceCreate } from "./resources/places";
@@ -13,6 +14,18 @@ import { EventTypeList, EventTypeEdit, EventTypeCreate } from "./resources/event
 import { AudienceList, AudienceEdit, AudienceCreate } from "./resources/audiences";
 import { UserList, UserEdit } from "./resources/users";
 import { ApprovalList } from "./resources/approvals";
+import { AccessRequestList } from "./resources/access-requests";
+import { AuditLogList } from "./resources/audit-log";
+import { MediaAccessList } from "./resources/media-access";
+import { PlanList, PlanEdit, PlanCreate } from "./resources/plans";
+import { VoucherList, VoucherEdit, VoucherCreate } from "./resources/vouchers";
+import { PaymentList, PaymentCreate } from "./resources/payments";
+import { SubscriptionLedgerList } from "./resources/subscription-ledger";
+import { ReportsPage } from "./resources/reports";
+import { SecurityPage } from "./resources/security";
+import { WebhookInboxList } from "./resources/webhook-inbox";
+import { JobRunList } from "./resources/job-runs";
+import { AccountDeletionList } from "./resources/account-deletions";
 import { MigrationList, MigrationCreate, MigrationShow } from "./resources/migrations";
 
 const App = () => (
@@ -22,6 +35,7 @@ const App = () => (
     i18nProvider={i18nProvider}
     theme={theme}
     layout={Layout}
+    loginPage={LoginPage}
     title="Padmakara"
   >
     <Resource
@@ -77,6 +91,71 @@ const App = () => (
       options={{ label: "Approvals" }}
       list={ApprovalList}
     />
+    <Resource
+      name="access-requests"
+      options={{ label: "Access Requests" }}
+      list={AccessRequestList}
+    />
+    <Resource
+      name="audit-log"
+      options={{ label: "Audit Log" }}
+      list={AuditLogList}
+    />
+    <Resource
+      name="media-access"
+      options={{ label: "Media Access" }}
+      list={MediaAccessList}
+    />
+    <Resource
+      name="plans"
+      options={{ label: "Plans" }}
+      list={PlanList}
+      edit={PlanEdit}
+      create={PlanCreate}
+    />
+    <Resource
+      name="vouchers"
+      options={{ label: "Vouchers" }}
+      list={VoucherList}
+      edit={VoucherEdit}
+      create={VoucherCreate}
+    />
+    <Resource
+      name="payments"
+      options={{ label: "Manual Payments" }}
+      list={PaymentList}
+      create={PaymentCreate}
+    />
+    <Resource
+      name="subscription-ledger"
+      options={{ label: "Subscription Ledger" }}
+      list={SubscriptionLedgerList}
+    />
+    <Resource
+      name="reports"
+      options={{ label: "Reports" }}
+      list={ReportsPage}
+    />
+    <Resource
+      name="webhook-inbox"
+      options={{ label: "Payment Notifications" }}
+      list={WebhookInboxList}
+    />
+    <Resource
+      name="job-runs"
+      options={{ label: "Scheduled Jobs" }}
+      list={JobRunList}
+    />
+    <Resource
+      name="account-deletions"
+      options={{ label: "Account Deletions" }}
+      list={AccountDeletionList}
+    />
+    <Resource
+      name="security"
+      options={{ label: "Account Security" }}
+      list={SecurityPage}
+    />
     <Resource
       name="migrations"
       options={{ label: "Migrations" }}
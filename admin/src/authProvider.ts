@@ -2,23 +2,78 @@ import { AuthProvider } from "react-admin";
 
 const API_URL = "/api/auth";
 
-export const authProvider: AuthProvider = {
-  login: async ({ username, password }) => {
-    const res = await fetch(`${API_URL}/login`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ email: username, password }),
-    });
+/**
+ * Thrown by login when the password was right but the account needs a second
+ * step: a code ("verify") or first-time two-factor setup ("enroll"). The
+ * login page continues with `twoFactorToken`.
+ */
+export class TwoFactorRequired extends Error {
+  constructor(
+    public step: "verify" | "enroll",
+    public twoFactorToken: string,
+  ) {
+    super("Two-factor authentication required");
+  }
+}
+
+export interface Session {
+  accessToken: string;
+  refreshToken: string;
+  user: Record<string, unknown>;
+}
+
+async function postJson(path: string, body: unknown) {
+  const res = await fetch(`${API_URL}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || "Login failed");
+  return data;
+}
+
+function storeSession({ accessToken, refreshToken, user }: Session) {
+  localStorage.setItem("accessToken", accessToken);
+  localStorage.setItem("refreshToken", refreshToken);
+  localStorage.setItem("user", JSON.stringify(user));
+}
+
+/** Secret and QR code for an account that must set up two-factor to sign in. */
+export const requestTwoFactorSetup = (twoFactorToken: string) =>
+  postJson("/login/2fa/setup", { twoFactorToken });
+
+/** Confirm two-factor setup with a first code; returns the session and the backup codes. */
+export const enrollTwoFactor = (
+  twoFactorToken: string,
+  code: string,
+): Promise<Session & { backupCodes: string[] }> => postJson("/login/2fa/enable", { twoFactorToken, code });
+
+/** react-admin actions that only read; the rest need write access. */
+const READ_ACTIONS = ["list", "show", "export"];
 
-    if (!res.ok) {
-      const body = await res.json();
-      throw new Error(body.error || "Login failed");
+export const authProvider: AuthProvider = {
+  /**
+   * Called with { username, password }, then { twoFactorToken, code } for the
+   * second step, or { session } once two-factor setup has issued one.
+   */
+  login: async ({ username, password, twoFactorToken, code, session }) => {
+    if (session) {
+      storeSession(session);
+      return;
     }
 
-    const { accessToken, refreshToken, user } = await res.json();
-    localStorage.setItem("accessToken", accessToken);
-    localStorage.setItem("refreshToken", refreshToken);
-    localStorage.setItem("user", JSON.stringify(user));
+    const data = twoFactorToken
+      ? await postJson("/login/2fa", { twoFactorToken, code })
+      : await postJson("/login", { email: username, password });
+
+    if (data.status === "two_factor_required") {
+      throw new TwoFactorRequired("verify", data.twoFactorToken);
+    }
+    if (data.status === "two_factor_setup_required") {
+      throw new TwoFactorRequired("enroll", data.twoFactorToken);
+    }
+    storeSession(data);
   },
 
   logout: async () => {
@@ -54,7 +109,10 @@ export const authProvider: AuthProvider = {
       headers: { Authorization: `Bearer ${token}` },
     });
 
-    if (!res.ok) {
+    if (res.ok) {
+      // Keeps the role and permissions current for canAccess
+      localStorage.setItem("user", JSON.stringify(await res.json()));
+    } else {
       // Try refreshing
       const refreshToken = localStorage.getItem("refreshToken");
       if (!refreshToken) throw new Error("No refresh token");
@@ -79,6 +137,8 @@ export const authProvider: AuthProvider = {
   },
 
   checkError: async (error) => {
+    // The role may not do this one thing; the session itself is fine
+    if (error.status === 403 && error.body?.code === "PERMISSION_DENIED") return;
     if (error.status === 401 || error.status === 403) {
       localStorage.removeItem("accessToken");
       localStorage.removeItem("refreshToken");
@@ -97,6 +157,17 @@ export const authProvider: AuthProvider = {
     };
   },
 
+  /**
+   * Uses the permissions the API sends with the user: "read" or "write" per
+   * resource. Account security is open to every admin.
+   */
+  canAccess: async ({ resource, action }) => {
+    if (resource === "security") return true;
+    const user = JSON.parse(localStorage.getItem("user") || "{}");
+    const granted = user.permissions?.[resource];
+    return granted === "write" || (granted === "read" && READ_ACTIONS.includes(action));
+  },
+
   getPermissions: async () => {
     const userStr = localStorage.getItem("user");
     if (!userStr) return "";
@@ -0,0 +1,41 @@
+import { useTranslate, useNotify } from "react-admin";
+import { Alert, Box, Button } from "@mui/material";
+import ContentCopyIcon from "@mui/icons-material/ContentCopy";
+
+/** Freshly generated two-factor backup codes; they are only ever shown once. */
+export const BackupCodes = ({ codes }: { codes: string[] }) => {
+  const translate = useTranslate();
+  const notify = useNotify();
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    notify(translate("padmakara.twoFactor.copied"), { type: "info" });
+  };
+
+  return (
+    <Box>
+      <Alert severity="warning" sx={{ mb: 1.5 }}>
+        {translate("padmakara.twoFactor.backupCodesHint")}
+      </Alert>
+      <Box
+        sx={{
+          display: "grid",
+          gridTemplateColumns: "1fr 1fr",
+          gap: 0.5,
+          fontFamily: "monospace",
+          fontSize: "0.95rem",
+          p: 1.5,
+          bgcolor: "action.hover",
+          borderRadius: 1,
+        }}
+      >
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </Box>
+      <Button size="small" startIcon={<ContentCopyIcon />} onClick={copy} sx={{ mt: 1 }}>
+        {translate("padmakara.twoFactor.copy")}
+      </Button>
+    </Box>
+  );
+};
@@ -0,0 +1,56 @@
+import { useTranslate } from "react-admin";
+import { TextField as MuiTextField, MenuItem } from "@mui/material";
+
+export type MembershipStatus = "pending" | "confirmed" | "lapsed" | "removed";
+
+/** Mirrors MEMBERSHIP_TRANSITIONS in src/services/group-membership.ts */
+const TRANSITIONS: Record<MembershipStatus, MembershipStatus[]> = {
+  pending: ["confirmed", "removed"],
+  confirmed: ["lapsed", "removed"],
+  lapsed: ["confirmed", "removed"],
+  removed: ["pending", "confirmed"],
+};
+
+export const membershipStatusColor: Record<MembershipStatus, "warning" | "success" | "default" | "error"> = {
+  pending: "warning",
+  confirmed: "success",
+  lapsed: "default",
+  removed: "error",
+};
+
+/**
+ * Compact status picker offering only the transitions the server accepts
+ * from the current status.
+ */
+export const MembershipStatusSelect = ({
+  status,
+  disabled,
+  onChange,
+}: {
+  status: MembershipStatus;
+  disabled?: boolean;
+  onChange: (status: MembershipStatus) => void;
+}) => {
+  const translate = useTranslate();
+  const options = [status, ...(TRANSITIONS[status] ?? [])];
+  return (
+    <MuiTextField
+      select
+      size="small"
+      variant="standard"
+      value={status}
+      disabled={disabled}
+      onChange={(e) => {
+        const next = e.target.value as MembershipStatus;
+        if (next !== status) onChange(next);
+      }}
+      sx={{ minWidth: 120, "& .MuiInput-input": { fontSize: "0.8rem" } }}
+    >
+      {options.map((s) => (
+        <MenuItem key={s} value={s} sx={{ fontSize: "0.85rem" }}>
+          {translate(`padmakara.membership.${s}`)}
+        </MenuItem>
+      ))}
+    </MuiTextField>
+  );
+};
@@ -17,6 +17,7 @@ import Chip from "@mui/material/Chip";
 import Collapse from "@mui/material/Collapse";
 import FormControlLabel from "@mui/material/FormControlLabel";
 import IconButton from "@mui/material/IconButton";
+import MenuItem from "@mui/material/MenuItem";
 import Paper from "@mui/material/Paper";
 import TextField from "@mui/material/TextField";
 import Typography from "@mui/material/Typography";
@@ -74,6 +75,9 @@ interface SessionPreviewProps {
     updates: Partial<ParsedTrack>,
   ) => Promise<void>;
   allTeachers?: Array<{ id: number; name: string; abbreviation: string }>;
+  /** When set, saved sessions get an audience override selector */
+  onSessionAudienceChange?: (sessionIndex: number, audienceId: number | null) => Promise<void>;
+  allAudiences?: Array<{ id: number; nameEn: string }>;
 }
 
 export const SessionPreview = ({
@@ -81,6 +85,8 @@ export const SessionPreview = ({
   onSessionTitleChange,
   onTrackUpdate,
   allTeachers,
+  onSessionAudienceChange,
+  allAudiences,
 }: SessionPreviewProps) => {
   if (sessions.length === 0) return null;
 
@@ -110,6 +116,12 @@ export const SessionPreview = ({
               onTitleChange={(title) => onSessionTitleChange(idx, title)}
               onTrackUpdate={onTrackUpdate}
               allTeachers={allTeachers}
+              onAudienceChange={
+                onSessionAudienceChange
+                  ? (audienceId) => onSessionAudienceChange(idx, audienceId)
+                  : undefined
+              }
+              allAudiences={allAudiences}
             />
           ))}
         </Box>
@@ -127,6 +139,8 @@ interface SessionCardProps {
     updates: Partial<ParsedTrack>,
   ) => Promise<void>;
   allTeachers?: Array<{ id: number; name: string; abbreviation: string }>;
+  onAudienceChange?: (audienceId: number | null) => Promise<void>;
+  allAudiences?: Array<{ id: number; nameEn: string }>;
 }
 
 const SessionCard = ({
@@ -135,6 +149,8 @@ const SessionCard = ({
   onTitleChange,
   onTrackUpdate,
   allTeachers,
+  onAudienceChange,
+  allAudiences,
 }: SessionCardProps) => {
   const [expanded, setExpanded] = useState(true);
   const [editing, setEditing] = useState(false);
@@ -223,6 +239,35 @@ const SessionCard = ({
         )}
 
         <Box sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
+          {/* Audience override — only for sessions already saved */}
+          {onAudienceChange && allAudiences && session.id && (
+            <TextField
+              select
+              size="small"
+              label={translate("padmakara.session.audience")}
+              value={session.audienceId ?? ""}
+              onClick={(e) => e.stopPropagation()}
+              onChange={(e) =>
+                onAudienceChange(e.target.value === "" ? null : Number(e.target.value))
+              }
+              sx={{
+                minWidth: 170,
+                mr: 0.5,
+                "& .MuiInputBase-input": { fontSize: "0.75rem", py: 0.5 },
+                "& .MuiInputLabel-root": { fontSize: "0.75rem" },
+              }}
+            >
+              <MenuItem value="">
+                <em>{translate("padmakara.session.inheritAudience")}</em>
+              </MenuItem>
+              {allAudiences.map((a) => (
+                <MenuItem key={a.id} value={a.id}>
+                  {a.nameEn}
+                </MenuItem>
+              ))}
+            </TextField>
+          )}
+
           {/* Edit button — left of date chip */}
           {editing ? (
             <IconButton
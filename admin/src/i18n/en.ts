@@ -11,6 +11,18 @@ export const en = {
     audiences: { name: "Audience |||| Audiences" },
     users: { name: "User |||| Users" },
     approvals: { name: "Approval |||| Approvals" },
+    "access-requests": { name: "Access Request |||| Access Requests" },
+    "audit-log": { name: "Audit Entry |||| Audit Log" },
+    "media-access": { name: "Media Access |||| Media Access" },
+    plans: { name: "Plan |||| Plans" },
+    vouchers: { name: "Voucher |||| Vouchers" },
+    payments: { name: "Payment |||| Manual Payments" },
+    security: { name: "Account Security |||| Account Security" },
+    "account-deletions": { name: "Account Deletion |||| Account Deletions" },
+    "subscription-ledger": { name: "Ledger Entry |||| Subscription Ledger" },
+    reports: { name: "Report |||| Reports" },
+    "webhook-inbox": { name: "Notification |||| Payment Notifications" },
+    "job-runs": { name: "Job Run |||| Scheduled Jobs" },
   },
   padmakara: {
     menu: {
@@ -86,6 +98,7 @@ export const en = {
       createdSuccess: "Event created successfully",
       updatedSuccess: "Event updated successfully",
       trackUpdated: "Track updated successfully",
+      sessionAudienceUpdated: "Session audience updated",
       deletedSuccess: "Event deleted",
       // Delete dialog
       deleteTitle: "Delete Event",
@@ -119,10 +132,28 @@ export const en = {
     },
     users: {
       roleUser: "User",
+      roleEditor: "Content editor",
+      roleUploader: "Uploader",
+      roleSecretary: "Membership secretary",
+      roleMigrations: "Migrations operator",
       roleAdmin: "Admin",
+      roleSuperadmin: "Superadmin",
       langEn: "English",
       langPt: "Portuguese",
     },
+    membership: {
+      status: "Membership",
+      pending: "Pending",
+      confirmed: "Confirmed",
+      lapsed: "Lapsed",
+      removed: "Removed",
+      all: "All",
+      members: "Members",
+      joinedAt: "Joined",
+      changedAt: "Status changed",
+      noMembers: "No members",
+      updated: "Membership updated",
+    },
     approvals: {
       approve: "Approve",
       reject: "Reject",
@@ -136,6 +167,290 @@ export const en = {
       approvedNotify: "Request approved — activation email sent",
       rejectedNotify: "Request rejected",
     },
+    auditLog: {
+      at: "When",
+      admin: "Admin",
+      action: "Action",
+      targetUser: "User",
+      method: "Method",
+      path: "Path",
+    },
+    mediaAccess: {
+      at: "When",
+      user: "User",
+      event: "Event",
+      resourceType: "Resource",
+      resourceId: "Resource ID",
+      device: "Device",
+      ipAddress: "IP address",
+      from: "From",
+      to: "To",
+      anonymous: "Anonymous",
+      topUsers: "Top users",
+      topEvents: "Top events",
+      total: "Accesses",
+      devices: "Devices",
+      ips: "IPs",
+      users: "Users",
+      audio: "Audio",
+      transcript: "Transcript",
+      zip: "ZIP",
+    },
+    plans: {
+      price: "Price",
+      priceCents: "Price (cents)",
+      priceCentsHelp: "Charged each period, e.g. 500 for €5.00",
+      currency: "Currency",
+      frequency: "Billing",
+      descriptionEn: "Description (EN)",
+      descriptionPt: "Description (PT)",
+      isActiveHelp: "Inactive plans are hidden from new subscribers; existing subscriptions continue",
+      frequencies: {
+        "1M": "Monthly",
+        "3M": "Every 3 months",
+        "6M": "Every 6 months",
+        "1Y": "Yearly",
+      },
+    },
+    vouchers: {
+      code: "Code",
+      codeHelp: "Leave empty to generate one; ignored for batches",
+      batchLabel: "Batch",
+      noBatch: "No batch",
+      months: "Months",
+      monthsHelp: "Months of subscription the voucher grants",
+      events: "Events",
+      quantity: "Quantity",
+      quantityHelp: "More than 1 generates a batch of codes on the same terms",
+      maxRedemptions: "Uses per code",
+      maxRedemptionsHelp: "How many members can redeem each code",
+      expiresAt: "Expires",
+      note: "Note",
+      createdAt: "Created",
+      used: "Used",
+      usable: "Usable",
+      codes: "Codes",
+      members: "Members",
+      lastRedeemedAt: "Last redeemed",
+      active: "Active",
+      inactive: "Inactive",
+      report: "Usage by batch",
+      redemptions: "Redemptions",
+      noRedemptions: "Not redeemed yet",
+      grantsMonths: "%{smart_count} month of subscription |||| %{smart_count} months of subscription",
+    },
+    payments: {
+      receiptNumber: "Receipt no.",
+      member: "Member",
+      amount: "Amount",
+      amountHelp: "In units of the currency, e.g. 60 or 12.50",
+      method: "Method",
+      methods: {
+        cash: "Cash",
+        bank_transfer: "Bank transfer",
+      },
+      paidAt: "Paid on",
+      months: "Months covered",
+      monthsHelp: "Used when no period end is given",
+      period: "Period covered",
+      periodStart: "Period start",
+      periodStartHelp: "Defaults to the end of the member's current period, or the payment date",
+      periodEnd: "Period end",
+      periodEndHelp: "Overrides the months covered",
+      reference: "Reference",
+      note: "Note",
+      sendReceipt: "Email the receipt to the member",
+      receiptSentAt: "Receipt sent",
+      viewReceipt: "Open receipt PDF",
+      emailReceipt: "Email receipt to member",
+      receiptSent: "Receipt sent",
+      receiptFailed: "Could not produce the receipt",
+    },
+    reports: {
+      from: "From",
+      to: "To",
+      loading: "Loading…",
+      empty: "Nothing to show for this period",
+      exportCsv: "Export CSV",
+      exportFailed: "Could not export the report",
+      subscribers: "Subscribers per month",
+      month: "Month",
+      active: "Active",
+      new: "New",
+      churned: "Left",
+      sources: "Current members by source",
+      source: "Source",
+      pastDue: "Past due",
+      sourceNames: {
+        easypay: "Easypay",
+        cash: "Cash",
+        bank_transfer: "Bank transfer",
+        admin: "Admin",
+        voucher: "Voucher",
+        unknown: "Unknown",
+      },
+      expiries: "Upcoming expiries",
+      nextDays: "Next %{smart_count} day |||| Next %{smart_count} days",
+      endsAt: "Ends",
+      member: "Member",
+      plan: "Plan",
+      noPlan: "No plan",
+      renewsAutomatically: "Renews automatically",
+      needsRenewal: "Needs renewal",
+      gracePeriod: "Grace period",
+      revenue: "Revenue per plan",
+      payments: "Payments",
+      amount: "Amount",
+    },
+    devices: {
+      title: "Devices",
+      limit: "%{active} of %{limit} devices active. At the limit: %{policy}.",
+      noLimit: "%{active} devices active, no device limit.",
+      policies: {
+        evict_lru: "the least recently used device is signed out",
+        ask: "the member picks a device to sign out",
+      },
+      empty: "No devices activated yet",
+      name: "Name",
+      type: "Type",
+      activatedAt: "Activated",
+      lastUsed: "Last used",
+      status: "Status",
+      active: "Active",
+      inactive: "Revoked",
+      rename: "Rename device",
+      revoke: "Revoke device",
+      revokeConfirm: "Sign out \"%{name}\"? The app on it will need a new magic link to sign in again.",
+      renamed: "Device renamed",
+      revoked: "Device revoked",
+      loadFailed: "Could not load devices",
+      saveFailed: "Could not update the device",
+    },
+    emailChange: {
+      action: "Change email",
+      description:
+        "A confirmation link is sent to the new address. %{email} stays the account's email until the user opens it, and is then told about the change.",
+      newEmail: "New email",
+      send: "Send link",
+      sent: "Confirmation link sent to %{email}",
+    },
+    sessions: {
+      title: "Sessions",
+      description: "Signing out everywhere ends every session at once: the admin, and the app on every device.",
+      signOutEverywhere: "Sign out everywhere",
+      confirm: "Sign %{email} out on every device? They will need to sign in again.",
+      confirmSelf: "Sign out on every device, including this one?",
+      done: "Signed out everywhere",
+    },
+    twoFactor: {
+      title: "Two-factor authentication",
+      description:
+        "Sign-ins with your password also ask for a code from an authenticator app (Google Authenticator, 1Password, Authy…).",
+      on: "On",
+      off: "Off",
+      requiredForRole: "Required for your role",
+      setUp: "Set up two-factor",
+      scan: "Scan this QR code with your authenticator app (or enter the key below), then type the 6-digit code it shows.",
+      setupRequired:
+        "Your account must use two-factor authentication. Scan this QR code with an authenticator app, then enter the 6-digit code.",
+      enterCode: "Enter the 6-digit code from your authenticator app, or one of your backup codes.",
+      code: "Authentication code",
+      confirm: "Confirm",
+      continue: "Continue",
+      enabled: "Two-factor authentication is on",
+      disabled: "Two-factor authentication is off",
+      disable: "Turn off",
+      regenerate: "New backup codes",
+      backupCodesRemaining: "%{smart_count} unused backup code left |||| %{smart_count} unused backup codes left",
+      backupCodesHint:
+        "Save these backup codes somewhere safe. Each one signs you in once if you lose your phone. They will not be shown again.",
+      copy: "Copy codes",
+      copied: "Backup codes copied",
+      reset: "Reset two-factor",
+      resetConfirm:
+        "Remove two-factor authentication from %{email} and sign them out? Use this only after confirming their identity.",
+      resetDone: "Two-factor authentication was reset",
+      resetOnlySuperadmin: "Only a superadmin can reset two-factor authentication.",
+    },
+    subscriptionLedger: {
+      at: "When",
+      user: "User",
+      type: "Type",
+      provider: "Provider",
+      amount: "Amount",
+      periodEnd: "Period ends",
+      reference: "Reference",
+      note: "Note",
+      recordedBy: "Recorded by",
+      from: "From",
+      to: "To",
+      history: "History",
+      empty: "No subscription history",
+      types: {
+        activation: "Activation",
+        renewal: "Renewal",
+        charge_failed: "Failed charge",
+        past_due: "Payment overdue",
+        cancellation: "Cancellation",
+        expiry: "Expiry",
+        adjustment: "Adjustment",
+      },
+    },
+    webhookInbox: {
+      receivedAt: "Received",
+      notificationId: "Notification",
+      status: "Status",
+      attempts: "Attempts",
+      lastError: "Last error",
+      nextAttemptAt: "Next attempt",
+      processedAt: "Processed",
+      payload: "Payload",
+      replay: "Replay",
+      replayedNotify: "Notification replayed: %{status}",
+      statuses: {
+        pending: "Pending",
+        processing: "Processing",
+        processed: "Processed",
+        ignored: "Ignored",
+        failed: "Failed",
+        dead: "Gave up",
+      },
+    },
+    accountDeletions: {
+      member: "Member",
+      email: "Email",
+      status: "Status",
+      requestedAt: "Requested",
+      scheduledFor: "Erasure on",
+      closedAt: "Closed",
+      statuses: {
+        pending: "Pending",
+        completed: "Erased",
+        cancelled: "Cancelled",
+      },
+    },
+    jobRuns: {
+      job: "Job",
+      status: "Status",
+      startedAt: "Started",
+      finishedAt: "Finished",
+      result: "Result",
+      statuses: {
+        running: "Running",
+        succeeded: "Succeeded",
+        failed: "Failed",
+      },
+    },
+    accessRequests: {
+      user: "User",
+      event: "Event",
+      approveTitle: "Approve Access Request",
+      validUntil: "Access until (optional)",
+      validUntilHelp: "Leave empty for permanent access",
+      adminMessage: "Message to user (optional)",
+      rejectPlaceholder: "Reason for rejection...",
+      approvedNotify: "Request approved — access granted and user notified",
+    },
     dropzone: {
       title: "Drop an event folder here",
       subtitle: "Folder name will be parsed to fill in dates, teacher, and group automatically",
@@ -145,6 +460,8 @@ export const en = {
       session: "Session %{number}",
       tracks: "%{count} tracks",
       translation: "Translation",
+      audience: "Audience",
+      inheritAudience: "Same as event",
     },
     upload: {
       complete: "Upload Complete",
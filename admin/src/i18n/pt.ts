@@ -212,6 +212,18 @@ export const pt = {
     audiences: { name: "Audiência |||| Audiências" },
     users: { name: "Utilizador |||| Utilizadores" },
     approvals: { name: "Aprovação |||| Aprovações" },
+    "access-requests": { name: "Pedido de Acesso |||| Pedidos de Acesso" },
+    "audit-log": { name: "Registo de Auditoria |||| Registo de Auditoria" },
+    "media-access": { name: "Acesso a Media |||| Acessos a Media" },
+    plans: { name: "Plano |||| Planos" },
+    vouchers: { name: "Voucher |||| Vouchers" },
+    payments: { name: "Pagamento |||| Pagamentos Manuais" },
+    security: { name: "Segurança da Conta |||| Segurança da Conta" },
+    "account-deletions": { name: "Eliminação de Conta |||| Eliminações de Conta" },
+    "subscription-ledger": { name: "Movimento |||| Histórico de Assinaturas" },
+    reports: { name: "Relatório |||| Relatórios" },
+    "webhook-inbox": { name: "Notificação |||| Notificações de Pagamento" },
+    "job-runs": { name: "Execução |||| Tarefas Agendadas" },
   },
   padmakara: {
     menu: {
@@ -287,6 +299,7 @@ export const pt = {
       createdSuccess: "Evento criado com sucesso",
       updatedSuccess: "Evento atualizado com sucesso",
       trackUpdated: "Faixa atualizada com sucesso",
+      sessionAudienceUpdated: "Audiência da sessão atualizada",
       deletedSuccess: "Evento eliminado",
       // Delete dialog
       deleteTitle: "Eliminar Evento",
@@ -320,10 +333,28 @@ export const pt = {
     },
     users: {
       roleUser: "Utilizador",
+      roleEditor: "Editor de conteúdos",
+      roleUploader: "Carregamentos",
+      roleSecretary: "Secretaria de membros",
+      roleMigrations: "Operador de migrações",
       roleAdmin: "Administrador",
+      roleSuperadmin: "Superadministrador",
       langEn: "Inglês",
       langPt: "Português",
     },
+    membership: {
+      status: "Adesão",
+      pending: "Pendente",
+      confirmed: "Confirmado",
+      lapsed: "Caducado",
+      removed: "Removido",
+      all: "Todos",
+      members: "Membros",
+      joinedAt: "Aderiu",
+      changedAt: "Estado alterado",
+      noMembers: "Sem membros",
+      updated: "Adesão atualizada",
+    },
     approvals: {
       approve: "Aprovar",
       reject: "Rejeitar",
@@ -337,6 +368,291 @@ export const pt = {
       approvedNotify: "Pedido aprovado — email de ativação enviado",
       rejectedNotify: "Pedido rejeitado",
     },
+    auditLog: {
+      at: "Quando",
+      admin: "Administrador",
+      action: "Ação",
+      targetUser: "Utilizador",
+      method: "Método",
+      path: "Caminho",
+    },
+    mediaAccess: {
+      at: "Quando",
+      user: "Utilizador",
+      event: "Evento",
+      resourceType: "Recurso",
+      resourceId: "ID do recurso",
+      device: "Dispositivo",
+      ipAddress: "Endereço IP",
+      from: "De",
+      to: "Até",
+      anonymous: "Anónimo",
+      topUsers: "Utilizadores com mais acessos",
+      topEvents: "Eventos com mais acessos",
+      total: "Acessos",
+      devices: "Dispositivos",
+      ips: "IPs",
+      users: "Utilizadores",
+      audio: "Áudio",
+      transcript: "Transcrição",
+      zip: "ZIP",
+    },
+    plans: {
+      price: "Preço",
+      priceCents: "Preço (cêntimos)",
+      priceCentsHelp: "Cobrado em cada período, p. ex. 500 para 5,00 €",
+      currency: "Moeda",
+      frequency: "Faturação",
+      descriptionEn: "Descrição (EN)",
+      descriptionPt: "Descrição (PT)",
+      isActiveHelp: "Planos inativos não aparecem a novos assinantes; as assinaturas existentes continuam",
+      frequencies: {
+        "1M": "Mensal",
+        "3M": "Trimestral",
+        "6M": "Semestral",
+        "1Y": "Anual",
+      },
+    },
+    vouchers: {
+      code: "Código",
+      codeHelp: "Deixe vazio para gerar um; ignorado em lotes",
+      batchLabel: "Lote",
+      noBatch: "Sem lote",
+      months: "Meses",
+      monthsHelp: "Meses de assinatura que o voucher concede",
+      events: "Eventos",
+      quantity: "Quantidade",
+      quantityHelp: "Mais de 1 gera um lote de códigos com as mesmas condições",
+      maxRedemptions: "Utilizações por código",
+      maxRedemptionsHelp: "Quantos membros podem resgatar cada código",
+      expiresAt: "Expira",
+      note: "Nota",
+      createdAt: "Criado",
+      used: "Usados",
+      usable: "Utilizáveis",
+      codes: "Códigos",
+      members: "Membros",
+      lastRedeemedAt: "Último resgate",
+      active: "Ativo",
+      inactive: "Inativo",
+      report: "Utilização por lote",
+      redemptions: "Resgates",
+      noRedemptions: "Ainda não resgatado",
+      grantsMonths: "%{smart_count} mês de assinatura |||| %{smart_count} meses de assinatura",
+    },
+    payments: {
+      receiptNumber: "N.º do recibo",
+      member: "Membro",
+      amount: "Montante",
+      amountHelp: "Em unidades da moeda, p. ex. 60 ou 12,50",
+      method: "Meio",
+      methods: {
+        cash: "Numerário",
+        bank_transfer: "Transferência bancária",
+      },
+      paidAt: "Pago em",
+      months: "Meses abrangidos",
+      monthsHelp: "Usado quando não é indicado o fim do período",
+      period: "Período abrangido",
+      periodStart: "Início do período",
+      periodStartHelp: "Por omissão, o fim do período atual do membro ou a data do pagamento",
+      periodEnd: "Fim do período",
+      periodEndHelp: "Sobrepõe-se aos meses abrangidos",
+      reference: "Referência",
+      note: "Nota",
+      sendReceipt: "Enviar o recibo por email ao membro",
+      receiptSentAt: "Recibo enviado",
+      viewReceipt: "Abrir o recibo em PDF",
+      emailReceipt: "Enviar o recibo ao membro",
+      receiptSent: "Recibo enviado",
+      receiptFailed: "Não foi possível gerar o recibo",
+    },
+    reports: {
+      from: "De",
+      to: "Até",
+      loading: "A carregar…",
+      empty: "Nada a mostrar neste período",
+      exportCsv: "Exportar CSV",
+      exportFailed: "Não foi possível exportar o relatório",
+      subscribers: "Assinantes por mês",
+      month: "Mês",
+      active: "Ativos",
+      new: "Novos",
+      churned: "Saídas",
+      sources: "Membros atuais por origem",
+      source: "Origem",
+      pastDue: "Em atraso",
+      sourceNames: {
+        easypay: "Easypay",
+        cash: "Numerário",
+        bank_transfer: "Transferência bancária",
+        admin: "Admin",
+        voucher: "Voucher",
+        unknown: "Desconhecida",
+      },
+      expiries: "Próximos fins de assinatura",
+      nextDays: "Próximo %{smart_count} dia |||| Próximos %{smart_count} dias",
+      endsAt: "Termina",
+      member: "Membro",
+      plan: "Plano",
+      noPlan: "Sem plano",
+      renewsAutomatically: "Renova automaticamente",
+      needsRenewal: "Precisa de renovação",
+      gracePeriod: "Período de tolerância",
+      revenue: "Receita por plano",
+      payments: "Pagamentos",
+      amount: "Montante",
+    },
+    devices: {
+      title: "Dispositivos",
+      limit: "%{active} de %{limit} dispositivos ativos. No limite: %{policy}.",
+      noLimit: "%{active} dispositivos ativos, sem limite de dispositivos.",
+      policies: {
+        evict_lru: "termina-se a sessão do dispositivo usado há mais tempo",
+        ask: "o membro escolhe o dispositivo a desligar",
+      },
+      empty: "Nenhum dispositivo ativado",
+      name: "Nome",
+      type: "Tipo",
+      activatedAt: "Ativado",
+      lastUsed: "Última utilização",
+      status: "Estado",
+      active: "Ativo",
+      inactive: "Revogado",
+      rename: "Mudar nome do dispositivo",
+      revoke: "Revogar dispositivo",
+      revokeConfirm: "Terminar a sessão de \"%{name}\"? A aplicação nesse dispositivo precisará de um novo link mágico para voltar a entrar.",
+      renamed: "Nome do dispositivo alterado",
+      revoked: "Dispositivo revogado",
+      loadFailed: "Não foi possível carregar os dispositivos",
+      saveFailed: "Não foi possível atualizar o dispositivo",
+    },
+    emailChange: {
+      action: "Alterar email",
+      description:
+        "É enviado um link de confirmação para o novo endereço. %{email} continua a ser o email da conta até o utilizador o abrir, e é depois avisado da alteração.",
+      newEmail: "Novo email",
+      send: "Enviar link",
+      sent: "Link de confirmação enviado para %{email}",
+    },
+    sessions: {
+      title: "Sessões",
+      description: "Terminar sessão em todo o lado termina todas as sessões de uma vez: o painel e a app em todos os dispositivos.",
+      signOutEverywhere: "Terminar sessão em todo o lado",
+      confirm: "Terminar a sessão de %{email} em todos os dispositivos? Terá de voltar a entrar.",
+      confirmSelf: "Terminar sessão em todos os dispositivos, incluindo este?",
+      done: "Sessão terminada em todo o lado",
+    },
+    twoFactor: {
+      title: "Autenticação de dois fatores",
+      description:
+        "Os inícios de sessão com palavra-passe pedem também um código de uma aplicação de autenticação (Google Authenticator, 1Password, Authy…).",
+      on: "Ativa",
+      off: "Desativada",
+      requiredForRole: "Obrigatória para o seu perfil",
+      setUp: "Configurar dois fatores",
+      scan: "Leia este código QR com a aplicação de autenticação (ou introduza a chave abaixo) e escreva o código de 6 dígitos que ela mostra.",
+      setupRequired:
+        "A sua conta tem de usar autenticação de dois fatores. Leia este código QR com uma aplicação de autenticação e introduza o código de 6 dígitos.",
+      enterCode: "Introduza o código de 6 dígitos da aplicação de autenticação, ou um dos seus códigos de recuperação.",
+      code: "Código de autenticação",
+      confirm: "Confirmar",
+      continue: "Continuar",
+      enabled: "A autenticação de dois fatores está ativa",
+      disabled: "A autenticação de dois fatores está desativada",
+      disable: "Desativar",
+      regenerate: "Novos códigos de recuperação",
+      backupCodesRemaining:
+        "Resta %{smart_count} código de recuperação por usar |||| Restam %{smart_count} códigos de recuperação por usar",
+      backupCodesHint:
+        "Guarde estes códigos de recuperação num local seguro. Cada um permite entrar uma vez se perder o telemóvel. Não voltarão a ser mostrados.",
+      copy: "Copiar códigos",
+      copied: "Códigos de recuperação copiados",
+      reset: "Repor dois fatores",
+      resetConfirm:
+        "Remover a autenticação de dois fatores de %{email} e terminar as suas sessões? Faça-o apenas depois de confirmar a identidade da pessoa.",
+      resetDone: "A autenticação de dois fatores foi reposta",
+      resetOnlySuperadmin: "Só um superadministrador pode repor a autenticação de dois fatores.",
+    },
+    subscriptionLedger: {
+      at: "Quando",
+      user: "Utilizador",
+      type: "Tipo",
+      provider: "Meio",
+      amount: "Valor",
+      periodEnd: "Fim do período",
+      reference: "Referência",
+      note: "Nota",
+      recordedBy: "Registado por",
+      from: "De",
+      to: "Até",
+      history: "Histórico",
+      empty: "Sem histórico de assinatura",
+      types: {
+        activation: "Ativação",
+        renewal: "Renovação",
+        charge_failed: "Cobrança falhada",
+        past_due: "Pagamento em atraso",
+        cancellation: "Cancelamento",
+        expiry: "Expiração",
+        adjustment: "Ajuste",
+      },
+    },
+    webhookInbox: {
+      receivedAt: "Recebida",
+      notificationId: "Notificação",
+      status: "Estado",
+      attempts: "Tentativas",
+      lastError: "Último erro",
+      nextAttemptAt: "Próxima tentativa",
+      processedAt: "Processada",
+      payload: "Conteúdo",
+      replay: "Reprocessar",
+      replayedNotify: "Notificação reprocessada: %{status}",
+      statuses: {
+        pending: "Pendente",
+        processing: "Em processamento",
+        processed: "Processada",
+        ignored: "Ignorada",
+        failed: "Falhada",
+        dead: "Abandonada",
+      },
+    },
+    accountDeletions: {
+      member: "Membro",
+      email: "Email",
+      status: "Estado",
+      requestedAt: "Pedido em",
+      scheduledFor: "Eliminação a",
+      closedAt: "Fechado em",
+      statuses: {
+        pending: "Pendente",
+        completed: "Eliminada",
+        cancelled: "Cancelada",
+      },
+    },
+    jobRuns: {
+      job: "Tarefa",
+      status: "Estado",
+      startedAt: "Início",
+      finishedAt: "Fim",
+      result: "Resultado",
+      statuses: {
+        running: "Em curso",
+        succeeded: "Concluída",
+        failed: "Falhada",
+      },
+    },
+    accessRequests: {
+      user: "Utilizador",
+      event: "Evento",
+      approveTitle: "Aprovar Pedido de Acesso",
+      validUntil: "Acesso até (opcional)",
+      validUntilHelp: "Deixe vazio para acesso permanente",
+      adminMessage: "Mensagem para o utilizador (opcional)",
+      rejectPlaceholder: "Motivo da rejeição...",
+      approvedNotify: "Pedido aprovado — acesso concedido e utilizador notificado",
+    },
     dropzone: {
       title: "Arraste uma pasta de evento para aqui",
       subtitle: "O nome da pasta será analisado para preencher datas, professor e grupo automaticamente",
@@ -346,6 +662,8 @@ export const pt = {
       session: "Sessão %{number}",
       tracks: "%{count} faixas",
       translation: "Tradução",
+      audience: "Audiência",
+      inheritAudience: "Igual ao evento",
     },
     upload: {
       complete: "Carregamento Concluído",
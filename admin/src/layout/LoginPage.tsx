@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { Login, useLogin, useNotify, useTranslate } from "react-admin";
+import { Box, Button, CircularProgress, Stack, TextField, Typography } from "@mui/material";
+import {
+  TwoFactorRequired,
+  requestTwoFactorSetup,
+  enrollTwoFactor,
+  type Session,
+} from "../authProvider";
+import { BackupCodes } from "../components/BackupCodes";
+
+type Step =
+  | { name: "credentials" }
+  | { name: "verify"; twoFactorToken: string }
+  | { name: "enroll"; twoFactorToken: string; qrCode: string; secret: string }
+  | { name: "backupCodes"; session: Session; backupCodes: string[] };
+
+/**
+ * Email + password, then — for accounts with two-factor — a code from the
+ * authenticator app, or first-time setup when the account's role requires it.
+ */
+export const LoginPage = () => {
+  const login = useLogin();
+  const notify = useNotify();
+  const translate = useTranslate();
+  const [step, setStep] = useState<Step>({ name: "credentials" });
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const secondStep = async (challenge: TwoFactorRequired) => {
+    setCode("");
+    if (challenge.step === "verify") {
+      setStep({ name: "verify", twoFactorToken: challenge.twoFactorToken });
+    } else {
+      const { qrCode, secret } = await requestTwoFactorSetup(challenge.twoFactorToken);
+      setStep({ name: "enroll", twoFactorToken: challenge.twoFactorToken, qrCode, secret });
+    }
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setLoading(true);
+    try {
+      await action().catch((e) => {
+        if (e instanceof TwoFactorRequired) return secondStep(e);
+        throw e;
+      });
+    } catch (e: any) {
+      notify(e.message, { type: "error" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (step.name === "credentials") {
+      run(() => login({ username: email, password }));
+    } else if (step.name === "verify") {
+      run(() => login({ twoFactorToken: step.twoFactorToken, code }));
+    } else if (step.name === "enroll") {
+      run(async () => {
+        const { backupCodes, ...session } = await enrollTwoFactor(step.twoFactorToken, code);
+        setStep({ name: "backupCodes", session, backupCodes });
+      });
+    } else {
+      run(() => login({ session: step.session }));
+    }
+  };
+
+  const codeField = (
+    <TextField
+      autoFocus
+      fullWidth
+      label={translate("padmakara.twoFactor.code")}
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      autoComplete="one-time-code"
+    />
+  );
+
+  return (
+    <Login>
+      <Box component="form" onSubmit={submit} sx={{ p: 2, width: 320 }}>
+        <Stack spacing={2}>
+          {step.name === "credentials" && (
+            <>
+              <TextField
+                autoFocus
+                fullWidth
+                type="email"
+                label={translate("ra.auth.username")}
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                autoComplete="username"
+              />
+              <TextField
+                fullWidth
+                type="password"
+                label={translate("ra.auth.password")}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+              />
+            </>
+          )}
+
+          {step.name === "verify" && (
+            <>
+              <Typography variant="body2">{translate("padmakara.twoFactor.enterCode")}</Typography>
+              {codeField}
+            </>
+          )}
+
+          {step.name === "enroll" && (
+            <>
+              <Typography variant="body2">{translate("padmakara.twoFactor.setupRequired")}</Typography>
+              <Box component="img" src={step.qrCode} alt="" sx={{ width: 200, height: 200, alignSelf: "center" }} />
+              <Typography variant="caption" sx={{ fontFamily: "monospace", wordBreak: "break-all" }}>
+                {step.secret}
+              </Typography>
+              {codeField}
+            </>
+          )}
+
+          {step.name === "backupCodes" && <BackupCodes codes={step.backupCodes} />}
+
+          <Button type="submit" variant="contained" disabled={loading} fullWidth>
+            {loading ? (
+              <CircularProgress size={20} color="inherit" />
+            ) : step.name === "backupCodes" ? (
+              translate("padmakara.twoFactor.continue")
+            ) : (
+              translate("ra.auth.sign_in")
+            )}
+          </Button>
+          {step.name !== "credentials" && step.name !== "backupCodes" && (
+            <Button size="small" onClick={() => setStep({ name: "credentials" })}>
+              {translate("ra.action.back")}
+            </Button>
+          )}
+        </Stack>
+      </Box>
+    </Login>
+  );
+};
@@ -1,4 +1,5 @@
-import { Menu as RaMenu, useTranslate } from "react-admin";
+import type { ReactElement } from "react";
+import { Menu as RaMenu, useCanAccessResources, useTranslate } from "react-admin";
 import SpaIcon from "@mui/icons-material/SelfImprovement";
 import GroupsIcon from "@mui/icons-material/Groups";
 import PersonIcon from "@mui/icons-material/Person";
@@ -7,13 +8,77 @@ import PeopleIcon from "@mui/icons-material/People";
 import CategoryIcon from "@mui/icons-material/Category";
 import PeopleOutlineIcon from "@mui/icons-material/PeopleOutline";
 import HowToRegIcon from "@mui/icons-material/HowToReg";
+import LockOpenIcon from "@mui/icons-material/LockOpen";
+import ManageSearchIcon from "@mui/icons-material/ManageSearch";
+import HeadphonesIcon from "@mui/icons-material/Headphones";
+import ReceiptLongIcon from "@mui/icons-material/ReceiptLong";
+import AssessmentIcon from "@mui/icons-material/Assessment";
+import LoyaltyIcon from "@mui/icons-material/Loyalty";
+import RedeemIcon from "@mui/icons-material/Redeem";
+import PaymentsIcon from "@mui/icons-material/Payments";
+import MarkEmailUnreadIcon from "@mui/icons-material/MarkEmailUnread";
+import ScheduleIcon from "@mui/icons-material/Schedule";
 import SyncAltIcon from "@mui/icons-material/SyncAlt";
+import SecurityIcon from "@mui/icons-material/Security";
+import PersonRemoveIcon from "@mui/icons-material/PersonRemove";
 import Box from "@mui/material/Box";
 import Typography from "@mui/material/Typography";
 import Divider from "@mui/material/Divider";
 
+interface MenuEntry {
+  resource: string;
+  icon: ReactElement;
+  /** Defaults to the resource's translated name */
+  label?: string;
+}
+
+const sections: { label: string; items: MenuEntry[] }[] = [
+  {
+    label: "padmakara.menu.content",
+    items: [{ resource: "events", icon: <SpaIcon /> }],
+  },
+  {
+    label: "padmakara.menu.reference",
+    items: [
+      { resource: "teachers", icon: <PersonIcon /> },
+      { resource: "places", icon: <PlaceIcon /> },
+      { resource: "groups", icon: <GroupsIcon /> },
+      { resource: "event-types", icon: <CategoryIcon /> },
+      { resource: "audiences", icon: <PeopleOutlineIcon /> },
+    ],
+  },
+  {
+    label: "padmakara.menu.administration",
+    items: [
+      { resource: "users", icon: <PeopleIcon /> },
+      { resource: "approvals", icon: <HowToRegIcon /> },
+      { resource: "access-requests", icon: <LockOpenIcon /> },
+      { resource: "account-deletions", icon: <PersonRemoveIcon /> },
+      { resource: "audit-log", icon: <ManageSearchIcon /> },
+      { resource: "media-access", icon: <HeadphonesIcon /> },
+      { resource: "plans", icon: <LoyaltyIcon /> },
+      { resource: "vouchers", icon: <RedeemIcon /> },
+      { resource: "payments", icon: <PaymentsIcon /> },
+      { resource: "subscription-ledger", icon: <ReceiptLongIcon /> },
+      { resource: "reports", icon: <AssessmentIcon /> },
+      { resource: "webhook-inbox", icon: <MarkEmailUnreadIcon /> },
+      { resource: "job-runs", icon: <ScheduleIcon /> },
+      { resource: "migrations", icon: <SyncAltIcon />, label: "Migrations" },
+      { resource: "security", icon: <SecurityIcon /> },
+    ],
+  },
+];
+
+const resources = sections.flatMap((section) => section.items.map((item) => item.resource));
+
 export const Menu = () => {
   const translate = useTranslate();
+  // Only what the admin's role can open (authProvider.canAccess)
+  const { canAccess } = useCanAccessResources({ action: "list", resources });
+  const visible = sections
+    .map((section) => ({ ...section, items: section.items.filter((item) => canAccess?.[item.resource]) }))
+    .filter((section) => section.items.length > 0);
+
   return (
     <Box sx={{ pt: 1 }}>
       {/* Brand */}
@@ -44,27 +109,20 @@ export const Menu = () => {
 
       <Divider sx={{ borderColor: "rgba(255,255,255,0.08)", mb: 1 }} />
 
-      {/* Content section */}
-      <SectionLabel>{translate("padmakara.menu.content")}</SectionLabel>
-      <RaMenu.Item to="/events" primaryText={translate("resources.events.name", { smart_count: 2 })} leftIcon={<SpaIcon />} />
-
-      <Divider sx={{ borderColor: "rgba(255,255,255,0.08)", my: 1.5, mx: 2 }} />
-
-      {/* Reference data */}
-      <SectionLabel>{translate("padmakara.menu.reference")}</SectionLabel>
-      <RaMenu.Item to="/teachers" primaryText={translate("resources.teachers.name", { smart_count: 2 })} leftIcon={<PersonIcon />} />
-      <RaMenu.Item to="/places" primaryText={translate("resources.places.name", { smart_count: 2 })} leftIcon={<PlaceIcon />} />
-      <RaMenu.Item to="/groups" primaryText={translate("resources.groups.name", { smart_count: 2 })} leftIcon={<GroupsIcon />} />
-      <RaMenu.Item to="/event-types" primaryText={translate("resources.event-types.name", { smart_count: 2 })} leftIcon={<CategoryIcon />} />
-      <RaMenu.Item to="/audiences" primaryText={translate("resources.audiences.name", { smart_count: 2 })} leftIcon={<PeopleOutlineIcon />} />
-
-      <Divider sx={{ borderColor: "rgba(255,255,255,0.08)", my: 1.5, mx: 2 }} />
-
-      {/* Admin */}
-      <SectionLabel>{translate("padmakara.menu.administration")}</SectionLabel>
-      <RaMenu.Item to="/users" primaryText={translate("resources.users.name", { smart_count: 2 })} leftIcon={<PeopleIcon />} />
-      <RaMenu.Item to="/approvals" primaryText={translate("resources.approvals.name", { smart_count: 2 })} leftIcon={<HowToRegIcon />} />
-      <RaMenu.Item to="/migrations" primaryText="Migrations" leftIcon={<SyncAltIcon />} />
+      {visible.map((section, index) => (
+        <Box key={section.label}>
+          {index > 0 && <Divider sx={{ borderColor: "rgba(255,255,255,0.08)", my: 1.5, mx: 2 }} />}
+          <SectionLabel>{translate(section.label)}</SectionLabel>
+          {section.items.map((item) => (
+            <RaMenu.Item
+              key={item.resource}
+              to={`/${item.resource}`}
+              primaryText={item.label ?? translate(`resources.${item.resource}.name`, { smart_count: 2 })}
+              leftIcon={item.icon}
+            />
+          ))}
+        </Box>
+      ))}
     </Box>
   );
 };
@@ -0,0 +1,242 @@
+import { useState } from "react";
+import {
+  List,
+  Datagrid,
+  DateField,
+  FunctionField,
+  useTranslate,
+  useRefresh,
+  useNotify,
+  useRecordContext,
+} from "react-admin";
+import {
+  Chip,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  TextField as MuiTextField,
+  Stack,
+  CircularProgress,
+} from "@mui/material";
+import CheckCircleIcon from "@mui/icons-material/CheckCircle";
+import CancelIcon from "@mui/icons-material/Cancel";
+
+const API_URL = "/api/admin";
+
+const authFetch = (url: string, options: RequestInit = {}) => {
+  const token = localStorage.getItem("accessToken");
+  return fetch(url, {
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(options.headers || {}),
+    },
+  });
+};
+
+const personName = (person: any) =>
+  person
+    ? `${person.firstName || ""} ${person.lastName || ""}`.trim() || person.email
+    : "—";
+
+// ─── Status Chip ──────────────────────────────────────────────────────────────
+
+const StatusChip = () => {
+  const record = useRecordContext();
+  if (!record) return null;
+  const colorMap: Record<string, "warning" | "success" | "error" | "default"> = {
+    pending: "warning",
+    approved: "success",
+    rejected: "error",
+  };
+  return (
+    <Chip
+      label={record.status}
+      size="small"
+      color={colorMap[record.status] ?? "default"}
+      sx={{ fontWeight: 600, textTransform: "capitalize" }}
+    />
+  );
+};
+
+// ─── Action Buttons ───────────────────────────────────────────────────────────
+
+const AccessRequestActions = () => {
+  const record = useRecordContext();
+  const refresh = useRefresh();
+  const notify = useNotify();
+  const translate = useTranslate();
+  const [busy, setBusy] = useState(false);
+  const [dialog, setDialog] = useState<"approve" | "reject" | null>(null);
+  const [validUntil, setValidUntil] = useState("");
+  const [adminMessage, setAdminMessage] = useState("");
+
+  if (!record || record.status !== "pending") return null;
+
+  const close = () => {
+    setDialog(null);
+    setValidUntil("");
+    setAdminMessage("");
+  };
+
+  const submit = async () => {
+    setBusy(true);
+    try {
+      const res = await authFetch(`${API_URL}/access-requests/${record.id}/${dialog}`, {
+        method: "POST",
+        body: JSON.stringify({
+          adminMessage: adminMessage || undefined,
+          ...(dialog === "approve" && validUntil
+            ? { validUntil: new Date(validUntil).toISOString() }
+            : {}),
+        }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || `Failed to ${dialog}`);
+      }
+      notify(
+        translate(
+          dialog === "approve"
+            ? "padmakara.accessRequests.approvedNotify"
+            : "padmakara.approvals.rejectedNotify",
+        ),
+        { type: "success" },
+      );
+      close();
+      refresh();
+    } catch (e: any) {
+      notify(e.message, { type: "error" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Stack direction="row" spacing={1}>
+      <Button
+        size="small"
+        variant="contained"
+        color="success"
+        startIcon={<CheckCircleIcon />}
+        disabled={busy}
+        onClick={() => setDialog("approve")}
+        sx={{ textTransform: "none", fontWeight: 600 }}
+      >
+        {translate("padmakara.approvals.approve")}
+      </Button>
+      <Button
+        size="small"
+        variant="outlined"
+        color="error"
+        startIcon={<CancelIcon />}
+        disabled={busy}
+        onClick={() => setDialog("reject")}
+        sx={{ textTransform: "none", fontWeight: 600 }}
+      >
+        {translate("padmakara.approvals.reject")}
+      </Button>
+
+      {/* Approve / reject dialog — approval can be time-boxed */}
+      <Dialog open={dialog !== null} onClose={close} maxWidth="sm" fullWidth>
+        <DialogTitle>
+          {translate(
+            dialog === "approve"
+              ? "padmakara.accessRequests.approveTitle"
+              : "padmakara.approvals.rejectTitle",
+          )}
+        </DialogTitle>
+        <DialogContent>
+          {dialog === "approve" && (
+            <MuiTextField
+              margin="dense"
+              type="date"
+              label={translate("padmakara.accessRequests.validUntil")}
+              helperText={translate("padmakara.accessRequests.validUntilHelp")}
+              fullWidth
+              value={validUntil}
+              onChange={(e) => setValidUntil(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+            />
+          )}
+          <MuiTextField
+            autoFocus
+            margin="dense"
+            label={translate("padmakara.accessRequests.adminMessage")}
+            placeholder={
+              dialog === "reject"
+                ? translate("padmakara.accessRequests.rejectPlaceholder")
+                : undefined
+            }
+            fullWidth
+            multiline
+            minRows={2}
+            value={adminMessage}
+            onChange={(e) => setAdminMessage(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={close} disabled={busy}>
+            {translate("ra.action.cancel")}
+          </Button>
+          <Button
+            onClick={submit}
+            color={dialog === "approve" ? "success" : "error"}
+            variant="contained"
+            disabled={busy}
+            startIcon={busy ? <CircularProgress size={14} color="inherit" /> : undefined}
+          >
+            {translate(
+              dialog === "approve" ? "padmakara.approvals.approve" : "padmakara.approvals.reject",
+            )}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Stack>
+  );
+};
+
+// ─── List ─────────────────────────────────────────────────────────────────────
+
+export const AccessRequestList = () => {
+  const translate = useTranslate();
+  return (
+    <List
+      sort={{ field: "requestedAt", order: "DESC" }}
+      perPage={25}
+    >
+      <Datagrid bulkActionButtons={false}>
+        <FunctionField
+          label={translate("padmakara.accessRequests.user")}
+          render={(record: any) => personName(record.user)}
+        />
+        <FunctionField
+          label={translate("padmakara.accessRequests.event")}
+          render={(record: any) =>
+            record.event ? `${record.event.eventCode} — ${record.event.titleEn}` : "—"
+          }
+        />
+        <FunctionField
+          label={translate("padmakara.approvals.message")}
+          render={(record: any) =>
+            record.message
+              ? record.message.length > 60
+                ? record.message.slice(0, 60) + "…"
+                : record.message
+              : "—"
+          }
+        />
+        <StatusChip />
+        <DateField source="requestedAt" label={translate("padmakara.approvals.requestedAt")} showTime />
+        <FunctionField
+          label={translate("padmakara.approvals.reviewedBy")}
+          render={(record: any) => (record.reviewedBy ? personName(record.reviewedBy) : "—")}
+        />
+        <AccessRequestActions />
+      </Datagrid>
+    </List>
+  );
+};
@@ -0,0 +1,84 @@
+import {
+  List,
+  Datagrid,
+  DateField,
+  FunctionField,
+  SelectInput,
+  useTranslate,
+} from "react-admin";
+import { Chip } from "@mui/material";
+
+const statusColor: Record<string, "warning" | "success" | "default"> = {
+  pending: "warning",
+  completed: "success",
+  cancelled: "default",
+};
+
+// ─── Filters ──────────────────────────────────────────────────────────────────
+
+const useAccountDeletionFilters = () => {
+  const translate = useTranslate();
+  return [
+    <SelectInput
+      key="status"
+      source="status"
+      label={translate("padmakara.accountDeletions.status")}
+      choices={["pending", "completed", "cancelled"].map((id) => ({
+        id,
+        name: translate(`padmakara.accountDeletions.statuses.${id}`),
+      }))}
+      alwaysOn
+    />,
+  ];
+};
+
+// ─── List ─────────────────────────────────────────────────────────────────────
+
+/** Members' requests to delete their account; pending ones are erased on their scheduled date. */
+export const AccountDeletionList = () => {
+  const translate = useTranslate();
+  const filters = useAccountDeletionFilters();
+  return (
+    <List
+      filters={filters}
+      filterDefaultValues={{ status: "pending" }}
+      sort={{ field: "scheduledFor", order: "ASC" }}
+      perPage={50}
+    >
+      <Datagrid bulkActionButtons={false}>
+        <FunctionField
+          label={translate("padmakara.accountDeletions.member")}
+          render={(record: any) =>
+            record.user
+              ? [record.user.firstName, record.user.lastName].filter(Boolean).join(" ") || record.user.email
+              : "—"
+          }
+        />
+        <FunctionField
+          label={translate("padmakara.accountDeletions.email")}
+          render={(record: any) => record.user?.email ?? "—"}
+        />
+        <FunctionField
+          label={translate("padmakara.accountDeletions.status")}
+          render={(record: any) => (
+            <Chip
+              label={translate(`padmakara.accountDeletions.statuses.${record.status}`, { _: record.status })}
+              size="small"
+              color={statusColor[record.status] ?? "default"}
+              sx={{ fontWeight: 600 }}
+            />
+          )}
+        />
+        <DateField source="requestedAt" label={translate("padmakara.accountDeletions.requestedAt")} showTime />
+        <DateField source="scheduledFor" label={translate("padmakara.accountDeletions.scheduledFor")} />
+        <FunctionField
+          label={translate("padmakara.accountDeletions.closedAt")}
+          render={(record: any) => {
+            const closed = record.completedAt ?? record.cancelledAt;
+            return closed ? new Date(closed).toLocaleString() : "—";
+          }}
+        />
+      </Datagrid>
+    </List>
+  );
+};
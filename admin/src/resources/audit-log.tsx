@@ -0,0 +1,46 @@
+import {
+  List,
+  Datagrid,
+  TextField,
+  DateField,
+  FunctionField,
+  useTranslate,
+} from "react-admin";
+import { Chip } from "@mui/material";
+
+const personName = (person: any) =>
+  person
+    ? `${person.firstName || ""} ${person.lastName || ""}`.trim() || person.email
+    : "—";
+
+// ─── List ─────────────────────────────────────────────────────────────────────
+
+export const AuditLogList = () => {
+  const translate = useTranslate();
+  return (
+    <List
+      sort={{ field: "createdAt", order: "DESC" }}
+      perPage={50}
+    >
+      <Datagrid bulkActionButtons={false}>
+        <DateField source="createdAt" label={translate("padmakara.auditLog.at")} showTime />
+        <FunctionField
+          label={translate("padmakara.auditLog.admin")}
+          render={(record: any) => personName(record.admin)}
+        />
+        <FunctionField
+          label={translate("padmakara.auditLog.action")}
+          render={(record: any) => (
+            <Chip label={record.action} size="small" variant="outlined" sx={{ fontWeight: 600 }} />
+          )}
+        />
+        <FunctionField
+          label={translate("padmakara.auditLog.targetUser")}
+          render={(record: any) => personName(record.targetUser)}
+        />
+        <TextField source="method" label={translate("padmakara.auditLog.method")} />
+        <TextField source="path" label={translate("padmakara.auditLog.path")} />
+      </Datagrid>
+    </List>
+  );
+};
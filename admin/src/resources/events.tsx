@@ -303,6 +303,7 @@ interface EventFormProps {
   eventFiles: any[];
   onSessionTitleChange: (idx: number, title: string) => void;
   onTrackUpdate?: (trackId: number, updates: Partial<ParsedTrack>) => Promise<void>;
+  onSessionAudienceChange?: (idx: number, audienceId: number | null) => Promise<void>;
   trackCount: number;
   transcriptCount: number;
 }
@@ -350,7 +351,8 @@ const EventFormFields = ({
   selectedEventType, setSelectedEventType,
   selectedAudience, setSelectedAudience,
   allTeachers, allPlaces, allGroups, allEventTypes, allAudiences,
-  sessions, transcripts, eventFiles, onSessionTitleChange, onTrackUpdate, trackCount, transcriptCount,
+  sessions, transcripts, eventFiles, onSessionTitleChange, onTrackUpdate, onSessionAudienceChange,
+  trackCount, transcriptCount,
 }: EventFormProps) => {
   const translate = useTranslate();
   const [locale] = useLocaleState();
@@ -695,7 +697,14 @@ const EventFormFields = ({
           {/* Sessions (with their session-level tracks) */}
           {sessions.length > 0 && (
             <Box sx={{ mb: 3 }}>
-              <SessionPreview sessions={sessions} onSessionTitleChange={onSessionTitleChange} onTrackUpdate={onTrackUpdate} allTeachers={allTeachers} />
+              <SessionPreview
+                sessions={sessions}
+                onSessionTitleChange={onSessionTitleChange}
+                onTrackUpdate={onTrackUpdate}
+                allTeachers={allTeachers}
+                onSessionAudienceChange={onSessionAudienceChange}
+                allAudiences={allAudiences}
+              />
             </Box>
           )}
 
@@ -1026,6 +1035,7 @@ function toInferredSessions(dbSessions: any[]): InferredSession[] {
     date: s.sessionDate || null,
     timePeriod: s.timePeriod || null,
     titleEn: s.titleEn || `Session ${s.sessionNumber}`,
+    audienceId: s.audienceId ?? null,
     tracks: (s.tracks || []).map((t: any) => ({
       id: t.id,
       trackNumber: t.trackNumber,
@@ -1179,6 +1189,25 @@ export const EventEdit = () => {
     [dataProvider, notify, translate]
   );
 
+  const handleSessionAudienceChange = useCallback(
+    async (idx: number, audienceId: number | null) => {
+      const session = sessions[idx];
+      if (!session?.id) return;
+      try {
+        await dataProvider.update("sessions", {
+          id: session.id,
+          data: { audienceId },
+          previousData: {},
+        });
+        setSessions((prev) => prev.map((s, i) => (i === idx ? { ...s, audienceId } : s)));
+        notify(translate("padmakara.events.sessionAudienceUpdated"), { type: "success" });
+      } catch (error: any) {
+        notify(`Error updating session: ${error.message}`, { type: "error" });
+      }
+    },
+    [sessions, dataProvider, notify, translate]
+  );
+
   const handleSave = async () => {
     if (!form.eventCode || !form.titleEn) {
       notify(translate("padmakara.events.codeAndTitleRequired"), { type: "warning" });
@@ -1250,6 +1279,7 @@ export const EventEdit = () => {
         allEventTypes={allEventTypes} allAudiences={allAudiences}
         sessions={sessions} transcripts={event?.transcripts || []} eventFiles={event?.eventFiles || []} onSessionTitleChange={handleSessionTitleChange}
         onTrackUpdate={handleTrackUpdate}
+        onSessionAudienceChange={handleSessionAudienceChange}
         trackCount={trackCount}
         transcriptCount={transcriptCount}
       />
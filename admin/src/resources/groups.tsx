@@ -1,3 +1,4 @@
+import { useState, useEffect, useCallback } from "react";
 import {
   List,
   Edit,
@@ -8,8 +9,44 @@ import {
   useTranslate,
   SaveButton,
   Toolbar,
+  useRecordContext,
+  useNotify,
 } from "react-admin";
+import {
+  Box,
+  Typography,
+  Divider,
+  Chip,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  CircularProgress,
+} from "@mui/material";
 import { SortableList } from "../components/SortableList";
+import {
+  MembershipStatusSelect,
+  membershipStatusColor,
+  type MembershipStatus,
+} from "../components/MembershipStatusSelect";
+
+const API_URL = "/api/admin";
+
+const authFetch = (url: string, options: RequestInit = {}) => {
+  const token = localStorage.getItem("accessToken");
+  return fetch(url, {
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(options.headers || {}),
+    },
+  });
+};
+
+const STATUSES: MembershipStatus[] = ["pending", "confirmed", "lapsed", "removed"];
 
 const NoDeleteToolbar = () => (
   <Toolbar>
@@ -34,6 +71,118 @@ export const GroupList = () => {
   );
 };
 
+// ─── Members ──────────────────────────────────────────────────────────────────
+
+const GroupMembers = () => {
+  const record = useRecordContext();
+  const notify = useNotify();
+  const translate = useTranslate();
+  const [members, setMembers] = useState<any[]>([]);
+  const [filter, setFilter] = useState<MembershipStatus | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<number | null>(null);
+
+  const load = useCallback(() => {
+    if (!record?.id) return;
+    authFetch(`${API_URL}/groups/${record.id}/members`)
+      .then((r) => r.json())
+      .then(setMembers)
+      .catch(() => notify("Failed to load members", { type: "error" }))
+      .finally(() => setLoading(false));
+  }, [record?.id, notify]);
+
+  useEffect(load, [load]);
+
+  const changeStatus = async (userId: number, status: MembershipStatus) => {
+    setBusy(userId);
+    try {
+      const res = await authFetch(`${API_URL}/users/${userId}/groups/${record!.id}`, {
+        method: "PUT",
+        body: JSON.stringify({ status }),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to update membership");
+      }
+      notify(translate("padmakara.membership.updated"), { type: "success" });
+      load();
+    } catch (e: any) {
+      notify(e.message, { type: "error" });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading) return <CircularProgress size={20} />;
+
+  const counts = Object.fromEntries(
+    STATUSES.map((s) => [s, members.filter((m) => m.status === s).length]),
+  );
+  const shown = filter ? members.filter((m) => m.status === filter) : members;
+
+  return (
+    <Box sx={{ width: "100%" }}>
+      <Stack direction="row" spacing={1} sx={{ mb: 1.5 }}>
+        <Chip
+          label={`${translate("padmakara.membership.all")} (${members.length})`}
+          size="small"
+          variant={filter === null ? "filled" : "outlined"}
+          onClick={() => setFilter(null)}
+        />
+        {STATUSES.map((s) => (
+          <Chip
+            key={s}
+            label={`${translate(`padmakara.membership.${s}`)} (${counts[s]})`}
+            size="small"
+            color={membershipStatusColor[s]}
+            variant={filter === s ? "filled" : "outlined"}
+            onClick={() => setFilter(s)}
+          />
+        ))}
+      </Stack>
+      {shown.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          {translate("padmakara.membership.noMembers")}
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{translate("padmakara.fields.email")}</TableCell>
+              <TableCell>{translate("padmakara.membership.status")}</TableCell>
+              <TableCell>{translate("padmakara.membership.joinedAt")}</TableCell>
+              <TableCell>{translate("padmakara.membership.changedAt")}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {shown.map((m) => (
+              <TableRow key={m.userId}>
+                <TableCell>
+                  {`${m.user?.firstName || ""} ${m.user?.lastName || ""}`.trim() || m.user?.email}
+                  <Typography variant="caption" color="text.secondary" sx={{ display: "block" }}>
+                    {m.user?.email}
+                  </Typography>
+                </TableCell>
+                <TableCell>
+                  <MembershipStatusSelect
+                    status={m.status}
+                    disabled={busy === m.userId}
+                    onChange={(status) => changeStatus(m.userId, status)}
+                  />
+                </TableCell>
+                <TableCell>{new Date(m.joinedAt).toLocaleDateString()}</TableCell>
+                <TableCell>
+                  {m.statusChangedAt ? new Date(m.statusChangedAt).toLocaleString() : "—"}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+};
+
 export const GroupEdit = () => {
   const translate = useTranslate();
   return (
@@ -45,6 +194,11 @@ export const GroupEdit = () => {
         <TextInput source="slug" label={translate("padmakara.fields.slug")} validate={required()} />
         <TextInput source="description" label={translate("padmakara.fields.description")} multiline />
         <TextInput source="logoUrl" label={translate("padmakara.fields.logoUrl")} />
+        <Divider sx={{ width: "100%", my: 2 }} />
+        <Typography variant="subtitle1" sx={{ fontWeight: 700, mb: 1 }}>
+          {translate("padmakara.membership.members")}
+        </Typography>
+        <GroupMembers />
       </SimpleForm>
     </Edit>
   );
@@ -0,0 +1,76 @@
+import {
+  List,
+  Datagrid,
+  TextField,
+  DateField,
+  FunctionField,
+  SelectInput,
+  useTranslate,
+} from "react-admin";
+import { Chip } from "@mui/material";
+
+const statusColor: Record<string, "success" | "info" | "error" | "default"> = {
+  running: "info",
+  succeeded: "success",
+  failed: "error",
+};
+
+const formatResult = (result: Record<string, unknown> | null) =>
+  result
+    ? Object.entries(result)
+        .map(([key, value]) => `${key}: ${value}`)
+        .join(", ")
+    : "—";
+
+// ─── Filters ──────────────────────────────────────────────────────────────────
+
+const useJobRunFilters = () => {
+  const translate = useTranslate();
+  return [
+    <SelectInput
+      key="status"
+      source="status"
+      label={translate("padmakara.jobRuns.status")}
+      choices={["running", "succeeded", "failed"].map((id) => ({
+        id,
+        name: translate(`padmakara.jobRuns.statuses.${id}`),
+      }))}
+      alwaysOn
+    />,
+  ];
+};
+
+// ─── List ─────────────────────────────────────────────────────────────────────
+
+export const JobRunList = () => {
+  const translate = useTranslate();
+  const filters = useJobRunFilters();
+  return (
+    <List
+      filters={filters}
+      sort={{ field: "startedAt", order: "DESC" }}
+      perPage={50}
+    >
+      <Datagrid bulkActionButtons={false}>
+        <DateField source="startedAt" label={translate("padmakara.jobRuns.startedAt")} showTime />
+        <TextField source="job" label={translate("padmakara.jobRuns.job")} />
+        <FunctionField
+          label={translate("padmakara.jobRuns.status")}
+          render={(record: any) => (
+            <Chip
+              label={translate(`padmakara.jobRuns.statuses.${record.status}`, { _: record.status })}
+              size="small"
+              color={statusColor[record.status] ?? "default"}
+              sx={{ fontWeight: 600 }}
+            />
+          )}
+        />
+        <FunctionField
+          label={translate("padmakara.jobRuns.result")}
+          render={(record: any) => record.error || formatResult(record.result)}
+        />
+        <DateField source="finishedAt" label={translate("padmakara.jobRuns.finishedAt")} showTime emptyText="—" />
+      </Datagrid>
+    </List>
+  );
+};
@@ -0,0 +1,213 @@
+import { useState, useEffect } from "react";
+import {
+  List,
+  Datagrid,
+  TextField,
+  DateField,
+  FunctionField,
+  ReferenceInput,
+  AutocompleteInput,
+  SelectInput,
+  DateInput,
+  TextInput,
+  useTranslate,
+  useListContext,
+} from "react-admin";
+import {
+  Chip,
+  Card,
+  CardContent,
+  Typography,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Stack,
+} from "@mui/material";
+
+const API_URL = "/api/admin";
+
+const authFetch = (url: string, options: RequestInit = {}) => {
+  const token = localStorage.getItem("accessToken");
+  return fetch(url, {
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(options.headers || {}),
+    },
+  });
+};
+
+const personName = (person: any) =>
+  person
+    ? `${person.firstName || ""} ${person.lastName || ""}`.trim() || person.email
+    : null;
+
+// ─── Filters ──────────────────────────────────────────────────────────────────
+
+const useMediaAccessFilters = () => {
+  const translate = useTranslate();
+  return [
+    <ReferenceInput key="user" source="userId" reference="users" alwaysOn>
+      <AutocompleteInput optionText="email" label={translate("padmakara.mediaAccess.user")} />
+    </ReferenceInput>,
+    <ReferenceInput key="event" source="eventId" reference="events" alwaysOn>
+      <AutocompleteInput optionText="eventCode" label={translate("padmakara.mediaAccess.event")} />
+    </ReferenceInput>,
+    <SelectInput
+      key="resourceType"
+      source="resourceType"
+      label={translate("padmakara.mediaAccess.resourceType")}
+      choices={[
+        { id: "audio", name: translate("padmakara.mediaAccess.audio") },
+        { id: "transcript", name: translate("padmakara.mediaAccess.transcript") },
+        { id: "zip", name: translate("padmakara.mediaAccess.zip") },
+      ]}
+    />,
+    <DateInput key="from" source="from" label={translate("padmakara.mediaAccess.from")} />,
+    <DateInput key="to" source="to" label={translate("padmakara.mediaAccess.to")} />,
+    <TextInput key="ipAddress" source="ipAddress" label={translate("padmakara.mediaAccess.ipAddress")} />,
+    <TextInput key="device" source="deviceFingerprint" label={translate("padmakara.mediaAccess.device")} />,
+  ];
+};
+
+// ─── Summary Panel ────────────────────────────────────────────────────────────
+
+/** Top users and events for whatever filters are currently applied to the list */
+const MediaAccessSummary = () => {
+  const translate = useTranslate();
+  const { filterValues } = useListContext();
+  const [byUser, setByUser] = useState<any[]>([]);
+  const [byEvent, setByEvent] = useState<any[]>([]);
+  const query = new URLSearchParams({
+    ...Object.fromEntries(
+      Object.entries(filterValues || {}).filter(([, v]) => v !== undefined && v !== ""),
+    ),
+    limit: "10",
+  }).toString();
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      authFetch(`${API_URL}/media-access/summary/users?${query}`).then((r) => (r.ok ? r.json() : [])),
+      authFetch(`${API_URL}/media-access/summary/events?${query}`).then((r) => (r.ok ? r.json() : [])),
+    ])
+      .then(([users, events]) => {
+        if (cancelled) return;
+        setByUser(users);
+        setByEvent(events);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [query]);
+
+  return (
+    <Stack spacing={2} sx={{ width: 360, ml: 2, flexShrink: 0 }}>
+      <Card variant="outlined">
+        <CardContent>
+          <Typography variant="subtitle2" sx={{ fontWeight: 700, mb: 1 }}>
+            {translate("padmakara.mediaAccess.topUsers")}
+          </Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{translate("padmakara.mediaAccess.user")}</TableCell>
+                <TableCell align="right">{translate("padmakara.mediaAccess.total")}</TableCell>
+                <TableCell align="right">{translate("padmakara.mediaAccess.devices")}</TableCell>
+                <TableCell align="right">{translate("padmakara.mediaAccess.ips")}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {byUser.map((row) => (
+                <TableRow key={row.userId ?? "anonymous"}>
+                  <TableCell sx={{ maxWidth: 150, overflow: "hidden", textOverflow: "ellipsis" }}>
+                    {row.email ?? translate("padmakara.mediaAccess.anonymous")}
+                  </TableCell>
+                  <TableCell align="right">{row.total}</TableCell>
+                  <TableCell align="right">{row.devices}</TableCell>
+                  <TableCell align="right">{row.ipAddresses}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+      <Card variant="outlined">
+        <CardContent>
+          <Typography variant="subtitle2" sx={{ fontWeight: 700, mb: 1 }}>
+            {translate("padmakara.mediaAccess.topEvents")}
+          </Typography>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{translate("padmakara.mediaAccess.event")}</TableCell>
+                <TableCell align="right">{translate("padmakara.mediaAccess.total")}</TableCell>
+                <TableCell align="right">{translate("padmakara.mediaAccess.users")}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {byEvent.map((row) => (
+                <TableRow key={row.eventId ?? "none"}>
+                  <TableCell sx={{ maxWidth: 180, overflow: "hidden", textOverflow: "ellipsis" }}>
+                    {row.eventCode ? `${row.eventCode} — ${row.titleEn}` : "—"}
+                  </TableCell>
+                  <TableCell align="right">{row.total}</TableCell>
+                  <TableCell align="right">{row.users}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </Stack>
+  );
+};
+
+// ─── List ─────────────────────────────────────────────────────────────────────
+
+export const MediaAccessList = () => {
+  const translate = useTranslate();
+  const filters = useMediaAccessFilters();
+  return (
+    <List
+      filters={filters}
+      sort={{ field: "accessedAt", order: "DESC" }}
+      perPage={50}
+      aside={<MediaAccessSummary />}
+    >
+      <Datagrid bulkActionButtons={false}>
+        <DateField source="accessedAt" label={translate("padmakara.mediaAccess.at")} showTime />
+        <FunctionField
+          label={translate("padmakara.mediaAccess.user")}
+          render={(record: any) =>
+            personName(record.user) ?? translate("padmakara.mediaAccess.anonymous")
+          }
+        />
+        <FunctionField
+          label={translate("padmakara.mediaAccess.event")}
+          render={(record: any) =>
+            record.event ? `${record.event.eventCode} — ${record.event.titleEn}` : "—"
+          }
+        />
+        <FunctionField
+          label={translate("padmakara.mediaAccess.resourceType")}
+          render={(record: any) => (
+            <Chip
+              label={translate(`padmakara.mediaAccess.${record.resourceType}`)}
+              size="small"
+              variant="outlined"
+              sx={{ fontWeight: 600 }}
+            />
+          )}
+        />
+        <TextField source="resourceId" label={translate("padmakara.mediaAccess.resourceId")} />
+        <TextField source="deviceFingerprint" label={translate("padmakara.mediaAccess.device")} emptyText="—" />
+        <TextField source="ipAddress" label={translate("padmakara.mediaAccess.ipAddress")} emptyText="—" />
+      </Datagrid>
+    </List>
+  );
+};
@@ -0,0 +1,232 @@
+import { useState } from "react";
+import {
+  List,
+  Datagrid,
+  TextField,
+  DateField,
+  FunctionField,
+  Create,
+  SimpleForm,
+  TextInput,
+  NumberInput,
+  BooleanInput,
+  DateInput,
+  SelectInput,
+  ReferenceInput,
+  AutocompleteInput,
+  required,
+  minValue,
+  useTranslate,
+  useRefresh,
+  useNotify,
+  useRecordContext,
+} from "react-admin";
+import { Stack, IconButton, Tooltip, Typography } from "@mui/material";
+import PictureAsPdfIcon from "@mui/icons-material/PictureAsPdf";
+import ForwardToInboxIcon from "@mui/icons-material/ForwardToInbox";
+import { formatAmount } from "./subscription-ledger";
+
+const API_URL = "/api/admin";
+
+const authFetch = (url: string, options: RequestInit = {}) => {
+  const token = localStorage.getItem("accessToken");
+  return fetch(url, {
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(options.headers || {}),
+    },
+  });
+};
+
+const useMethodChoices = () => {
+  const translate = useTranslate();
+  return ["cash", "bank_transfer"].map((id) => ({
+    id,
+    name: translate(`padmakara.payments.methods.${id}`),
+  }));
+};
+
+// ─── Receipt actions ──────────────────────────────────────────────────────────
+
+const ReceiptActions = () => {
+  const record = useRecordContext();
+  const refresh = useRefresh();
+  const notify = useNotify();
+  const translate = useTranslate();
+  const [busy, setBusy] = useState(false);
+
+  if (!record) return null;
+
+  const openReceipt = async () => {
+    setBusy(true);
+    try {
+      const res = await authFetch(`${API_URL}/payments/${record.id}/receipt`);
+      if (!res.ok) throw new Error(translate("padmakara.payments.receiptFailed"));
+      const url = URL.createObjectURL(await res.blob());
+      window.open(url, "_blank");
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (e: any) {
+      notify(e.message, { type: "error" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const emailReceipt = async () => {
+    setBusy(true);
+    try {
+      const res = await authFetch(`${API_URL}/payments/${record.id}/send-receipt`, { method: "POST" });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || translate("padmakara.payments.receiptFailed"));
+      }
+      notify(translate("padmakara.payments.receiptSent"), { type: "success" });
+      refresh();
+    } catch (e: any) {
+      notify(e.message, { type: "error" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Stack direction="row" spacing={0.5} onClick={(e) => e.stopPropagation()}>
+      <Tooltip title={translate("padmakara.payments.viewReceipt")}>
+        <span>
+          <IconButton size="small" disabled={busy} onClick={openReceipt}>
+            <PictureAsPdfIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+      <Tooltip title={translate("padmakara.payments.emailReceipt")}>
+        <span>
+          <IconButton size="small" disabled={busy} onClick={emailReceipt}>
+            <ForwardToInboxIcon fontSize="small" />
+          </IconButton>
+        </span>
+      </Tooltip>
+    </Stack>
+  );
+};
+
+// ─── Filters ──────────────────────────────────────────────────────────────────
+
+const usePaymentFilters = () => {
+  const translate = useTranslate();
+  const methods = useMethodChoices();
+  return [
+    <ReferenceInput key="user" source="userId" reference="users" alwaysOn>
+      <AutocompleteInput optionText="email" label={translate("padmakara.payments.member")} />
+    </ReferenceInput>,
+    <TextInput key="receiptNumber" source="receiptNumber" label={translate("padmakara.payments.receiptNumber")} alwaysOn />,
+    <SelectInput key="method" source="method" label={translate("padmakara.payments.method")} choices={methods} />,
+    <DateInput key="from" source="from" label={translate("padmakara.subscriptionLedger.from")} />,
+    <DateInput key="to" source="to" label={translate("padmakara.subscriptionLedger.to")} />,
+  ];
+};
+
+// ─── List ─────────────────────────────────────────────────────────────────────
+
+export const PaymentList = () => {
+  const translate = useTranslate();
+  const filters = usePaymentFilters();
+  return (
+    <List filters={filters} sort={{ field: "createdAt", order: "DESC" }} perPage={50}>
+      <Datagrid bulkActionButtons={false}>
+        <TextField source="receiptNumber" label={translate("padmakara.payments.receiptNumber")} sx={{ fontFamily: "monospace" }} />
+        <FunctionField
+          label={translate("padmakara.payments.member")}
+          render={(record: any) => (
+            <>
+              {record.payerName}
+              <Typography variant="caption" color="text.secondary" display="block">
+                {record.payerEmail}
+              </Typography>
+            </>
+          )}
+        />
+        <FunctionField
+          source="amountCents"
+          label={translate("padmakara.payments.amount")}
+          render={(record: any) => formatAmount(record.amountCents, record.currency)}
+        />
+        <FunctionField
+          source="method"
+          label={translate("padmakara.payments.method")}
+          render={(record: any) => translate(`padmakara.payments.methods.${record.method}`, { _: record.method })}
+        />
+        <DateField source="paidAt" label={translate("padmakara.payments.paidAt")} />
+        <FunctionField
+          source="periodEnd"
+          label={translate("padmakara.payments.period")}
+          render={(record: any) =>
+            `${new Date(record.periodStart).toLocaleDateString()} – ${new Date(record.periodEnd).toLocaleDateString()}`
+          }
+        />
+        <TextField source="reference" label={translate("padmakara.payments.reference")} emptyText="—" />
+        <DateField source="receiptSentAt" label={translate("padmakara.payments.receiptSentAt")} emptyText="—" />
+        <ReceiptActions />
+      </Datagrid>
+    </List>
+  );
+};
+
+// ─── Create ───────────────────────────────────────────────────────────────────
+
+export const PaymentCreate = () => {
+  const translate = useTranslate();
+  const methods = useMethodChoices();
+  return (
+    <Create redirect="list">
+      <SimpleForm
+        defaultValues={{
+          method: "cash",
+          currency: "EUR",
+          paidAt: new Date().toISOString().slice(0, 10),
+          months: 1,
+          sendReceipt: true,
+        }}
+      >
+        <ReferenceInput source="userId" reference="users">
+          <AutocompleteInput
+            optionText="email"
+            label={translate("padmakara.payments.member")}
+            validate={required()}
+          />
+        </ReferenceInput>
+        <NumberInput
+          source="amountCents"
+          label={translate("padmakara.payments.amount")}
+          helperText={translate("padmakara.payments.amountHelp")}
+          format={(cents?: number) => (cents == null ? "" : cents / 100)}
+          parse={(value: string) => (value === "" ? null : Math.round(parseFloat(value) * 100))}
+          validate={[required(), minValue(1)]}
+        />
+        <TextInput source="currency" label={translate("padmakara.plans.currency")} validate={required()} />
+        <SelectInput source="method" label={translate("padmakara.payments.method")} choices={methods} validate={required()} />
+        <DateInput source="paidAt" label={translate("padmakara.payments.paidAt")} validate={required()} />
+        <NumberInput
+          source="months"
+          label={translate("padmakara.payments.months")}
+          helperText={translate("padmakara.payments.monthsHelp")}
+          validate={minValue(1)}
+        />
+        <DateInput
+          source="periodStart"
+          label={translate("padmakara.payments.periodStart")}
+          helperText={translate("padmakara.payments.periodStartHelp")}
+        />
+        <DateInput
+          source="periodEnd"
+          label={translate("padmakara.payments.periodEnd")}
+          helperText={translate("padmakara.payments.periodEndHelp")}
+        />
+        <TextInput source="reference" label={translate("padmakara.payments.reference")} />
+        <TextInput source="note" label={translate("padmakara.payments.note")} multiline fullWidth />
+        <BooleanInput source="sendReceipt" label={translate("padmakara.payments.sendReceipt")} />
+      </SimpleForm>
+    </Create>
+  );
+};
@@ -0,0 +1,105 @@
+import {
+  List,
+  Datagrid,
+  TextField,
+  NumberField,
+  BooleanField,
+  FunctionField,
+  EditButton,
+  Edit,
+  Create,
+  SimpleForm,
+  TextInput,
+  NumberInput,
+  SelectInput,
+  BooleanInput,
+  required,
+  minValue,
+  useTranslate,
+} from "react-admin";
+import { formatAmount } from "./subscription-ledger";
+
+const FREQUENCIES = ["1M", "3M", "6M", "1Y"];
+
+const useFrequencyChoices = () => {
+  const translate = useTranslate();
+  return FREQUENCIES.map((id) => ({ id, name: translate(`padmakara.plans.frequencies.${id}`) }));
+};
+
+// ─── List ─────────────────────────────────────────────────────────────────────
+
+export const PlanList = () => {
+  const translate = useTranslate();
+  return (
+    <List sort={{ field: "displayOrder", order: "ASC" }} perPage={50}>
+      <Datagrid rowClick="edit" bulkActionButtons={false}>
+        <TextField source="nameEn" label={translate("padmakara.fields.nameEn")} />
+        <TextField source="namePt" label={translate("padmakara.fields.namePt")} />
+        <FunctionField
+          source="priceCents"
+          label={translate("padmakara.plans.price")}
+          render={(record: any) => formatAmount(record.priceCents, record.currency)}
+        />
+        <FunctionField
+          source="frequency"
+          label={translate("padmakara.plans.frequency")}
+          render={(record: any) =>
+            translate(`padmakara.plans.frequencies.${record.frequency}`, { _: record.frequency })
+          }
+        />
+        <BooleanField source="isActive" label={translate("padmakara.fields.isActive")} />
+        <NumberField source="displayOrder" label={translate("padmakara.fields.displayOrder")} />
+        <EditButton />
+      </Datagrid>
+    </List>
+  );
+};
+
+// ─── Form ─────────────────────────────────────────────────────────────────────
+
+const PlanForm = () => {
+  const translate = useTranslate();
+  const frequencies = useFrequencyChoices();
+  return (
+    <SimpleForm>
+      <TextInput source="nameEn" label={translate("padmakara.fields.nameEn")} validate={required()} />
+      <TextInput source="namePt" label={translate("padmakara.fields.namePt")} />
+      <TextInput source="slug" label={translate("padmakara.fields.slug")} validate={required()} />
+      <TextInput source="descriptionEn" label={translate("padmakara.plans.descriptionEn")} multiline fullWidth />
+      <TextInput source="descriptionPt" label={translate("padmakara.plans.descriptionPt")} multiline fullWidth />
+      <NumberInput
+        source="priceCents"
+        label={translate("padmakara.plans.priceCents")}
+        helperText={translate("padmakara.plans.priceCentsHelp")}
+        validate={[required(), minValue(1)]}
+      />
+      <TextInput source="currency" label={translate("padmakara.plans.currency")} defaultValue="EUR" />
+      <SelectInput
+        source="frequency"
+        label={translate("padmakara.plans.frequency")}
+        choices={frequencies}
+        defaultValue="1M"
+        validate={required()}
+      />
+      <BooleanInput
+        source="isActive"
+        label={translate("padmakara.fields.isActive")}
+        helperText={translate("padmakara.plans.isActiveHelp")}
+        defaultValue={true}
+      />
+      <NumberInput source="displayOrder" label={translate("padmakara.fields.displayOrder")} defaultValue={0} />
+    </SimpleForm>
+  );
+};
+
+export const PlanEdit = () => (
+  <Edit mutationMode="pessimistic">
+    <PlanForm />
+  </Edit>
+);
+
+export const PlanCreate = () => (
+  <Create redirect="list">
+    <PlanForm />
+  </Create>
+);
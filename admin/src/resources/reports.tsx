@@ -0,0 +1,410 @@
+import { useCallback, useEffect, useState } from "react";
+import { Title, useTranslate, useNotify } from "react-admin";
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Grid,
+  MenuItem,
+  Stack,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  TextField as MuiTextField,
+  Typography,
+} from "@mui/material";
+import DownloadIcon from "@mui/icons-material/Download";
+import { formatAmount } from "./subscription-ledger";
+
+const API_URL = "/api/admin";
+
+const authFetch = (url: string, options: RequestInit = {}) => {
+  const token = localStorage.getItem("accessToken");
+  return fetch(url, {
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(options.headers || {}),
+    },
+  });
+};
+
+const monthKey = (date: Date) => date.toISOString().slice(0, 7);
+
+const defaultRange = () => {
+  const now = new Date();
+  const from = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 11, 1));
+  return { from: monthKey(from), to: monthKey(now) };
+};
+
+/** Fetch a report as JSON whenever its query changes. */
+const useReport = <T,>(path: string, query: Record<string, string | number>) => {
+  const [rows, setRows] = useState<T[] | null>(null);
+  const qs = new URLSearchParams(Object.entries(query).map(([k, v]) => [k, String(v)])).toString();
+
+  useEffect(() => {
+    setRows(null);
+    authFetch(`${API_URL}/reports/${path}?${qs}`)
+      .then((r) => (r.ok ? r.json() : []))
+      .then(setRows)
+      .catch(() => setRows([]));
+  }, [path, qs]);
+
+  return rows;
+};
+
+// ─── CSV export ───────────────────────────────────────────────────────────────
+
+const CsvButton = ({ path, query }: { path: string; query: Record<string, string | number> }) => {
+  const translate = useTranslate();
+  const notify = useNotify();
+
+  const download = useCallback(async () => {
+    const qs = new URLSearchParams({
+      ...Object.fromEntries(Object.entries(query).map(([k, v]) => [k, String(v)])),
+      format: "csv",
+    });
+    try {
+      const res = await authFetch(`${API_URL}/reports/${path}?${qs}`);
+      if (!res.ok) throw new Error(translate("padmakara.reports.exportFailed"));
+      const filename =
+        /filename="([^"]+)"/.exec(res.headers.get("Content-Disposition") ?? "")?.[1] ?? `${path}.csv`;
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e: any) {
+      notify(e.message, { type: "error" });
+    }
+  }, [path, query, translate, notify]);
+
+  return (
+    <Button size="small" startIcon={<DownloadIcon />} onClick={download} sx={{ textTransform: "none" }}>
+      {translate("padmakara.reports.exportCsv")}
+    </Button>
+  );
+};
+
+const Section = ({
+  title,
+  actions,
+  children,
+}: {
+  title: string;
+  actions?: React.ReactNode;
+  children: React.ReactNode;
+}) => (
+  <Card sx={{ height: "100%" }}>
+    <CardContent>
+      <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 1 }}>
+        <Typography variant="subtitle1" sx={{ fontWeight: 600 }}>
+          {title}
+        </Typography>
+        <Stack direction="row" spacing={1} alignItems="center">
+          {actions}
+        </Stack>
+      </Stack>
+      {children}
+    </CardContent>
+  </Card>
+);
+
+const Empty = ({ rows }: { rows: unknown[] | null }) => {
+  const translate = useTranslate();
+  return (
+    <Typography variant="body2" color="text.secondary">
+      {translate(rows === null ? "padmakara.reports.loading" : "padmakara.reports.empty")}
+    </Typography>
+  );
+};
+
+/** A proportional bar, so trends read at a glance without a chart library. */
+const Bar = ({ value, max, color = "primary.main" }: { value: number; max: number; color?: string }) => (
+  <Box sx={{ bgcolor: "action.hover", borderRadius: 1, height: 8, minWidth: 80 }}>
+    <Box
+      sx={{
+        bgcolor: color,
+        borderRadius: 1,
+        height: 8,
+        width: `${max > 0 ? Math.round((value / max) * 100) : 0}%`,
+      }}
+    />
+  </Box>
+);
+
+// ─── Subscribers over time ────────────────────────────────────────────────────
+
+const SubscribersReport = ({ range }: { range: { from: string; to: string } }) => {
+  const translate = useTranslate();
+  const rows = useReport<any>("subscribers", range);
+  const max = Math.max(0, ...(rows ?? []).map((r) => r.active));
+
+  return (
+    <Section
+      title={translate("padmakara.reports.subscribers")}
+      actions={<CsvButton path="subscribers" query={range} />}
+    >
+      {!rows || rows.length === 0 ? (
+        <Empty rows={rows} />
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{translate("padmakara.reports.month")}</TableCell>
+              <TableCell align="right">{translate("padmakara.reports.active")}</TableCell>
+              <TableCell sx={{ width: "40%" }} />
+              <TableCell align="right">{translate("padmakara.reports.new")}</TableCell>
+              <TableCell align="right">{translate("padmakara.reports.churned")}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.month}>
+                <TableCell>{row.month}</TableCell>
+                <TableCell align="right">{row.active}</TableCell>
+                <TableCell>
+                  <Bar value={row.active} max={max} />
+                </TableCell>
+                <TableCell align="right" sx={{ color: "success.main" }}>
+                  {row.new > 0 ? `+${row.new}` : 0}
+                </TableCell>
+                <TableCell align="right" sx={{ color: row.churned > 0 ? "error.main" : undefined }}>
+                  {row.churned > 0 ? `−${row.churned}` : 0}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Section>
+  );
+};
+
+// ─── Split by source ──────────────────────────────────────────────────────────
+
+const SourcesReport = () => {
+  const translate = useTranslate();
+  const rows = useReport<any>("sources", {});
+  const total = (rows ?? []).reduce((sum, r) => sum + r.total, 0);
+
+  return (
+    <Section title={translate("padmakara.reports.sources")} actions={<CsvButton path="sources" query={{}} />}>
+      {!rows || rows.length === 0 ? (
+        <Empty rows={rows} />
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{translate("padmakara.reports.source")}</TableCell>
+              <TableCell align="right">{translate("padmakara.reports.active")}</TableCell>
+              <TableCell align="right">{translate("padmakara.reports.pastDue")}</TableCell>
+              <TableCell sx={{ width: "35%" }} />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.source}>
+                <TableCell>{translate(`padmakara.reports.sourceNames.${row.source}`, { _: row.source })}</TableCell>
+                <TableCell align="right">{row.active}</TableCell>
+                <TableCell align="right">{row.pastDue}</TableCell>
+                <TableCell>
+                  <Bar value={row.total} max={total} color="secondary.main" />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Section>
+  );
+};
+
+// ─── Upcoming expiries ────────────────────────────────────────────────────────
+
+const ExpiriesReport = () => {
+  const translate = useTranslate();
+  const [days, setDays] = useState(30);
+  const query = { days };
+  const rows = useReport<any>("expiries", query);
+
+  return (
+    <Section
+      title={translate("padmakara.reports.expiries")}
+      actions={
+        <>
+          <MuiTextField
+            select
+            size="small"
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            sx={{ minWidth: 140 }}
+          >
+            {[7, 30, 90].map((d) => (
+              <MenuItem key={d} value={d}>
+                {translate("padmakara.reports.nextDays", { smart_count: d })}
+              </MenuItem>
+            ))}
+          </MuiTextField>
+          <CsvButton path="expiries" query={query} />
+        </>
+      }
+    >
+      {!rows || rows.length === 0 ? (
+        <Empty rows={rows} />
+      ) : (
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{translate("padmakara.reports.endsAt")}</TableCell>
+              <TableCell>{translate("padmakara.reports.member")}</TableCell>
+              <TableCell>{translate("padmakara.reports.source")}</TableCell>
+              <TableCell>{translate("padmakara.reports.plan")}</TableCell>
+              <TableCell />
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.subscriptionId}>
+                <TableCell>{new Date(row.endsAt).toLocaleDateString()}</TableCell>
+                <TableCell>
+                  {row.name}
+                  <Typography variant="caption" color="text.secondary" display="block">
+                    {row.email}
+                  </Typography>
+                </TableCell>
+                <TableCell>{translate(`padmakara.reports.sourceNames.${row.source}`, { _: row.source })}</TableCell>
+                <TableCell>{row.plan ?? "—"}</TableCell>
+                <TableCell>
+                  {row.renewsAutomatically ? (
+                    <Chip size="small" variant="outlined" label={translate("padmakara.reports.renewsAutomatically")} />
+                  ) : (
+                    <Chip
+                      size="small"
+                      variant="outlined"
+                      color={row.status === "past_due" ? "error" : "warning"}
+                      label={translate(
+                        row.status === "past_due" ? "padmakara.reports.gracePeriod" : "padmakara.reports.needsRenewal",
+                      )}
+                    />
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Section>
+  );
+};
+
+// ─── Revenue ──────────────────────────────────────────────────────────────────
+
+const RevenueReport = ({ range }: { range: { from: string; to: string } }) => {
+  const translate = useTranslate();
+  const rows = useReport<any>("revenue", range);
+
+  // Totals per plan and currency over the whole range
+  const totals = new Map<string, { plan: string; currency: string; payments: number; amountCents: number }>();
+  for (const row of rows ?? []) {
+    const plan = row.plan ?? translate("padmakara.reports.noPlan");
+    const key = `${plan}|${row.currency}`;
+    const total = totals.get(key) ?? { plan, currency: row.currency, payments: 0, amountCents: 0 };
+    total.payments += row.payments;
+    total.amountCents += row.amountCents;
+    totals.set(key, total);
+  }
+
+  return (
+    <Section title={translate("padmakara.reports.revenue")} actions={<CsvButton path="revenue" query={range} />}>
+      {!rows || rows.length === 0 ? (
+        <Empty rows={rows} />
+      ) : (
+        <>
+          <Stack direction="row" spacing={1} sx={{ mb: 2, flexWrap: "wrap" }}>
+            {[...totals.values()].map((t) => (
+              <Chip
+                key={`${t.plan}|${t.currency}`}
+                label={`${t.plan}: ${formatAmount(t.amountCents, t.currency)} (${t.payments})`}
+                sx={{ fontWeight: 600 }}
+              />
+            ))}
+          </Stack>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>{translate("padmakara.reports.month")}</TableCell>
+                <TableCell>{translate("padmakara.reports.plan")}</TableCell>
+                <TableCell>{translate("padmakara.reports.source")}</TableCell>
+                <TableCell align="right">{translate("padmakara.reports.payments")}</TableCell>
+                <TableCell align="right">{translate("padmakara.reports.amount")}</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={`${row.month}|${row.planId}|${row.provider}|${row.currency}`}>
+                  <TableCell>{row.month}</TableCell>
+                  <TableCell>{row.plan ?? translate("padmakara.reports.noPlan")}</TableCell>
+                  <TableCell>{translate(`padmakara.reports.sourceNames.${row.provider}`, { _: row.provider })}</TableCell>
+                  <TableCell align="right">{row.payments}</TableCell>
+                  <TableCell align="right">{formatAmount(row.amountCents, row.currency)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </Section>
+  );
+};
+
+// ─── Page ─────────────────────────────────────────────────────────────────────
+
+export const ReportsPage = () => {
+  const translate = useTranslate();
+  const [range, setRange] = useState(defaultRange);
+
+  return (
+    <Box sx={{ mt: 2 }}>
+      <Title title={translate("resources.reports.name", { smart_count: 2 })} />
+      <Stack direction="row" spacing={2} sx={{ mb: 2 }}>
+        <MuiTextField
+          type="month"
+          size="small"
+          label={translate("padmakara.reports.from")}
+          value={range.from}
+          onChange={(e) => e.target.value && setRange((r) => ({ ...r, from: e.target.value }))}
+          InputLabelProps={{ shrink: true }}
+        />
+        <MuiTextField
+          type="month"
+          size="small"
+          label={translate("padmakara.reports.to")}
+          value={range.to}
+          onChange={(e) => e.target.value && setRange((r) => ({ ...r, to: e.target.value }))}
+          InputLabelProps={{ shrink: true }}
+        />
+      </Stack>
+      <Grid container spacing={2}>
+        <Grid size={{ xs: 12, lg: 7 }}>
+          <SubscribersReport range={range} />
+        </Grid>
+        <Grid size={{ xs: 12, lg: 5 }}>
+          <SourcesReport />
+        </Grid>
+        <Grid size={12}>
+          <RevenueReport range={range} />
+        </Grid>
+        <Grid size={12}>
+          <ExpiriesReport />
+        </Grid>
+      </Grid>
+    </Box>
+  );
+};
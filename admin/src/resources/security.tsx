@@ -0,0 +1,250 @@
+import { useCallback, useEffect, useState } from "react";
+import { Title, useTranslate, useNotify, useLogout } from "react-admin";
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  TextField as MuiTextField,
+  Typography,
+} from "@mui/material";
+import { BackupCodes } from "../components/BackupCodes";
+
+const API_URL = "/api/auth";
+
+const authFetch = (url: string, options: RequestInit = {}) => {
+  const token = localStorage.getItem("accessToken");
+  return fetch(url, {
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(options.headers || {}),
+    },
+  });
+};
+
+async function post(path: string, body: unknown = {}) {
+  const res = await authFetch(`${API_URL}${path}`, { method: "POST", body: JSON.stringify(body) });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || "Request failed");
+  return data;
+}
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  backupCodesRemaining: number;
+}
+
+/** Ends every session of the signed-in admin, this one included. */
+function SignOutEverywhere() {
+  const translate = useTranslate();
+  const notify = useNotify();
+  const logout = useLogout();
+  const [confirming, setConfirming] = useState(false);
+  const [busy, setBusy] = useState(false);
+
+  const signOut = async () => {
+    setBusy(true);
+    try {
+      await post("/logout-everywhere");
+      logout();
+    } catch (e: any) {
+      notify(e.message, { type: "error" });
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card variant="outlined" sx={{ mt: 2 }}>
+      <CardContent>
+        <Stack spacing={2}>
+          <Typography variant="subtitle1" fontWeight={600}>
+            {translate("padmakara.sessions.title")}
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {translate("padmakara.sessions.description")}
+          </Typography>
+          <Box>
+            <Button color="error" variant="outlined" onClick={() => setConfirming(true)}>
+              {translate("padmakara.sessions.signOutEverywhere")}
+            </Button>
+          </Box>
+        </Stack>
+      </CardContent>
+      <Dialog open={confirming} onClose={() => setConfirming(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>{translate("padmakara.sessions.signOutEverywhere")}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2">{translate("padmakara.sessions.confirmSelf")}</Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirming(false)} disabled={busy}>
+            {translate("ra.action.cancel")}
+          </Button>
+          <Button onClick={signOut} color="error" variant="contained" disabled={busy}>
+            {busy ? <CircularProgress size={16} color="inherit" /> : translate("padmakara.sessions.signOutEverywhere")}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Card>
+  );
+}
+
+/** Two-factor settings for the signed-in admin: set up, new backup codes, turn off. */
+export const SecurityPage = () => {
+  const translate = useTranslate();
+  const notify = useNotify();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<{ qrCode: string; secret: string } | null>(null);
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const load = useCallback(() => {
+    authFetch(`${API_URL}/2fa`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then(setStatus)
+      .catch(() => setStatus(null));
+  }, []);
+
+  useEffect(load, [load]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      setCode("");
+      load();
+    } catch (e: any) {
+      notify(e.message, { type: "error" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const start = () =>
+    run(async () => {
+      setBackupCodes(null);
+      setSetup(await post("/2fa/setup"));
+    });
+
+  const enable = () =>
+    run(async () => {
+      const data = await post("/2fa/enable", { code });
+      setSetup(null);
+      setBackupCodes(data.backupCodes);
+      notify(translate("padmakara.twoFactor.enabled"), { type: "success" });
+    });
+
+  const regenerate = () =>
+    run(async () => {
+      const data = await post("/2fa/backup-codes", { code });
+      setBackupCodes(data.backupCodes);
+    });
+
+  const disable = () =>
+    run(async () => {
+      await post("/2fa/disable", { code });
+      setBackupCodes(null);
+      notify(translate("padmakara.twoFactor.disabled"), { type: "success" });
+    });
+
+  const codeField = (
+    <MuiTextField
+      size="small"
+      label={translate("padmakara.twoFactor.code")}
+      value={code}
+      onChange={(e) => setCode(e.target.value)}
+      autoComplete="one-time-code"
+      sx={{ width: 200 }}
+    />
+  );
+
+  return (
+    <Box sx={{ maxWidth: 640 }}>
+      <Title title={translate("padmakara.twoFactor.title")} />
+      <Card variant="outlined">
+        <CardContent>
+          {status === null ? (
+            <CircularProgress size={24} />
+          ) : (
+            <Stack spacing={2}>
+              <Stack direction="row" spacing={1} alignItems="center">
+                <Typography variant="subtitle1" fontWeight={600}>
+                  {translate("padmakara.twoFactor.title")}
+                </Typography>
+                <Chip
+                  size="small"
+                  color={status.enabled ? "success" : "default"}
+                  label={translate(status.enabled ? "padmakara.twoFactor.on" : "padmakara.twoFactor.off")}
+                />
+                {status.required && (
+                  <Chip size="small" variant="outlined" label={translate("padmakara.twoFactor.requiredForRole")} />
+                )}
+              </Stack>
+              <Typography variant="body2" color="text.secondary">
+                {translate("padmakara.twoFactor.description")}
+              </Typography>
+
+              {backupCodes && <BackupCodes codes={backupCodes} />}
+
+              {!status.enabled && !setup && (
+                <Box>
+                  <Button variant="contained" onClick={start} disabled={busy}>
+                    {translate("padmakara.twoFactor.setUp")}
+                  </Button>
+                </Box>
+              )}
+
+              {!status.enabled && setup && (
+                <Stack spacing={1.5}>
+                  <Typography variant="body2">{translate("padmakara.twoFactor.scan")}</Typography>
+                  <Box component="img" src={setup.qrCode} alt="" sx={{ width: 200, height: 200 }} />
+                  <Typography variant="caption" sx={{ fontFamily: "monospace" }}>
+                    {setup.secret}
+                  </Typography>
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    {codeField}
+                    <Button variant="contained" onClick={enable} disabled={busy || !code.trim()}>
+                      {translate("padmakara.twoFactor.confirm")}
+                    </Button>
+                  </Stack>
+                </Stack>
+              )}
+
+              {status.enabled && (
+                <Stack spacing={1.5}>
+                  <Typography variant="body2">
+                    {translate("padmakara.twoFactor.backupCodesRemaining", {
+                      smart_count: status.backupCodesRemaining,
+                    })}
+                  </Typography>
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    {codeField}
+                    <Button variant="outlined" onClick={regenerate} disabled={busy || !code.trim()}>
+                      {translate("padmakara.twoFactor.regenerate")}
+                    </Button>
+                    {!status.required && (
+                      <Button color="error" onClick={disable} disabled={busy || !code.trim()}>
+                        {translate("padmakara.twoFactor.disable")}
+                      </Button>
+                    )}
+                  </Stack>
+                </Stack>
+              )}
+            </Stack>
+          )}
+        </CardContent>
+      </Card>
+      <SignOutEverywhere />
+    </Box>
+  );
+};
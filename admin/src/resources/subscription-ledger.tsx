@@ -0,0 +1,118 @@
+import {
+  List,
+  Datagrid,
+  TextField,
+  DateField,
+  FunctionField,
+  ReferenceInput,
+  AutocompleteInput,
+  SelectInput,
+  DateInput,
+  useTranslate,
+} from "react-admin";
+import { Chip } from "@mui/material";
+
+const personName = (person: any) =>
+  person
+    ? `${person.firstName || ""} ${person.lastName || ""}`.trim() || person.email
+    : "—";
+
+export const formatAmount = (cents: number | null | undefined, currency = "EUR") =>
+  cents == null
+    ? "—"
+    : new Intl.NumberFormat(undefined, { style: "currency", currency }).format(cents / 100);
+
+const typeColor: Record<string, "success" | "info" | "error" | "warning" | "default"> = {
+  activation: "success",
+  renewal: "info",
+  charge_failed: "error",
+  past_due: "warning",
+  cancellation: "warning",
+  expiry: "default",
+  adjustment: "default",
+};
+
+export const LedgerTypeChip = ({ type }: { type: string }) => {
+  const translate = useTranslate();
+  return (
+    <Chip
+      label={translate(`padmakara.subscriptionLedger.types.${type}`, { _: type })}
+      size="small"
+      color={typeColor[type] ?? "default"}
+      variant="outlined"
+      sx={{ fontWeight: 600 }}
+    />
+  );
+};
+
+// ─── Filters ──────────────────────────────────────────────────────────────────
+
+const useLedgerFilters = () => {
+  const translate = useTranslate();
+  return [
+    <ReferenceInput key="user" source="userId" reference="users" alwaysOn>
+      <AutocompleteInput optionText="email" label={translate("padmakara.subscriptionLedger.user")} />
+    </ReferenceInput>,
+    <SelectInput
+      key="type"
+      source="type"
+      label={translate("padmakara.subscriptionLedger.type")}
+      choices={["activation", "renewal", "charge_failed", "past_due", "cancellation", "expiry", "adjustment"].map(
+        (id) => ({ id, name: translate(`padmakara.subscriptionLedger.types.${id}`) }),
+      )}
+      alwaysOn
+    />,
+    <SelectInput
+      key="provider"
+      source="provider"
+      label={translate("padmakara.subscriptionLedger.provider")}
+      choices={[
+        { id: "easypay", name: "Easypay" },
+        { id: "cash", name: "Cash" },
+        { id: "admin", name: "Admin" },
+        { id: "bank_transfer", name: "Bank Transfer" },
+        { id: "voucher", name: "Voucher" },
+      ]}
+    />,
+    <DateInput key="from" source="from" label={translate("padmakara.subscriptionLedger.from")} />,
+    <DateInput key="to" source="to" label={translate("padmakara.subscriptionLedger.to")} />,
+  ];
+};
+
+// ─── List ─────────────────────────────────────────────────────────────────────
+
+export const SubscriptionLedgerList = () => {
+  const translate = useTranslate();
+  const filters = useLedgerFilters();
+  return (
+    <List
+      filters={filters}
+      sort={{ field: "occurredAt", order: "DESC" }}
+      perPage={50}
+    >
+      <Datagrid bulkActionButtons={false}>
+        <DateField source="occurredAt" label={translate("padmakara.subscriptionLedger.at")} showTime />
+        <FunctionField
+          label={translate("padmakara.subscriptionLedger.user")}
+          render={(record: any) => personName(record.user)}
+        />
+        <FunctionField
+          label={translate("padmakara.subscriptionLedger.type")}
+          render={(record: any) => <LedgerTypeChip type={record.type} />}
+        />
+        <TextField source="provider" label={translate("padmakara.subscriptionLedger.provider")} />
+        <FunctionField
+          label={translate("padmakara.subscriptionLedger.amount")}
+          render={(record: any) => formatAmount(record.amountCents, record.currency)}
+        />
+        <DateField source="periodEnd" label={translate("padmakara.subscriptionLedger.periodEnd")} emptyText="—" />
+        <TextField source="providerReference" label={translate("padmakara.subscriptionLedger.reference")} emptyText="—" />
+        <TextField source="note" label={translate("padmakara.subscriptionLedger.note")} emptyText="—" />
+        <FunctionField
+          label={translate("padmakara.subscriptionLedger.recordedBy")}
+          render={(record: any) => (record.recordedBy ? personName(record.recordedBy) : "—")}
+        />
+      </Datagrid>
+    </List>
+  );
+};
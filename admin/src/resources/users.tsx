@@ -17,6 +17,7 @@ import {
   useRecordContext,
   useRefresh,
   useNotify,
+  useCanAccess,
 } from "react-admin";
 import {
   Typography,
@@ -36,7 +37,24 @@ import {
   TableSortLabel,
   Chip,
   TableContainer,
+  IconButton,
+  Tooltip,
+  Button,
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  MenuItem,
 } from "@mui/material";
+import EditCalendarIcon from "@mui/icons-material/EditCalendar";
+import VisibilityIcon from "@mui/icons-material/Visibility";
+import DriveFileRenameOutlineIcon from "@mui/icons-material/DriveFileRenameOutline";
+import PhonelinkEraseIcon from "@mui/icons-material/PhonelinkErase";
+import { formatAmount, LedgerTypeChip } from "./subscription-ledger";
+import {
+  MembershipStatusSelect,
+  type MembershipStatus,
+} from "../components/MembershipStatusSelect";
 
 const API_URL = "/api/admin";
 
@@ -73,18 +91,19 @@ export const UserList = () => {
   );
 };
 
-// ─── Group checkboxes ────────────────────────────────────────────────────────
+// ─── Group memberships ───────────────────────────────────────────────────────
 
 function GroupCheckboxes() {
   const record = useRecordContext();
   const refresh = useRefresh();
   const notify = useNotify();
+  const translate = useTranslate();
   const [allGroups, setAllGroups] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [busy, setBusy] = useState<number | null>(null);
 
-  const memberGroupIds = new Set(
-    (record?.groupMemberships || []).map((m: any) => m.retreatGroupId),
+  const memberships = new Map<number, any>(
+    (record?.groupMemberships || []).map((m: any) => [m.retreatGroupId, m]),
   );
 
   useEffect(() => {
@@ -95,31 +114,49 @@ function GroupCheckboxes() {
       .finally(() => setLoading(false));
   }, []);
 
-  const toggle = useCallback(
-    async (groupId: number, checked: boolean) => {
-      if (!record?.id) return;
+  const send = useCallback(
+    async (groupId: number, request: Promise<Response>) => {
       setBusy(groupId);
       try {
-        if (checked) {
-          await authFetch(`${API_URL}/users/${record.id}/groups`, {
-            method: "POST",
-            body: JSON.stringify({ retreatGroupId: groupId }),
-          });
-        } else {
-          await authFetch(`${API_URL}/users/${record.id}/groups/${groupId}`, {
-            method: "DELETE",
-          });
+        const res = await request;
+        if (!res.ok) {
+          const data = await res.json().catch(() => ({}));
+          throw new Error(data.error || "Failed to update group membership");
         }
         refresh();
-      } catch {
-        notify("Failed to update group membership", { type: "error" });
+      } catch (e: any) {
+        notify(e.message, { type: "error" });
       } finally {
         setBusy(null);
       }
     },
-    [record?.id, refresh, notify],
+    [refresh, notify],
   );
 
+  const toggle = (groupId: number, checked: boolean) => {
+    if (!record?.id) return;
+    send(
+      groupId,
+      checked
+        ? authFetch(`${API_URL}/users/${record.id}/groups`, {
+            method: "POST",
+            body: JSON.stringify({ retreatGroupId: groupId }),
+          })
+        : authFetch(`${API_URL}/users/${record.id}/groups/${groupId}`, { method: "DELETE" }),
+    );
+  };
+
+  const changeStatus = (groupId: number, status: MembershipStatus) => {
+    if (!record?.id) return;
+    send(
+      groupId,
+      authFetch(`${API_URL}/users/${record.id}/groups/${groupId}`, {
+        method: "PUT",
+        body: JSON.stringify({ status }),
+      }),
+    );
+  };
+
   if (loading) return <CircularProgress size={20} />;
   if (allGroups.length === 0) {
     return <Typography variant="body2" color="text.secondary">No groups defined</Typography>;
@@ -127,24 +164,102 @@ function GroupCheckboxes() {
 
   return (
     <Box sx={{ display: "flex", flexDirection: "column" }}>
-      {allGroups.map((g: any) => (
-        <FormControlLabel
-          key={g.id}
-          control={
-            <Checkbox
-              checked={memberGroupIds.has(g.id)}
-              disabled={busy === g.id}
-              onChange={(_, checked) => toggle(g.id, checked)}
-              size="small"
+      {allGroups.map((g: any) => {
+        const membership = memberships.get(g.id);
+        const isMember = !!membership && membership.status !== "removed";
+        return (
+          <Stack key={g.id} direction="row" alignItems="center" justifyContent="space-between">
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={isMember}
+                  disabled={busy === g.id}
+                  onChange={(_, checked) => toggle(g.id, checked)}
+                  size="small"
+                />
+              }
+              label={g.nameEn || `Group #${g.id}`}
             />
-          }
-          label={g.nameEn || `Group #${g.id}`}
-        />
-      ))}
+            {membership && (
+              <Tooltip
+                title={
+                  membership.statusChangedAt
+                    ? `${translate("padmakara.membership.changedAt")}: ${new Date(membership.statusChangedAt).toLocaleString()}`
+                    : ""
+                }
+              >
+                <span>
+                  <MembershipStatusSelect
+                    status={membership.status}
+                    disabled={busy === g.id}
+                    onChange={(status) => changeStatus(g.id, status)}
+                  />
+                </span>
+              </Tooltip>
+            )}
+          </Stack>
+        );
+      })}
     </Box>
   );
 }
 
+// ─── Subscription history ────────────────────────────────────────────────────
+
+function SubscriptionHistory() {
+  const record = useRecordContext();
+  const translate = useTranslate();
+  const [entries, setEntries] = useState<any[] | null>(null);
+
+  useEffect(() => {
+    if (!record?.id) return;
+    authFetch(`${API_URL}/users/${record.id}/subscriptions`)
+      .then((r) => (r.ok ? r.json() : []))
+      .then((subs: any[]) => setEntries(subs.flatMap((s) => s.entries || [])))
+      .catch(() => setEntries([]));
+  }, [record?.id, record?.subscriptionStatus, record?.subscriptionExpiresAt]);
+
+  if (entries === null) return <CircularProgress size={20} />;
+  if (entries.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary">
+        {translate("padmakara.subscriptionLedger.empty")}
+      </Typography>
+    );
+  }
+
+  return (
+    <TableContainer sx={{ maxHeight: 260 }}>
+      <Table size="small" stickyHeader>
+        <TableHead>
+          <TableRow>
+            <TableCell>{translate("padmakara.subscriptionLedger.at")}</TableCell>
+            <TableCell>{translate("padmakara.subscriptionLedger.type")}</TableCell>
+            <TableCell>{translate("padmakara.subscriptionLedger.amount")}</TableCell>
+            <TableCell>{translate("padmakara.subscriptionLedger.periodEnd")}</TableCell>
+            <TableCell>{translate("padmakara.subscriptionLedger.note")}</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {entries.map((e) => (
+            <TableRow key={e.id}>
+              <TableCell sx={{ whiteSpace: "nowrap" }}>{new Date(e.occurredAt).toLocaleString()}</TableCell>
+              <TableCell>
+                <LedgerTypeChip type={e.type} />
+              </TableCell>
+              <TableCell>{formatAmount(e.amountCents, e.currency)}</TableCell>
+              <TableCell>{e.periodEnd ? new Date(e.periodEnd).toLocaleDateString() : "—"}</TableCell>
+              <TableCell sx={{ color: "text.secondary" }}>
+                {[e.note, e.providerReference].filter(Boolean).join(" · ") || "—"}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+}
+
 // ─── Event attendance ────────────────────────────────────────────────────────
 
 type AttendanceSortField = "title" | "startDate" | "eventType" | "status";
@@ -166,6 +281,156 @@ const StatusChip = ({ status }: { status: string }) => {
   );
 };
 
+// ─── Access grants ───────────────────────────────────────────────────────────
+
+const GRANT_SOURCES = [
+  { id: "attended", name: "Attended" },
+  { id: "admin", name: "Admin granted" },
+  { id: "purchased", name: "Purchased" },
+  { id: "initiation", name: "Initiation" },
+  { id: "voucher", name: "Voucher" },
+];
+
+type GrantState = "active" | "scheduled" | "expired";
+
+function grantState(grant: any, now = new Date()): GrantState {
+  if (grant.validFrom && new Date(grant.validFrom) > now) return "scheduled";
+  if (grant.validUntil && new Date(grant.validUntil) <= now) return "expired";
+  return "active";
+}
+
+const formatDay = (value: string | null | undefined) =>
+  value
+    ? new Date(value).toLocaleDateString("en-GB", { day: "numeric", month: "short", year: "numeric" })
+    : null;
+
+/** `YYYY-MM-DD` for <input type="date">, or "" when unset */
+const toDateInput = (value: string | null | undefined) =>
+  value ? new Date(value).toISOString().slice(0, 10) : "";
+
+const GrantChip = ({ grant }: { grant: any }) => {
+  const state = grantState(grant);
+  const until = formatDay(grant.validUntil);
+  const from = formatDay(grant.validFrom);
+  const label =
+    state === "expired"
+      ? `Expired ${until}`
+      : state === "scheduled"
+        ? `From ${from}`
+        : until
+          ? `Until ${until}`
+          : "Permanent";
+  const colorMap: Record<GrantState, "success" | "warning" | "default"> = {
+    active: "success",
+    scheduled: "warning",
+    expired: "default",
+  };
+  return (
+    <Tooltip title={[GRANT_SOURCES.find((s) => s.id === grant.source)?.name, grant.note].filter(Boolean).join(" — ")}>
+      <Chip label={label} size="small" color={colorMap[state]} variant={state === "active" ? "filled" : "outlined"} />
+    </Tooltip>
+  );
+};
+
+function GrantDialog({
+  event,
+  grant,
+  onClose,
+  onSave,
+}: {
+  event: any;
+  grant: any | null;
+  onClose: () => void;
+  onSave: (values: Record<string, any>) => Promise<void>;
+}) {
+  const [source, setSource] = useState<string>(grant?.source ?? "admin");
+  const [validFrom, setValidFrom] = useState(toDateInput(grant?.validFrom));
+  const [validUntil, setValidUntil] = useState(toDateInput(grant?.validUntil));
+  const [note, setNote] = useState<string>(grant?.note ?? "");
+  const [saving, setSaving] = useState(false);
+
+  // Extend from the later of today or the current end date
+  const extendByMonths = (months: number) => {
+    const base = validUntil ? new Date(validUntil) : new Date();
+    const start = base < new Date() ? new Date() : base;
+    start.setMonth(start.getMonth() + months);
+    setValidUntil(start.toISOString().slice(0, 10));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave({
+        source,
+        validFrom: validFrom ? new Date(validFrom).toISOString() : null,
+        validUntil: validUntil ? new Date(validUntil).toISOString() : null,
+        note: note || null,
+      });
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{grant ? "Edit access grant" : "Grant access"}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {event.titleEn}
+        </Typography>
+        <Stack spacing={2}>
+          <MuiTextField select label="Source" value={source} onChange={(e) => setSource(e.target.value)} size="small">
+            {GRANT_SOURCES.map((s) => (
+              <MenuItem key={s.id} value={s.id}>{s.name}</MenuItem>
+            ))}
+          </MuiTextField>
+          <Stack direction="row" spacing={2}>
+            <MuiTextField
+              type="date"
+              label="Valid from"
+              value={validFrom}
+              onChange={(e) => setValidFrom(e.target.value)}
+              size="small"
+              InputLabelProps={{ shrink: true }}
+              sx={{ flex: 1 }}
+            />
+            <MuiTextField
+              type="date"
+              label="Valid until"
+              value={validUntil}
+              onChange={(e) => setValidUntil(e.target.value)}
+              size="small"
+              InputLabelProps={{ shrink: true }}
+              helperText="Leave empty for no expiry"
+              sx={{ flex: 1 }}
+            />
+          </Stack>
+          <Stack direction="row" spacing={1}>
+            <Button size="small" variant="outlined" onClick={() => extendByMonths(1)}>+1 month</Button>
+            <Button size="small" variant="outlined" onClick={() => extendByMonths(3)}>+3 months</Button>
+            <Button size="small" variant="outlined" onClick={() => extendByMonths(12)}>+1 year</Button>
+          </Stack>
+          <MuiTextField
+            label="Note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            size="small"
+            multiline
+            minRows={2}
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={saving}>Cancel</Button>
+        <Button onClick={handleSave} variant="contained" disabled={saving}>
+          {saving ? <CircularProgress size={16} color="inherit" /> : "Save"}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
 function EventAttendance() {
   const record = useRecordContext();
   const refresh = useRefresh();
@@ -178,9 +443,10 @@ function EventAttendance() {
   const [sortDir, setSortDir] = useState<SortDir>("desc");
   const [filterEventType, setFilterEventType] = useState<number | null>(null);
   const [filterStatus, setFilterStatus] = useState<string | null>(null);
+  const [editingEvent, setEditingEvent] = useState<any | null>(null);
 
-  const attendedIds = useMemo(
-    () => new Set((record?.eventAttendance || []).map((a: any) => a.eventId)),
+  const grantsByEvent = useMemo(
+    () => new Map<number, any>((record?.eventAttendance || []).map((a: any) => [a.eventId, a])),
     [record?.eventAttendance],
   );
 
@@ -200,7 +466,7 @@ function EventAttendance() {
         if (attended) {
           await authFetch(`${API_URL}/users/${record.id}/events`, {
             method: "POST",
-            body: JSON.stringify({ eventId }),
+            body: JSON.stringify({ eventId, source: "attended" }),
           });
         } else {
           await authFetch(`${API_URL}/users/${record.id}/events/${eventId}`, {
@@ -217,6 +483,28 @@ function EventAttendance() {
     [record?.id, refresh, notify],
   );
 
+  const saveGrant = useCallback(
+    async (eventId: number, values: Record<string, any>) => {
+      if (!record?.id) return;
+      const exists = grantsByEvent.has(eventId);
+      const res = await authFetch(
+        exists ? `${API_URL}/users/${record.id}/events/${eventId}` : `${API_URL}/users/${record.id}/events`,
+        {
+          method: exists ? "PUT" : "POST",
+          body: JSON.stringify(exists ? values : { eventId, ...values }),
+        },
+      );
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        notify(data.error || "Failed to save access grant", { type: "error" });
+        throw new Error(data.error);
+      }
+      notify("Access grant saved", { type: "success" });
+      refresh();
+    },
+    [record?.id, grantsByEvent, refresh, notify],
+  );
+
   const handleSort = (field: AttendanceSortField) => {
     if (sortField === field) {
       setSortDir((d) => (d === "asc" ? "desc" : "asc"));
@@ -280,7 +568,7 @@ function EventAttendance() {
 
   if (loading) return <CircularProgress size={20} />;
 
-  const attendedCount = allEvents.filter((e) => attendedIds.has(e.id)).length;
+  const attendedCount = allEvents.filter((e) => grantsByEvent.has(e.id)).length;
 
   return (
     <Box sx={{ width: "100%" }}>
@@ -360,6 +648,7 @@ function EventAttendance() {
                   Type
                 </TableSortLabel>
               </TableCell>
+              <TableCell>Access</TableCell>
               <TableCell>Groups</TableCell>
               <TableCell>Teachers</TableCell>
               <TableCell sortDirection={sortField === "startDate" ? sortDir : false} sx={{ whiteSpace: "nowrap" }}>
@@ -384,7 +673,8 @@ function EventAttendance() {
           </TableHead>
           <TableBody>
             {filtered.map((event: any) => {
-              const attended = attendedIds.has(event.id);
+              const grant = grantsByEvent.get(event.id);
+              const attended = !!grant;
               const isBusy = busy === event.id;
               return (
                 <TableRow
@@ -423,6 +713,14 @@ function EventAttendance() {
                       "—"
                     )}
                   </TableCell>
+                  <TableCell sx={{ whiteSpace: "nowrap" }}>
+                    {grant && <GrantChip grant={grant} />}
+                    <Tooltip title={grant ? "Edit access window" : "Grant time-boxed access"}>
+                      <IconButton size="small" disabled={isBusy} onClick={() => setEditingEvent(event)}>
+                        <EditCalendarIcon fontSize="inherit" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
                   <TableCell>
                     <Box sx={{ display: "flex", gap: 0.5, flexWrap: "wrap" }}>
                       {(event.eventRetreatGroups || []).map((eg: any) => (
@@ -464,7 +762,7 @@ function EventAttendance() {
             })}
             {filtered.length === 0 && (
               <TableRow>
-                <TableCell colSpan={7} align="center" sx={{ py: 3, color: "text.secondary" }}>
+                <TableCell colSpan={8} align="center" sx={{ py: 3, color: "text.secondary" }}>
                   No events found
                 </TableCell>
               </TableRow>
@@ -472,10 +770,513 @@ function EventAttendance() {
           </TableBody>
         </Table>
       </TableContainer>
+
+      {editingEvent && (
+        <GrantDialog
+          event={editingEvent}
+          grant={grantsByEvent.get(editingEvent.id) ?? null}
+          onClose={() => setEditingEvent(null)}
+          onSave={(values) => saveGrant(editingEvent.id, values)}
+        />
+      )}
+    </Box>
+  );
+}
+
+// ─── Devices ─────────────────────────────────────────────────────────────────
+
+/** The member's activated devices, which an admin can rename or revoke. */
+function DeviceManager() {
+  const record = useRecordContext();
+  const translate = useTranslate();
+  const notify = useNotify();
+  const [data, setData] = useState<{ limit: number; policy: string; devices: any[] } | null>(null);
+  const [editing, setEditing] = useState<{ mode: "rename" | "revoke"; device: any } | null>(null);
+  const [name, setName] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(() => {
+    if (!record?.id) return;
+    authFetch(`${API_URL}/users/${record.id}/devices`)
+      .then((r) => (r.ok ? r.json() : { limit: 0, policy: "evict_lru", devices: [] }))
+      .then(setData)
+      .catch(() => notify(translate("padmakara.devices.loadFailed"), { type: "error" }));
+  }, [record?.id, notify, translate]);
+
+  useEffect(load, [load]);
+
+  const open = (mode: "rename" | "revoke", device: any) => {
+    setName(device.deviceName);
+    setEditing({ mode, device });
+  };
+
+  const submit = async () => {
+    if (!editing || !record) return;
+    setSaving(true);
+    try {
+      const url = `${API_URL}/users/${record.id}/devices/${editing.device.id}`;
+      const res =
+        editing.mode === "rename"
+          ? await authFetch(url, { method: "PUT", body: JSON.stringify({ deviceName: name }) })
+          : await authFetch(url, { method: "DELETE" });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        throw new Error(body.error || translate("padmakara.devices.saveFailed"));
+      }
+      notify(
+        translate(editing.mode === "rename" ? "padmakara.devices.renamed" : "padmakara.devices.revoked"),
+        { type: "success" },
+      );
+      setEditing(null);
+      load();
+    } catch (e: any) {
+      notify(e.message, { type: "error" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (data === null) return <CircularProgress size={20} />;
+  const activeCount = data.devices.filter((d) => d.isActive).length;
+
+  return (
+    <Box sx={{ width: "100%" }}>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+        {data.limit > 0
+          ? translate("padmakara.devices.limit", {
+              active: activeCount,
+              limit: data.limit,
+              policy: translate(`padmakara.devices.policies.${data.policy}`),
+            })
+          : translate("padmakara.devices.noLimit", { active: activeCount })}
+      </Typography>
+      {data.devices.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          {translate("padmakara.devices.empty")}
+        </Typography>
+      ) : (
+        <TableContainer sx={{ maxHeight: 320 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell>{translate("padmakara.devices.name")}</TableCell>
+                <TableCell>{translate("padmakara.devices.type")}</TableCell>
+                <TableCell>{translate("padmakara.devices.activatedAt")}</TableCell>
+                <TableCell>{translate("padmakara.devices.lastUsed")}</TableCell>
+                <TableCell>{translate("padmakara.devices.status")}</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {data.devices.map((d) => (
+                <TableRow key={d.id} sx={{ opacity: d.isActive ? 1 : 0.5 }}>
+                  <TableCell>
+                    <Typography variant="body2">{d.deviceName}</Typography>
+                    <Typography variant="caption" sx={{ fontFamily: "monospace", opacity: 0.6 }}>
+                      {d.deviceFingerprint}
+                    </Typography>
+                  </TableCell>
+                  <TableCell>{d.deviceType}</TableCell>
+                  <TableCell sx={{ whiteSpace: "nowrap" }}>{new Date(d.activatedAt).toLocaleDateString()}</TableCell>
+                  <TableCell sx={{ whiteSpace: "nowrap" }}>{new Date(d.lastUsed).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <Chip
+                      size="small"
+                      label={translate(d.isActive ? "padmakara.devices.active" : "padmakara.devices.inactive")}
+                      color={d.isActive ? "success" : "default"}
+                      variant={d.isActive ? "filled" : "outlined"}
+                    />
+                  </TableCell>
+                  <TableCell sx={{ whiteSpace: "nowrap" }} align="right">
+                    <Tooltip title={translate("padmakara.devices.rename")}>
+                      <IconButton size="small" onClick={() => open("rename", d)}>
+                        <DriveFileRenameOutlineIcon fontSize="inherit" />
+                      </IconButton>
+                    </Tooltip>
+                    {d.isActive && (
+                      <Tooltip title={translate("padmakara.devices.revoke")}>
+                        <IconButton size="small" color="error" onClick={() => open("revoke", d)}>
+                          <PhonelinkEraseIcon fontSize="inherit" />
+                        </IconButton>
+                      </Tooltip>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {editing && (
+        <Dialog open onClose={() => setEditing(null)} maxWidth="xs" fullWidth>
+          <DialogTitle>
+            {translate(editing.mode === "rename" ? "padmakara.devices.rename" : "padmakara.devices.revoke")}
+          </DialogTitle>
+          <DialogContent>
+            {editing.mode === "rename" ? (
+              <MuiTextField
+                autoFocus
+                fullWidth
+                size="small"
+                label={translate("padmakara.devices.name")}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                sx={{ mt: 1 }}
+              />
+            ) : (
+              <Typography variant="body2">
+                {translate("padmakara.devices.revokeConfirm", { name: editing.device.deviceName })}
+              </Typography>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setEditing(null)} disabled={saving}>
+              {translate("ra.action.cancel")}
+            </Button>
+            <Button
+              onClick={submit}
+              variant="contained"
+              color={editing.mode === "revoke" ? "error" : "primary"}
+              disabled={saving || (editing.mode === "rename" && !name.trim())}
+            >
+              {saving ? (
+                <CircularProgress size={16} color="inherit" />
+              ) : (
+                translate(editing.mode === "rename" ? "ra.action.save" : "padmakara.devices.revoke")
+              )}
+            </Button>
+          </DialogActions>
+        </Dialog>
+      )}
     </Box>
   );
 }
 
+// ─── Two-factor ──────────────────────────────────────────────────────────────
+
+/** Two-factor status; a superadmin can reset it for a user who lost their authenticator. */
+function TwoFactorReset() {
+  const record = useRecordContext();
+  const translate = useTranslate();
+  const notify = useNotify();
+  const { canAccess: canReset } = useCanAccess({ resource: "two-factor-reset", action: "delete" });
+  const [status, setStatus] = useState<{ enabled: boolean; required: boolean } | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!record?.id) return;
+    authFetch(`${API_URL}/users/${record.id}/two-factor`)
+      .then((r) => (r.ok ? r.json() : null))
+      .then(setStatus)
+      .catch(() => setStatus(null));
+  }, [record?.id]);
+
+  if (!record || status === null) return null;
+
+  const reset = async () => {
+    setSaving(true);
+    try {
+      const res = await authFetch(`${API_URL}/users/${record.id}/two-factor`, { method: "DELETE" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Failed to reset two-factor");
+      setStatus(data);
+      setConfirming(false);
+      notify(translate("padmakara.twoFactor.resetDone"), { type: "success" });
+    } catch (e: any) {
+      notify(e.message, { type: "error" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Stack direction="row" spacing={2} alignItems="center">
+      <Chip
+        size="small"
+        color={status.enabled ? "success" : "default"}
+        label={translate(status.enabled ? "padmakara.twoFactor.on" : "padmakara.twoFactor.off")}
+      />
+      {status.required && (
+        <Chip size="small" variant="outlined" label={translate("padmakara.twoFactor.requiredForRole")} />
+      )}
+      {status.enabled &&
+        (canReset ? (
+          <Button size="small" color="error" variant="outlined" onClick={() => setConfirming(true)}>
+            {translate("padmakara.twoFactor.reset")}
+          </Button>
+        ) : (
+          <Typography variant="caption" color="text.secondary">
+            {translate("padmakara.twoFactor.resetOnlySuperadmin")}
+          </Typography>
+        ))}
+
+      <Dialog open={confirming} onClose={() => setConfirming(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>{translate("padmakara.twoFactor.reset")}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2">
+            {translate("padmakara.twoFactor.resetConfirm", { email: record.email })}
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirming(false)} disabled={saving}>
+            {translate("ra.action.cancel")}
+          </Button>
+          <Button onClick={reset} color="error" variant="contained" disabled={saving}>
+            {saving ? <CircularProgress size={16} color="inherit" /> : translate("padmakara.twoFactor.reset")}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Stack>
+  );
+}
+
+// ─── Email change ────────────────────────────────────────────────────────────
+
+/**
+ * Sends a confirmation link to a new address; the email only changes once
+ * the user opens it, and the old address is told.
+ */
+function ChangeEmail() {
+  const record = useRecordContext();
+  const translate = useTranslate();
+  const notify = useNotify();
+  const [open, setOpen] = useState(false);
+  const [email, setEmail] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  if (!record) return null;
+
+  const close = () => {
+    setOpen(false);
+    setEmail("");
+  };
+
+  const send = async () => {
+    setSaving(true);
+    try {
+      const res = await authFetch(`${API_URL}/users/${record.id}/email-change`, {
+        method: "POST",
+        body: JSON.stringify({ email }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Failed to request the email change");
+      close();
+      notify(translate("padmakara.emailChange.sent", { email: data.email }), { type: "success" });
+    } catch (e: any) {
+      notify(e.message, { type: "error" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Button size="small" variant="outlined" onClick={() => setOpen(true)} sx={{ flexShrink: 0 }}>
+        {translate("padmakara.emailChange.action")}
+      </Button>
+      <Dialog open={open} onClose={close} maxWidth="xs" fullWidth>
+        <DialogTitle>{translate("padmakara.emailChange.action")}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            {translate("padmakara.emailChange.description", { email: record.email })}
+          </Typography>
+          <MuiTextField
+            autoFocus
+            fullWidth
+            size="small"
+            type="email"
+            label={translate("padmakara.emailChange.newEmail")}
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={close} disabled={saving}>
+            {translate("ra.action.cancel")}
+          </Button>
+          <Button onClick={send} variant="contained" disabled={saving || !email.trim()}>
+            {saving ? <CircularProgress size={16} color="inherit" /> : translate("padmakara.emailChange.send")}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
+
+// ─── Sessions ────────────────────────────────────────────────────────────────
+
+/** Revokes every access and refresh token the user holds. */
+function SignOutEverywhere() {
+  const record = useRecordContext();
+  const translate = useTranslate();
+  const notify = useNotify();
+  const [confirming, setConfirming] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  if (!record) return null;
+
+  const signOut = async () => {
+    setSaving(true);
+    try {
+      const res = await authFetch(`${API_URL}/users/${record.id}/sign-out`, { method: "POST" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Failed to sign out");
+      setConfirming(false);
+      notify(translate("padmakara.sessions.done"), { type: "success" });
+    } catch (e: any) {
+      notify(e.message, { type: "error" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Button size="small" color="error" variant="outlined" onClick={() => setConfirming(true)}>
+        {translate("padmakara.sessions.signOutEverywhere")}
+      </Button>
+      <Dialog open={confirming} onClose={() => setConfirming(false)} maxWidth="xs" fullWidth>
+        <DialogTitle>{translate("padmakara.sessions.signOutEverywhere")}</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2">
+            {translate("padmakara.sessions.confirm", { email: record.email })}
+          </Typography>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setConfirming(false)} disabled={saving}>
+            {translate("ra.action.cancel")}
+          </Button>
+          <Button onClick={signOut} color="error" variant="contained" disabled={saving}>
+            {saving ? <CircularProgress size={16} color="inherit" /> : translate("padmakara.sessions.signOutEverywhere")}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
+
+// ─── View as user ────────────────────────────────────────────────────────────
+
+/**
+ * Read-only preview of the public API as this user (X-View-As-User).
+ * Every request is recorded in the admin audit log.
+ */
+function ViewAsPreview() {
+  const record = useRecordContext();
+  const notify = useNotify();
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [visibleEvents, setVisibleEvents] = useState<any[]>([]);
+  const [allEvents, setAllEvents] = useState<any[]>([]);
+  const [checked, setChecked] = useState<{ event: any; explanation: any } | null>(null);
+
+  if (!record) return null;
+  const viewAsHeaders = { "X-View-As-User": String(record.id) };
+
+  const load = async () => {
+    setOpen(true);
+    setLoading(true);
+    setChecked(null);
+    try {
+      const [visibleRes, allRes] = await Promise.all([
+        authFetch("/api/events", { headers: viewAsHeaders }),
+        authFetch(`${API_URL}/events?_start=0&_end=500&_sort=startDate&_order=DESC`),
+      ]);
+      if (!visibleRes.ok) {
+        const data = await visibleRes.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to load preview");
+      }
+      setVisibleEvents(await visibleRes.json());
+      setAllEvents(allRes.ok ? await allRes.json() : []);
+    } catch (e: any) {
+      notify(e.message, { type: "error" });
+      setOpen(false);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const explain = async (event: any) => {
+    const res = await authFetch(`/api/events/${event.id}/access?lang=en`, { headers: viewAsHeaders });
+    if (res.ok) setChecked({ event, explanation: await res.json() });
+  };
+
+  return (
+    <>
+      <Button
+        size="small"
+        variant="outlined"
+        startIcon={<VisibilityIcon />}
+        onClick={load}
+        sx={{ textTransform: "none" }}
+      >
+        Preview content as this user
+      </Button>
+
+      <Dialog open={open} onClose={() => setOpen(false)} maxWidth="md" fullWidth>
+        <DialogTitle>Viewing as {record.email}</DialogTitle>
+        <DialogContent>
+          {loading ? (
+            <CircularProgress size={24} />
+          ) : (
+            <Stack spacing={2} sx={{ pt: 1 }}>
+              <Typography variant="body2" color="text.secondary">
+                This user can open {visibleEvents.length} published events. Pick an event to see why
+                it is or is not available to them.
+              </Typography>
+              <Autocomplete
+                options={allEvents}
+                getOptionLabel={(e: any) => `${e.eventCode} — ${e.titleEn}`}
+                onChange={(_, e) => e && explain(e)}
+                renderInput={(params) => <MuiTextField {...params} label="Check event" size="small" />}
+              />
+              {checked && (
+                <Box sx={{ p: 1.5, borderRadius: 1, bgcolor: "action.hover" }}>
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <Chip
+                      size="small"
+                      label={checked.explanation.allowed ? "Allowed" : checked.explanation.reason}
+                      color={checked.explanation.allowed ? "success" : "error"}
+                    />
+                    <Typography variant="body2">
+                      {checked.explanation.message ?? "This user can open this event."}
+                    </Typography>
+                  </Stack>
+                </Box>
+              )}
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Code</TableCell>
+                    <TableCell>Title</TableCell>
+                    <TableCell>Audience</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {visibleEvents.map((event) => (
+                    <TableRow key={event.id}>
+                      <TableCell sx={{ fontFamily: "monospace", fontSize: "0.75rem" }}>
+                        {event.eventCode}
+                      </TableCell>
+                      <TableCell>{event.titleEn}</TableCell>
+                      <TableCell>{event.audience?.nameEn ?? "—"}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Stack>
+          )}
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setOpen(false)}>Close</Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+}
+
 // ─── Edit ────────────────────────────────────────────────────────────────────
 
 const SectionTitle = ({ children }: { children: React.ReactNode }) => (
@@ -486,11 +1287,15 @@ const SectionTitle = ({ children }: { children: React.ReactNode }) => (
 
 export const UserEdit = () => {
   const translate = useTranslate();
+  const { canAccess: canChangeRole } = useCanAccess({ resource: "roles", action: "edit" });
   return (
     <Edit>
       <SimpleForm>
         {/* ─── Identity ──────────────────────────────── */}
-        <TextInput source="email" label={translate("padmakara.fields.email")} disabled fullWidth />
+        <Stack direction="row" spacing={2} alignItems="center" sx={{ width: "100%" }}>
+          <TextInput source="email" label={translate("padmakara.fields.email")} disabled fullWidth />
+          <ChangeEmail />
+        </Stack>
         <Stack direction="row" spacing={2} sx={{ width: "100%" }}>
           <TextInput source="firstName" label={translate("padmakara.fields.firstName")} sx={{ flex: 1 }} />
           <TextInput source="lastName" label={translate("padmakara.fields.lastName")} sx={{ flex: 1 }} />
@@ -504,8 +1309,14 @@ export const UserEdit = () => {
             label={translate("padmakara.fields.role")}
             choices={[
               { id: "user", name: translate("padmakara.users.roleUser") },
+              { id: "editor", name: translate("padmakara.users.roleEditor") },
+              { id: "uploader", name: translate("padmakara.users.roleUploader") },
+              { id: "secretary", name: translate("padmakara.users.roleSecretary") },
+              { id: "migrations", name: translate("padmakara.users.roleMigrations") },
               { id: "admin", name: translate("padmakara.users.roleAdmin") },
+              { id: "superadmin", name: translate("padmakara.users.roleSuperadmin") },
             ]}
+            disabled={!canChangeRole}
             sx={{ flex: 1 }}
           />
           <SelectInput
@@ -544,6 +1355,7 @@ export const UserEdit = () => {
                   choices={[
                     { id: "none", name: "None" },
                     { id: "active", name: "Active" },
+                    { id: "past_due", name: "Past due (grace period)" },
                     { id: "expired", name: "Expired" },
                   ]}
                   sx={{ flex: 1 }}
@@ -556,6 +1368,7 @@ export const UserEdit = () => {
                     { id: "cash", name: "Cash" },
                     { id: "admin", name: "Admin" },
                     { id: "bank_transfer", name: "Bank Transfer" },
+                    { id: "voucher", name: "Voucher" },
                   ]}
                   parse={(v: string) => v || null}
                   emptyText="Not set"
@@ -564,6 +1377,10 @@ export const UserEdit = () => {
               </Stack>
               <DateTimeInput source="subscriptionExpiresAt" label="Expires At" fullWidth />
               <TextInput source="subscriptionNotes" label="Notes" multiline minRows={3} fullWidth />
+              <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+                {translate("padmakara.subscriptionLedger.history")}
+              </Typography>
+              <SubscriptionHistory />
             </Stack>
           </Box>
 
@@ -578,6 +1395,26 @@ export const UserEdit = () => {
         <Divider sx={{ width: "100%", my: 1 }} />
         <SectionTitle>Event Attendance</SectionTitle>
         <EventAttendance />
+
+        {/* ─── Two-factor ───────────────────────────── */}
+        <Divider sx={{ width: "100%", my: 1 }} />
+        <SectionTitle>{translate("padmakara.twoFactor.title")}</SectionTitle>
+        <TwoFactorReset />
+
+        {/* ─── Sessions ─────────────────────────────── */}
+        <Divider sx={{ width: "100%", my: 1 }} />
+        <SectionTitle>{translate("padmakara.sessions.title")}</SectionTitle>
+        <SignOutEverywhere />
+
+        {/* ─── Devices ──────────────────────────────── */}
+        <Divider sx={{ width: "100%", my: 1 }} />
+        <SectionTitle>{translate("padmakara.devices.title")}</SectionTitle>
+        <DeviceManager />
+
+        {/* ─── View as user ─────────────────────────── */}
+        <Divider sx={{ width: "100%", my: 1 }} />
+        <SectionTitle>Content Preview</SectionTitle>
+        <ViewAsPreview />
       </SimpleForm>
     </Edit>
   );
@@ -0,0 +1,272 @@
+import { useEffect, useState } from "react";
+import {
+  List,
+  Datagrid,
+  TextField,
+  DateField,
+  NumberField,
+  BooleanField,
+  FunctionField,
+  EditButton,
+  Edit,
+  Create,
+  SimpleForm,
+  TextInput,
+  NumberInput,
+  BooleanInput,
+  DateInput,
+  SelectInput,
+  ReferenceArrayInput,
+  AutocompleteArrayInput,
+  required,
+  minValue,
+  useTranslate,
+  useRecordContext,
+} from "react-admin";
+import {
+  Box,
+  Card,
+  CardContent,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Typography,
+} from "@mui/material";
+
+const API_URL = "/api/admin";
+
+const authFetch = (url: string, options: RequestInit = {}) => {
+  const token = localStorage.getItem("accessToken");
+  return fetch(url, {
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(options.headers || {}),
+    },
+  });
+};
+
+const personName = (person: any) =>
+  person
+    ? `${person.firstName || ""} ${person.lastName || ""}`.trim() || person.email
+    : "—";
+
+// ─── Usage report ─────────────────────────────────────────────────────────────
+
+const UsageReport = () => {
+  const translate = useTranslate();
+  const [rows, setRows] = useState<any[] | null>(null);
+
+  useEffect(() => {
+    authFetch(`${API_URL}/vouchers/report`)
+      .then((r) => (r.ok ? r.json() : []))
+      .then(setRows)
+      .catch(() => setRows([]));
+  }, []);
+
+  if (!rows || rows.length === 0) return null;
+  return (
+    <Card sx={{ mb: 2 }}>
+      <CardContent>
+        <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
+          {translate("padmakara.vouchers.report")}
+        </Typography>
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>{translate("padmakara.vouchers.batchLabel")}</TableCell>
+              <TableCell align="right">{translate("padmakara.vouchers.codes")}</TableCell>
+              <TableCell align="right">{translate("padmakara.vouchers.usable")}</TableCell>
+              <TableCell align="right">{translate("padmakara.vouchers.used")}</TableCell>
+              <TableCell align="right">{translate("padmakara.vouchers.members")}</TableCell>
+              <TableCell>{translate("padmakara.vouchers.lastRedeemedAt")}</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.batchLabel ?? ""}>
+                <TableCell>{row.batchLabel ?? translate("padmakara.vouchers.noBatch")}</TableCell>
+                <TableCell align="right">{row.vouchers}</TableCell>
+                <TableCell align="right">{row.active}</TableCell>
+                <TableCell align="right">
+                  {row.redemptions} / {row.capacity}
+                </TableCell>
+                <TableCell align="right">{row.members}</TableCell>
+                <TableCell>
+                  {row.lastRedeemedAt ? new Date(row.lastRedeemedAt).toLocaleString() : "—"}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+// ─── Filters ──────────────────────────────────────────────────────────────────
+
+const useVoucherFilters = () => {
+  const translate = useTranslate();
+  return [
+    <TextInput key="code" source="code" label={translate("padmakara.vouchers.code")} alwaysOn />,
+    <TextInput key="batchLabel" source="batchLabel" label={translate("padmakara.vouchers.batchLabel")} alwaysOn />,
+    <SelectInput
+      key="isActive"
+      source="isActive"
+      label={translate("padmakara.fields.isActive")}
+      choices={[
+        { id: "true", name: translate("padmakara.vouchers.active") },
+        { id: "false", name: translate("padmakara.vouchers.inactive") },
+      ]}
+    />,
+  ];
+};
+
+// ─── List ─────────────────────────────────────────────────────────────────────
+
+export const VoucherList = () => {
+  const translate = useTranslate();
+  const filters = useVoucherFilters();
+  return (
+    <Box>
+      <UsageReport />
+      <List filters={filters} sort={{ field: "createdAt", order: "DESC" }} perPage={50}>
+        <Datagrid rowClick="edit" bulkActionButtons={false}>
+          <TextField source="code" label={translate("padmakara.vouchers.code")} sx={{ fontFamily: "monospace" }} />
+          <TextField source="batchLabel" label={translate("padmakara.vouchers.batchLabel")} emptyText="—" />
+          <NumberField source="months" label={translate("padmakara.vouchers.months")} emptyText="—" />
+          <FunctionField
+            source="redemptionCount"
+            label={translate("padmakara.vouchers.used")}
+            render={(record: any) => `${record.redemptionCount} / ${record.maxRedemptions}`}
+          />
+          <DateField source="expiresAt" label={translate("padmakara.vouchers.expiresAt")} emptyText="—" />
+          <BooleanField source="isActive" label={translate("padmakara.fields.isActive")} />
+          <DateField source="createdAt" label={translate("padmakara.vouchers.createdAt")} />
+          <EditButton />
+        </Datagrid>
+      </List>
+    </Box>
+  );
+};
+
+// ─── Redemptions ──────────────────────────────────────────────────────────────
+
+const Redemptions = () => {
+  const record = useRecordContext();
+  const translate = useTranslate();
+  if (!record) return null;
+  const redemptions: any[] = record.redemptions ?? [];
+  return (
+    <Box sx={{ mt: 2, width: "100%" }}>
+      <Typography variant="subtitle1" sx={{ fontWeight: 600, mb: 1 }}>
+        {translate("padmakara.vouchers.redemptions")}
+      </Typography>
+      {redemptions.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          {translate("padmakara.vouchers.noRedemptions")}
+        </Typography>
+      ) : (
+        <Table size="small">
+          <TableBody>
+            {redemptions.map((r) => (
+              <TableRow key={r.id}>
+                <TableCell>{personName(r.user)}</TableCell>
+                <TableCell>{r.user?.email}</TableCell>
+                <TableCell>{new Date(r.redeemedAt).toLocaleString()}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </Box>
+  );
+};
+
+const GrantSummary = () => {
+  const record = useRecordContext();
+  const translate = useTranslate();
+  if (!record) return null;
+  const events: any[] = record.events ?? [];
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Typography variant="h6" sx={{ fontFamily: "monospace" }}>
+        {record.code}
+      </Typography>
+      <Typography variant="body2" color="text.secondary">
+        {[
+          record.months ? translate("padmakara.vouchers.grantsMonths", { smart_count: record.months }) : null,
+          ...events.map((e) => e.eventCode || e.titleEn),
+        ]
+          .filter(Boolean)
+          .join(" · ")}
+      </Typography>
+    </Box>
+  );
+};
+
+// ─── Edit / Create ────────────────────────────────────────────────────────────
+
+export const VoucherEdit = () => {
+  const translate = useTranslate();
+  return (
+    <Edit mutationMode="pessimistic">
+      <SimpleForm>
+        <GrantSummary />
+        <TextInput source="batchLabel" label={translate("padmakara.vouchers.batchLabel")} />
+        <NumberInput
+          source="maxRedemptions"
+          label={translate("padmakara.vouchers.maxRedemptions")}
+          validate={[required(), minValue(1)]}
+        />
+        <DateInput source="expiresAt" label={translate("padmakara.vouchers.expiresAt")} />
+        <BooleanInput source="isActive" label={translate("padmakara.fields.isActive")} />
+        <TextInput source="note" label={translate("padmakara.vouchers.note")} multiline fullWidth />
+        <Redemptions />
+      </SimpleForm>
+    </Edit>
+  );
+};
+
+export const VoucherCreate = () => {
+  const translate = useTranslate();
+  return (
+    <Create redirect="list">
+      <SimpleForm defaultValues={{ quantity: 1, maxRedemptions: 1 }}>
+        <NumberInput
+          source="quantity"
+          label={translate("padmakara.vouchers.quantity")}
+          helperText={translate("padmakara.vouchers.quantityHelp")}
+          validate={[required(), minValue(1)]}
+        />
+        <TextInput
+          source="code"
+          label={translate("padmakara.vouchers.code")}
+          helperText={translate("padmakara.vouchers.codeHelp")}
+        />
+        <TextInput source="batchLabel" label={translate("padmakara.vouchers.batchLabel")} />
+        <NumberInput
+          source="months"
+          label={translate("padmakara.vouchers.months")}
+          helperText={translate("padmakara.vouchers.monthsHelp")}
+          validate={minValue(1)}
+        />
+        <ReferenceArrayInput source="eventIds" reference="events" perPage={500}>
+          <AutocompleteArrayInput optionText="eventCode" label={translate("padmakara.vouchers.events")} />
+        </ReferenceArrayInput>
+        <NumberInput
+          source="maxRedemptions"
+          label={translate("padmakara.vouchers.maxRedemptions")}
+          helperText={translate("padmakara.vouchers.maxRedemptionsHelp")}
+          validate={[required(), minValue(1)]}
+        />
+        <DateInput source="expiresAt" label={translate("padmakara.vouchers.expiresAt")} />
+        <TextInput source="note" label={translate("padmakara.vouchers.note")} multiline fullWidth />
+      </SimpleForm>
+    </Create>
+  );
+};
@@ -0,0 +1,167 @@
+import { useState } from "react";
+import {
+  List,
+  Datagrid,
+  TextField,
+  DateField,
+  NumberField,
+  FunctionField,
+  SelectInput,
+  useTranslate,
+  useRefresh,
+  useNotify,
+  useRecordContext,
+} from "react-admin";
+import { Chip, Button, Box, Typography } from "@mui/material";
+import ReplayIcon from "@mui/icons-material/Replay";
+
+const API_URL = "/api/admin";
+
+const authFetch = (url: string, options: RequestInit = {}) => {
+  const token = localStorage.getItem("accessToken");
+  return fetch(url, {
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...(options.headers || {}),
+    },
+  });
+};
+
+const STATUSES = ["pending", "processing", "processed", "ignored", "failed", "dead"];
+
+const statusColor: Record<string, "success" | "info" | "error" | "warning" | "default"> = {
+  pending: "info",
+  processing: "info",
+  processed: "success",
+  ignored: "default",
+  failed: "warning",
+  dead: "error",
+};
+
+const StatusChip = () => {
+  const record = useRecordContext();
+  const translate = useTranslate();
+  if (!record) return null;
+  return (
+    <Chip
+      label={translate(`padmakara.webhookInbox.statuses.${record.status}`, { _: record.status })}
+      size="small"
+      color={statusColor[record.status] ?? "default"}
+      sx={{ fontWeight: 600 }}
+    />
+  );
+};
+
+// ─── Replay ───────────────────────────────────────────────────────────────────
+
+const ReplayButton = () => {
+  const record = useRecordContext();
+  const refresh = useRefresh();
+  const notify = useNotify();
+  const translate = useTranslate();
+  const [busy, setBusy] = useState(false);
+
+  if (!record || (record.status !== "failed" && record.status !== "dead")) return null;
+
+  const replay = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setBusy(true);
+    try {
+      const res = await authFetch(`${API_URL}/webhook-inbox/${record.id}/replay`, { method: "POST" });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || "Failed to replay");
+      notify(
+        translate("padmakara.webhookInbox.replayedNotify", {
+          status: translate(`padmakara.webhookInbox.statuses.${data.status}`, { _: data.status }),
+        }),
+        { type: data.status === "processed" || data.status === "ignored" ? "success" : "warning" },
+      );
+      refresh();
+    } catch (err: any) {
+      notify(err.message, { type: "error" });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Button
+      size="small"
+      variant="outlined"
+      startIcon={<ReplayIcon />}
+      disabled={busy}
+      onClick={replay}
+      sx={{ textTransform: "none", fontWeight: 600 }}
+    >
+      {translate("padmakara.webhookInbox.replay")}
+    </Button>
+  );
+};
+
+// ─── Payload ──────────────────────────────────────────────────────────────────
+
+const PayloadPanel = () => {
+  const record = useRecordContext();
+  const translate = useTranslate();
+  if (!record) return null;
+  return (
+    <Box sx={{ p: 2 }}>
+      {record.lastError && (
+        <Typography variant="body2" color="error" sx={{ mb: 1 }}>
+          {record.lastError}
+        </Typography>
+      )}
+      <Typography variant="caption" color="text.secondary">
+        {translate("padmakara.webhookInbox.payload")}
+      </Typography>
+      <Box
+        component="pre"
+        sx={{ m: 0, p: 1.5, bgcolor: "action.hover", borderRadius: 1, fontSize: "0.8rem", overflowX: "auto" }}
+      >
+        {JSON.stringify(record.payload, null, 2)}
+      </Box>
+    </Box>
+  );
+};
+
+// ─── Filters ──────────────────────────────────────────────────────────────────
+
+const useWebhookInboxFilters = () => {
+  const translate = useTranslate();
+  return [
+    <SelectInput
+      key="status"
+      source="status"
+      label={translate("padmakara.webhookInbox.status")}
+      choices={STATUSES.map((id) => ({ id, name: translate(`padmakara.webhookInbox.statuses.${id}`) }))}
+      alwaysOn
+    />,
+  ];
+};
+
+// ─── List ─────────────────────────────────────────────────────────────────────
+
+export const WebhookInboxList = () => {
+  const translate = useTranslate();
+  const filters = useWebhookInboxFilters();
+  return (
+    <List
+      filters={filters}
+      sort={{ field: "receivedAt", order: "DESC" }}
+      perPage={50}
+    >
+      <Datagrid bulkActionButtons={false} expand={<PayloadPanel />} rowClick="expand">
+        <DateField source="receivedAt" label={translate("padmakara.webhookInbox.receivedAt")} showTime />
+        <TextField source="notificationId" label={translate("padmakara.webhookInbox.notificationId")} />
+        <FunctionField label={translate("padmakara.webhookInbox.status")} render={() => <StatusChip />} />
+        <NumberField source="attempts" label={translate("padmakara.webhookInbox.attempts")} />
+        <TextField source="lastError" label={translate("padmakara.webhookInbox.lastError")} emptyText="—" />
+        <DateField source="nextAttemptAt" label={translate("padmakara.webhookInbox.nextAttemptAt")} showTime emptyText="—" />
+        <DateField source="processedAt" label={translate("padmakara.webhookInbox.processedAt")} showTime emptyText="—" />
+        <FunctionField render={() => <ReplayButton />} />
+      </Datagrid>
+    </List>
+  );
+};
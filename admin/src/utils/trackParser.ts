@@ -27,6 +27,7 @@ export interface InferredSession {
   date: string | null;
   timePeriod: string | null;
   titleEn: string;
+  audienceId?: number | null; // Overrides the event's audience (database sessions only)
   tracks: ParsedTrack[];
 }
 
@@ -19,6 +19,9 @@ export const config = {
     secret: env("JWT_SECRET", "dev-secret-change-in-production"),
     accessTokenExpiry: env("JWT_ACCESS_TOKEN_EXPIRY", "15m"),
     refreshTokenExpiry: env("JWT_REFRESH_TOKEN_EXPIRY", "7d"),
+    // How long a user's token version is cached between checks; a revocation
+    // made by another server process takes up to this long to apply there
+    sessionCacheSeconds: parseInt(env("SESSION_CACHE_SECONDS", "30"), 10),
   },
 
   aws: {
@@ -36,6 +39,77 @@ export const config = {
     accountId: env("EASYPAY_ACCOUNT_ID", ""),
     apiKey: env("EASYPAY_API_KEY", ""),
     testing: env("EASYPAY_TESTING", "true") === "true",
+    // Overrides the Easypay API, e.g. http://localhost:4010/2.0 for the local simulator
+    apiBase: env("EASYPAY_API_BASE", ""),
+  },
+
+  subscriptions: {
+    // Days a member keeps access after a renewal fails, while we ask them to pay
+    graceDays: parseInt(env("SUBSCRIPTION_GRACE_DAYS", "7"), 10),
+  },
+
+  accountDeletion: {
+    // Days between a member asking to delete their account and the erasure, during which they can cancel
+    coolingOffDays: parseInt(env("ACCOUNT_DELETION_COOLING_OFF_DAYS", "14"), 10),
+  },
+
+  twoFactor: {
+    // Roles that must use TOTP for password logins, comma-separated (e.g. "admin,superadmin");
+    // other admin accounts may enroll optionally
+    requiredRoles: env("TWO_FACTOR_REQUIRED_ROLES", ""),
+    // Shown as the account's label in authenticator apps
+    issuer: env("TWO_FACTOR_ISSUER", "Padmakara"),
+  },
+
+  devices: {
+    // Active devices per account; 0 means no limit
+    limit: parseInt(env("DEVICE_LIMIT", "0"), 10),
+    // Per-role overrides as "role=limit" pairs, e.g. "user=2,admin=0"
+    limitByRole: env("DEVICE_LIMIT_BY_ROLE", ""),
+    // What happens when a new device would exceed the limit: "evict_lru" deactivates
+    // the least recently used device, "ask" has the member pick one to replace
+    policy: env("DEVICE_LIMIT_POLICY", "evict_lru"),
+  },
+
+  rateLimit: {
+    enabled: env("RATE_LIMIT_ENABLED", "true") === "true",
+    // "memory" (per process) or "postgres" (shared by every instance)
+    store: env("RATE_LIMIT_STORE", "memory"),
+    // Reverse proxies that append to X-Forwarded-For; the client IP is the hop the outermost one
+    // added. 0 ignores the header and uses X-Real-IP.
+    trustedProxies: parseInt(env("TRUSTED_PROXY_COUNT", "1"), 10),
+    // "<requests>/<window>" per client IP, email and device fingerprint; windows in s, m, h or d
+    login: {
+      ip: env("RATE_LIMIT_LOGIN_IP", "20/15m"),
+      email: env("RATE_LIMIT_LOGIN_EMAIL", "5/15m"),
+    },
+    magicLink: {
+      ip: env("RATE_LIMIT_MAGIC_LINK_IP", "20/1h"),
+      email: env("RATE_LIMIT_MAGIC_LINK_EMAIL", "5/1h"),
+      device: env("RATE_LIMIT_MAGIC_LINK_DEVICE", "10/1h"),
+    },
+    approval: {
+      ip: env("RATE_LIMIT_APPROVAL_IP", "10/1h"),
+      email: env("RATE_LIMIT_APPROVAL_EMAIL", "3/1d"),
+      device: env("RATE_LIMIT_APPROVAL_DEVICE", "5/1d"),
+    },
+    // Requests to move an account to a new address; email is the new address
+    emailChange: {
+      ip: env("RATE_LIMIT_EMAIL_CHANGE_IP", "10/1h"),
+      email: env("RATE_LIMIT_EMAIL_CHANGE_EMAIL", "3/1h"),
+    },
+    // Second login step (TOTP or backup code). account counts every attempt against the
+    // challenged account, whatever the IP; a window longer than a challenge lives (10m)
+    // leaves a challenge that ran out of attempts unusable
+    twoFactor: {
+      ip: env("RATE_LIMIT_TWO_FACTOR_IP", "10/15m"),
+      account: env("RATE_LIMIT_TWO_FACTOR_ACCOUNT", "5/15m"),
+    },
+    // The app polls this every few seconds while waiting for the magic link
+    deviceDiscover: {
+      ip: env("RATE_LIMIT_DEVICE_DISCOVER_IP", "300/5m"),
+      device: env("RATE_LIMIT_DEVICE_DISCOVER_DEVICE", "120/5m"),
+    },
   },
 
   urls: {
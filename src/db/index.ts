@@ -12,3 +12,8 @@ const queryClient = postgres(config.database.url, {
 export const db = drizzle(queryClient, { schema });
 
 export type Database = typeof db;
+
+export type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+/** The database, or a transaction in progress, for helpers that can run inside one. */
+export type Executor = Database | Transaction;
@@ -0,0 +1,12 @@
+-- Turn event attendance rows into time-boxed access grants
+ALTER TABLE "user_retreat_attendance" ADD COLUMN IF NOT EXISTS "source" text DEFAULT 'attended' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "user_retreat_attendance" ADD COLUMN IF NOT EXISTS "valid_from" timestamp with time zone;
+--> statement-breakpoint
+ALTER TABLE "user_retreat_attendance" ADD COLUMN IF NOT EXISTS "valid_until" timestamp with time zone;
+--> statement-breakpoint
+ALTER TABLE "user_retreat_attendance" ADD COLUMN IF NOT EXISTS "note" text;
+--> statement-breakpoint
+ALTER TABLE "user_retreat_attendance" ADD COLUMN IF NOT EXISTS "granted_by_id" integer;
+--> statement-breakpoint
+ALTER TABLE "user_retreat_attendance" ADD CONSTRAINT "user_retreat_attendance_granted_by_id_users_id_fk" FOREIGN KEY ("granted_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
@@ -0,0 +1,17 @@
+CREATE TABLE IF NOT EXISTS "event_access_requests" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"event_id" integer NOT NULL,
+	"message" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"admin_message" text,
+	"requested_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"reviewed_at" timestamp with time zone,
+	"reviewed_by_id" integer
+);
+--> statement-breakpoint
+ALTER TABLE "event_access_requests" ADD CONSTRAINT "event_access_requests_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "event_access_requests" ADD CONSTRAINT "event_access_requests_event_id_retreats_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."retreats"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "event_access_requests" ADD CONSTRAINT "event_access_requests_reviewed_by_id_users_id_fk" FOREIGN KEY ("reviewed_by_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
@@ -0,0 +1,8 @@
+-- Optional audience overrides on sessions and tracks (null = inherit from the event)
+ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS "audience_id" integer;
+--> statement-breakpoint
+ALTER TABLE "tracks" ADD COLUMN IF NOT EXISTS "audience_id" integer;
+--> statement-breakpoint
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_audience_id_audiences_id_fk" FOREIGN KEY ("audience_id") REFERENCES "public"."audiences"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "tracks" ADD CONSTRAINT "tracks_audience_id_audiences_id_fk" FOREIGN KEY ("audience_id") REFERENCES "public"."audiences"("id") ON DELETE set null ON UPDATE no action;
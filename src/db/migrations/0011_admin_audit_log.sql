@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS "admin_audit_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"admin_id" integer,
+	"action" text NOT NULL,
+	"target_user_id" integer,
+	"method" text,
+	"path" text,
+	"details" jsonb,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "admin_audit_log" ADD CONSTRAINT "admin_audit_log_admin_id_users_id_fk" FOREIGN KEY ("admin_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "admin_audit_log" ADD CONSTRAINT "admin_audit_log_target_user_id_users_id_fk" FOREIGN KEY ("target_user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS "media_access_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"device_fingerprint" text,
+	"resource_type" text NOT NULL,
+	"resource_id" text NOT NULL,
+	"event_id" integer,
+	"ip_address" text,
+	"accessed_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "media_access_log" ADD CONSTRAINT "media_access_log_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "media_access_log" ADD CONSTRAINT "media_access_log_event_id_retreats_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."retreats"("id") ON DELETE set null ON UPDATE no action;
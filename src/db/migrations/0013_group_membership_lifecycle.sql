@@ -0,0 +1,15 @@
+ALTER TABLE "user_group_memberships" ADD COLUMN "confirmed_at" timestamp with time zone;
+--> statement-breakpoint
+ALTER TABLE "user_group_memberships" ADD COLUMN "lapsed_at" timestamp with time zone;
+--> statement-breakpoint
+ALTER TABLE "user_group_memberships" ADD COLUMN "removed_at" timestamp with time zone;
+--> statement-breakpoint
+ALTER TABLE "user_group_memberships" ADD COLUMN "status_changed_at" timestamp with time zone;
+--> statement-breakpoint
+ALTER TABLE "user_group_memberships" ADD COLUMN "status_changed_by_id" integer;
+--> statement-breakpoint
+ALTER TABLE "user_group_memberships" ADD COLUMN "status_note" text;
+--> statement-breakpoint
+ALTER TABLE "user_group_memberships" ADD CONSTRAINT "user_group_memberships_status_changed_by_id_users_id_fk" FOREIGN KEY ("status_changed_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+UPDATE "user_group_memberships" SET "confirmed_at" = "joined_at", "status_changed_at" = "joined_at" WHERE "status" = 'confirmed';
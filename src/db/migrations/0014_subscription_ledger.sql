@@ -0,0 +1,44 @@
+CREATE TABLE IF NOT EXISTS "subscriptions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"source" text NOT NULL,
+	"status" text DEFAULT 'active' NOT NULL,
+	"provider_subscription_id" text,
+	"started_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"current_period_end" timestamp with time zone,
+	"cancelled_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "subscription_ledger" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"subscription_id" integer,
+	"user_id" integer,
+	"type" text NOT NULL,
+	"amount_cents" integer,
+	"currency" text DEFAULT 'EUR' NOT NULL,
+	"provider" text NOT NULL,
+	"provider_reference" text,
+	"period_start" timestamp with time zone,
+	"period_end" timestamp with time zone,
+	"note" text,
+	"recorded_by_id" integer,
+	"occurred_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "subscriptions" ADD CONSTRAINT "subscriptions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "subscription_ledger" ADD CONSTRAINT "subscription_ledger_subscription_id_subscriptions_id_fk" FOREIGN KEY ("subscription_id") REFERENCES "public"."subscriptions"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "subscription_ledger" ADD CONSTRAINT "subscription_ledger_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "subscription_ledger" ADD CONSTRAINT "subscription_ledger_recorded_by_id_users_id_fk" FOREIGN KEY ("recorded_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+INSERT INTO "subscriptions" ("user_id", "source", "status", "provider_subscription_id", "started_at", "current_period_end")
+SELECT "id", COALESCE("subscription_source", 'admin'), CASE WHEN "subscription_status" = 'active' THEN 'active' ELSE 'expired' END, "easypay_subscription_id", "updated_at", "subscription_expires_at"
+FROM "users" WHERE "subscription_status" <> 'none';
+--> statement-breakpoint
+INSERT INTO "subscription_ledger" ("subscription_id", "user_id", "type", "provider", "period_end", "note", "occurred_at")
+SELECT "id", "user_id", 'adjustment', "source", "current_period_end", 'Imported from the user record when the ledger was introduced', "started_at"
+FROM "subscriptions";
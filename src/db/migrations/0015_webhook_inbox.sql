@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS "webhook_inbox" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"provider" text DEFAULT 'easypay' NOT NULL,
+	"notification_id" text NOT NULL,
+	"payload" jsonb NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"last_error" text,
+	"next_attempt_at" timestamp with time zone,
+	"received_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"processed_at" timestamp with time zone,
+	CONSTRAINT "webhook_inbox_notification_id_unique" UNIQUE("notification_id")
+);
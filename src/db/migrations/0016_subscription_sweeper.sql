@@ -0,0 +1,20 @@
+CREATE TABLE IF NOT EXISTS "subscription_reminders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"subscription_id" integer NOT NULL,
+	"kind" text NOT NULL,
+	"period_end" timestamp with time zone NOT NULL,
+	"sent_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "subscription_reminders_once" UNIQUE("subscription_id","kind","period_end")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "job_runs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"job" text NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"result" jsonb,
+	"error" text,
+	"started_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"finished_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "subscription_reminders" ADD CONSTRAINT "subscription_reminders_subscription_id_subscriptions_id_fk" FOREIGN KEY ("subscription_id") REFERENCES "public"."subscriptions"("id") ON DELETE cascade ON UPDATE no action;
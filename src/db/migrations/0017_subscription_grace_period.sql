@@ -0,0 +1,3 @@
+ALTER TABLE "subscriptions" ADD COLUMN "past_due_since" timestamp with time zone;
+--> statement-breakpoint
+ALTER TABLE "subscriptions" ADD COLUMN "grace_ends_at" timestamp with time zone;
@@ -0,0 +1,25 @@
+CREATE TABLE IF NOT EXISTS "plans" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"slug" text NOT NULL,
+	"name_en" text NOT NULL,
+	"name_pt" text,
+	"description_en" text,
+	"description_pt" text,
+	"price_cents" integer NOT NULL,
+	"currency" text DEFAULT 'EUR' NOT NULL,
+	"frequency" text DEFAULT '1M' NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"display_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "plans_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+INSERT INTO "plans" ("slug", "name_en", "name_pt", "price_cents", "frequency", "display_order")
+VALUES ('monthly', 'Monthly', 'Mensal', 500, '1M', 0);
+--> statement-breakpoint
+ALTER TABLE "subscriptions" ADD COLUMN "plan_id" integer;
+--> statement-breakpoint
+ALTER TABLE "subscriptions" ADD CONSTRAINT "subscriptions_plan_id_plans_id_fk" FOREIGN KEY ("plan_id") REFERENCES "public"."plans"("id") ON DELETE no action ON UPDATE no action;
+--> statement-breakpoint
+UPDATE "subscriptions" SET "plan_id" = (SELECT "id" FROM "plans" WHERE "slug" = 'monthly') WHERE "source" = 'easypay';
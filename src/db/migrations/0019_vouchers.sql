@@ -0,0 +1,42 @@
+CREATE TABLE IF NOT EXISTS "vouchers" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"code" text NOT NULL,
+	"batch_label" text,
+	"months" integer,
+	"max_redemptions" integer DEFAULT 1 NOT NULL,
+	"redemption_count" integer DEFAULT 0 NOT NULL,
+	"expires_at" timestamp with time zone,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"note" text,
+	"created_by_id" integer,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "vouchers_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "voucher_events" (
+	"voucher_id" integer NOT NULL,
+	"event_id" integer NOT NULL,
+	CONSTRAINT "voucher_events_voucher_id_event_id_pk" PRIMARY KEY("voucher_id","event_id")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "voucher_redemptions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"voucher_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"subscription_id" integer,
+	"redeemed_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "voucher_redemptions_once" UNIQUE("voucher_id","user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "vouchers" ADD CONSTRAINT "vouchers_created_by_id_users_id_fk" FOREIGN KEY ("created_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "voucher_events" ADD CONSTRAINT "voucher_events_voucher_id_vouchers_id_fk" FOREIGN KEY ("voucher_id") REFERENCES "public"."vouchers"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "voucher_events" ADD CONSTRAINT "voucher_events_event_id_retreats_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."retreats"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "voucher_redemptions" ADD CONSTRAINT "voucher_redemptions_voucher_id_vouchers_id_fk" FOREIGN KEY ("voucher_id") REFERENCES "public"."vouchers"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "voucher_redemptions" ADD CONSTRAINT "voucher_redemptions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "voucher_redemptions" ADD CONSTRAINT "voucher_redemptions_subscription_id_subscriptions_id_fk" FOREIGN KEY ("subscription_id") REFERENCES "public"."subscriptions"("id") ON DELETE set null ON UPDATE no action;
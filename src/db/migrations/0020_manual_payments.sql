@@ -0,0 +1,31 @@
+CREATE TABLE IF NOT EXISTS "manual_payments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"receipt_number" text NOT NULL,
+	"user_id" integer,
+	"subscription_id" integer,
+	"payer_name" text NOT NULL,
+	"payer_email" text NOT NULL,
+	"amount_cents" integer NOT NULL,
+	"currency" text DEFAULT 'EUR' NOT NULL,
+	"method" text NOT NULL,
+	"paid_at" timestamp with time zone NOT NULL,
+	"period_start" timestamp with time zone NOT NULL,
+	"period_end" timestamp with time zone NOT NULL,
+	"reference" text,
+	"note" text,
+	"recorded_by_id" integer,
+	"receipt_sent_at" timestamp with time zone,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "manual_payments_receipt_number_unique" UNIQUE("receipt_number")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "receipt_sequences" (
+	"year" integer PRIMARY KEY NOT NULL,
+	"last_number" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "manual_payments" ADD CONSTRAINT "manual_payments_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "manual_payments" ADD CONSTRAINT "manual_payments_subscription_id_subscriptions_id_fk" FOREIGN KEY ("subscription_id") REFERENCES "public"."subscriptions"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+ALTER TABLE "manual_payments" ADD CONSTRAINT "manual_payments_recorded_by_id_users_id_fk" FOREIGN KEY ("recorded_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
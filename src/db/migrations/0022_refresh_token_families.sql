@@ -0,0 +1,11 @@
+ALTER TABLE "refresh_tokens" ADD COLUMN "family_id" text;--> statement-breakpoint
+UPDATE "refresh_tokens" SET "family_id" = md5("token_hash") WHERE "family_id" IS NULL;--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ALTER COLUMN "family_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ADD COLUMN "device_activation_id" integer;--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ADD COLUMN "used_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ADD COLUMN "replaced_by_id" integer;--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ADD COLUMN "revoked_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "refresh_tokens" ADD CONSTRAINT "refresh_tokens_device_activation_id_device_activations_id_fk" FOREIGN KEY ("device_activation_id") REFERENCES "public"."device_activations"("id") ON DELETE cascade ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "refresh_tokens_token_hash_idx" ON "refresh_tokens" USING btree ("token_hash");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "refresh_tokens_family_id_idx" ON "refresh_tokens" USING btree ("family_id");
@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS "account_deletions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"requested_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"scheduled_for" timestamp with time zone NOT NULL,
+	"cancelled_at" timestamp with time zone,
+	"completed_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "account_deletions" ADD CONSTRAINT "account_deletions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "account_deletions_status_idx" ON "account_deletions" USING btree ("status","scheduled_for");
@@ -0,0 +1 @@
+ALTER TABLE "webhook_inbox" ADD COLUMN IF NOT EXISTS "claimed_at" timestamp with time zone;
@@ -0,0 +1,37 @@
+import {
+  pgTable,
+  serial,
+  text,
+  integer,
+  timestamp,
+  index,
+} from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./users.ts";
+
+/**
+ * A member's request to delete their account. The account is erased once
+ * `scheduledFor` passes (the cooling-off period) unless the member cancels
+ * first. Erasing keeps the users row, anonymized, because the financial
+ * records that must be retained point at it (see services/personal-data.ts).
+ */
+export const accountDeletions = pgTable(
+  "account_deletions",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+    status: text("status").notNull().default("pending"), // pending | cancelled | completed
+    requestedAt: timestamp("requested_at", { withTimezone: true }).defaultNow().notNull(),
+    scheduledFor: timestamp("scheduled_for", { withTimezone: true }).notNull(),
+    cancelledAt: timestamp("cancelled_at", { withTimezone: true }),
+    completedAt: timestamp("completed_at", { withTimezone: true }),
+  },
+  (t) => [index("account_deletions_status_idx").on(t.status, t.scheduledFor)],
+);
+
+export const accountDeletionsRelations = relations(accountDeletions, ({ one }) => ({
+  user: one(users, {
+    fields: [accountDeletions.userId],
+    references: [users.id],
+  }),
+}));
@@ -0,0 +1,36 @@
+import {
+  pgTable,
+  serial,
+  text,
+  integer,
+  timestamp,
+  jsonb,
+} from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./users.ts";
+
+/**
+ * Sensitive admin actions (e.g. viewing content as another user).
+ * Rows are append-only; admin/target are kept as null if the user is deleted.
+ */
+export const adminAuditLog = pgTable("admin_audit_log", {
+  id: serial("id").primaryKey(),
+  adminId: integer("admin_id").references(() => users.id, { onDelete: "set null" }),
+  action: text("action").notNull(), // view_as | two_factor_reset | sessions_revoked | email_change_requested
+  targetUserId: integer("target_user_id").references(() => users.id, { onDelete: "set null" }),
+  method: text("method"),
+  path: text("path"),
+  details: jsonb("details").$type<Record<string, any>>(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+export const adminAuditLogRelations = relations(adminAuditLog, ({ one }) => ({
+  admin: one(users, {
+    fields: [adminAuditLog.adminId],
+    references: [users.id],
+  }),
+  targetUser: one(users, {
+    fields: [adminAuditLog.targetUserId],
+    references: [users.id],
+  }),
+}));
@@ -5,19 +5,36 @@ import {
   integer,
   boolean,
   timestamp,
+  index,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { users } from "./users.ts";
 
-export const refreshTokens = pgTable("refresh_tokens", {
-  id: serial("id").primaryKey(),
-  userId: integer("user_id")
-    .notNull()
-    .references(() => users.id, { onDelete: "cascade" }),
-  tokenHash: text("token_hash").notNull(),
-  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
-  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
-});
+export const refreshTokens = pgTable(
+  "refresh_tokens",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    tokenHash: text("token_hash").notNull(),
+    // Each login starts a family; every refresh replaces the token with the next one in it
+    familyId: text("family_id").notNull(),
+    // The device session the family belongs to (null for admin logins)
+    deviceActivationId: integer("device_activation_id").references(() => deviceActivations.id, {
+      onDelete: "cascade",
+    }),
+    usedAt: timestamp("used_at", { withTimezone: true }),
+    replacedById: integer("replaced_by_id"),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (t) => [
+    index("refresh_tokens_token_hash_idx").on(t.tokenHash),
+    index("refresh_tokens_family_id_idx").on(t.familyId),
+  ],
+);
 
 export const magicLinkTokens = pgTable("magic_link_tokens", {
   id: serial("id").primaryKey(),
@@ -69,12 +86,65 @@ export const userApprovalRequests = pgTable("user_approval_requests", {
   reviewedById: integer("reviewed_by_id").references(() => users.id),
 });
 
+/**
+ * TOTP second factor for password logins. The secret is stored when
+ * enrollment starts and only counts once `confirmedAt` is set by a valid
+ * code. `lastUsedStep` keeps a code from being accepted twice.
+ */
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: integer("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret").notNull(), // base32
+  confirmedAt: timestamp("confirmed_at", { withTimezone: true }),
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+/** Single-use recovery codes, stored hashed; replaced as a set when regenerated. */
+export const twoFactorBackupCodes = pgTable("two_factor_backup_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+/**
+ * A signed-in user's request to move their account to a new email address.
+ * The change only happens once the link sent to the new address is opened;
+ * a newer request replaces any unconfirmed one.
+ */
+export const emailChangeRequests = pgTable(
+  "email_change_requests",
+  {
+    id: serial("id").primaryKey(),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    newEmail: text("new_email").notNull(),
+    tokenHash: text("token_hash").notNull().unique(),
+    expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+    confirmedAt: timestamp("confirmed_at", { withTimezone: true }),
+    // The admin who started the change on the user's behalf
+    requestedById: integer("requested_by_id").references(() => users.id, { onDelete: "set null" }),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (t) => [index("email_change_requests_user_id_idx").on(t.userId)],
+);
+
 // Relations
 export const refreshTokensRelations = relations(refreshTokens, ({ one }) => ({
   user: one(users, {
     fields: [refreshTokens.userId],
     references: [users.id],
   }),
+  deviceActivation: one(deviceActivations, {
+    fields: [refreshTokens.deviceActivationId],
+    references: [deviceActivations.id],
+  }),
 }));
 
 export const deviceActivationsRelations = relations(deviceActivations, ({ one }) => ({
@@ -90,3 +160,17 @@ export const userApprovalRequestsRelations = relations(userApprovalRequests, ({
     references: [users.id],
   }),
 }));
+
+export const userTwoFactorRelations = relations(userTwoFactor, ({ one }) => ({
+  user: one(users, {
+    fields: [userTwoFactor.userId],
+    references: [users.id],
+  }),
+}));
+
+export const emailChangeRequestsRelations = relations(emailChangeRequests, ({ one }) => ({
+  user: one(users, {
+    fields: [emailChangeRequests.userId],
+    references: [users.id],
+  }),
+}));
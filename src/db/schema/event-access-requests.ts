@@ -0,0 +1,45 @@
+import {
+  pgTable,
+  serial,
+  text,
+  integer,
+  timestamp,
+} from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./users.ts";
+import { events } from "./retreats.ts";
+
+/**
+ * User-initiated requests to unlock on-request / initiation events.
+ * Approving one creates a userEventAttendance grant.
+ */
+export const eventAccessRequests = pgTable("event_access_requests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  eventId: integer("event_id")
+    .notNull()
+    .references(() => events.id, { onDelete: "cascade" }),
+  message: text("message"),
+  status: text("status").notNull().default("pending"), // pending | approved | rejected
+  adminMessage: text("admin_message"),
+  requestedAt: timestamp("requested_at", { withTimezone: true }).defaultNow().notNull(),
+  reviewedAt: timestamp("reviewed_at", { withTimezone: true }),
+  reviewedById: integer("reviewed_by_id").references(() => users.id),
+});
+
+export const eventAccessRequestsRelations = relations(eventAccessRequests, ({ one }) => ({
+  user: one(users, {
+    fields: [eventAccessRequests.userId],
+    references: [users.id],
+  }),
+  event: one(events, {
+    fields: [eventAccessRequests.eventId],
+    references: [events.id],
+  }),
+  reviewedBy: one(users, {
+    fields: [eventAccessRequests.reviewedById],
+    references: [users.id],
+  }),
+}));
@@ -29,15 +29,54 @@ export {
   userEventAttendanceRelations,
 } from "./users.ts";
 
+// Subscriptions
+export { plans } from "./plans.ts";
+export {
+  subscriptions,
+  subscriptionLedger,
+  subscriptionReminders,
+  subscriptionsRelations,
+  subscriptionLedgerRelations,
+} from "./subscriptions.ts";
+
+// Vouchers
+export {
+  vouchers,
+  voucherEvents,
+  voucherRedemptions,
+  vouchersRelations,
+  voucherEventsRelations,
+  voucherRedemptionsRelations,
+} from "./vouchers.ts";
+
+// Manual payments
+export {
+  manualPayments,
+  receiptSequences,
+  manualPaymentsRelations,
+} from "./payments.ts";
+
+// Webhook inbox
+export { webhookInbox } from "./webhook-inbox.ts";
+
+// Scheduled jobs
+export { jobRuns } from "./job-runs.ts";
+
 // Auth
+export { rateLimitBuckets } from "./rate-limits.ts";
 export {
   refreshTokens,
   magicLinkTokens,
   deviceActivations,
   userApprovalRequests,
+  userTwoFactor,
+  twoFactorBackupCodes,
+  emailChangeRequests,
   refreshTokensRelations,
   deviceActivationsRelations,
   userApprovalRequestsRelations,
+  userTwoFactorRelations,
+  emailChangeRequestsRelations,
 } from "./auth.ts";
 
 // User content
@@ -56,6 +95,21 @@ export {
   downloadRequestsRelations,
 } from "./download-requests.ts";
 
+// Event access requests
+export {
+  eventAccessRequests,
+  eventAccessRequestsRelations,
+} from "./event-access-requests.ts";
+
+// Account deletions
+export { accountDeletions, accountDeletionsRelations } from "./account-deletions.ts";
+
+// Admin audit log
+export { adminAuditLog, adminAuditLogRelations } from "./admin-audit-log.ts";
+
+// Media access log
+export { mediaAccessLog, mediaAccessLogRelations } from "./media-access-log.ts";
+
 // Migrations
 export {
   migrations,
@@ -0,0 +1,21 @@
+import {
+  pgTable,
+  serial,
+  text,
+  timestamp,
+  jsonb,
+} from "drizzle-orm/pg-core";
+
+/**
+ * One row per run of a scheduled background job, with what it did or why it
+ * failed.
+ */
+export const jobRuns = pgTable("job_runs", {
+  id: serial("id").primaryKey(),
+  job: text("job").notNull(),
+  status: text("status").notNull().default("running"), // running | succeeded | failed
+  result: jsonb("result").$type<Record<string, unknown>>(),
+  error: text("error"),
+  startedAt: timestamp("started_at", { withTimezone: true }).defaultNow().notNull(),
+  finishedAt: timestamp("finished_at", { withTimezone: true }),
+});
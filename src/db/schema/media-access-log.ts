@@ -0,0 +1,36 @@
+import {
+  pgTable,
+  serial,
+  text,
+  integer,
+  timestamp,
+} from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./users.ts";
+import { events } from "./retreats.ts";
+
+/**
+ * One row per media hand-out: presigned audio URL, served transcript, built ZIP.
+ * Kept when users/events are deleted so the trail survives.
+ */
+export const mediaAccessLog = pgTable("media_access_log", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }), // null = anonymous (public events)
+  deviceFingerprint: text("device_fingerprint"),
+  resourceType: text("resource_type").notNull(), // audio | transcript | zip
+  resourceId: text("resource_id").notNull(), // track id, transcript id or download request id
+  eventId: integer("event_id").references(() => events.id, { onDelete: "set null" }),
+  ipAddress: text("ip_address"),
+  accessedAt: timestamp("accessed_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+export const mediaAccessLogRelations = relations(mediaAccessLog, ({ one }) => ({
+  user: one(users, {
+    fields: [mediaAccessLog.userId],
+    references: [users.id],
+  }),
+  event: one(events, {
+    fields: [mediaAccessLog.eventId],
+    references: [events.id],
+  }),
+}));
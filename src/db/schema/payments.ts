@@ -0,0 +1,55 @@
+import { pgTable, serial, text, integer, timestamp } from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./users.ts";
+import { subscriptions } from "./subscriptions.ts";
+
+/**
+ * A payment an admin recorded by hand (cash or bank transfer), with the
+ * receipt issued for it. The payer's name and email are copied at the time
+ * so a receipt can be reissued unchanged, and rows outlive their user.
+ */
+export const manualPayments = pgTable("manual_payments", {
+  id: serial("id").primaryKey(),
+  receiptNumber: text("receipt_number").notNull().unique(), // "2026/0001"
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  subscriptionId: integer("subscription_id").references(() => subscriptions.id, {
+    onDelete: "set null",
+  }),
+  payerName: text("payer_name").notNull(),
+  payerEmail: text("payer_email").notNull(),
+  amountCents: integer("amount_cents").notNull(),
+  currency: text("currency").notNull().default("EUR"),
+  method: text("method").notNull(), // "cash" | "bank_transfer"
+  paidAt: timestamp("paid_at", { withTimezone: true }).notNull(),
+  periodStart: timestamp("period_start", { withTimezone: true }).notNull(),
+  periodEnd: timestamp("period_end", { withTimezone: true }).notNull(),
+  reference: text("reference"), // bank transfer reference, cash book entry…
+  note: text("note"),
+  recordedById: integer("recorded_by_id").references(() => users.id, { onDelete: "set null" }),
+  receiptSentAt: timestamp("receipt_sent_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+/**
+ * The last receipt number issued each year. Numbers are taken by
+ * incrementing the year's row in place, so they never repeat.
+ */
+export const receiptSequences = pgTable("receipt_sequences", {
+  year: integer("year").primaryKey(),
+  lastNumber: integer("last_number").notNull().default(0),
+});
+
+export const manualPaymentsRelations = relations(manualPayments, ({ one }) => ({
+  user: one(users, {
+    fields: [manualPayments.userId],
+    references: [users.id],
+  }),
+  subscription: one(subscriptions, {
+    fields: [manualPayments.subscriptionId],
+    references: [subscriptions.id],
+  }),
+  recordedBy: one(users, {
+    fields: [manualPayments.recordedById],
+    references: [users.id],
+  }),
+}));
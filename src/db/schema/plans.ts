@@ -0,0 +1,30 @@
+import {
+  pgTable,
+  serial,
+  text,
+  integer,
+  boolean,
+  timestamp,
+} from "drizzle-orm/pg-core";
+
+/**
+ * A subscription plan members can choose at checkout. `frequency` is the
+ * Easypay billing frequency ("1M", "3M", "6M", "1Y") and also sets how long
+ * each paid period lasts. Inactive plans are hidden from new subscribers but
+ * keep their existing subscriptions.
+ */
+export const plans = pgTable("plans", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull().unique(),
+  nameEn: text("name_en").notNull(),
+  namePt: text("name_pt"),
+  descriptionEn: text("description_en"),
+  descriptionPt: text("description_pt"),
+  priceCents: integer("price_cents").notNull(),
+  currency: text("currency").notNull().default("EUR"),
+  frequency: text("frequency").notNull().default("1M"), // "1M" | "3M" | "6M" | "1Y"
+  isActive: boolean("is_active").notNull().default(true),
+  displayOrder: integer("display_order").default(0).notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+});
@@ -0,0 +1,16 @@
+import { pgTable, text, integer, timestamp, index } from "drizzle-orm/pg-core";
+
+/**
+ * Request counters for the Postgres rate-limit store: one fixed window per
+ * key (limiter, dimension and hashed client value). Rows whose window has
+ * ended are reused by the next hit or pruned by the scheduler.
+ */
+export const rateLimitBuckets = pgTable(
+  "rate_limit_buckets",
+  {
+    key: text("key").primaryKey(),
+    count: integer("count").notNull().default(0),
+    resetAt: timestamp("reset_at", { withTimezone: true }).notNull(),
+  },
+  (t) => [index("rate_limit_buckets_reset_at_idx").on(t.resetAt)],
+);
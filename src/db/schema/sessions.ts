@@ -10,6 +10,7 @@ import {
 import { relations } from "drizzle-orm";
 import { events } from "./retreats.ts";
 import { tracks } from "./tracks.ts";
+import { audiences } from "./audiences.ts";
 
 export const sessions = pgTable(
   "sessions",
@@ -25,6 +26,10 @@ export const sessions = pgTable(
     sessionNumber: integer("session_number").notNull(),
     partNumber: integer("part_number"),
     description: text("description"),
+    // Overrides the event's audience for this session; null inherits it
+    audienceId: integer("audience_id").references(() => audiences.id, {
+      onDelete: "set null",
+    }),
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
   },
@@ -36,5 +41,9 @@ export const sessionsRelations = relations(sessions, ({ one, many }) => ({
     fields: [sessions.eventId],
     references: [events.id],
   }),
+  audience: one(audiences, {
+    fields: [sessions.audienceId],
+    references: [audiences.id],
+  }),
   tracks: many(tracks),
 }));
@@ -0,0 +1,102 @@
+import {
+  pgTable,
+  serial,
+  text,
+  integer,
+  timestamp,
+  unique,
+} from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./users.ts";
+import { plans } from "./plans.ts";
+
+/**
+ * A subscription a user holds with one payment source. A user accumulates
+ * one row per activation; the users.subscription* columns are derived from
+ * these rows by services/subscriptions.ts and never written directly.
+ */
+export const subscriptions = pgTable("subscriptions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  source: text("source").notNull(), // "easypay" | "cash" | "admin" | "bank_transfer" | "voucher"
+  status: text("status").notNull().default("active"), // "active" | "past_due" | "cancelled" | "expired"
+  providerSubscriptionId: text("provider_subscription_id"), // Easypay subscription id
+  planId: integer("plan_id").references(() => plans.id), // null for manual subscriptions
+  startedAt: timestamp("started_at", { withTimezone: true }).defaultNow().notNull(),
+  currentPeriodEnd: timestamp("current_period_end", { withTimezone: true }), // null = open-ended
+  // Set while past_due: a renewal failed and access continues until graceEndsAt
+  pastDueSince: timestamp("past_due_since", { withTimezone: true }),
+  graceEndsAt: timestamp("grace_ends_at", { withTimezone: true }),
+  cancelledAt: timestamp("cancelled_at", { withTimezone: true }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+/**
+ * Append-only history of everything that happened to a subscription:
+ * activations, renewals, failed charges, cancellations and admin adjustments.
+ * Rows outlive their user so the accounts stay complete.
+ */
+export const subscriptionLedger = pgTable("subscription_ledger", {
+  id: serial("id").primaryKey(),
+  subscriptionId: integer("subscription_id").references(() => subscriptions.id, { onDelete: "set null" }),
+  userId: integer("user_id").references(() => users.id, { onDelete: "set null" }),
+  type: text("type").notNull(), // "activation" | "renewal" | "charge_failed" | "past_due" | "cancellation" | "expiry" | "adjustment"
+  amountCents: integer("amount_cents"), // null when no money moved
+  currency: text("currency").notNull().default("EUR"),
+  provider: text("provider").notNull(), // same values as subscriptions.source
+  providerReference: text("provider_reference"), // Easypay notification/transaction id, bank reference…
+  periodStart: timestamp("period_start", { withTimezone: true }),
+  periodEnd: timestamp("period_end", { withTimezone: true }),
+  note: text("note"),
+  recordedById: integer("recorded_by_id").references(() => users.id, { onDelete: "set null" }), // admin, for manual entries
+  occurredAt: timestamp("occurred_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+/**
+ * Reminders already sent about a subscription's period end (or grace end,
+ * for payment-failed emails), one row per kind and period so a rerun of the
+ * sweep never sends the same one twice.
+ */
+export const subscriptionReminders = pgTable(
+  "subscription_reminders",
+  {
+    id: serial("id").primaryKey(),
+    subscriptionId: integer("subscription_id")
+      .notNull()
+      .references(() => subscriptions.id, { onDelete: "cascade" }),
+    kind: text("kind").notNull(), // "expiry_7d" | "expiry_1d" | "manual_renewal" | "dunning_first" | "dunning_reminder" | "dunning_final"
+    periodEnd: timestamp("period_end", { withTimezone: true }).notNull(),
+    sentAt: timestamp("sent_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (t) => [unique("subscription_reminders_once").on(t.subscriptionId, t.kind, t.periodEnd)],
+);
+
+export const subscriptionsRelations = relations(subscriptions, ({ one, many }) => ({
+  user: one(users, {
+    fields: [subscriptions.userId],
+    references: [users.id],
+  }),
+  plan: one(plans, {
+    fields: [subscriptions.planId],
+    references: [plans.id],
+  }),
+  entries: many(subscriptionLedger),
+}));
+
+export const subscriptionLedgerRelations = relations(subscriptionLedger, ({ one }) => ({
+  subscription: one(subscriptions, {
+    fields: [subscriptionLedger.subscriptionId],
+    references: [subscriptions.id],
+  }),
+  user: one(users, {
+    fields: [subscriptionLedger.userId],
+    references: [users.id],
+  }),
+  recordedBy: one(users, {
+    fields: [subscriptionLedger.recordedById],
+    references: [users.id],
+  }),
+}));
@@ -10,6 +10,7 @@ import {
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { sessions } from "./sessions.ts";
+import { audiences } from "./audiences.ts";
 
 export const tracks = pgTable(
   "tracks",
@@ -34,6 +35,10 @@ export const tracks = pgTable(
     fileSizeBytes: bigint("file_size_bytes", { mode: "number" }),
     originalFilename: text("original_filename"),
     readAlongS3Key: text("read_along_s3_key"),
+    // Overrides the session/event audience for this track; null inherits it
+    audienceId: integer("audience_id").references(() => audiences.id, {
+      onDelete: "set null",
+    }),
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
     updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
   },
@@ -49,4 +54,8 @@ export const tracksRelations = relations(tracks, ({ one }) => ({
     fields: [tracks.originalTrackId],
     references: [tracks.id],
   }),
+  audience: one(audiences, {
+    fields: [tracks.audienceId],
+    references: [audiences.id],
+  }),
 }));
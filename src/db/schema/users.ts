@@ -22,9 +22,11 @@ export const users = pgTable("users", {
   role: text("role").notNull().default("user"),
   isActive: boolean("is_active").notNull().default(true),
   isVerified: boolean("is_verified").notNull().default(false),
+  // Embedded in every token; bumping it signs the user out everywhere (see services/sessions.ts)
+  tokenVersion: integer("token_version").notNull().default(0),
   // Subscription fields
-  subscriptionStatus: text("subscription_status").notNull().default("none"), // "active" | "expired" | "none"
-  subscriptionSource: text("subscription_source"), // "easypay" | "cash" | "admin" | "bank_transfer"
+  subscriptionStatus: text("subscription_status").notNull().default("none"), // "active" | "past_due" | "expired" | "none"
+  subscriptionSource: text("subscription_source"), // "easypay" | "cash" | "admin" | "bank_transfer" | "voucher"
   subscriptionExpiresAt: timestamp("subscription_expires_at", { withTimezone: true }),
   subscriptionNotes: text("subscription_notes"),
   easypaySubscriptionId: text("easypay_subscription_id").unique(),
@@ -42,8 +44,15 @@ export const userGroupMemberships = pgTable(
     retreatGroupId: integer("retreat_group_id")
       .notNull()
       .references(() => retreatGroups.id, { onDelete: "cascade" }),
-    status: text("status").notNull().default("confirmed"),
+    status: text("status").notNull().default("confirmed"), // "pending" | "confirmed" | "lapsed" | "removed"
     joinedAt: timestamp("joined_at", { withTimezone: true }).defaultNow().notNull(),
+    // Lifecycle — when each state was last entered, and who made the latest change
+    confirmedAt: timestamp("confirmed_at", { withTimezone: true }),
+    lapsedAt: timestamp("lapsed_at", { withTimezone: true }),
+    removedAt: timestamp("removed_at", { withTimezone: true }),
+    statusChangedAt: timestamp("status_changed_at", { withTimezone: true }),
+    statusChangedById: integer("status_changed_by_id").references(() => users.id, { onDelete: "set null" }),
+    statusNote: text("status_note"),
   },
   (t) => [primaryKey({ columns: [t.userId, t.retreatGroupId] })],
 );
@@ -59,6 +68,12 @@ export const userEventAttendance = pgTable(
       .references(() => events.id, { onDelete: "cascade" }),
     status: text("status").notNull().default("registered"),
     registeredAt: timestamp("registered_at", { withTimezone: true }).defaultNow().notNull(),
+    // Access grant metadata — a null bound means the window is open on that side
+    source: text("source").notNull().default("attended"), // "attended" | "admin" | "purchased" | "initiation" | "voucher"
+    validFrom: timestamp("valid_from", { withTimezone: true }),
+    validUntil: timestamp("valid_until", { withTimezone: true }),
+    note: text("note"),
+    grantedById: integer("granted_by_id").references(() => users.id, { onDelete: "set null" }),
   },
   (t) => [primaryKey({ columns: [t.userId, t.eventId] })],
 );
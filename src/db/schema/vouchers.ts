@@ -0,0 +1,103 @@
+import {
+  pgTable,
+  serial,
+  text,
+  integer,
+  boolean,
+  timestamp,
+  primaryKey,
+  unique,
+} from "drizzle-orm/pg-core";
+import { relations } from "drizzle-orm";
+import { users } from "./users.ts";
+import { events } from "./retreats.ts";
+import { subscriptions } from "./subscriptions.ts";
+
+/**
+ * A code members redeem for months of subscription and/or access to specific
+ * events. Codes generated together share a batch label. `redemptionCount` is
+ * kept in step with voucher_redemptions and is what the usage limit is
+ * checked against.
+ */
+export const vouchers = pgTable("vouchers", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  batchLabel: text("batch_label"),
+  months: integer("months"), // months of subscription granted; null = events only
+  maxRedemptions: integer("max_redemptions").notNull().default(1),
+  redemptionCount: integer("redemption_count").notNull().default(0),
+  expiresAt: timestamp("expires_at", { withTimezone: true }), // null = never
+  isActive: boolean("is_active").notNull().default(true),
+  note: text("note"),
+  createdById: integer("created_by_id").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Junction: voucher <-> events it grants access to
+export const voucherEvents = pgTable(
+  "voucher_events",
+  {
+    voucherId: integer("voucher_id")
+      .notNull()
+      .references(() => vouchers.id, { onDelete: "cascade" }),
+    eventId: integer("event_id")
+      .notNull()
+      .references(() => events.id, { onDelete: "cascade" }),
+  },
+  (t) => [primaryKey({ columns: [t.voucherId, t.eventId] })],
+);
+
+/** One row per member who redeemed a voucher; a member redeems a voucher once. */
+export const voucherRedemptions = pgTable(
+  "voucher_redemptions",
+  {
+    id: serial("id").primaryKey(),
+    voucherId: integer("voucher_id")
+      .notNull()
+      .references(() => vouchers.id, { onDelete: "cascade" }),
+    userId: integer("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    subscriptionId: integer("subscription_id").references(() => subscriptions.id, {
+      onDelete: "set null",
+    }),
+    redeemedAt: timestamp("redeemed_at", { withTimezone: true }).defaultNow().notNull(),
+  },
+  (t) => [unique("voucher_redemptions_once").on(t.voucherId, t.userId)],
+);
+
+export const vouchersRelations = relations(vouchers, ({ one, many }) => ({
+  createdBy: one(users, {
+    fields: [vouchers.createdById],
+    references: [users.id],
+  }),
+  events: many(voucherEvents),
+  redemptions: many(voucherRedemptions),
+}));
+
+export const voucherEventsRelations = relations(voucherEvents, ({ one }) => ({
+  voucher: one(vouchers, {
+    fields: [voucherEvents.voucherId],
+    references: [vouchers.id],
+  }),
+  event: one(events, {
+    fields: [voucherEvents.eventId],
+    references: [events.id],
+  }),
+}));
+
+export const voucherRedemptionsRelations = relations(voucherRedemptions, ({ one }) => ({
+  voucher: one(vouchers, {
+    fields: [voucherRedemptions.voucherId],
+    references: [vouchers.id],
+  }),
+  user: one(users, {
+    fields: [voucherRedemptions.userId],
+    references: [users.id],
+  }),
+  subscription: one(subscriptions, {
+    fields: [voucherRedemptions.subscriptionId],
+    references: [subscriptions.id],
+  }),
+}));
@@ -0,0 +1,26 @@
+import {
+  pgTable,
+  serial,
+  text,
+  integer,
+  timestamp,
+  jsonb,
+} from "drizzle-orm/pg-core";
+
+/**
+ * Every payment provider notification, stored before it is acted on so a
+ * failed one can be retried with backoff or replayed by an admin.
+ */
+export const webhookInbox = pgTable("webhook_inbox", {
+  id: serial("id").primaryKey(),
+  provider: text("provider").notNull().default("easypay"),
+  notificationId: text("notification_id").notNull().unique(), // dedupe key, derived from the payload
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  status: text("status").notNull().default("pending"), // pending | processing | processed | ignored | failed | dead
+  attempts: integer("attempts").notNull().default(0),
+  lastError: text("last_error"),
+  nextAttemptAt: timestamp("next_attempt_at", { withTimezone: true }),
+  claimedAt: timestamp("claimed_at", { withTimezone: true }), // when processing last started
+  receivedAt: timestamp("received_at", { withTimezone: true }).defaultNow().notNull(),
+  processedAt: timestamp("processed_at", { withTimezone: true }),
+});
@@ -5,6 +5,12 @@ import { serveStatic } from "hono/bun";
 import { config } from "./config.ts";
 import { errorHandler } from "./lib/errors.ts";
 import { api } from "./routes/index.ts";
+import { startWebhookRetryLoop } from "./services/webhook-inbox.ts";
+import { startScheduler } from "./services/scheduler.ts";
+import { subscriptionSweepJob } from "./services/subscription-sweeper.ts";
+import { rateLimitPruneJob } from "./services/rate-limit.ts";
+import { refreshTokenPruneJob } from "./services/refresh-tokens.ts";
+import { accountDeletionJob } from "./services/personal-data.ts";
 
 const app = new Hono();
 
@@ -68,6 +74,14 @@ app.notFound((c) =>
   c.json({ error: "Not found", code: "NOT_FOUND" }, 404),
 );
 
+// Background work: retry failed payment notifications, sweep subscriptions,
+// drop ended rate-limit windows and expired refresh tokens, and erase accounts
+// whose deletion cooling-off period is over
+if (config.nodeEnv !== "test") {
+  startWebhookRetryLoop();
+  startScheduler([subscriptionSweepJob, rateLimitPruneJob, refreshTokenPruneJob, accountDeletionJob]);
+}
+
 export default {
   port: config.port,
   fetch: app.fetch,
@@ -0,0 +1,13 @@
+/**
+ * Serialize rows as CSV (RFC 4180) with a header line, in the order of
+ * `columns`. Dates are written as ISO strings and null/undefined as empty.
+ */
+export function toCsv<T extends object>(rows: T[], columns: (keyof T & string)[]): string {
+  const cell = (value: unknown): string => {
+    if (value === null || value === undefined) return "";
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [columns.join(","), ...rows.map((row) => columns.map((col) => cell(row[col])).join(","))];
+  return lines.join("\r\n") + "\r\n";
+}
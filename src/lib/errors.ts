@@ -30,6 +30,10 @@ export class AppError extends Error {
   static conflict(message: string) {
     return new AppError(409, message, "CONFLICT");
   }
+
+  static tooManyRequests(message = "Too many requests, please try again later") {
+    return new AppError(429, message, "RATE_LIMITED");
+  }
 }
 
 export function errorHandler(err: Error, c: Context) {
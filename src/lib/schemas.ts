@@ -1,4 +1,5 @@
 import { z } from "zod";
+import { roleValues } from "../services/permissions.ts";
 
 // Auth
 export const loginSchema = z.object({
@@ -38,6 +39,8 @@ export const autoActivateSchema = z.object({
   device_fingerprint: z.string().min(1),
   device_name: z.string().min(1),
   device_type: z.string().min(1),
+  // The device to deactivate when the account is at its device limit
+  replace_device_id: z.number().int().positive().optional(),
 });
 
 export const deactivateDeviceSchema = z.object({
@@ -48,6 +51,22 @@ export const refreshTokenSchema = z.object({
   refreshToken: z.string().min(1),
 });
 
+export const changeEmailSchema = z.object({
+  email: z.email(),
+});
+
+// Two-factor authentication
+export const twoFactorCodeSchema = z.object({
+  // A 6-digit TOTP code or a backup code
+  code: z.string().trim().min(6).max(20),
+});
+
+export const twoFactorChallengeSchema = z.object({
+  twoFactorToken: z.string().min(1),
+});
+
+export const twoFactorLoginSchema = twoFactorChallengeSchema.extend(twoFactorCodeSchema.shape);
+
 // Teachers
 export const createTeacherSchema = z.object({
   name: z.string().min(1).max(200),
@@ -137,6 +156,7 @@ export const createSessionSchema = z.object({
   timePeriod: z.enum(["morning", "afternoon", "evening", "full_day"]).optional().nullable(),
   sessionNumber: z.number().int().min(1),
   description: z.string().optional().nullable(),
+  audienceId: z.number().int().optional().nullable(),
 });
 
 export const updateSessionSchema = createSessionSchema.partial();
@@ -156,6 +176,7 @@ export const createTrackSchema = z.object({
   fileSizeBytes: z.number().int().min(0).optional().nullable(),
   originalFilename: z.string().optional().nullable(),
   speaker: z.string().max(10).optional().nullable(),
+  audienceId: z.number().int().optional().nullable(),
 });
 
 export const updateTrackSchema = z.object({
@@ -172,6 +193,7 @@ export const updateTrackSchema = z.object({
   fileSizeBytes: z.number().int().min(0).nullable(),
   originalFilename: z.string().nullable(),
   speaker: z.string().max(10).nullable(),
+  audienceId: z.number().int().nullable(),
 }).partial();
 
 // User content
@@ -223,13 +245,177 @@ export const updateUserSchema = z.object({
   lastName: z.string().max(100).optional().nullable(),
   dharmaName: z.string().max(100).optional().nullable(),
   preferredLanguage: z.enum(["en", "pt"]).optional(),
-  role: z.enum(["user", "admin", "superadmin"]).optional(),
+  role: z.enum(roleValues).optional(),
   isActive: z.boolean().optional(),
-  subscriptionStatus: z.enum(["active", "expired", "none"]).optional(),
+  subscriptionStatus: z.enum(["active", "past_due", "expired", "none"]).optional(),
   subscriptionSource: z
-    .enum(["easypay", "cash", "admin", "bank_transfer"])
+    .enum(["easypay", "cash", "admin", "bank_transfer", "voucher"])
     .optional()
     .nullable(),
   subscriptionExpiresAt: z.string().optional().nullable(),
   subscriptionNotes: z.string().max(500).optional().nullable(),
 });
+
+// Event access grants (userEventAttendance)
+export const grantSourceSchema = z.enum(["attended", "admin", "purchased", "initiation", "voucher"]);
+
+const grantDateSchema = z.string().refine((value) => !Number.isNaN(Date.parse(value)), "Expected a date");
+
+const eventGrantFields = z.object({
+  source: grantSourceSchema.optional(),
+  validFrom: grantDateSchema.optional().nullable(),
+  validUntil: grantDateSchema.optional().nullable(),
+  note: z.string().max(500).optional().nullable(),
+});
+
+function grantWindowInOrder(data: { validFrom?: string | null; validUntil?: string | null }) {
+  return !data.validFrom || !data.validUntil || Date.parse(data.validUntil) > Date.parse(data.validFrom);
+}
+const grantWindowError = { message: "validUntil must be after validFrom", path: ["validUntil"] };
+
+export const createEventGrantSchema = eventGrantFields
+  .extend({
+    eventId: z.number().int(),
+    // Grants made by hand; the attendance checkbox sends "attended" itself
+    source: grantSourceSchema.optional().default("admin"),
+  })
+  .refine(grantWindowInOrder, grantWindowError);
+
+export const updateEventGrantSchema = eventGrantFields.refine(grantWindowInOrder, grantWindowError);
+
+export const requestEventAccessSchema = z.object({
+  message: z.string().max(1000).optional(),
+});
+
+export const approveEventAccessSchema = z.object({
+  validUntil: z.string().optional().nullable(),
+  adminMessage: z.string().max(1000).optional(),
+});
+
+export const rejectEventAccessSchema = z.object({
+  adminMessage: z.string().max(1000).optional(),
+});
+
+// Retreat group memberships (userGroupMemberships)
+export const membershipStatusSchema = z.enum(["pending", "confirmed", "lapsed", "removed"]);
+
+export const addGroupMembershipSchema = z.object({
+  retreatGroupId: z.number().int(),
+  status: membershipStatusSchema.exclude(["removed"]).optional().default("confirmed"),
+  note: z.string().max(500).optional().nullable(),
+});
+
+export const updateGroupMembershipSchema = z.object({
+  status: membershipStatusSchema,
+  note: z.string().max(500).optional().nullable(),
+});
+
+// Devices (admin)
+export const updateDeviceSchema = z.object({
+  deviceName: z.string().trim().min(1).max(100),
+});
+
+// Subscription plans
+export const planFrequencySchema = z.enum(["1M", "3M", "6M", "1Y"]);
+
+export const createPlanSchema = z.object({
+  slug: z.string().min(1).max(100),
+  nameEn: z.string().min(1).max(200),
+  namePt: z.string().max(200).optional().nullable(),
+  descriptionEn: z.string().max(2000).optional().nullable(),
+  descriptionPt: z.string().max(2000).optional().nullable(),
+  priceCents: z.number().int().min(1),
+  currency: z.string().length(3).optional().default("EUR"),
+  frequency: planFrequencySchema.optional().default("1M"),
+  isActive: z.boolean().optional().default(true),
+  displayOrder: z.number().int().min(0).optional().default(0),
+});
+
+export const updatePlanSchema = createPlanSchema.partial();
+
+export const subscribeSchema = z.object({
+  planId: z.number().int().positive().optional(),
+});
+
+// Vouchers
+export const createVoucherSchema = z
+  .object({
+    code: z.string().min(4).max(64).optional(),
+    quantity: z.number().int().min(1).max(1000).optional().default(1),
+    batchLabel: z.string().max(200).optional().nullable(),
+    months: z.number().int().min(1).max(120).optional().nullable(),
+    eventIds: z.array(z.number().int()).optional().default([]),
+    maxRedemptions: z.number().int().min(1).optional().default(1),
+    expiresAt: z.string().optional().nullable(),
+    note: z.string().max(500).optional().nullable(),
+  })
+  .refine((data) => data.months || data.eventIds.length > 0, {
+    message: "A voucher must grant months of subscription or events",
+  });
+
+export const updateVoucherSchema = z.object({
+  batchLabel: z.string().max(200).optional().nullable(),
+  maxRedemptions: z.number().int().min(1).optional(),
+  expiresAt: z.string().optional().nullable(),
+  isActive: z.boolean().optional(),
+  note: z.string().max(500).optional().nullable(),
+});
+
+export const redeemVoucherSchema = z.object({
+  code: z.string().min(1).max(64),
+});
+
+// Manual payments
+export const createManualPaymentSchema = z
+  .object({
+    userId: z.number().int().positive(),
+    amountCents: z.number().int().min(1),
+    currency: z.string().length(3).optional().default("EUR"),
+    method: z.enum(["cash", "bank_transfer"]),
+    paidAt: z.string().optional().nullable(),
+    periodStart: z.string().optional().nullable(),
+    periodEnd: z.string().optional().nullable(),
+    months: z.number().int().min(1).max(120).optional().nullable(),
+    reference: z.string().max(200).optional().nullable(),
+    note: z.string().max(500).optional().nullable(),
+    sendReceipt: z.boolean().optional().default(false),
+  })
+  .refine((data) => data.periodEnd || data.months, {
+    message: "Give the end of the period covered or a number of months",
+  });
+
+// Reports
+const reportMonthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, "Expected a month as YYYY-MM");
+
+export const reportRangeSchema = z.object({
+  from: reportMonthSchema.optional(),
+  to: reportMonthSchema.optional(),
+  format: z.enum(["json", "csv"]).optional().default("json"),
+});
+
+export const expiriesReportSchema = z.object({
+  days: z.coerce.number().int().min(1).max(366).optional().default(30),
+  format: z.enum(["json", "csv"]).optional().default("json"),
+});
+
+// Media access log (admin filters)
+const logDaySchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a day as YYYY-MM-DD")
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Expected a day as YYYY-MM-DD");
+
+export const mediaAccessFilterSchema = z.object({
+  userId: z.coerce.number().int().positive().optional(),
+  eventId: z.coerce.number().int().positive().optional(),
+  resourceType: z.enum(["audio", "transcript", "zip"]).optional(),
+  deviceFingerprint: z.string().optional(),
+  ipAddress: z.string().optional(),
+  from: logDaySchema.optional(),
+  to: logDaySchema.optional(),
+});
+
+// Account deletion
+export const deleteAccountSchema = z.object({
+  // The member types their email address to confirm
+  confirmEmail: z.string().min(1),
+});
@@ -1,15 +1,38 @@
 import type { Context, Next } from "hono";
 import { getUser } from "./auth.ts";
 import { AppError } from "../lib/errors.ts";
+import { twoFactorRequiredFor } from "../services/two-factor.ts";
+import { can, isAdminRole, type AdminResource } from "../services/permissions.ts";
 
 /**
- * Middleware that checks the authenticated user has admin or superadmin role.
+ * Middleware that checks the authenticated user has an admin role (see
+ * services/permissions.ts); what the role may do is checked per area by
+ * requirePermission. Roles listed in TWO_FACTOR_REQUIRED_ROLES must also have
+ * signed in with a second factor, so a session from a magic link cannot reach
+ * the admin API.
  * Must be used after authMiddleware.
  */
 export async function adminMiddleware(c: Context, next: Next) {
   const user = getUser(c);
-  if (user.role !== "admin" && user.role !== "superadmin") {
+  if (!isAdminRole(user.role)) {
     throw AppError.forbidden("Admin access required");
   }
+  if (twoFactorRequiredFor(user.role) && !user.mfa) {
+    throw new AppError(403, "Two-factor authentication required", "TWO_FACTOR_REQUIRED");
+  }
   await next();
 }
+
+/**
+ * Middleware for an admin area: GET and HEAD need read access to `resource`,
+ * other methods write access. Must be used after adminMiddleware.
+ */
+export function requirePermission(resource: AdminResource) {
+  return async (c: Context, next: Next) => {
+    const action = c.req.method === "GET" || c.req.method === "HEAD" ? "read" : "write";
+    if (!can(getUser(c).role, resource, action)) {
+      throw new AppError(403, `Your role cannot ${action} ${resource}`, "PERMISSION_DENIED");
+    }
+    await next();
+  };
+}
@@ -1,15 +1,21 @@
 import type { Context, Next } from "hono";
 import { verifyToken } from "../services/auth.ts";
+import { isSessionCurrent } from "../services/sessions.ts";
 import { AppError } from "../lib/errors.ts";
 
 export interface AuthUser {
   id: number;
   email: string;
   role: string;
+  /** Signed in with a second factor (see services/two-factor.ts). */
+  mfa?: boolean;
 }
 
 /**
  * Middleware that verifies the JWT access token from the Authorization header.
+ * Tokens of deactivated users, or issued before the user was signed out
+ * everywhere (see services/sessions.ts), are refused. adminMiddleware runs
+ * after this, so a demoted admin's old token never reaches it.
  * Sets c.set("user", ...) on success.
  */
 export async function authMiddleware(c: Context, next: Next) {
@@ -19,18 +25,24 @@ export async function authMiddleware(c: Context, next: Next) {
   }
 
   const token = authHeader.slice(7);
+  let payload;
   try {
-    const payload = await verifyToken(token);
-    const user: AuthUser = {
-      id: parseInt(payload.sub!, 10),
-      email: payload.email!,
-      role: payload.role!,
-    };
-    c.set("user", user);
-    await next();
+    payload = await verifyToken(token);
   } catch {
     throw AppError.unauthorized("Invalid or expired token");
   }
+
+  const user: AuthUser = {
+    id: parseInt(payload.sub!, 10),
+    email: payload.email!,
+    role: payload.role!,
+    mfa: payload.mfa === true,
+  };
+  if (!(await isSessionCurrent(user.id, payload.ver ?? 0))) {
+    throw new AppError(401, "Session has been revoked, please sign in again", "SESSION_REVOKED");
+  }
+  c.set("user", user);
+  await next();
 }
 
 /**
@@ -51,8 +63,11 @@ export async function optionalAuthMiddleware(c: Context, next: Next) {
         id: parseInt(payload.sub!, 10),
         email: payload.email!,
         role: payload.role!,
+        mfa: payload.mfa === true,
       };
-      c.set("user", user);
+      if (await isSessionCurrent(user.id, payload.ver ?? 0)) {
+        c.set("user", user);
+      }
     } catch {
       // Invalid token — treat as unauthenticated
     }
@@ -0,0 +1,93 @@
+import type { Context, Next } from "hono";
+import { createHash } from "crypto";
+import { config } from "../config.ts";
+import { AppError } from "../lib/errors.ts";
+import { getRateLimitStore, parseLimit } from "../services/rate-limit.ts";
+import { verifyTwoFactorToken } from "../services/auth.ts";
+
+/**
+ * What a request is counted by: the client IP, the email / device fingerprint
+ * in its JSON body, or the account its login challenge (twoFactorToken) was
+ * issued to.
+ */
+export type RateLimitDimension = "ip" | "email" | "device" | "account";
+
+/** A limit per dimension, each written as "<requests>/<window>" (see config.rateLimit). */
+export type RateLimitRules = Partial<Record<RateLimitDimension, string>>;
+
+/**
+ * The client IP as reported by the reverse proxy. Each proxy appends the
+ * address it saw to X-Forwarded-For, so with `trustedProxies` proxies the
+ * client is that many hops from the end; anything before it was sent by the
+ * client and cannot be trusted.
+ */
+export function clientIp(c: Context): string | null {
+  const hops = (c.req.header("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+  const trusted = config.rateLimit.trustedProxies;
+  const forwarded = trusted > 0 ? hops[Math.max(0, hops.length - trusted)] : undefined;
+  return forwarded || c.req.header("x-real-ip") || null;
+}
+
+async function dimensionValue(c: Context, dimension: RateLimitDimension): Promise<string | null> {
+  if (dimension === "ip") return clientIp(c) ?? "unknown";
+  // Hono caches the parsed body, so the route can still read it
+  const body = await c.req.json().catch(() => null);
+  if (dimension === "account") {
+    const userId =
+      typeof body?.twoFactorToken === "string" ? await verifyTwoFactorToken(body.twoFactorToken) : null;
+    return userId === null ? null : String(userId);
+  }
+  const value = dimension === "email" ? body?.email : body?.device_fingerprint;
+  if (typeof value !== "string" || !value.trim()) return null;
+  return dimension === "email" ? value.toLowerCase().trim() : value.trim();
+}
+
+/**
+ * Throttle a route per client IP, email, device fingerprint and/or challenged
+ * account. Every request counts against each of its limits; once one is
+ * exceeded the request is refused with 429 and Retry-After until that window
+ * ends. The first refusal in a window is logged as a lockout. Values are
+ * hashed before they reach the store, and a failing store lets requests
+ * through. `rules` is read on every request, so limits changed in place take
+ * effect at once.
+ */
+export function rateLimit(name: string, rules: RateLimitRules) {
+  return async (c: Context, next: Next) => {
+    if (!config.rateLimit.enabled) return next();
+
+    const now = new Date();
+    let retryAfterMs = 0;
+    for (const [dimension, spec] of Object.entries(rules) as [RateLimitDimension, string][]) {
+      const { limit, windowMs } = parseLimit(spec);
+      const value = await dimensionValue(c, dimension);
+      if (value === null) continue;
+
+      const digest = createHash("sha256").update(value).digest("hex").slice(0, 32);
+      let hit;
+      try {
+        hit = await getRateLimitStore().hit(`${name}:${dimension}:${digest}`, windowMs, now);
+      } catch (error) {
+        console.error(`[RATE LIMIT] Store unavailable for ${name}, not limiting:`, error);
+        return next();
+      }
+
+      if (hit.count > limit) {
+        if (hit.count === limit + 1) {
+          console.warn(
+            `[RATE LIMIT] ${name}: ${dimension} ${value} locked out until ${hit.resetAt.toISOString()} (${limit} per ${windowMs / 1000}s)`,
+          );
+        }
+        retryAfterMs = Math.max(retryAfterMs, hit.resetAt.getTime() - now.getTime());
+      }
+    }
+
+    if (retryAfterMs > 0) {
+      c.header("Retry-After", String(Math.max(1, Math.ceil(retryAfterMs / 1000))));
+      throw AppError.tooManyRequests();
+    }
+    await next();
+  };
+}
@@ -0,0 +1,62 @@
+import type { Context, Next } from "hono";
+import { eq } from "drizzle-orm";
+import { db } from "../db/index.ts";
+import { users } from "../db/schema/users.ts";
+import { adminAuditLog } from "../db/schema/admin-audit-log.ts";
+import { AppError } from "../lib/errors.ts";
+import { can } from "../services/permissions.ts";
+import { twoFactorRequiredFor } from "../services/two-factor.ts";
+import { getOptionalUser, type AuthUser } from "./auth.ts";
+
+export const VIEW_AS_HEADER = "X-View-As-User";
+
+/**
+ * Middleware that lets an admin who can read users evaluate a route as another
+ * user by sending `X-View-As-User: <userId>`. Must be used after (optional)
+ * auth middleware.
+ *
+ * Only GET requests are allowed, and every use is written to admin_audit_log.
+ * Roles that need a second factor for the admin API need it here too.
+ * The route then sees the target user via getUser(); the admin stays
+ * available as c.get("viewAsAdmin").
+ */
+export async function viewAsMiddleware(c: Context, next: Next) {
+  const header = c.req.header(VIEW_AS_HEADER);
+  if (!header) return next();
+
+  const admin = getOptionalUser(c);
+  if (!admin || !can(admin.role, "users", "read")) {
+    throw AppError.forbidden("Admin access required");
+  }
+  if (twoFactorRequiredFor(admin.role) && !admin.mfa) {
+    throw new AppError(403, "Two-factor authentication required", "TWO_FACTOR_REQUIRED");
+  }
+  if (c.req.method !== "GET") {
+    throw AppError.forbidden("Viewing as another user is read-only");
+  }
+
+  const targetId = parseInt(header, 10);
+  if (isNaN(targetId)) {
+    throw AppError.badRequest(`Invalid ${VIEW_AS_HEADER} header`, "INVALID_VIEW_AS_USER");
+  }
+
+  const target = await db.query.users.findFirst({
+    where: eq(users.id, targetId),
+  });
+  if (!target) throw AppError.notFound("User to view as not found");
+
+  await db.insert(adminAuditLog).values({
+    adminId: admin.id,
+    action: "view_as",
+    targetUserId: target.id,
+    method: c.req.method,
+    path: new URL(c.req.url).pathname,
+    details: { query: c.req.query() },
+  });
+
+  const viewed: AuthUser = { id: target.id, email: target.email, role: target.role };
+  c.set("user", viewed);
+  c.set("viewAsAdmin", admin);
+  c.header(VIEW_AS_HEADER, String(target.id));
+  await next();
+}
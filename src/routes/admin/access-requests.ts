@@ -0,0 +1,194 @@
+import { Hono } from "hono";
+import { eq, and } from "drizzle-orm";
+import { db } from "../../db/index.ts";
+import { userEventAttendance } from "../../db/schema/users.ts";
+import { eventAccessRequests } from "../../db/schema/event-access-requests.ts";
+import { getUser } from "../../middleware/auth.ts";
+import { AppError } from "../../lib/errors.ts";
+import { approveEventAccessSchema, rejectEventAccessSchema } from "../../lib/schemas.ts";
+import { AUDIENCE_SLUGS } from "../../services/access.ts";
+import { sendEmail, buildAccessGrantedEmail } from "../../services/email.ts";
+import {
+  parsePagination,
+  buildOrderBy,
+  listResponse,
+  countRows,
+} from "./helpers.ts";
+
+const accessRequestRoutes = new Hono();
+
+const columns: Record<string, any> = {
+  id: eventAccessRequests.id,
+  userId: eventAccessRequests.userId,
+  eventId: eventAccessRequests.eventId,
+  status: eventAccessRequests.status,
+  requestedAt: eventAccessRequests.requestedAt,
+  reviewedAt: eventAccessRequests.reviewedAt,
+};
+
+const requestWith = {
+  user: {
+    columns: { id: true, email: true, firstName: true, lastName: true },
+  },
+  event: {
+    columns: { id: true, eventCode: true, titleEn: true, titlePt: true },
+  },
+  reviewedBy: {
+    columns: { id: true, email: true, firstName: true, lastName: true },
+  },
+} as const;
+
+/**
+ * GET /api/admin/access-requests - List event access requests (React Admin compatible)
+ */
+accessRequestRoutes.get("/", async (c) => {
+  const { limit, offset, _sort, _order } = parsePagination(c);
+  const orderBy = buildOrderBy(_sort, _order, columns);
+
+  const [data, total] = await Promise.all([
+    db.query.eventAccessRequests.findMany({
+      orderBy: orderBy ? [orderBy] : undefined,
+      limit,
+      offset,
+      with: requestWith,
+    }),
+    countRows(eventAccessRequests),
+  ]);
+
+  return listResponse(c, data, total, offset, offset + limit, "access-requests");
+});
+
+/**
+ * GET /api/admin/access-requests/:id - Get single access request
+ */
+accessRequestRoutes.get("/:id", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  const request = await db.query.eventAccessRequests.findFirst({
+    where: eq(eventAccessRequests.id, id),
+    with: requestWith,
+  });
+  if (!request) throw AppError.notFound("Access request not found");
+  return c.json(request);
+});
+
+/**
+ * POST /api/admin/access-requests/:id/approve
+ *
+ * Approves the request:
+ * 1. Marks request as approved, unless another admin reviewed it meanwhile (409)
+ * 2. Creates (or renews) the userEventAttendance grant, optionally time-boxed
+ * 3. Emails the user in their preferred language
+ */
+accessRequestRoutes.post("/:id/approve", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  const admin = getUser(c);
+  const body = await c.req.json().catch(() => ({}));
+  const data = approveEventAccessSchema.parse(body);
+
+  const request = await db.query.eventAccessRequests.findFirst({
+    where: eq(eventAccessRequests.id, id),
+    with: {
+      user: true,
+      event: { with: { audience: true } },
+    },
+  });
+  if (!request) throw AppError.notFound("Access request not found");
+  if (request.status !== "pending") {
+    throw AppError.badRequest(`Request already ${request.status}`);
+  }
+
+  const validUntil = data.validUntil ? new Date(data.validUntil) : null;
+  if (validUntil && (isNaN(validUntil.getTime()) || validUntil <= new Date())) {
+    throw AppError.badRequest("validUntil must be a future date", "INVALID_GRANT_WINDOW");
+  }
+
+  const grant = {
+    source:
+      request.event.audience?.slug === AUDIENCE_SLUGS.INITIATION ? "initiation" : "admin",
+    validFrom: null,
+    validUntil,
+    note: request.message,
+    grantedById: admin.id,
+  };
+
+  await db.transaction(async (tx) => {
+    // Only the first of two admins acting at once gets the row back
+    const [claimed] = await tx
+      .update(eventAccessRequests)
+      .set({
+        status: "approved",
+        adminMessage: data.adminMessage ?? null,
+        reviewedAt: new Date(),
+        reviewedById: admin.id,
+      })
+      .where(and(eq(eventAccessRequests.id, id), eq(eventAccessRequests.status, "pending")))
+      .returning({ id: eventAccessRequests.id });
+    if (!claimed) throw AppError.conflict("Request was already reviewed");
+
+    await tx
+      .insert(userEventAttendance)
+      .values({ userId: request.userId, eventId: request.eventId, ...grant })
+      .onConflictDoUpdate({
+        target: [userEventAttendance.userId, userEventAttendance.eventId],
+        set: grant,
+      });
+  });
+
+  const language = request.user.preferredLanguage ?? "en";
+  const eventTitle =
+    (language === "pt" && request.event.titlePt) || request.event.titleEn;
+  const emailContent = buildAccessGrantedEmail(
+    eventTitle,
+    language,
+    validUntil,
+    data.adminMessage,
+  );
+  // Access is already granted; a failed email must not turn that into an error
+  try {
+    await sendEmail({
+      to: request.user.email,
+      subject: emailContent.subject,
+      html: emailContent.html,
+    });
+  } catch (error) {
+    console.error(`[Access requests] Approval email to ${request.user.email} failed:`, error);
+  }
+
+  return c.json({ message: "Request approved — access granted" });
+});
+
+/**
+ * POST /api/admin/access-requests/:id/reject
+ *
+ * Rejects the request with an optional admin message.
+ */
+accessRequestRoutes.post("/:id/reject", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  const admin = getUser(c);
+  const body = await c.req.json().catch(() => ({}));
+  const { adminMessage } = rejectEventAccessSchema.parse(body);
+
+  const request = await db.query.eventAccessRequests.findFirst({
+    where: eq(eventAccessRequests.id, id),
+  });
+  if (!request) throw AppError.notFound("Access request not found");
+  if (request.status !== "pending") {
+    throw AppError.badRequest(`Request already ${request.status}`);
+  }
+
+  const [rejected] = await db
+    .update(eventAccessRequests)
+    .set({
+      status: "rejected",
+      adminMessage: adminMessage ?? null,
+      reviewedAt: new Date(),
+      reviewedById: admin.id,
+    })
+    .where(and(eq(eventAccessRequests.id, id), eq(eventAccessRequests.status, "pending")))
+    .returning({ id: eventAccessRequests.id });
+  if (!rejected) throw AppError.conflict("Request was already reviewed");
+
+  return c.json({ message: "Request rejected" });
+});
+
+export { accessRequestRoutes };
@@ -0,0 +1,68 @@
+import { Hono } from "hono";
+import { eq, and } from "drizzle-orm";
+import { db } from "../../db/index.ts";
+import { accountDeletions } from "../../db/schema/account-deletions.ts";
+import { AppError } from "../../lib/errors.ts";
+import {
+  parsePagination,
+  buildOrderBy,
+  listResponse,
+  countRows,
+} from "./helpers.ts";
+
+const accountDeletionRoutes = new Hono();
+
+const columns: Record<string, any> = {
+  id: accountDeletions.id,
+  status: accountDeletions.status,
+  requestedAt: accountDeletions.requestedAt,
+  scheduledFor: accountDeletions.scheduledFor,
+  completedAt: accountDeletions.completedAt,
+};
+
+const withUser = {
+  user: { columns: { id: true, email: true, firstName: true, lastName: true } },
+} as const;
+
+/**
+ * GET /api/admin/account-deletions - List members' account deletion requests (React Admin compatible, read-only)
+ * Optional filters: ?status=pending&userId=12
+ */
+accountDeletionRoutes.get("/", async (c) => {
+  const { limit, offset, _sort, _order } = parsePagination(c);
+  const orderBy = buildOrderBy(_sort, _order, columns);
+
+  const { status, userId } = c.req.query();
+  const where = and(
+    status ? eq(accountDeletions.status, status) : undefined,
+    userId ? eq(accountDeletions.userId, parseInt(userId, 10)) : undefined,
+  );
+
+  const [data, total] = await Promise.all([
+    db.query.accountDeletions.findMany({
+      where,
+      with: withUser,
+      orderBy: orderBy ? [orderBy] : undefined,
+      limit,
+      offset,
+    }),
+    countRows(accountDeletions, where),
+  ]);
+
+  return listResponse(c, data, total, offset, offset + limit, "account-deletions");
+});
+
+/**
+ * GET /api/admin/account-deletions/:id - Get single account deletion request
+ */
+accountDeletionRoutes.get("/:id", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  const deletion = await db.query.accountDeletions.findFirst({
+    where: eq(accountDeletions.id, id),
+    with: withUser,
+  });
+  if (!deletion) throw AppError.notFound("Account deletion not found");
+  return c.json(deletion);
+});
+
+export { accountDeletionRoutes };
@@ -14,6 +14,7 @@ import {
   magicLinkExpiresAt,
 } from "../../services/auth.ts";
 import { sendEmail, buildMagicLinkEmail } from "../../services/email.ts";
+import { forgetSession } from "../../services/sessions.ts";
 import { config } from "../../config.ts";
 import {
   parsePagination,
@@ -108,6 +109,7 @@ approvalRoutes.post("/:id/approve", async (c) => {
       .update(users)
       .set({ isActive: true, isVerified: true, updatedAt: new Date() })
       .where(eq(users.id, existingUser.id));
+    forgetSession(existingUser.id);
   } else {
     // Create new user
     const [newUser] = await db
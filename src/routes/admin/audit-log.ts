@@ -0,0 +1,71 @@
+import { Hono } from "hono";
+import { eq, and } from "drizzle-orm";
+import { db } from "../../db/index.ts";
+import { adminAuditLog } from "../../db/schema/admin-audit-log.ts";
+import { AppError } from "../../lib/errors.ts";
+import {
+  parsePagination,
+  buildOrderBy,
+  listResponse,
+  countRows,
+} from "./helpers.ts";
+
+const auditLogRoutes = new Hono();
+
+const columns: Record<string, any> = {
+  id: adminAuditLog.id,
+  adminId: adminAuditLog.adminId,
+  action: adminAuditLog.action,
+  targetUserId: adminAuditLog.targetUserId,
+  createdAt: adminAuditLog.createdAt,
+};
+
+const userColumns = {
+  columns: { id: true, email: true, firstName: true, lastName: true },
+} as const;
+
+/**
+ * GET /api/admin/audit-log - List admin audit entries (React Admin compatible, read-only)
+ * Optional filters: ?action=view_as&adminId=1&targetUserId=2
+ */
+auditLogRoutes.get("/", async (c) => {
+  const { limit, offset, _sort, _order } = parsePagination(c);
+  const orderBy = buildOrderBy(_sort, _order, columns);
+
+  const action = c.req.query("action");
+  const adminId = c.req.query("adminId");
+  const targetUserId = c.req.query("targetUserId");
+  const where = and(
+    action ? eq(adminAuditLog.action, action) : undefined,
+    adminId ? eq(adminAuditLog.adminId, parseInt(adminId, 10)) : undefined,
+    targetUserId ? eq(adminAuditLog.targetUserId, parseInt(targetUserId, 10)) : undefined,
+  );
+
+  const [data, total] = await Promise.all([
+    db.query.adminAuditLog.findMany({
+      where,
+      orderBy: orderBy ? [orderBy] : undefined,
+      limit,
+      offset,
+      with: { admin: userColumns, targetUser: userColumns },
+    }),
+    countRows(adminAuditLog, where),
+  ]);
+
+  return listResponse(c, data, total, offset, offset + limit, "audit-log");
+});
+
+/**
+ * GET /api/admin/audit-log/:id - Get single audit entry
+ */
+auditLogRoutes.get("/:id", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  const entry = await db.query.adminAuditLog.findFirst({
+    where: eq(adminAuditLog.id, id),
+    with: { admin: userColumns, targetUser: userColumns },
+  });
+  if (!entry) throw AppError.notFound("Audit entry not found");
+  return c.json(entry);
+});
+
+export { auditLogRoutes };
@@ -1,7 +1,8 @@
 import { Hono } from "hono";
-import { eq, or, ilike } from "drizzle-orm";
+import { eq, or, ilike, and, asc } from "drizzle-orm";
 import { db } from "../../db/index.ts";
 import { retreatGroups } from "../../db/schema/retreat-groups.ts";
+import { userGroupMemberships } from "../../db/schema/users.ts";
 import { createRetreatGroupSchema, updateRetreatGroupSchema } from "../../lib/schemas.ts";
 import { AppError } from "../../lib/errors.ts";
 import { parsePagination, buildOrderBy, listResponse, countRows } from "./helpers.ts";
@@ -59,6 +60,27 @@ groupRoutes.get("/:id", async (c) => {
   return c.json(group);
 });
 
+/**
+ * GET /api/admin/groups/:id/members - Memberships of a group, optionally ?status=pending|confirmed|lapsed|removed
+ */
+groupRoutes.get("/:id/members", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  const status = c.req.query("status");
+  const members = await db.query.userGroupMemberships.findMany({
+    where: and(
+      eq(userGroupMemberships.retreatGroupId, id),
+      status ? eq(userGroupMemberships.status, status) : undefined,
+    ),
+    orderBy: [asc(userGroupMemberships.joinedAt)],
+    with: {
+      user: {
+        columns: { id: true, email: true, firstName: true, lastName: true },
+      },
+    },
+  });
+  return c.json(members);
+});
+
 groupRoutes.post("/", async (c) => {
   const body = await c.req.json();
   const data = createRetreatGroupSchema.parse(body);
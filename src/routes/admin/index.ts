@@ -1,6 +1,7 @@
 import { Hono } from "hono";
 import { authMiddleware } from "../../middleware/auth.ts";
-import { adminMiddleware } from "../../middleware/admin.ts";
+import { adminMiddleware, requirePermission } from "../../middleware/admin.ts";
+import type { AdminResource } from "../../services/permissions.ts";
 import { teacherRoutes } from "./teachers.ts";
 import { placeRoutes } from "./places.ts";
 import { groupRoutes } from "./groups.ts";
@@ -11,25 +12,55 @@ import { sessionRoutes } from "./sessions.ts";
 import { trackRoutes } from "./tracks.ts";
 import { userRoutes } from "./users.ts";
 import { approvalRoutes } from "./approvals.ts";
+import { accessRequestRoutes } from "./access-requests.ts";
+import { auditLogRoutes } from "./audit-log.ts";
+import { mediaAccessRoutes } from "./media-access.ts";
+import { planRoutes } from "./plans.ts";
+import { voucherRoutes } from "./vouchers.ts";
+import { paymentRoutes } from "./payments.ts";
+import { subscriptionLedgerRoutes } from "./subscription-ledger.ts";
+import { reportRoutes } from "./reports.ts";
+import { webhookInboxRoutes } from "./webhook-inbox.ts";
+import { jobRunsRoutes } from "./job-runs.ts";
+import { accountDeletionRoutes } from "./account-deletions.ts";
 import { uploadRoutes } from "./upload.ts";
 import migrationRoutes from "./migrations.ts";
 
 const admin = new Hono();
 
-// All admin routes require authentication + admin role
+// All admin routes require authentication + an admin role
 admin.use("*", authMiddleware, adminMiddleware);
 
-admin.route("/teachers", teacherRoutes);
-admin.route("/places", placeRoutes);
-admin.route("/groups", groupRoutes);
-admin.route("/events", eventRoutes);
-admin.route("/event-types", eventTypeRoutes);
-admin.route("/audiences", audienceRoutes);
-admin.route("/sessions", sessionRoutes);
-admin.route("/tracks", trackRoutes);
-admin.route("/users", userRoutes);
-admin.route("/approvals", approvalRoutes);
-admin.route("/upload", uploadRoutes);
-admin.route("/migrations", migrationRoutes);
+// Each area needs the permission of the same name
+const areas: [AdminResource, Hono][] = [
+  ["teachers", teacherRoutes],
+  ["places", placeRoutes],
+  ["groups", groupRoutes],
+  ["events", eventRoutes],
+  ["event-types", eventTypeRoutes],
+  ["audiences", audienceRoutes],
+  ["sessions", sessionRoutes],
+  ["tracks", trackRoutes],
+  ["users", userRoutes],
+  ["approvals", approvalRoutes],
+  ["access-requests", accessRequestRoutes],
+  ["audit-log", auditLogRoutes],
+  ["media-access", mediaAccessRoutes],
+  ["plans", planRoutes],
+  ["vouchers", voucherRoutes],
+  ["payments", paymentRoutes],
+  ["subscription-ledger", subscriptionLedgerRoutes],
+  ["reports", reportRoutes],
+  ["webhook-inbox", webhookInboxRoutes],
+  ["job-runs", jobRunsRoutes],
+  ["account-deletions", accountDeletionRoutes],
+  ["upload", uploadRoutes],
+  ["migrations", migrationRoutes],
+];
+
+for (const [resource, routes] of areas) {
+  admin.use(`/${resource}/*`, requirePermission(resource));
+  admin.route(`/${resource}`, routes);
+}
 
 export { admin };
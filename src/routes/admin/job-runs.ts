@@ -0,0 +1,62 @@
+import { Hono } from "hono";
+import { eq, and } from "drizzle-orm";
+import { db } from "../../db/index.ts";
+import { jobRuns } from "../../db/schema/job-runs.ts";
+import { AppError } from "../../lib/errors.ts";
+import {
+  parsePagination,
+  buildOrderBy,
+  listResponse,
+  countRows,
+} from "./helpers.ts";
+
+const jobRunsRoutes = new Hono();
+
+const columns: Record<string, any> = {
+  id: jobRuns.id,
+  job: jobRuns.job,
+  status: jobRuns.status,
+  startedAt: jobRuns.startedAt,
+  finishedAt: jobRuns.finishedAt,
+};
+
+/**
+ * GET /api/admin/job-runs - List scheduled job runs (React Admin compatible, read-only)
+ * Optional filters: ?job=subscription-sweep&status=failed
+ */
+jobRunsRoutes.get("/", async (c) => {
+  const { limit, offset, _sort, _order } = parsePagination(c);
+  const orderBy = buildOrderBy(_sort, _order, columns);
+
+  const { job, status } = c.req.query();
+  const where = and(
+    job ? eq(jobRuns.job, job) : undefined,
+    status ? eq(jobRuns.status, status) : undefined,
+  );
+
+  const [data, total] = await Promise.all([
+    db.query.jobRuns.findMany({
+      where,
+      orderBy: orderBy ? [orderBy] : undefined,
+      limit,
+      offset,
+    }),
+    countRows(jobRuns, where),
+  ]);
+
+  return listResponse(c, data, total, offset, offset + limit, "job-runs");
+});
+
+/**
+ * GET /api/admin/job-runs/:id - Get single job run
+ */
+jobRunsRoutes.get("/:id", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  const run = await db.query.jobRuns.findFirst({
+    where: eq(jobRuns.id, id),
+  });
+  if (!run) throw AppError.notFound("Job run not found");
+  return c.json(run);
+});
+
+export { jobRunsRoutes };
@@ -0,0 +1,137 @@
+import { Hono } from "hono";
+import type { Context } from "hono";
+import { eq, and, gte, lt, desc, sql, type SQL } from "drizzle-orm";
+import { db } from "../../db/index.ts";
+import { mediaAccessLog } from "../../db/schema/media-access-log.ts";
+import { users } from "../../db/schema/users.ts";
+import { events } from "../../db/schema/retreats.ts";
+import {
+  parsePagination,
+  buildOrderBy,
+  listResponse,
+  countRows,
+} from "./helpers.ts";
+import { mediaAccessFilterSchema } from "../../lib/schemas.ts";
+
+const mediaAccessRoutes = new Hono();
+
+const columns: Record<string, any> = {
+  id: mediaAccessLog.id,
+  userId: mediaAccessLog.userId,
+  eventId: mediaAccessLog.eventId,
+  resourceType: mediaAccessLog.resourceType,
+  ipAddress: mediaAccessLog.ipAddress,
+  accessedAt: mediaAccessLog.accessedAt,
+};
+
+/**
+ * Shared filters: ?userId=&eventId=&resourceType=&deviceFingerprint=&ipAddress=&from=YYYY-MM-DD&to=YYYY-MM-DD
+ * `to` is inclusive of the whole day. Malformed filters are refused with 400.
+ */
+function buildFilters(c: Context): SQL | undefined {
+  const q = mediaAccessFilterSchema.parse(c.req.query());
+  const conditions: (SQL | undefined)[] = [];
+  if (q.userId) conditions.push(eq(mediaAccessLog.userId, q.userId));
+  if (q.eventId) conditions.push(eq(mediaAccessLog.eventId, q.eventId));
+  if (q.resourceType) conditions.push(eq(mediaAccessLog.resourceType, q.resourceType));
+  if (q.deviceFingerprint) {
+    conditions.push(eq(mediaAccessLog.deviceFingerprint, q.deviceFingerprint));
+  }
+  if (q.ipAddress) conditions.push(eq(mediaAccessLog.ipAddress, q.ipAddress));
+  if (q.from) conditions.push(gte(mediaAccessLog.accessedAt, new Date(q.from)));
+  if (q.to) {
+    const until = new Date(q.to);
+    until.setUTCDate(until.getUTCDate() + 1);
+    conditions.push(lt(mediaAccessLog.accessedAt, until));
+  }
+  return and(...conditions);
+}
+
+/**
+ * GET /api/admin/media-access - List media access rows (React Admin compatible, read-only)
+ */
+mediaAccessRoutes.get("/", async (c) => {
+  const { limit, offset, _sort, _order } = parsePagination(c);
+  const orderBy = buildOrderBy(_sort, _order, columns);
+  const where = buildFilters(c);
+
+  const [data, total] = await Promise.all([
+    db.query.mediaAccessLog.findMany({
+      where,
+      orderBy: orderBy ? [orderBy] : [desc(mediaAccessLog.accessedAt)],
+      limit,
+      offset,
+      with: {
+        user: {
+          columns: { id: true, email: true, firstName: true, lastName: true },
+        },
+        event: {
+          columns: { id: true, eventCode: true, titleEn: true },
+        },
+      },
+    }),
+    countRows(mediaAccessLog, where),
+  ]);
+
+  return listResponse(c, data, total, offset, offset + limit, "media-access");
+});
+
+/**
+ * GET /api/admin/media-access/summary/users - Access counts per user
+ * Many devices or IPs for one account is the usual sign of shared credentials.
+ */
+mediaAccessRoutes.get("/summary/users", async (c) => {
+  const limit = Math.min(parseInt(c.req.query("limit") ?? "50", 10) || 50, 500);
+
+  const data = await db
+    .select({
+      userId: mediaAccessLog.userId,
+      email: users.email,
+      total: sql<number>`count(*)::int`,
+      audio: sql<number>`count(*) filter (where ${mediaAccessLog.resourceType} = 'audio')::int`,
+      transcripts: sql<number>`count(*) filter (where ${mediaAccessLog.resourceType} = 'transcript')::int`,
+      zips: sql<number>`count(*) filter (where ${mediaAccessLog.resourceType} = 'zip')::int`,
+      events: sql<number>`count(distinct ${mediaAccessLog.eventId})::int`,
+      devices: sql<number>`count(distinct ${mediaAccessLog.deviceFingerprint})::int`,
+      ipAddresses: sql<number>`count(distinct ${mediaAccessLog.ipAddress})::int`,
+      lastAccessAt: sql<string>`max(${mediaAccessLog.accessedAt})`,
+    })
+    .from(mediaAccessLog)
+    .leftJoin(users, eq(users.id, mediaAccessLog.userId))
+    .where(buildFilters(c))
+    .groupBy(mediaAccessLog.userId, users.email)
+    .orderBy(desc(sql`count(*)`))
+    .limit(limit);
+
+  return c.json(data);
+});
+
+/**
+ * GET /api/admin/media-access/summary/events - Access counts per event
+ */
+mediaAccessRoutes.get("/summary/events", async (c) => {
+  const limit = Math.min(parseInt(c.req.query("limit") ?? "50", 10) || 50, 500);
+
+  const data = await db
+    .select({
+      eventId: mediaAccessLog.eventId,
+      eventCode: events.eventCode,
+      titleEn: events.titleEn,
+      total: sql<number>`count(*)::int`,
+      audio: sql<number>`count(*) filter (where ${mediaAccessLog.resourceType} = 'audio')::int`,
+      transcripts: sql<number>`count(*) filter (where ${mediaAccessLog.resourceType} = 'transcript')::int`,
+      zips: sql<number>`count(*) filter (where ${mediaAccessLog.resourceType} = 'zip')::int`,
+      users: sql<number>`count(distinct ${mediaAccessLog.userId})::int`,
+      lastAccessAt: sql<string>`max(${mediaAccessLog.accessedAt})`,
+    })
+    .from(mediaAccessLog)
+    .leftJoin(events, eq(events.id, mediaAccessLog.eventId))
+    .where(buildFilters(c))
+    .groupBy(mediaAccessLog.eventId, events.eventCode, events.titleEn)
+    .orderBy(desc(sql`count(*)`))
+    .limit(limit);
+
+  return c.json(data);
+});
+
+export { mediaAccessRoutes };
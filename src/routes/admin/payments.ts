@@ -0,0 +1,164 @@
+import { Hono } from "hono";
+import { eq, and, gte, lt, ilike } from "drizzle-orm";
+import { db } from "../../db/index.ts";
+import { manualPayments } from "../../db/schema/payments.ts";
+import { createManualPaymentSchema } from "../../lib/schemas.ts";
+import { AppError } from "../../lib/errors.ts";
+import { getUser } from "../../middleware/auth.ts";
+import {
+  recordManualPayment,
+  buildReceiptPdf,
+  receiptFilename,
+  receiptLanguage,
+  sendReceipt,
+  type ManualPayment,
+  type RecordPaymentFailure,
+} from "../../services/manual-payments.ts";
+import {
+  parsePagination,
+  buildOrderBy,
+  listResponse,
+  countRows,
+} from "./helpers.ts";
+
+const paymentRoutes = new Hono();
+
+const columns: Record<string, any> = {
+  id: manualPayments.id,
+  receiptNumber: manualPayments.receiptNumber,
+  userId: manualPayments.userId,
+  amountCents: manualPayments.amountCents,
+  method: manualPayments.method,
+  paidAt: manualPayments.paidAt,
+  periodEnd: manualPayments.periodEnd,
+  createdAt: manualPayments.createdAt,
+};
+
+const userColumns = {
+  columns: { id: true, email: true, firstName: true, lastName: true },
+} as const;
+
+const RECORD_ERRORS: Record<Exclude<RecordPaymentFailure, "user_not_found">, [string, string]> = {
+  subscription_not_extendable: [
+    "This member's subscription is billed by Easypay or open-ended and cannot be extended by a manual payment",
+    "SUBSCRIPTION_NOT_EXTENDABLE",
+  ],
+  invalid_period: ["The period covered must end after it starts", "INVALID_PERIOD"],
+};
+
+async function findPayment(id: number): Promise<ManualPayment> {
+  const payment = await db.query.manualPayments.findFirst({ where: eq(manualPayments.id, id) });
+  if (!payment) throw AppError.notFound("Payment not found");
+  return payment;
+}
+
+/**
+ * GET /api/admin/payments - List manual payments (React Admin compatible)
+ * Optional filters: ?userId=1&method=cash&receiptNumber=2026/&from=YYYY-MM-DD&to=YYYY-MM-DD
+ */
+paymentRoutes.get("/", async (c) => {
+  const { limit, offset, _sort, _order } = parsePagination(c);
+  const orderBy = buildOrderBy(_sort, _order, columns);
+
+  const { userId, method, receiptNumber, from, to } = c.req.query();
+  let until: Date | undefined;
+  if (to) {
+    until = new Date(to);
+    until.setUTCDate(until.getUTCDate() + 1); // inclusive of the whole day
+  }
+  const where = and(
+    userId ? eq(manualPayments.userId, parseInt(userId, 10)) : undefined,
+    method ? eq(manualPayments.method, method) : undefined,
+    receiptNumber ? ilike(manualPayments.receiptNumber, `%${receiptNumber}%`) : undefined,
+    from ? gte(manualPayments.paidAt, new Date(from)) : undefined,
+    until ? lt(manualPayments.paidAt, until) : undefined,
+  );
+
+  const [data, total] = await Promise.all([
+    db.query.manualPayments.findMany({
+      where,
+      orderBy: orderBy ? [orderBy] : undefined,
+      limit,
+      offset,
+      with: { recordedBy: userColumns },
+    }),
+    countRows(manualPayments, where),
+  ]);
+
+  return listResponse(c, data, total, offset, offset + limit, "payments");
+});
+
+/**
+ * GET /api/admin/payments/:id - Get single payment
+ */
+paymentRoutes.get("/:id", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  const payment = await db.query.manualPayments.findFirst({
+    where: eq(manualPayments.id, id),
+    with: { user: userColumns, recordedBy: userColumns, subscription: true },
+  });
+  if (!payment) throw AppError.notFound("Payment not found");
+  return c.json(payment);
+});
+
+/**
+ * POST /api/admin/payments - Record a cash or bank-transfer payment for a
+ * member, extend their subscription over the period it covers and issue a
+ * numbered receipt, emailed to them when `sendReceipt` is set.
+ */
+paymentRoutes.post("/", async (c) => {
+  const admin = getUser(c);
+  const data = createManualPaymentSchema.parse(await c.req.json());
+
+  const result = await recordManualPayment(data.userId, {
+    amountCents: data.amountCents,
+    currency: data.currency,
+    method: data.method,
+    paidAt: data.paidAt ? new Date(data.paidAt) : new Date(),
+    periodStart: data.periodStart ? new Date(data.periodStart) : null,
+    periodEnd: data.periodEnd ? new Date(data.periodEnd) : null,
+    months: data.months ?? null,
+    reference: data.reference ?? null,
+    note: data.note ?? null,
+    recordedById: admin.id,
+  });
+  if (!result.ok) {
+    if (result.reason === "user_not_found") throw AppError.notFound("User not found");
+    const [message, errorCode] = RECORD_ERRORS[result.reason];
+    throw AppError.badRequest(message, errorCode);
+  }
+
+  const payment = data.sendReceipt ? await sendReceipt(result.payment) : result.payment;
+  return c.json(payment, 201);
+});
+
+/**
+ * GET /api/admin/payments/:id/receipt - The receipt PDF, in the member's
+ * language unless ?lang=en|pt is given. Add ?download=true to save it.
+ */
+paymentRoutes.get("/:id/receipt", async (c) => {
+  const payment = await findPayment(parseInt(c.req.param("id"), 10));
+  const lang = c.req.query("lang");
+  const language = lang === "en" || lang === "pt" ? lang : await receiptLanguage(payment);
+  const pdf = await buildReceiptPdf(payment, language);
+
+  const isDownload = c.req.query("download") === "true";
+  return new Response(pdf, {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `${isDownload ? "attachment" : "inline"}; filename="${receiptFilename(payment)}"`,
+      "Content-Length": String(pdf.byteLength),
+    },
+  });
+});
+
+/**
+ * POST /api/admin/payments/:id/send-receipt - Email the receipt to the member
+ * (again).
+ */
+paymentRoutes.post("/:id/send-receipt", async (c) => {
+  const payment = await findPayment(parseInt(c.req.param("id"), 10));
+  return c.json(await sendReceipt(payment));
+});
+
+export { paymentRoutes };
@@ -0,0 +1,80 @@
+import { Hono } from "hono";
+import { eq } from "drizzle-orm";
+import { db } from "../../db/index.ts";
+import { plans } from "../../db/schema/plans.ts";
+import { subscriptions } from "../../db/schema/subscriptions.ts";
+import { createPlanSchema, updatePlanSchema } from "../../lib/schemas.ts";
+import { AppError } from "../../lib/errors.ts";
+import { parsePagination, buildOrderBy, listResponse, countRows } from "./helpers.ts";
+
+const planRoutes = new Hono();
+
+const columns: Record<string, any> = {
+  id: plans.id,
+  slug: plans.slug,
+  nameEn: plans.nameEn,
+  namePt: plans.namePt,
+  priceCents: plans.priceCents,
+  frequency: plans.frequency,
+  isActive: plans.isActive,
+  displayOrder: plans.displayOrder,
+  createdAt: plans.createdAt,
+};
+
+planRoutes.get("/", async (c) => {
+  const { limit, offset, _sort, _order } = parsePagination(c);
+  const orderBy = buildOrderBy(_sort, _order, columns);
+
+  const [data, total] = await Promise.all([
+    db.select().from(plans).orderBy(orderBy!).limit(limit).offset(offset),
+    countRows(plans),
+  ]);
+
+  return listResponse(c, data, total, offset, offset + limit, "plans");
+});
+
+planRoutes.get("/:id", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  const row = await db.query.plans.findFirst({
+    where: eq(plans.id, id),
+  });
+  if (!row) throw AppError.notFound("Plan not found");
+  return c.json(row);
+});
+
+planRoutes.post("/", async (c) => {
+  const body = await c.req.json();
+  const data = createPlanSchema.parse(body);
+  const [row] = await db.insert(plans).values(data).returning();
+  return c.json(row!, 201);
+});
+
+planRoutes.put("/:id", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  const body = await c.req.json();
+  const data = updatePlanSchema.parse(body);
+  const [row] = await db
+    .update(plans)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(plans.id, id))
+    .returning();
+  if (!row) throw AppError.notFound("Plan not found");
+  return c.json(row);
+});
+
+/** Plans that members have subscribed to are kept for the record; deactivate them instead. */
+planRoutes.delete("/:id", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  const used = await countRows(subscriptions, eq(subscriptions.planId, id));
+  if (used > 0) {
+    throw AppError.conflict("This plan has subscriptions; deactivate it instead");
+  }
+  const [row] = await db
+    .delete(plans)
+    .where(eq(plans.id, id))
+    .returning();
+  if (!row) throw AppError.notFound("Plan not found");
+  return c.json(row);
+});
+
+export { planRoutes };
@@ -0,0 +1,99 @@
+import { Hono, type Context } from "hono";
+import { reportRangeSchema, expiriesReportSchema } from "../../lib/schemas.ts";
+import { AppError } from "../../lib/errors.ts";
+import { toCsv } from "../../lib/csv.ts";
+import {
+  lastMonths,
+  subscribersReport,
+  sourcesReport,
+  expiriesReport,
+  revenueReport,
+} from "../../services/reports.ts";
+
+const reportRoutes = new Hono();
+
+/** Reports cover the last 12 months unless a range is given. */
+const DEFAULT_MONTHS = 12;
+
+function parseRange(c: Context) {
+  const query = reportRangeSchema.parse(c.req.query());
+  const range = lastMonths(DEFAULT_MONTHS);
+  const from = query.from ?? range.from;
+  const to = query.to ?? range.to;
+  if (from > to) throw AppError.badRequest("`from` must not be after `to`", "INVALID_RANGE");
+  return { from, to, format: query.format };
+}
+
+/** Answer with JSON, or with a CSV download of the same rows for ?format=csv. */
+function reportResponse<T extends object>(
+  c: Context,
+  format: "json" | "csv",
+  filename: string,
+  rows: T[],
+  columns: (keyof T & string)[],
+) {
+  if (format === "json") return c.json(rows);
+  return c.body(toCsv(rows, columns), 200, {
+    "Content-Type": "text/csv; charset=utf-8",
+    "Content-Disposition": `attachment; filename="${filename}.csv"`,
+  });
+}
+
+/**
+ * GET /api/admin/reports/subscribers - Active, new and churned members per month
+ * Optional: ?from=YYYY-MM&to=YYYY-MM&format=csv
+ */
+reportRoutes.get("/subscribers", async (c) => {
+  const { from, to, format } = parseRange(c);
+  const rows = await subscribersReport(from, to);
+  return reportResponse(c, format, `subscribers-${from}-${to}`, rows, ["month", "active", "new", "churned"]);
+});
+
+/**
+ * GET /api/admin/reports/sources - Members with access now, by subscription source
+ * Optional: ?format=csv
+ */
+reportRoutes.get("/sources", async (c) => {
+  const { format } = reportRangeSchema.parse(c.req.query());
+  const rows = await sourcesReport();
+  return reportResponse(c, format, "subscription-sources", rows, ["source", "active", "pastDue", "total"]);
+});
+
+/**
+ * GET /api/admin/reports/expiries - Subscriptions whose access ends soon
+ * Optional: ?days=30&format=csv
+ */
+reportRoutes.get("/expiries", async (c) => {
+  const { days, format } = expiriesReportSchema.parse(c.req.query());
+  const rows = await expiriesReport(days);
+  return reportResponse(c, format, `expiries-next-${days}-days`, rows, [
+    "endsAt",
+    "name",
+    "email",
+    "source",
+    "status",
+    "plan",
+    "renewsAutomatically",
+    "userId",
+    "subscriptionId",
+  ]);
+});
+
+/**
+ * GET /api/admin/reports/revenue - Money received per month, plan and source
+ * Optional: ?from=YYYY-MM&to=YYYY-MM&format=csv
+ */
+reportRoutes.get("/revenue", async (c) => {
+  const { from, to, format } = parseRange(c);
+  const rows = await revenueReport(from, to);
+  return reportResponse(c, format, `revenue-${from}-${to}`, rows, [
+    "month",
+    "plan",
+    "provider",
+    "currency",
+    "payments",
+    "amountCents",
+  ]);
+});
+
+export { reportRoutes };
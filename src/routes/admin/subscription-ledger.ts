@@ -0,0 +1,77 @@
+import { Hono } from "hono";
+import { eq, and, gte, lt } from "drizzle-orm";
+import { db } from "../../db/index.ts";
+import { subscriptionLedger } from "../../db/schema/subscriptions.ts";
+import { AppError } from "../../lib/errors.ts";
+import {
+  parsePagination,
+  buildOrderBy,
+  listResponse,
+  countRows,
+} from "./helpers.ts";
+
+const subscriptionLedgerRoutes = new Hono();
+
+const columns: Record<string, any> = {
+  id: subscriptionLedger.id,
+  userId: subscriptionLedger.userId,
+  type: subscriptionLedger.type,
+  provider: subscriptionLedger.provider,
+  amountCents: subscriptionLedger.amountCents,
+  occurredAt: subscriptionLedger.occurredAt,
+};
+
+const userColumns = {
+  columns: { id: true, email: true, firstName: true, lastName: true },
+} as const;
+
+/**
+ * GET /api/admin/subscription-ledger - List ledger entries (React Admin compatible, read-only)
+ * Optional filters: ?userId=1&type=renewal&provider=easypay&from=YYYY-MM-DD&to=YYYY-MM-DD
+ */
+subscriptionLedgerRoutes.get("/", async (c) => {
+  const { limit, offset, _sort, _order } = parsePagination(c);
+  const orderBy = buildOrderBy(_sort, _order, columns);
+
+  const { userId, type, provider, from, to } = c.req.query();
+  let until: Date | undefined;
+  if (to) {
+    until = new Date(to);
+    until.setUTCDate(until.getUTCDate() + 1); // inclusive of the whole day
+  }
+  const where = and(
+    userId ? eq(subscriptionLedger.userId, parseInt(userId, 10)) : undefined,
+    type ? eq(subscriptionLedger.type, type) : undefined,
+    provider ? eq(subscriptionLedger.provider, provider) : undefined,
+    from ? gte(subscriptionLedger.occurredAt, new Date(from)) : undefined,
+    until ? lt(subscriptionLedger.occurredAt, until) : undefined,
+  );
+
+  const [data, total] = await Promise.all([
+    db.query.subscriptionLedger.findMany({
+      where,
+      orderBy: orderBy ? [orderBy] : undefined,
+      limit,
+      offset,
+      with: { user: userColumns, recordedBy: userColumns },
+    }),
+    countRows(subscriptionLedger, where),
+  ]);
+
+  return listResponse(c, data, total, offset, offset + limit, "subscription-ledger");
+});
+
+/**
+ * GET /api/admin/subscription-ledger/:id - Get single ledger entry
+ */
+subscriptionLedgerRoutes.get("/:id", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  const entry = await db.query.subscriptionLedger.findFirst({
+    where: eq(subscriptionLedger.id, id),
+    with: { user: userColumns, recordedBy: userColumns, subscription: true },
+  });
+  if (!entry) throw AppError.notFound("Ledger entry not found");
+  return c.json(entry);
+});
+
+export { subscriptionLedgerRoutes };
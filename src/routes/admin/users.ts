@@ -1,9 +1,32 @@
 import { Hono } from "hono";
-import { eq, and } from "drizzle-orm";
+import { eq, and, desc } from "drizzle-orm";
 import { db } from "../../db/index.ts";
 import { users, userGroupMemberships, userEventAttendance } from "../../db/schema/users.ts";
-import { updateUserSchema } from "../../lib/schemas.ts";
+import { subscriptions, subscriptionLedger } from "../../db/schema/subscriptions.ts";
+import { deviceActivations } from "../../db/schema/auth.ts";
+import { adminAuditLog } from "../../db/schema/admin-audit-log.ts";
+import {
+  updateUserSchema,
+  createEventGrantSchema,
+  updateEventGrantSchema,
+  addGroupMembershipSchema,
+  updateGroupMembershipSchema,
+  updateDeviceSchema,
+  changeEmailSchema,
+} from "../../lib/schemas.ts";
 import { AppError } from "../../lib/errors.ts";
+import { getUser, type AuthUser } from "../../middleware/auth.ts";
+import { adjustSubscription } from "../../services/subscriptions.ts";
+import { deactivateDevice, deviceLimitFor, deviceLimitPolicy } from "../../services/devices.ts";
+import { getTwoFactorStatus, removeTwoFactor } from "../../services/two-factor.ts";
+import { revokeUserSessions } from "../../services/sessions.ts";
+import { requestEmailChange } from "../../services/email-change.ts";
+import { can, isAdminRole } from "../../services/permissions.ts";
+import {
+  canTransitionMembership,
+  membershipStatusValues,
+  type MembershipStatus,
+} from "../../services/group-membership.ts";
 import { parsePagination, buildOrderBy, listResponse, countRows } from "./helpers.ts";
 
 const userRoutes = new Hono();
@@ -63,19 +86,52 @@ userRoutes.get("/:id", async (c) => {
   return c.json(user);
 });
 
+/**
+ * Staff accounts are managed only by roles that manage roles, so a role with
+ * just users:write (the membership secretary) cannot deactivate, delete, sign
+ * out, revoke the devices of or take over the email of an admin.
+ */
+function assertCanManage(admin: AuthUser, target: { role: string }) {
+  if (isAdminRole(target.role) && !can(admin.role, "roles", "write")) {
+    throw new AppError(403, "Your role cannot manage staff accounts", "PERMISSION_DENIED");
+  }
+}
+
 userRoutes.put("/:id", async (c) => {
   const id = parseInt(c.req.param("id"), 10);
   const body = await c.req.json();
-  const data = updateUserSchema.parse(body);
+  const { subscriptionStatus, subscriptionSource, subscriptionExpiresAt, ...data } =
+    updateUserSchema.parse(body);
+  const admin = getUser(c);
 
-  // Handle subscriptionExpiresAt string → Date conversion
-  const setData: Record<string, any> = { ...data, updatedAt: new Date() };
-  if (data.subscriptionExpiresAt !== undefined) {
-    setData.subscriptionExpiresAt = data.subscriptionExpiresAt
-      ? new Date(data.subscriptionExpiresAt)
-      : null;
+  // Subscription columns are derived from the ledger — record edits there
+  const existing = await db.query.users.findFirst({ where: eq(users.id, id) });
+  if (!existing) throw AppError.notFound("User not found");
+  assertCanManage(admin, existing);
+  if (data.role !== undefined && data.role !== existing.role && !can(admin.role, "roles", "write")) {
+    throw new AppError(403, "Your role cannot change roles", "PERMISSION_DENIED");
+  }
+  const expiresAt =
+    subscriptionExpiresAt === undefined
+      ? undefined
+      : subscriptionExpiresAt
+        ? new Date(subscriptionExpiresAt)
+        : null;
+  if (
+    (subscriptionStatus !== undefined && subscriptionStatus !== existing.subscriptionStatus) ||
+    (subscriptionSource != null && subscriptionSource !== existing.subscriptionSource) ||
+    (expiresAt !== undefined &&
+      expiresAt?.getTime() !== existing.subscriptionExpiresAt?.getTime())
+  ) {
+    await adjustSubscription(
+      id,
+      { status: subscriptionStatus, source: subscriptionSource, expiresAt },
+      { recordedById: admin.id, note: "Edited on the user screen" },
+    );
   }
 
+  const setData: Record<string, any> = { ...data, updatedAt: new Date() };
+
   const [user] = await db
     .update(users)
     .set(setData)
@@ -99,11 +155,26 @@ userRoutes.put("/:id", async (c) => {
       updatedAt: users.updatedAt,
     });
   if (!user) throw AppError.notFound("User not found");
+
+  // Existing tokens carry the old role, and a deactivated user must not keep a session
+  if (
+    (data.role !== undefined && data.role !== existing.role) ||
+    (data.isActive !== undefined && data.isActive !== existing.isActive)
+  ) {
+    await revokeUserSessions(id);
+  }
   return c.json(user);
 });
 
 userRoutes.delete("/:id", async (c) => {
   const id = parseInt(c.req.param("id"), 10);
+  const existing = await db.query.users.findFirst({
+    where: eq(users.id, id),
+    columns: { id: true, role: true },
+  });
+  if (!existing) throw AppError.notFound("User not found");
+  assertCanManage(getUser(c), existing);
+
   const [user] = await db.delete(users).where(eq(users.id, id)).returning({
     id: users.id,
     email: users.email,
@@ -112,38 +183,416 @@ userRoutes.delete("/:id", async (c) => {
   return c.json(user);
 });
 
-// ─── Group memberships ──────────────────────────────────────────────────────
+// ─── Subscription history ───────────────────────────────────────────────────
 
-userRoutes.post("/:id/groups", async (c) => {
+/**
+ * GET /api/admin/users/:id/subscriptions - Subscriptions with their ledger entries, newest first
+ */
+userRoutes.get("/:id/subscriptions", async (c) => {
   const userId = parseInt(c.req.param("id"), 10);
-  const { retreatGroupId } = (await c.req.json()) as { retreatGroupId: number };
-  await db.insert(userGroupMemberships).values({ userId, retreatGroupId });
-  return c.json({ message: "Added to group" }, 201);
+  const history = await db.query.subscriptions.findMany({
+    where: eq(subscriptions.userId, userId),
+    orderBy: [desc(subscriptions.startedAt)],
+    with: {
+      entries: {
+        orderBy: [desc(subscriptionLedger.occurredAt)],
+        with: {
+          recordedBy: {
+            columns: { id: true, email: true, firstName: true, lastName: true },
+          },
+        },
+      },
+    },
+  });
+  return c.json(history);
 });
 
-userRoutes.delete("/:id/groups/:groupId", async (c) => {
+// ─── Devices ────────────────────────────────────────────────────────────────
+
+function findDevice(userId: number, deviceId: number) {
+  return db.query.deviceActivations.findFirst({
+    where: and(eq(deviceActivations.id, deviceId), eq(deviceActivations.userId, userId)),
+  });
+}
+
+/**
+ * GET /api/admin/users/:id/devices - The member's devices, most recently used
+ * first, with the device limit that applies to them
+ */
+userRoutes.get("/:id/devices", async (c) => {
   const userId = parseInt(c.req.param("id"), 10);
-  const retreatGroupId = parseInt(c.req.param("groupId"), 10);
-  await db
-    .delete(userGroupMemberships)
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { id: true, role: true },
+  });
+  if (!user) throw AppError.notFound("User not found");
+
+  const devices = await db.query.deviceActivations.findMany({
+    where: eq(deviceActivations.userId, userId),
+    orderBy: [desc(deviceActivations.isActive), desc(deviceActivations.lastUsed)],
+  });
+  return c.json({ limit: deviceLimitFor(user.role), policy: deviceLimitPolicy(), devices });
+});
+
+/**
+ * PUT /api/admin/users/:id/devices/:deviceId - Rename a device
+ */
+userRoutes.put("/:id/devices/:deviceId", async (c) => {
+  const userId = parseInt(c.req.param("id"), 10);
+  const deviceId = parseInt(c.req.param("deviceId"), 10);
+  const { deviceName } = updateDeviceSchema.parse(await c.req.json());
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { id: true, role: true },
+  });
+  if (!user) throw AppError.notFound("User not found");
+  assertCanManage(getUser(c), user);
+
+  const [device] = await db
+    .update(deviceActivations)
+    .set({ deviceName })
+    .where(and(eq(deviceActivations.id, deviceId), eq(deviceActivations.userId, userId)))
+    .returning();
+  if (!device) throw AppError.notFound("Device not found");
+  return c.json(device);
+});
+
+/**
+ * DELETE /api/admin/users/:id/devices/:deviceId - Revoke a device: deactivate it
+ * and its refresh tokens. The row is kept so the device history survives.
+ */
+userRoutes.delete("/:id/devices/:deviceId", async (c) => {
+  const userId = parseInt(c.req.param("id"), 10);
+  const deviceId = parseInt(c.req.param("deviceId"), 10);
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { id: true, role: true },
+  });
+  if (!user) throw AppError.notFound("User not found");
+  assertCanManage(getUser(c), user);
+  const device = await findDevice(userId, deviceId);
+  if (!device) throw AppError.notFound("Device not found");
+
+  await deactivateDevice(device.id);
+  return c.json({ ...device, isActive: false });
+});
+
+// ─── Two-factor authentication ──────────────────────────────────────────────
+
+/**
+ * GET /api/admin/users/:id/two-factor - Whether the user has two-factor enabled
+ */
+userRoutes.get("/:id/two-factor", async (c) => {
+  const userId = parseInt(c.req.param("id"), 10);
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { id: true, role: true },
+  });
+  if (!user) throw AppError.notFound("User not found");
+  return c.json(await getTwoFactorStatus(user));
+});
+
+/**
+ * DELETE /api/admin/users/:id/two-factor - Recovery for a user who lost their
+ * authenticator and backup codes (two-factor-reset permission: superadmin
+ * only). Removes the second factor and signs the user out; if their role
+ * requires two-factor they enroll again at the next login. Recorded in the
+ * audit log.
+ */
+userRoutes.delete("/:id/two-factor", async (c) => {
+  const admin = getUser(c);
+  if (!can(admin.role, "two-factor-reset", "write")) {
+    throw new AppError(403, "Your role cannot reset two-factor authentication", "PERMISSION_DENIED");
+  }
+  const userId = parseInt(c.req.param("id"), 10);
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { id: true, role: true },
+  });
+  if (!user) throw AppError.notFound("User not found");
+
+  await removeTwoFactor(user.id);
+  await revokeUserSessions(user.id);
+  await db.insert(adminAuditLog).values({
+    adminId: admin.id,
+    action: "two_factor_reset",
+    targetUserId: user.id,
+    method: c.req.method,
+    path: new URL(c.req.url).pathname,
+  });
+  return c.json(await getTwoFactorStatus(user));
+});
+
+// ─── Sessions ───────────────────────────────────────────────────────────────
+
+/**
+ * POST /api/admin/users/:id/sign-out - Sign the user out on every device,
+ * revoking all of their access and refresh tokens. Recorded in the audit log.
+ */
+userRoutes.post("/:id/sign-out", async (c) => {
+  const admin = getUser(c);
+  const userId = parseInt(c.req.param("id"), 10);
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { id: true, role: true },
+  });
+  if (!user) throw AppError.notFound("User not found");
+  assertCanManage(admin, user);
+
+  await revokeUserSessions(user.id);
+  await db.insert(adminAuditLog).values({
+    adminId: admin.id,
+    action: "sessions_revoked",
+    targetUserId: user.id,
+    method: c.req.method,
+    path: new URL(c.req.url).pathname,
+  });
+  return c.json({ message: "Signed out everywhere" });
+});
+
+/**
+ * POST /api/admin/users/:id/email-change - Start moving the user to a new email
+ * Body: { email }
+ * The user confirms from the new address, as when they ask themselves; the
+ * email is never edited directly. Recorded in the audit log.
+ */
+userRoutes.post("/:id/email-change", async (c) => {
+  const admin = getUser(c);
+  const userId = parseInt(c.req.param("id"), 10);
+  const { email } = changeEmailSchema.parse(await c.req.json());
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { id: true, role: true },
+  });
+  if (!user) throw AppError.notFound("User not found");
+  assertCanManage(admin, user);
+
+  const result = await requestEmailChange(userId, email, admin.id);
+  if (!result.ok) {
+    if (result.reason === "not_found") throw AppError.notFound("User not found");
+    if (result.reason === "unchanged") {
+      throw AppError.badRequest("This is already the user's email address", "EMAIL_UNCHANGED");
+    }
+    throw new AppError(409, "This email address is already in use", "EMAIL_TAKEN");
+  }
+
+  await db.insert(adminAuditLog).values({
+    adminId: admin.id,
+    action: "email_change_requested",
+    targetUserId: userId,
+    method: c.req.method,
+    path: new URL(c.req.url).pathname,
+    details: { newEmail: result.newEmail },
+  });
+  return c.json({ message: "Confirmation link sent to the new address", email: result.newEmail }, 202);
+});
+
+// ─── Group memberships ──────────────────────────────────────────────────────
+
+function findMembership(userId: number, retreatGroupId: number) {
+  return db.query.userGroupMemberships.findFirst({
+    where: and(
+      eq(userGroupMemberships.userId, userId),
+      eq(userGroupMemberships.retreatGroupId, retreatGroupId),
+    ),
+  });
+}
+
+/**
+ * Move a membership to a new lifecycle status, rejecting transitions the
+ * lifecycle does not allow (e.g. pending → lapsed).
+ */
+async function transitionMembership(
+  userId: number,
+  retreatGroupId: number,
+  status: MembershipStatus,
+  adminId: number,
+  note: string | null = null,
+) {
+  const existing = await findMembership(userId, retreatGroupId);
+  if (!existing) throw AppError.notFound("Group membership not found");
+  if (!canTransitionMembership(existing.status, status)) {
+    throw AppError.badRequest(
+      `Cannot change membership from ${existing.status} to ${status}`,
+      "INVALID_MEMBERSHIP_TRANSITION",
+    );
+  }
+
+  const [membership] = await db
+    .update(userGroupMemberships)
+    .set(membershipStatusValues(status, adminId, note))
     .where(
       and(
         eq(userGroupMemberships.userId, userId),
         eq(userGroupMemberships.retreatGroupId, retreatGroupId),
       ),
+    )
+    .returning();
+  return membership;
+}
+
+/**
+ * POST /api/admin/users/:id/groups - Add a user to a group (confirmed unless
+ * status: "pending" is given). Re-adding a removed member re-admits them.
+ */
+userRoutes.post("/:id/groups", async (c) => {
+  const userId = parseInt(c.req.param("id"), 10);
+  const admin = getUser(c);
+  const data = addGroupMembershipSchema.parse(await c.req.json());
+
+  const existing = await findMembership(userId, data.retreatGroupId);
+  if (existing) {
+    if (existing.status !== "removed") {
+      throw AppError.conflict(`User is already a ${existing.status} member of this group`);
+    }
+    const membership = await transitionMembership(
+      userId,
+      data.retreatGroupId,
+      data.status,
+      admin.id,
+      data.note ?? null,
     );
+    return c.json(membership, 201);
+  }
+
+  const [membership] = await db
+    .insert(userGroupMemberships)
+    .values({
+      userId,
+      retreatGroupId: data.retreatGroupId,
+      ...membershipStatusValues(data.status, admin.id, data.note ?? null),
+    })
+    .returning();
+  return c.json(membership, 201);
+});
+
+/**
+ * PUT /api/admin/users/:id/groups/:groupId - Change membership status
+ */
+userRoutes.put("/:id/groups/:groupId", async (c) => {
+  const userId = parseInt(c.req.param("id"), 10);
+  const retreatGroupId = parseInt(c.req.param("groupId"), 10);
+  const admin = getUser(c);
+  const data = updateGroupMembershipSchema.parse(await c.req.json());
+
+  const membership = await transitionMembership(
+    userId,
+    retreatGroupId,
+    data.status,
+    admin.id,
+    data.note ?? null,
+  );
+  return c.json(membership);
+});
+
+/**
+ * DELETE /api/admin/users/:id/groups/:groupId - Remove from group.
+ * The row is kept as "removed" so the membership history survives.
+ */
+userRoutes.delete("/:id/groups/:groupId", async (c) => {
+  const userId = parseInt(c.req.param("id"), 10);
+  const retreatGroupId = parseInt(c.req.param("groupId"), 10);
+  const admin = getUser(c);
+  await transitionMembership(userId, retreatGroupId, "removed", admin.id);
   return c.json({ message: "Removed from group" });
 });
 
-// ─── Event attendance ───────────────────────────────────────────────────────
+// ─── Event attendance / access grants ───────────────────────────────────────
+
+/**
+ * Convert optional ISO strings from the grant schemas into Date columns,
+ * rejecting windows that end before they start.
+ */
+function parseGrantWindow(data: { validFrom?: string | null; validUntil?: string | null }) {
+  const window: { validFrom?: Date | null; validUntil?: Date | null } = {};
+  if (data.validFrom !== undefined) {
+    window.validFrom = data.validFrom ? new Date(data.validFrom) : null;
+  }
+  if (data.validUntil !== undefined) {
+    window.validUntil = data.validUntil ? new Date(data.validUntil) : null;
+  }
+  if (
+    window.validFrom &&
+    window.validUntil &&
+    window.validUntil.getTime() <= window.validFrom.getTime()
+  ) {
+    throw AppError.badRequest("validUntil must be after validFrom", "INVALID_GRANT_WINDOW");
+  }
+  return window;
+}
 
+/**
+ * POST /api/admin/users/:id/events - Grant event access (idempotent per user/event).
+ * Re-granting an existing event replaces its window, source and note.
+ */
 userRoutes.post("/:id/events", async (c) => {
   const userId = parseInt(c.req.param("id"), 10);
-  const { eventId } = (await c.req.json()) as { eventId: number };
-  await db.insert(userEventAttendance).values({ userId, eventId });
+  const admin = getUser(c);
+  const data = createEventGrantSchema.parse(await c.req.json());
+  const window = parseGrantWindow(data);
+
+  const values = {
+    source: data.source,
+    validFrom: window.validFrom ?? null,
+    validUntil: window.validUntil ?? null,
+    note: data.note ?? null,
+    grantedById: admin.id,
+  };
+
+  await db
+    .insert(userEventAttendance)
+    .values({ userId, eventId: data.eventId, ...values })
+    .onConflictDoUpdate({
+      target: [userEventAttendance.userId, userEventAttendance.eventId],
+      set: values,
+    });
   return c.json({ message: "Added to event" }, 201);
 });
 
+/**
+ * PUT /api/admin/users/:id/events/:eventId - Extend or edit an existing grant
+ */
+userRoutes.put("/:id/events/:eventId", async (c) => {
+  const userId = parseInt(c.req.param("id"), 10);
+  const eventId = parseInt(c.req.param("eventId"), 10);
+  const admin = getUser(c);
+  const data = updateEventGrantSchema.parse(await c.req.json());
+
+  const existing = await db.query.userEventAttendance.findFirst({
+    where: and(
+      eq(userEventAttendance.userId, userId),
+      eq(userEventAttendance.eventId, eventId),
+    ),
+  });
+  if (!existing) throw AppError.notFound("Event grant not found");
+
+  // Validate the resulting window, not just the fields being changed
+  const window = parseGrantWindow({
+    validFrom: data.validFrom !== undefined ? data.validFrom : existing.validFrom?.toISOString() ?? null,
+    validUntil: data.validUntil !== undefined ? data.validUntil : existing.validUntil?.toISOString() ?? null,
+  });
+
+  const [grant] = await db
+    .update(userEventAttendance)
+    .set({
+      ...(data.source !== undefined && { source: data.source }),
+      ...(data.note !== undefined && { note: data.note }),
+      ...window,
+      grantedById: admin.id,
+    })
+    .where(
+      and(
+        eq(userEventAttendance.userId, userId),
+        eq(userEventAttendance.eventId, eventId),
+      ),
+    )
+    .returning();
+  return c.json(grant);
+});
+
+/**
+ * DELETE /api/admin/users/:id/events/:eventId - Revoke an event grant
+ */
 userRoutes.delete("/:id/events/:eventId", async (c) => {
   const userId = parseInt(c.req.param("id"), 10);
   const eventId = parseInt(c.req.param("eventId"), 10);
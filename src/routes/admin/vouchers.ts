@@ -0,0 +1,197 @@
+import { Hono } from "hono";
+import { eq, and, ilike, desc, sql } from "drizzle-orm";
+import { db } from "../../db/index.ts";
+import { vouchers, voucherRedemptions } from "../../db/schema/vouchers.ts";
+import { createVoucherSchema, updateVoucherSchema } from "../../lib/schemas.ts";
+import { AppError } from "../../lib/errors.ts";
+import { getUser } from "../../middleware/auth.ts";
+import { createVouchers, normalizeVoucherCode } from "../../services/vouchers.ts";
+import {
+  parsePagination,
+  buildOrderBy,
+  listResponse,
+  countRows,
+} from "./helpers.ts";
+
+const voucherRoutes = new Hono();
+
+const columns: Record<string, any> = {
+  id: vouchers.id,
+  code: vouchers.code,
+  batchLabel: vouchers.batchLabel,
+  months: vouchers.months,
+  redemptionCount: vouchers.redemptionCount,
+  maxRedemptions: vouchers.maxRedemptions,
+  expiresAt: vouchers.expiresAt,
+  isActive: vouchers.isActive,
+  createdAt: vouchers.createdAt,
+};
+
+/**
+ * GET /api/admin/vouchers - List vouchers (React Admin compatible)
+ * Optional filters: ?code=ABCD&batchLabel=Monastics%202025&isActive=true
+ */
+voucherRoutes.get("/", async (c) => {
+  const { limit, offset, _sort, _order } = parsePagination(c);
+  const orderBy = buildOrderBy(_sort, _order, columns);
+
+  const { code, batchLabel, isActive } = c.req.query();
+  const where = and(
+    code ? ilike(vouchers.code, `%${normalizeVoucherCode(code)}%`) : undefined,
+    batchLabel ? eq(vouchers.batchLabel, batchLabel) : undefined,
+    isActive !== undefined ? eq(vouchers.isActive, isActive === "true") : undefined,
+  );
+
+  const [data, total] = await Promise.all([
+    db.query.vouchers.findMany({
+      where,
+      orderBy: orderBy ? [orderBy] : [desc(vouchers.createdAt)],
+      limit,
+      offset,
+    }),
+    countRows(vouchers, where),
+  ]);
+
+  return listResponse(c, data, total, offset, offset + limit, "vouchers");
+});
+
+/**
+ * GET /api/admin/vouchers/report - Usage per batch: codes issued and still
+ * usable, uses available and taken, members reached, and the last redemption.
+ */
+voucherRoutes.get("/report", async (c) => {
+  const [batches, redeemed] = await Promise.all([
+    db
+      .select({
+        batchLabel: vouchers.batchLabel,
+        vouchers: sql<number>`count(*)::int`,
+        active: sql<number>`(count(*) filter (where ${vouchers.isActive} and (${vouchers.expiresAt} is null or ${vouchers.expiresAt} > now())))::int`,
+        capacity: sql<number>`sum(${vouchers.maxRedemptions})::int`,
+        redemptions: sql<number>`sum(${vouchers.redemptionCount})::int`,
+      })
+      .from(vouchers)
+      .groupBy(vouchers.batchLabel)
+      .orderBy(vouchers.batchLabel),
+    db
+      .select({
+        batchLabel: vouchers.batchLabel,
+        members: sql<number>`count(distinct ${voucherRedemptions.userId})::int`,
+        lastRedeemedAt: sql<Date>`max(${voucherRedemptions.redeemedAt})`,
+      })
+      .from(voucherRedemptions)
+      .innerJoin(vouchers, eq(voucherRedemptions.voucherId, vouchers.id))
+      .groupBy(vouchers.batchLabel),
+  ]);
+
+  const usage = new Map(redeemed.map((r) => [r.batchLabel, r]));
+  return c.json(
+    batches.map((batch) => ({
+      ...batch,
+      members: usage.get(batch.batchLabel)?.members ?? 0,
+      lastRedeemedAt: usage.get(batch.batchLabel)?.lastRedeemedAt ?? null,
+    })),
+  );
+});
+
+/**
+ * GET /api/admin/vouchers/:id - A voucher with its events and who redeemed it
+ */
+voucherRoutes.get("/:id", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  const voucher = await db.query.vouchers.findFirst({
+    where: eq(vouchers.id, id),
+    with: {
+      events: { with: { event: { columns: { id: true, eventCode: true, titleEn: true } } } },
+      redemptions: {
+        with: { user: { columns: { id: true, email: true, firstName: true, lastName: true } } },
+        orderBy: [desc(voucherRedemptions.redeemedAt)],
+      },
+    },
+  });
+  if (!voucher) throw AppError.notFound("Voucher not found");
+
+  return c.json({
+    ...voucher,
+    eventIds: voucher.events.map((e) => e.eventId),
+    events: voucher.events.map((e) => e.event),
+  });
+});
+
+/**
+ * POST /api/admin/vouchers - Create one voucher, or a batch of `quantity`
+ * vouchers on the same terms. Returns the first voucher and how many were
+ * created.
+ */
+voucherRoutes.post("/", async (c) => {
+  const admin = getUser(c);
+  const data = createVoucherSchema.parse(await c.req.json());
+
+  if (data.code && data.quantity === 1) {
+    const existing = await db.query.vouchers.findFirst({
+      where: eq(vouchers.code, normalizeVoucherCode(data.code)),
+    });
+    if (existing) throw AppError.conflict("A voucher with this code already exists");
+  }
+
+  const created = await createVouchers(
+    {
+      months: data.months ?? null,
+      eventIds: data.eventIds,
+      maxRedemptions: data.maxRedemptions,
+      expiresAt: data.expiresAt ? new Date(data.expiresAt) : null,
+      batchLabel: data.batchLabel ?? null,
+      note: data.note ?? null,
+      createdById: admin.id,
+    },
+    data.quantity,
+    data.code,
+  );
+
+  return c.json({ ...created[0]!, eventIds: data.eventIds, created: created.length }, 201);
+});
+
+/**
+ * PUT /api/admin/vouchers/:id - Change a voucher's limits, expiry or label,
+ * or deactivate it. What it grants cannot change once issued.
+ */
+voucherRoutes.put("/:id", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  const data = updateVoucherSchema.parse(await c.req.json());
+
+  const [row] = await db
+    .update(vouchers)
+    .set({
+      ...(data.batchLabel !== undefined && { batchLabel: data.batchLabel }),
+      ...(data.maxRedemptions !== undefined && { maxRedemptions: data.maxRedemptions }),
+      ...(data.expiresAt !== undefined && {
+        expiresAt: data.expiresAt ? new Date(data.expiresAt) : null,
+      }),
+      ...(data.isActive !== undefined && { isActive: data.isActive }),
+      ...(data.note !== undefined && { note: data.note }),
+      updatedAt: new Date(),
+    })
+    .where(eq(vouchers.id, id))
+    .returning();
+  if (!row) throw AppError.notFound("Voucher not found");
+  return c.json(row);
+});
+
+/**
+ * DELETE /api/admin/vouchers/:id - Delete an unused voucher. Redeemed
+ * vouchers are kept for the usage report; deactivate them instead.
+ */
+voucherRoutes.delete("/:id", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  const used = await countRows(voucherRedemptions, eq(voucherRedemptions.voucherId, id));
+  if (used > 0) {
+    throw AppError.conflict("This voucher has been redeemed; deactivate it instead");
+  }
+  const [row] = await db
+    .delete(vouchers)
+    .where(eq(vouchers.id, id))
+    .returning();
+  if (!row) throw AppError.notFound("Voucher not found");
+  return c.json(row);
+});
+
+export { voucherRoutes };
@@ -0,0 +1,90 @@
+import { Hono } from "hono";
+import { eq, and } from "drizzle-orm";
+import { db } from "../../db/index.ts";
+import { webhookInbox } from "../../db/schema/webhook-inbox.ts";
+import { AppError } from "../../lib/errors.ts";
+import { replayNotification } from "../../services/webhook-inbox.ts";
+import {
+  parsePagination,
+  buildOrderBy,
+  listResponse,
+  countRows,
+} from "./helpers.ts";
+
+const webhookInboxRoutes = new Hono();
+
+const columns: Record<string, any> = {
+  id: webhookInbox.id,
+  provider: webhookInbox.provider,
+  status: webhookInbox.status,
+  attempts: webhookInbox.attempts,
+  nextAttemptAt: webhookInbox.nextAttemptAt,
+  receivedAt: webhookInbox.receivedAt,
+  processedAt: webhookInbox.processedAt,
+};
+
+/**
+ * GET /api/admin/webhook-inbox - List stored notifications (React Admin compatible)
+ * Optional filters: ?status=failed&provider=easypay
+ */
+webhookInboxRoutes.get("/", async (c) => {
+  const { limit, offset, _sort, _order } = parsePagination(c);
+  const orderBy = buildOrderBy(_sort, _order, columns);
+
+  const { status, provider } = c.req.query();
+  const where = and(
+    status ? eq(webhookInbox.status, status) : undefined,
+    provider ? eq(webhookInbox.provider, provider) : undefined,
+  );
+
+  const [data, total] = await Promise.all([
+    db.query.webhookInbox.findMany({
+      where,
+      orderBy: orderBy ? [orderBy] : undefined,
+      limit,
+      offset,
+    }),
+    countRows(webhookInbox, where),
+  ]);
+
+  return listResponse(c, data, total, offset, offset + limit, "webhook-inbox");
+});
+
+/**
+ * GET /api/admin/webhook-inbox/:id - Get single notification with its payload
+ */
+webhookInboxRoutes.get("/:id", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  const entry = await db.query.webhookInbox.findFirst({
+    where: eq(webhookInbox.id, id),
+  });
+  if (!entry) throw AppError.notFound("Notification not found");
+  return c.json(entry);
+});
+
+/**
+ * POST /api/admin/webhook-inbox/:id/replay - Process a failed or dead notification again
+ */
+webhookInboxRoutes.post("/:id/replay", async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  const entry = await db.query.webhookInbox.findFirst({
+    where: eq(webhookInbox.id, id),
+  });
+  if (!entry) throw AppError.notFound("Notification not found");
+  if (entry.status !== "failed" && entry.status !== "dead") {
+    throw AppError.badRequest(
+      `Only failed notifications can be replayed (this one is ${entry.status})`,
+      "NOT_REPLAYABLE",
+    );
+  }
+
+  const outcome = await replayNotification(id);
+  if (!outcome) throw AppError.conflict("Notification is already being processed");
+
+  const updated = await db.query.webhookInbox.findFirst({
+    where: eq(webhookInbox.id, id),
+  });
+  return c.json(updated);
+});
+
+export { webhookInboxRoutes };
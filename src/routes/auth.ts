@@ -17,10 +17,29 @@ import {
   generateMagicLinkToken,
   hashToken,
   magicLinkExpiresAt,
-  refreshTokenExpiresAt,
+  createTwoFactorToken,
+  verifyTwoFactorToken,
   type TokenPayload,
 } from "../services/auth.ts";
+import {
+  storeRefreshToken,
+  consumeRefreshToken,
+  markReplaced,
+  type RefreshTokenLink,
+} from "../services/refresh-tokens.ts";
+import { claimDeviceSlot, deactivateDevice, formatDevice, type Device } from "../services/devices.ts";
+import { revokeUserSessions } from "../services/sessions.ts";
+import { permissionsFor } from "../services/permissions.ts";
+import {
+  getTwoFactorStatus,
+  startEnrollment,
+  confirmEnrollment,
+  verifySecondFactor,
+  replaceBackupCodes,
+  removeTwoFactor,
+} from "../services/two-factor.ts";
 import { sendEmail, buildMagicLinkEmail } from "../services/email.ts";
+import { requestEmailChange, confirmEmailChange } from "../services/email-change.ts";
 import { AppError } from "../lib/errors.ts";
 import {
   loginSchema,
@@ -31,8 +50,13 @@ import {
   requestApprovalSchema,
   autoActivateSchema,
   deactivateDeviceSchema,
+  twoFactorCodeSchema,
+  twoFactorChallengeSchema,
+  twoFactorLoginSchema,
+  changeEmailSchema,
 } from "../lib/schemas.ts";
 import { authMiddleware, getUser } from "../middleware/auth.ts";
+import { rateLimit, clientIp } from "../middleware/rate-limit.ts";
 import { config } from "../config.ts";
 
 const auth = new Hono();
@@ -61,9 +85,12 @@ async function formatUserForApp(user: {
   const lastName = user.lastName || "";
   const name = [firstName, lastName].filter(Boolean).join(" ") || user.email;
 
-  // Fetch user's group memberships
+  // Fetch user's group memberships — only confirmed ones count as belonging
   const userGroups = await db.query.userGroupMemberships.findMany({
-    where: eq(userGroupMemberships.userId, user.id),
+    where: and(
+      eq(userGroupMemberships.userId, user.id),
+      eq(userGroupMemberships.status, "confirmed"),
+    ),
   });
 
   return {
@@ -80,7 +107,7 @@ async function formatUserForApp(user: {
       notifications: true,
     },
     subscription: {
-      status: user.subscriptionStatus as "active" | "expired" | "none",
+      status: user.subscriptionStatus as "active" | "past_due" | "expired" | "none",
       source: user.subscriptionSource,
       expiresAt: user.subscriptionExpiresAt?.toISOString() || null,
     },
@@ -90,13 +117,22 @@ async function formatUserForApp(user: {
 }
 
 /**
- * Generate JWT tokens + store refresh token for a user.
+ * Generate JWT tokens + store refresh token for a user. Pass the device
+ * session for app logins so forgetting the device revokes the tokens, and
+ * the family when rotating an existing refresh token. `mfa` marks a login
+ * that passed a second factor.
  */
-async function generateTokensForUser(user: { id: number; email: string; role: string }) {
+async function generateTokensForUser(
+  user: { id: number; email: string; role: string; tokenVersion: number },
+  link: RefreshTokenLink = {},
+  mfa = false,
+) {
   const payload: TokenPayload = {
     sub: user.id,
     email: user.email,
     role: user.role,
+    mfa,
+    ver: user.tokenVersion,
   };
 
   const [accessToken, refreshTokenValue] = await Promise.all([
@@ -104,14 +140,9 @@ async function generateTokensForUser(user: { id: number; email: string; role: st
     createRefreshToken(payload),
   ]);
 
-  const rtHash = await hashToken(refreshTokenValue);
-  await db.insert(refreshTokens).values({
-    userId: user.id,
-    tokenHash: rtHash,
-    expiresAt: refreshTokenExpiresAt(),
-  });
+  const stored = await storeRefreshToken(user.id, refreshTokenValue, link);
 
-  return { accessToken, refreshToken: refreshTokenValue };
+  return { accessToken, refreshToken: refreshTokenValue, refreshTokenId: stored.id };
 }
 
 // ──────────────────────────────────────────────────────
@@ -121,7 +152,7 @@ async function generateTokensForUser(user: { id: number; email: string; role: st
 /**
  * POST /api/auth/login - Admin login with email + password
  */
-auth.post("/login", async (c) => {
+auth.post("/login", rateLimit("login", config.rateLimit.login), async (c) => {
   const body = await c.req.json();
   const data = loginSchema.parse(body);
 
@@ -142,14 +173,41 @@ auth.post("/login", async (c) => {
     throw AppError.unauthorized("Invalid email or password");
   }
 
-  const tokens = await generateTokensForUser(user);
+  // Accounts with a second factor (or whose role requires one) finish at /login/2fa
+  const twoFactor = await getTwoFactorStatus(user);
+  if (twoFactor.enabled || twoFactor.required) {
+    return c.json({
+      status: twoFactor.enabled ? "two_factor_required" : "two_factor_setup_required",
+      twoFactorToken: await createTwoFactorToken(user.id),
+    });
+  }
+
+  return c.json(await completeLogin(user));
+});
+
+/**
+ * Issue a session for a password login and record the activity. Used by
+ * /login and by the second login step.
+ */
+async function completeLogin(
+  user: {
+    id: number;
+    email: string;
+    role: string;
+    tokenVersion: number;
+    firstName: string | null;
+    lastName: string | null;
+  },
+  mfa = false,
+) {
+  const tokens = await generateTokensForUser(user, {}, mfa);
 
   await db
     .update(users)
     .set({ lastActivity: new Date(), updatedAt: new Date() })
     .where(eq(users.id, user.id));
 
-  return c.json({
+  return {
     accessToken: tokens.accessToken,
     refreshToken: tokens.refreshToken,
     user: {
@@ -158,8 +216,138 @@ auth.post("/login", async (c) => {
       firstName: user.firstName,
       lastName: user.lastName,
       role: user.role,
+      permissions: permissionsFor(user.role),
     },
-  });
+  };
+}
+
+// ──────────────────────────────────────────────────────
+// Two-factor authentication (TOTP) — admin password logins
+// ──────────────────────────────────────────────────────
+
+/** The active user a login challenge was issued to. */
+async function challengeUser(twoFactorToken: string) {
+  const userId = await verifyTwoFactorToken(twoFactorToken);
+  const user = userId
+    ? await db.query.users.findFirst({ where: eq(users.id, userId) })
+    : undefined;
+  if (!user || !user.isActive) {
+    throw AppError.unauthorized("Login expired, please sign in again");
+  }
+  return user;
+}
+
+const enrollErrors: Record<string, [string, string]> = {
+  not_started: ["Start two-factor setup first", "TWO_FACTOR_NOT_STARTED"],
+  already_enabled: ["Two-factor authentication is already enabled", "TWO_FACTOR_ENABLED"],
+  invalid_code: ["Invalid authentication code", "INVALID_CODE"],
+};
+
+/**
+ * POST /api/auth/login/2fa - Second login step: a TOTP or backup code
+ */
+auth.post("/login/2fa", rateLimit("login-2fa", config.rateLimit.twoFactor), async (c) => {
+  const data = twoFactorLoginSchema.parse(await c.req.json());
+  const user = await challengeUser(data.twoFactorToken);
+
+  if (!(await verifySecondFactor(user.id, data.code))) {
+    throw AppError.unauthorized("Invalid authentication code");
+  }
+  return c.json(await completeLogin(user, true));
+});
+
+/**
+ * POST /api/auth/login/2fa/setup - Provisioning (secret + QR code) for an
+ * account whose role requires two-factor but has not enrolled yet
+ */
+auth.post("/login/2fa/setup", rateLimit("login-2fa", config.rateLimit.twoFactor), async (c) => {
+  const data = twoFactorChallengeSchema.parse(await c.req.json());
+  const user = await challengeUser(data.twoFactorToken);
+
+  const provisioning = await startEnrollment(user);
+  if (!provisioning) throw AppError.conflict("Two-factor authentication is already enabled");
+  return c.json(provisioning);
+});
+
+/**
+ * POST /api/auth/login/2fa/enable - Confirm enrollment with a first code and
+ * finish the login. The backup codes are only ever shown in this response.
+ */
+auth.post("/login/2fa/enable", rateLimit("login-2fa", config.rateLimit.twoFactor), async (c) => {
+  const data = twoFactorLoginSchema.parse(await c.req.json());
+  const user = await challengeUser(data.twoFactorToken);
+
+  const result = await confirmEnrollment(user.id, data.code);
+  if (!result.ok) {
+    const [message, code] = enrollErrors[result.reason]!;
+    throw AppError.badRequest(message, code);
+  }
+  return c.json({ ...(await completeLogin(user, true)), backupCodes: result.backupCodes });
+});
+
+/**
+ * GET /api/auth/2fa - Two-factor status of the signed-in account
+ */
+auth.get("/2fa", authMiddleware, async (c) => {
+  const authUser = getUser(c);
+  return c.json(await getTwoFactorStatus(authUser));
+});
+
+/**
+ * POST /api/auth/2fa/setup - Start optional enrollment for the signed-in account
+ */
+auth.post("/2fa/setup", authMiddleware, async (c) => {
+  const authUser = getUser(c);
+  const provisioning = await startEnrollment(authUser);
+  if (!provisioning) throw AppError.conflict("Two-factor authentication is already enabled");
+  return c.json(provisioning);
+});
+
+/**
+ * POST /api/auth/2fa/enable - Confirm enrollment; returns the backup codes
+ */
+auth.post("/2fa/enable", authMiddleware, async (c) => {
+  const authUser = getUser(c);
+  const { code } = twoFactorCodeSchema.parse(await c.req.json());
+
+  const result = await confirmEnrollment(authUser.id, code);
+  if (!result.ok) {
+    const [message, errorCode] = enrollErrors[result.reason]!;
+    throw AppError.badRequest(message, errorCode);
+  }
+  return c.json({ backupCodes: result.backupCodes });
+});
+
+/**
+ * POST /api/auth/2fa/backup-codes - Replace the backup codes (needs a current code)
+ */
+auth.post("/2fa/backup-codes", authMiddleware, async (c) => {
+  const authUser = getUser(c);
+  const { code } = twoFactorCodeSchema.parse(await c.req.json());
+
+  if (!(await verifySecondFactor(authUser.id, code))) {
+    throw AppError.badRequest("Invalid authentication code", "INVALID_CODE");
+  }
+  return c.json({ backupCodes: await replaceBackupCodes(authUser.id) });
+});
+
+/**
+ * POST /api/auth/2fa/disable - Turn off two-factor (needs a current code).
+ * Not allowed for roles that require it; a superadmin can reset it instead.
+ */
+auth.post("/2fa/disable", authMiddleware, async (c) => {
+  const authUser = getUser(c);
+  const { code } = twoFactorCodeSchema.parse(await c.req.json());
+
+  const status = await getTwoFactorStatus(authUser);
+  if (status.required) {
+    throw AppError.badRequest("Two-factor authentication is required for your role", "TWO_FACTOR_REQUIRED");
+  }
+  if (!(await verifySecondFactor(authUser.id, code))) {
+    throw AppError.badRequest("Invalid authentication code", "INVALID_CODE");
+  }
+  await removeTwoFactor(authUser.id);
+  return c.json({ message: "Two-factor authentication disabled" });
 });
 
 // ──────────────────────────────────────────────────────
@@ -174,7 +362,7 @@ auth.post("/login", async (c) => {
  * - If user exists but device not activated → send magic link email
  * - If user doesn't exist → return "approval_required"
  */
-auth.post("/request-magic-link", async (c) => {
+auth.post("/request-magic-link", rateLimit("request-magic-link", config.rateLimit.magicLink), async (c) => {
   const body = await c.req.json();
   const data = requestMagicLinkSchema.parse(body);
 
@@ -208,7 +396,7 @@ auth.post("/request-magic-link", async (c) => {
 
   if (existingDevice) {
     // Device already activated — return tokens directly
-    const tokens = await generateTokensForUser(user);
+    const tokens = await generateTokensForUser(user, { deviceActivationId: existingDevice.id });
 
     await db
       .update(deviceActivations)
@@ -276,6 +464,8 @@ auth.post("/request-magic-link", async (c) => {
  * Called when user clicks the magic link in their email (opens in browser).
  * Validates token, creates DeviceActivation, renders HTML success page.
  * The mobile app discovers this activation via the /device/discover endpoint.
+ * At the device limit with the "ask" policy, lists the active devices with a
+ * link back here (?replace=<id>) for each one the member can sign out.
  */
 auth.get("/activate/:token", async (c) => {
   const token = c.req.param("token");
@@ -301,18 +491,16 @@ auth.get("/activate/:token", async (c) => {
     return c.html(renderActivationPage(title, message, false));
   }
 
-  // Mark token as used
-  await db
-    .update(magicLinkTokens)
-    .set({ isUsed: true })
-    .where(eq(magicLinkTokens.id, magicLink.id));
-
   // Find the user
   const user = await db.query.users.findFirst({
     where: eq(users.email, magicLink.email),
   });
 
   if (!user || !user.isActive) {
+    await db
+      .update(magicLinkTokens)
+      .set({ isUsed: true })
+      .where(eq(magicLinkTokens.id, magicLink.id));
     const title = lang === "pt" ? "Conta Não Encontrada" : "Account Not Found";
     const message = lang === "pt"
       ? "Não foi possível encontrar a sua conta. Por favor contacte o suporte."
@@ -320,6 +508,33 @@ auth.get("/activate/:token", async (c) => {
     return c.html(renderActivationPage(title, message, false));
   }
 
+  // Make room under the device limit before spending the token, so a member
+  // asked which device to replace can follow this link again with their pick
+  if (magicLink.deviceFingerprint) {
+    const replace = c.req.query("replace");
+    const slot = await claimDeviceSlot(
+      user,
+      magicLink.deviceFingerprint,
+      replace ? parseInt(replace, 10) : undefined,
+    );
+    if (!slot.ok) {
+      if (slot.reason === "invalid_replacement") {
+        const title = lang === "pt" ? "Dispositivo Não Encontrado" : "Device Not Found";
+        const message = lang === "pt"
+          ? "O dispositivo escolhido já não está ativo. Por favor abra o link do email novamente."
+          : "The device you picked is no longer active. Please open the link from the email again.";
+        return c.html(renderActivationPage(title, message, false));
+      }
+      return c.html(renderDeviceChoicePage(token, lang, slot.limit, slot.devices));
+    }
+  }
+
+  // Mark token as used
+  await db
+    .update(magicLinkTokens)
+    .set({ isUsed: true })
+    .where(eq(magicLinkTokens.id, magicLink.id));
+
   // Mark user as verified
   if (!user.isVerified) {
     await db
@@ -344,7 +559,7 @@ auth.get("/activate/:token", async (c) => {
           deviceName: magicLink.deviceName || existingDevice.deviceName,
           deviceType: magicLink.deviceType || existingDevice.deviceType,
           lastUsed: new Date(),
-          ipAddress: c.req.header("x-forwarded-for") || c.req.header("x-real-ip") || null,
+          ipAddress: clientIp(c),
           userAgent: c.req.header("user-agent") || null,
         })
         .where(eq(deviceActivations.id, existingDevice.id));
@@ -355,7 +570,7 @@ auth.get("/activate/:token", async (c) => {
         deviceFingerprint: magicLink.deviceFingerprint,
         deviceName: magicLink.deviceName || "Unknown Device",
         deviceType: magicLink.deviceType || "unknown",
-        ipAddress: c.req.header("x-forwarded-for") || c.req.header("x-real-ip") || null,
+        ipAddress: clientIp(c),
         userAgent: c.req.header("user-agent") || null,
       });
     }
@@ -381,7 +596,7 @@ auth.get("/activate/:token", async (c) => {
  * requesting a magic link to check if the device was activated
  * (by the user clicking the link in their email).
  */
-auth.post("/device/discover", async (c) => {
+auth.post("/device/discover", rateLimit("device-discover", config.rateLimit.deviceDiscover), async (c) => {
   const body = await c.req.json();
   const data = discoverDeviceSchema.parse(body);
 
@@ -411,7 +626,7 @@ auth.post("/device/discover", async (c) => {
     });
   }
 
-  const tokens = await generateTokensForUser(user);
+  const tokens = await generateTokensForUser(user, { deviceActivationId: device.id });
 
   // Update last used
   await db
@@ -446,7 +661,7 @@ auth.post("/device/discover", async (c) => {
  * For new users who don't have an account yet.
  * Creates an approval request that admins can review.
  */
-auth.post("/request-approval", async (c) => {
+auth.post("/request-approval", rateLimit("request-approval", config.rateLimit.approval), async (c) => {
   const body = await c.req.json();
   const data = requestApprovalSchema.parse(body);
 
@@ -474,7 +689,7 @@ auth.post("/request-approval", async (c) => {
     deviceName: data.device_name,
     deviceType: data.device_type,
     language: data.language ?? "en",
-    ipAddress: c.req.header("x-forwarded-for") || c.req.header("x-real-ip") || null,
+    ipAddress: clientIp(c),
     userAgent: c.req.header("user-agent") || null,
   });
 
@@ -488,7 +703,9 @@ auth.post("/request-approval", async (c) => {
  * POST /api/auth/auto-activate
  *
  * Auto-activate a device using a magic link token directly
- * (for deep link / in-app activation flow).
+ * (for deep link / in-app activation flow). When the account is at its
+ * device limit and the policy is "ask", answers 409 device_limit_reached
+ * with the active devices; the app retries with replace_device_id.
  */
 auth.post("/auto-activate", async (c) => {
   const body = await c.req.json();
@@ -508,12 +725,6 @@ auth.post("/auto-activate", async (c) => {
     throw AppError.unauthorized("Invalid or expired token");
   }
 
-  // Mark token as used
-  await db
-    .update(magicLinkTokens)
-    .set({ isUsed: true })
-    .where(eq(magicLinkTokens.id, magicLink.id));
-
   // Find user
   const user = await db.query.users.findFirst({
     where: eq(users.email, magicLink.email),
@@ -523,6 +734,30 @@ auth.post("/auto-activate", async (c) => {
     throw AppError.unauthorized("Account not found or deactivated");
   }
 
+  // Check the device limit before spending the token, so the app can retry
+  // with the device the member chose to replace
+  const slot = await claimDeviceSlot(user, data.device_fingerprint, data.replace_device_id);
+  if (!slot.ok) {
+    if (slot.reason === "invalid_replacement") {
+      throw AppError.badRequest("Device to replace not found", "INVALID_DEVICE");
+    }
+    return c.json(
+      {
+        status: "device_limit_reached",
+        message: "Device limit reached. Choose a device to replace.",
+        max_devices: slot.limit,
+        devices: slot.devices.map(formatDevice),
+      },
+      409,
+    );
+  }
+
+  // Mark token as used
+  await db
+    .update(magicLinkTokens)
+    .set({ isUsed: true })
+    .where(eq(magicLinkTokens.id, magicLink.id));
+
   // Mark user as verified
   if (!user.isVerified) {
     await db
@@ -536,6 +771,7 @@ auth.post("/auto-activate", async (c) => {
     where: eq(deviceActivations.deviceFingerprint, data.device_fingerprint),
   });
 
+  let deviceActivationId: number;
   if (existingDevice) {
     await db
       .update(deviceActivations)
@@ -545,22 +781,27 @@ auth.post("/auto-activate", async (c) => {
         deviceName: data.device_name,
         deviceType: data.device_type,
         lastUsed: new Date(),
-        ipAddress: c.req.header("x-forwarded-for") || c.req.header("x-real-ip") || null,
+        ipAddress: clientIp(c),
         userAgent: c.req.header("user-agent") || null,
       })
       .where(eq(deviceActivations.id, existingDevice.id));
+    deviceActivationId = existingDevice.id;
   } else {
-    await db.insert(deviceActivations).values({
-      userId: user.id,
-      deviceFingerprint: data.device_fingerprint,
-      deviceName: data.device_name,
-      deviceType: data.device_type,
-      ipAddress: c.req.header("x-forwarded-for") || c.req.header("x-real-ip") || null,
-      userAgent: c.req.header("user-agent") || null,
-    });
+    const [device] = await db
+      .insert(deviceActivations)
+      .values({
+        userId: user.id,
+        deviceFingerprint: data.device_fingerprint,
+        deviceName: data.device_name,
+        deviceType: data.device_type,
+        ipAddress: clientIp(c),
+        userAgent: c.req.header("user-agent") || null,
+      })
+      .returning({ id: deviceActivations.id });
+    deviceActivationId = device!.id;
   }
 
-  const tokens = await generateTokensForUser(user);
+  const tokens = await generateTokensForUser(user, { deviceActivationId });
 
   await db
     .update(users)
@@ -583,8 +824,8 @@ auth.post("/auto-activate", async (c) => {
 /**
  * POST /api/auth/device/deactivate
  *
- * Deactivate a device (used by "Forget Device" in the app).
- * Requires authentication.
+ * Deactivate a device (used by "Forget Device" in the app) and revoke the
+ * refresh tokens issued to it. Requires authentication.
  */
 auth.post("/device/deactivate", authMiddleware, async (c) => {
   const authUser = getUser(c);
@@ -605,10 +846,7 @@ auth.post("/device/deactivate", authMiddleware, async (c) => {
     });
   }
 
-  await db
-    .update(deviceActivations)
-    .set({ isActive: false })
-    .where(eq(deviceActivations.id, device.id));
+  await deactivateDevice(device.id);
 
   return c.json({
     status: "deactivated",
@@ -632,17 +870,7 @@ auth.get("/devices", authMiddleware, async (c) => {
     ),
   });
 
-  return c.json(
-    devices.map((d) => ({
-      id: d.id,
-      device_fingerprint: d.deviceFingerprint,
-      device_name: d.deviceName,
-      device_type: d.deviceType,
-      activated_at: d.activatedAt.toISOString(),
-      last_used: d.lastUsed.toISOString(),
-      is_active: d.isActive,
-    })),
-  );
+  return c.json(devices.map(formatDevice));
 });
 
 // ──────────────────────────────────────────────────────
@@ -727,12 +955,85 @@ auth.patch("/user", authMiddleware, async (c) => {
   return c.json(await formatUserForApp(updatedUser));
 });
 
+/**
+ * POST /api/auth/user/email
+ *
+ * Ask to move the account to a new email address. A confirmation link goes
+ * to the new address; the account keeps the old one until it is opened.
+ */
+auth.post(
+  "/user/email",
+  authMiddleware,
+  rateLimit("email-change", config.rateLimit.emailChange),
+  async (c) => {
+    const authUser = getUser(c);
+    const { email } = changeEmailSchema.parse(await c.req.json());
+
+    const result = await requestEmailChange(authUser.id, email);
+    if (!result.ok) {
+      if (result.reason === "not_found") throw AppError.notFound("User not found");
+      if (result.reason === "unchanged") {
+        throw AppError.badRequest("This is already your email address", "EMAIL_UNCHANGED");
+      }
+      throw new AppError(409, "This email address is already in use", "EMAIL_TAKEN");
+    }
+
+    const response: Record<string, unknown> = {
+      status: "confirmation_sent",
+      message: "Please check the new address for a confirmation link",
+      email: result.newEmail,
+      expires_in: 3600,
+    };
+    if (config.isDev) {
+      response.dev_confirmation_url = result.confirmUrl;
+      console.log(`\n  🔑 DEV: Confirm email change: ${result.confirmUrl}\n`);
+    }
+    return c.json(response, 202);
+  },
+);
+
+/**
+ * GET /api/auth/email-change/:token
+ *
+ * Opened from the confirmation email (in a browser): applies the change and
+ * renders an HTML result page.
+ */
+auth.get("/email-change/:token", async (c) => {
+  const result = await confirmEmailChange(c.req.param("token"));
+  const lang = c.req.query("lang") || (result.ok ? result.language : "en");
+  const pt = lang === "pt";
+
+  if (!result.ok) {
+    const title = pt ? "Link Inválido" : "Invalid Link";
+    const message =
+      result.reason === "taken"
+        ? pt
+          ? "Este email já está a ser usado por outra conta."
+          : "This email address is already used by another account."
+        : pt
+          ? "Este link é inválido ou já expirou. Por favor peça a alteração novamente na aplicação."
+          : "This link is invalid or has expired. Please ask for the change again in the app.";
+    return c.html(renderActivationPage(title, message, false));
+  }
+
+  const title = pt ? "Email Alterado" : "Email Changed";
+  const message = pt
+    ? `A sua conta passou a usar ${escapeHtml(result.newEmail)}. Os seus dispositivos continuam ligados.`
+    : `Your account now uses ${escapeHtml(result.newEmail)}. Your devices stay signed in.`;
+  return c.html(renderActivationPage(title, message, true));
+});
+
 // ──────────────────────────────────────────────────────
 // Token refresh & logout (shared by admin + mobile)
 // ──────────────────────────────────────────────────────
 
 /**
  * POST /api/auth/refresh - Exchange refresh token for new access token
+ *
+ * Each refresh token can be exchanged once; the new one joins the same
+ * family and device session. Presenting a used token again revokes the
+ * family and deactivates the device, so whoever holds the other copy has
+ * to sign in again.
  */
 auth.post("/refresh", async (c) => {
   const body = await c.req.json();
@@ -745,18 +1046,15 @@ auth.post("/refresh", async (c) => {
     throw AppError.unauthorized("Invalid refresh token");
   }
 
-  const tokenHash = await hashToken(data.refreshToken);
-
-  const storedToken = await db.query.refreshTokens.findFirst({
-    where: and(
-      eq(refreshTokens.tokenHash, tokenHash),
-      gt(refreshTokens.expiresAt, new Date()),
-    ),
-  });
-
-  if (!storedToken) {
-    throw AppError.unauthorized("Invalid or expired refresh token");
+  const result = await consumeRefreshToken(data.refreshToken);
+  if (!result.ok) {
+    throw AppError.unauthorized(
+      result.reason === "reused"
+        ? "Refresh token was already used; please sign in again"
+        : "Invalid or expired refresh token",
+    );
   }
+  const storedToken = result.token;
 
   const user = await db.query.users.findFirst({
     where: eq(users.id, storedToken.userId),
@@ -765,13 +1063,17 @@ auth.post("/refresh", async (c) => {
   if (!user || !user.isActive) {
     throw AppError.unauthorized("User not found or deactivated");
   }
+  if ((jwtPayload.ver ?? 0) !== user.tokenVersion) {
+    throw new AppError(401, "Session has been revoked, please sign in again", "SESSION_REVOKED");
+  }
 
-  // Delete old token (rotation)
-  await db
-    .delete(refreshTokens)
-    .where(eq(refreshTokens.id, storedToken.id));
-
-  const tokens = await generateTokensForUser(user);
+  // A session that passed a second factor keeps that status across refreshes
+  const tokens = await generateTokensForUser(
+    user,
+    { familyId: storedToken.familyId, deviceActivationId: storedToken.deviceActivationId },
+    jwtPayload.mfa === true,
+  );
+  await markReplaced(storedToken.id, tokens.refreshTokenId);
 
   return c.json({
     accessToken: tokens.accessToken,
@@ -803,6 +1105,16 @@ auth.post("/logout", authMiddleware, async (c) => {
   return c.json({ message: "Logged out" });
 });
 
+/**
+ * POST /api/auth/logout-everywhere - Sign out on every device: all access
+ * and refresh tokens issued so far, including the caller's, stop working
+ */
+auth.post("/logout-everywhere", authMiddleware, async (c) => {
+  const user = getUser(c);
+  await revokeUserSessions(user.id);
+  return c.json({ message: "Signed out everywhere" });
+});
+
 /**
  * GET /api/auth/me - Get current user profile (admin format)
  */
@@ -825,6 +1137,8 @@ auth.get("/me", authMiddleware, async (c) => {
     dharmaName: user.dharmaName,
     preferredLanguage: user.preferredLanguage,
     role: user.role,
+    // What the admin UI shows this role (see services/permissions.ts)
+    permissions: permissionsFor(user.role),
     isVerified: user.isVerified,
     createdAt: user.createdAt,
   });
@@ -907,7 +1221,32 @@ auth.post("/verify-magic-link", async (c) => {
 // HTML rendering for activation page
 // ──────────────────────────────────────────────────────
 
-function renderActivationPage(title: string, message: string, success: boolean): string {
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderDeviceChoicePage(token: string, lang: string, limit: number, devices: Device[]): string {
+  const pt = lang === "pt";
+  const title = pt ? "Limite de Dispositivos Atingido" : "Device Limit Reached";
+  const message = pt
+    ? `A sua conta pode estar ativa em até ${limit} dispositivos. Escolha um para terminar a sessão e ativar este.`
+    : `Your account can be active on up to ${limit} devices. Choose one to sign out so this one can be activated.`;
+  const lastUsed = pt ? "Última utilização" : "Last used";
+  const links = devices
+    .map((d) => {
+      const href = `/api/auth/activate/${encodeURIComponent(token)}?lang=${encodeURIComponent(lang)}&replace=${d.id}`;
+      const used = d.lastUsed.toLocaleDateString(pt ? "pt-PT" : "en-GB");
+      return `<a class="device" href="${href}"><strong>${escapeHtml(d.deviceName)}</strong><span>${escapeHtml(d.deviceType)} · ${lastUsed} ${used}</span></a>`;
+    })
+    .join("\n    ");
+  return renderActivationPage(title, message, false, links);
+}
+
+function renderActivationPage(title: string, message: string, success: boolean, extraHtml = ""): string {
   const bgColor = success ? "#f0fdf4" : "#fef2f2";
   const iconColor = success ? "#16a34a" : "#dc2626";
   const icon = success ? "&#10003;" : "&#10007;";
@@ -950,6 +1289,17 @@ function renderActivationPage(title: string, message: string, success: boolean):
     }
     h1 { font-size: 24px; color: #1a1a1a; margin-bottom: 12px; }
     p { font-size: 16px; color: #666; line-height: 1.5; }
+    .device {
+      display: block;
+      margin-top: 12px;
+      padding: 12px 16px;
+      border: 1px solid #e5e5e5;
+      border-radius: 8px;
+      text-align: left;
+      text-decoration: none;
+      color: #1a1a1a;
+    }
+    .device span { display: block; font-size: 14px; color: #666; margin-top: 4px; }
   </style>
 </head>
 <body>
@@ -957,6 +1307,7 @@ function renderActivationPage(title: string, message: string, success: boolean):
     <div class="icon">${icon}</div>
     <h1>${title}</h1>
     <p>${message}</p>
+    ${extraHtml}
   </div>
 </body>
 </html>`;
@@ -1,4 +1,4 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { eq, and, inArray } from "drizzle-orm";
 import { db } from "../db/index.ts";
 import { events } from "../db/schema/retreats.ts";
@@ -7,11 +7,28 @@ import { tracks } from "../db/schema/tracks.ts";
 import { teachers } from "../db/schema/teachers.ts";
 import { audiences } from "../db/schema/audiences.ts";
 import { users } from "../db/schema/users.ts";
-import { downloadRequests } from "../db/schema/index.ts";
-import { authMiddleware, getUser } from "../middleware/auth.ts";
+import { downloadRequests, eventAccessRequests } from "../db/schema/index.ts";
+import {
+  authMiddleware,
+  optionalAuthMiddleware,
+  getUser,
+  getOptionalUser,
+} from "../middleware/auth.ts";
+import { viewAsMiddleware } from "../middleware/view-as.ts";
 import { AppError } from "../lib/errors.ts";
 import { generateRetreatZip } from "../services/zip-generator.ts";
-import { checkEventAccess, filterAccessibleEvents, AUDIENCE_SLUGS } from "../services/access.ts";
+import {
+  checkEventAccess,
+  createAccessResolver,
+  filterAccessibleEvents,
+  AUDIENCE_SLUGS,
+  scopeEvent,
+  type AccessResolver,
+  type AccessScope,
+} from "../services/access.ts";
+import { explainEventAccess } from "../services/access-explanation.ts";
+import { requestEventAccessSchema } from "../lib/schemas.ts";
+import { mediaAccessContext } from "../services/media-access-log.ts";
 
 const eventRoutes = new Hono();
 
@@ -66,8 +83,10 @@ const eventWithSessions = {
   sessions: {
     orderBy: (s: any, { asc }: any) => [asc(s.sessionNumber)],
     with: {
+      audience: true,
       tracks: {
         orderBy: (t: any, { asc }: any) => [asc(t.trackNumber)],
+        with: { audience: true },
       },
     },
   },
@@ -99,7 +118,9 @@ eventRoutes.get("/public", async (c) => {
     with: eventWithSessions,
   });
 
-  return c.json(data);
+  // Sessions restricted by their own audience are listed as locked, without tracks
+  const resolver = createAccessResolver(null, data);
+  return c.json(await Promise.all(data.map((event) => resolver.lockRestricted(event))));
 });
 
 /**
@@ -123,36 +144,134 @@ eventRoutes.get("/public/:id", async (c) => {
     throw AppError.forbidden("This event requires authentication");
   }
 
-  return c.json(event);
+  return c.json(await createAccessResolver(null, [event]).lockRestricted(event));
+});
+
+/**
+ * The session or track named by ?sessionId / ?trackId, whose audience may
+ * override the event's. A track carries its session; a session asked for on
+ * its own must belong to the event. Throws 404 for content of another event.
+ */
+async function loadAccessScope(c: Context, eventId: number) {
+  const trackParam = c.req.query("trackId");
+  const sessionParam = c.req.query("sessionId");
+  const track = trackParam
+    ? await db.query.tracks.findFirst({
+        where: eq(tracks.id, parseInt(trackParam, 10)),
+        with: { audience: true, session: { with: { audience: true } } },
+      })
+    : null;
+  if (trackParam && (!track || track.session?.eventId !== eventId)) {
+    throw AppError.notFound("Track not found");
+  }
+  const session = track
+    ? track.session
+    : sessionParam
+      ? await db.query.sessions.findFirst({
+          where: and(eq(sessions.id, parseInt(sessionParam, 10)), eq(sessions.eventId, eventId)),
+          with: { audience: true },
+        })
+      : null;
+  if (sessionParam && session?.id !== parseInt(sessionParam, 10)) {
+    throw AppError.notFound("Session not found");
+  }
+  return { session, track } satisfies AccessScope;
+}
+
+/**
+ * GET /api/events/:id/access?lang=pt&sessionId=&trackId= - Explain whether the caller can open an event
+ * Works without auth so the app can tell logged-out users to log in.
+ * With ?sessionId or ?trackId, answers for that session or track, whose audience may
+ * override the event's.
+ * Returns the access reason plus localized next steps (subscribe, join group, ...).
+ */
+eventRoutes.get("/:id/access", optionalAuthMiddleware, viewAsMiddleware, async (c) => {
+  const id = parseInt(c.req.param("id"), 10);
+  const authUser = getOptionalUser(c);
+
+  // Unpublished events do not exist for the app, as on /public/:id
+  const event = await db.query.events.findFirst({
+    where: and(eq(events.id, id), eq(events.status, "published")),
+    with: {
+      audience: true,
+      eventRetreatGroups: { with: { retreatGroup: true } },
+    },
+  });
+
+  if (!event) {
+    throw AppError.notFound("Event not found");
+  }
+
+  const scope = await loadAccessScope(c, event.id);
+
+  const fullUser = authUser
+    ? await db.query.users.findFirst({ where: eq(users.id, authUser.id) })
+    : null;
+
+  const result = await checkEventAccess(
+    fullUser
+      ? {
+          id: fullUser.id,
+          role: fullUser.role,
+          subscriptionStatus: fullUser.subscriptionStatus,
+          subscriptionExpiresAt: fullUser.subscriptionExpiresAt,
+        }
+      : null,
+    event,
+    scope,
+  );
+
+  const langParam = c.req.query("lang");
+  const lang = langParam === "pt" || langParam === "en"
+    ? langParam
+    : fullUser?.preferredLanguage === "pt" ? "pt" : "en";
+
+  return c.json(
+    explainEventAccess({ ...event, ...scopeEvent(event, scope) }, result, lang, {
+      sessionId: scope.session?.id,
+      trackId: scope.track?.id,
+    }),
+  );
 });
 
 // ─── Authenticated endpoints ─────────────────────────────────────────────
-eventRoutes.use("/*", authMiddleware);
+// Admins can preview these as another user with X-View-As-User (GET only, audit-logged)
+eventRoutes.use("/*", authMiddleware, viewAsMiddleware);
 
 /**
- * Helper: check event access for a regular user, throw on denied.
+ * Helper: check event (or session/track) access for a user, throw on denied.
+ * Returns the user's resolver so callers can lock restricted sessions/tracks.
  */
 async function requireEventAccess(
   userId: number,
   role: string,
   event: { id: number; audience?: { slug: string } | null },
-) {
-  if (role === "admin" || role === "superadmin") return;
+  scope?: AccessScope,
+): Promise<AccessResolver> {
+  if (role === "admin" || role === "superadmin") {
+    return createAccessResolver({
+      id: userId,
+      role,
+      subscriptionStatus: "active",
+      subscriptionExpiresAt: null,
+    });
+  }
 
   const fullUser = await db.query.users.findFirst({
     where: eq(users.id, userId),
   });
   if (!fullUser) throw AppError.unauthorized("User not found");
 
-  const result = await checkEventAccess(
+  const resolver = createAccessResolver(
     {
       id: fullUser.id,
       role: fullUser.role,
       subscriptionStatus: fullUser.subscriptionStatus,
       subscriptionExpiresAt: fullUser.subscriptionExpiresAt,
     },
-    event,
+    [event],
   );
+  const result = await resolver.check(event, scope);
 
   if (!result.allowed) {
     throw AppError.forbidden(
@@ -165,11 +284,13 @@ async function requireEventAccess(
             : "Access denied",
     );
   }
+
+  return resolver;
 }
 
 /**
  * GET /api/events/sessions/:sessionId - Session detail with tracks
- * Checks access via parent event's audience rules
+ * Checks access via the session's audience override, else the parent event's rules
  */
 eventRoutes.get("/sessions/:sessionId", async (c) => {
   const sessionId = parseInt(c.req.param("sessionId"), 10);
@@ -178,8 +299,10 @@ eventRoutes.get("/sessions/:sessionId", async (c) => {
   const session = await db.query.sessions.findFirst({
     where: eq(sessions.id, sessionId),
     with: {
+      audience: true,
       tracks: {
         orderBy: (t: any, { asc }: any) => [asc(t.trackNumber)],
+        with: { audience: true },
       },
       event: {
         with: { audience: true },
@@ -191,15 +314,17 @@ eventRoutes.get("/sessions/:sessionId", async (c) => {
     throw AppError.notFound("Session not found");
   }
 
-  await requireEventAccess(user.id, user.role, session.event);
-  await enrichTracksWithSpeakerNames(session.tracks);
+  const access = await requireEventAccess(user.id, user.role, session.event, { session });
+  const [visible] = (await access.lockRestricted({ ...session.event, sessions: [session] }))
+    .sessions!;
+  await enrichTracksWithSpeakerNames(visible!.tracks);
 
-  return c.json(session);
+  return c.json(visible);
 });
 
 /**
  * GET /api/events/tracks/:trackId - Track detail
- * Checks access via parent event's audience rules
+ * Checks access via the track/session audience override, else the parent event's rules
  */
 eventRoutes.get("/tracks/:trackId", async (c) => {
   const trackId = parseInt(c.req.param("trackId"), 10);
@@ -208,8 +333,10 @@ eventRoutes.get("/tracks/:trackId", async (c) => {
   const track = await db.query.tracks.findFirst({
     where: eq(tracks.id, trackId),
     with: {
+      audience: true,
       session: {
         with: {
+          audience: true,
           event: {
             with: { audience: true },
           },
@@ -227,7 +354,7 @@ eventRoutes.get("/tracks/:trackId", async (c) => {
     throw AppError.notFound("Track's event not found");
   }
 
-  await requireEventAccess(user.id, user.role, event);
+  await requireEventAccess(user.id, user.role, event, { session: track.session, track });
   await enrichTracksWithSpeakerNames([track]);
 
   return c.json(track);
@@ -297,14 +424,15 @@ eventRoutes.get("/:id", async (c) => {
     throw AppError.notFound("Event not found");
   }
 
-  await requireEventAccess(user.id, user.role, event);
+  const access = await requireEventAccess(user.id, user.role, event);
+  const visible = await access.lockRestricted(event);
 
   // Enrich all tracks with speaker names
-  for (const session of (event as any).sessions ?? []) {
+  for (const session of (visible as any).sessions ?? []) {
     await enrichTracksWithSpeakerNames(session.tracks ?? []);
   }
 
-  return c.json(event);
+  return c.json(visible);
 });
 
 /**
@@ -378,11 +506,93 @@ eventRoutes.post("/:id/request-download", async (c) => {
   }
 
   // Start ZIP generation asynchronously
-  generateRetreatZip(newRequest.id, eventId, user.id).catch((error) => {
+  generateRetreatZip(newRequest.id, eventId, user.id, mediaAccessContext(c)).catch((error) => {
     console.error(`[ZIP] Background generation failed for request ${newRequest.id}:`, error);
   });
 
   return c.json({ request_id: newRequest.id });
 });
 
+/**
+ * POST /api/events/:id/request-access?sessionId=&trackId= - Ask an admin to unlock an event
+ * Only for on-request and initiation content: the event's own audience, or
+ * that of the session or track named in the query, which may override it.
+ * Approved requests become userEventAttendance grants (see /api/admin/access-requests).
+ */
+eventRoutes.post("/:id/request-access", async (c) => {
+  const user = getUser(c);
+  const eventId = parseInt(c.req.param("id"), 10);
+  const body = await c.req.json().catch(() => ({}));
+  const data = requestEventAccessSchema.parse(body);
+
+  const event = await db.query.events.findFirst({
+    where: and(eq(events.id, eventId), eq(events.status, "published")),
+    with: { audience: true },
+  });
+
+  if (!event) {
+    throw AppError.notFound("Event not found");
+  }
+
+  const scope = await loadAccessScope(c, event.id);
+  const audienceSlug = scopeEvent(event, scope).audience?.slug;
+  if (audienceSlug !== AUDIENCE_SLUGS.ON_REQUEST && audienceSlug !== AUDIENCE_SLUGS.INITIATION) {
+    throw AppError.badRequest(
+      "Access can only be requested for on-request or initiation content",
+      "ACCESS_REQUEST_NOT_ALLOWED",
+    );
+  }
+
+  const fullUser = await db.query.users.findFirst({
+    where: eq(users.id, user.id),
+  });
+
+  if (!fullUser) {
+    throw AppError.unauthorized("User not found");
+  }
+
+  const accessResult = await checkEventAccess(
+    {
+      id: fullUser.id,
+      role: fullUser.role,
+      subscriptionStatus: fullUser.subscriptionStatus,
+      subscriptionExpiresAt: fullUser.subscriptionExpiresAt,
+    },
+    event,
+    scope,
+  );
+
+  if (accessResult.allowed) {
+    throw AppError.conflict("You already have access to this event");
+  }
+
+  // One open request per user and event
+  const existingRequest = await db.query.eventAccessRequests.findFirst({
+    where: and(
+      eq(eventAccessRequests.userId, user.id),
+      eq(eventAccessRequests.eventId, eventId),
+      eq(eventAccessRequests.status, "pending"),
+    ),
+  });
+
+  if (existingRequest) {
+    return c.json({ request_id: existingRequest.id, status: existingRequest.status });
+  }
+
+  const [newRequest] = await db
+    .insert(eventAccessRequests)
+    .values({
+      userId: user.id,
+      eventId,
+      message: data.message ?? null,
+    })
+    .returning();
+
+  if (!newRequest) {
+    throw new AppError(500, "Failed to create access request", "INTERNAL_ERROR");
+  }
+
+  return c.json({ request_id: newRequest.id, status: newRequest.status }, 201);
+});
+
 export { eventRoutes };
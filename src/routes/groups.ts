@@ -5,12 +5,13 @@ import { retreatGroups } from "../db/schema/retreat-groups.ts";
 import { eventRetreatGroups, events } from "../db/schema/retreats.ts";
 import { users } from "../db/schema/users.ts";
 import { authMiddleware, getUser } from "../middleware/auth.ts";
+import { viewAsMiddleware } from "../middleware/view-as.ts";
 import { AppError } from "../lib/errors.ts";
-import { filterAccessibleEvents } from "../services/access.ts";
+import { filterAccessibleEvents, createAccessResolver } from "../services/access.ts";
 
 const groupRoutes = new Hono();
 
-groupRoutes.use("*", authMiddleware);
+groupRoutes.use("*", authMiddleware, viewAsMiddleware);
 
 // ─── Shared: get full user record for access checks ───────────────
 async function getFullUser(userId: number) {
@@ -113,19 +114,23 @@ groupRoutes.get("/:id/events", async (c) => {
       sessions: {
         orderBy: (s: any, { asc }: any) => [asc(s.sessionNumber)],
         with: {
+          audience: true,
           tracks: {
             orderBy: (t: any, { asc }: any) => [asc(t.trackNumber)],
+            with: { audience: true },
           },
         },
       },
     },
   });
 
-  // Filter events by audience-based access control
+  // Filter events by audience-based access control, then lock sessions and
+  // tracks whose own audience the user does not meet
   const fullUser = await getFullUser(user.id);
-  const accessibleEvents = await filterAccessibleEvents(fullUser, data);
+  const resolver = createAccessResolver(fullUser, data);
+  const accessibleEvents = await resolver.filter(data);
 
-  return c.json(accessibleEvents);
+  return c.json(await Promise.all(accessibleEvents.map((event) => resolver.lockRestricted(event))));
 });
 
 export { groupRoutes };
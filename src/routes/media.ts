@@ -1,4 +1,4 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { eq } from "drizzle-orm";
 import { PDFDocument, rgb, StandardFonts } from "pdf-lib";
 import { db } from "../db/index.ts";
@@ -9,25 +9,36 @@ import { users } from "../db/schema/users.ts";
 import { generatePresignedDownloadUrl, getObjectText } from "../services/s3.ts";
 import { AppError } from "../lib/errors.ts";
 import { optionalAuthMiddleware, getOptionalUser, getUser } from "../middleware/auth.ts";
-import { checkEventAccess } from "../services/access.ts";
+import { checkEventAccess, scopeEvent, type AccessResult, type AccessScope } from "../services/access.ts";
+import { explainEventAccess } from "../services/access-explanation.ts";
+import { logMediaAccess, mediaAccessContext } from "../services/media-access-log.ts";
 
 const mediaRoutes = new Hono();
 
 // Use optional auth — public event media doesn't require login
 mediaRoutes.use("*", optionalAuthMiddleware);
 
+/** The event's audience, plus its retreat groups for the "join group" next step. */
+const eventWithGroups = {
+  with: {
+    audience: true,
+    eventRetreatGroups: { with: { retreatGroup: true } },
+  },
+} as const;
+
 /**
- * Look up the event for a track (track → session → event with audience)
+ * Look up the event for a track (track → session → event with audience).
+ * Track and session audiences are loaded too, since they may override the event's.
  */
 async function getEventForTrack(trackId: number) {
   const track = await db.query.tracks.findFirst({
     where: eq(tracks.id, trackId),
     with: {
+      audience: true,
       session: {
         with: {
-          event: {
-            with: { audience: true },
-          },
+          audience: true,
+          event: eventWithGroups,
         },
       },
     },
@@ -43,9 +54,7 @@ async function getEventForTranscript(transcriptId: number) {
   const transcript = await db.query.transcripts.findFirst({
     where: eq(transcripts.id, transcriptId),
     with: {
-      event: {
-        with: { audience: true },
-      },
+      event: eventWithGroups,
     },
   });
   if (!transcript) return null;
@@ -69,9 +78,36 @@ async function getUserForAccess(authUser: { id: number; role: string } | null) {
     role: fullUser.role,
     subscriptionStatus: fullUser.subscriptionStatus,
     subscriptionExpiresAt: fullUser.subscriptionExpiresAt,
+    preferredLanguage: fullUser.preferredLanguage,
   };
 }
 
+type DeniedAccess = Extract<AccessResult, { allowed: false }>;
+
+/**
+ * Refuse media with the same reason code and next steps as
+ * GET /api/events/:id/access: 401 when logging in would help, 403 otherwise.
+ */
+function accessDenied(
+  c: Context,
+  event: Parameters<typeof explainEventAccess>[0],
+  result: DeniedAccess,
+  user: { preferredLanguage?: string } | null,
+  scope?: AccessScope & { track: { id: number } },
+) {
+  const langParam = c.req.query("lang");
+  const lang = langParam === "pt" || langParam === "en"
+    ? langParam
+    : user?.preferredLanguage === "pt" ? "pt" : "en";
+  const explanation = explainEventAccess({ ...event, ...scopeEvent(event, scope) }, result, lang, {
+    trackId: scope?.track.id,
+  });
+  return c.json(
+    { error: explanation.message, code: explanation.reason, ...explanation },
+    result.reason === "AUTH_REQUIRED" ? 401 : 403,
+  );
+}
+
 /**
  * GET /api/media/audio/:trackId - Get presigned S3 URL for audio playback
  */
@@ -85,16 +121,21 @@ mediaRoutes.get("/audio/:trackId", async (c) => {
 
   if (result.event) {
     const userForAccess = await getUserForAccess(authUser);
-    const accessResult = await checkEventAccess(userForAccess, result.event);
+    const scope = { session: result.track.session, track: result.track };
+    const accessResult = await checkEventAccess(userForAccess, result.event, scope);
     if (!accessResult.allowed) {
-      if (accessResult.reason === "AUTH_REQUIRED") {
-        throw AppError.unauthorized("Authentication required");
-      }
-      throw AppError.forbidden("Access denied");
+      return accessDenied(c, result.event, accessResult, userForAccess, scope);
     }
   }
 
   const url = await generatePresignedDownloadUrl(result.track.s3Key);
+  await logMediaAccess({
+    ...mediaAccessContext(c),
+    userId: authUser?.id ?? null,
+    resourceType: "audio",
+    resourceId: trackId,
+    eventId: result.event?.id ?? null,
+  });
   return c.json({ url, expiresIn: 3600 });
 });
 
@@ -112,12 +153,10 @@ mediaRoutes.get("/readalong/:trackId", async (c) => {
 
   if (result.event) {
     const userForAccess = await getUserForAccess(authUser);
-    const accessResult = await checkEventAccess(userForAccess, result.event);
+    const scope = { session: result.track.session, track: result.track };
+    const accessResult = await checkEventAccess(userForAccess, result.event, scope);
     if (!accessResult.allowed) {
-      if (accessResult.reason === "AUTH_REQUIRED") {
-        throw AppError.unauthorized("Authentication required");
-      }
-      throw AppError.forbidden("Access denied");
+      return accessDenied(c, result.event, accessResult, userForAccess, scope);
     }
   }
 
@@ -151,7 +190,7 @@ mediaRoutes.get("/transcript/:transcriptId", async (c) => {
     const userForAccess = await getUserForAccess(authUser);
     const accessResult = await checkEventAccess(userForAccess, result.event);
     if (!accessResult.allowed) {
-      throw AppError.forbidden("Access denied");
+      return accessDenied(c, result.event, accessResult, userForAccess);
     }
   }
 
@@ -191,6 +230,13 @@ mediaRoutes.get("/transcript/:transcriptId", async (c) => {
   }
 
   const watermarkedPdfBytes = await pdfDoc.save();
+  await logMediaAccess({
+    ...mediaAccessContext(c),
+    userId: authUser.id,
+    resourceType: "transcript",
+    resourceId: transcriptId,
+    eventId: result.event?.id ?? null,
+  });
 
   // Use original filename if available, fall back to generated name
   const filename = result.transcript.originalFilename
@@ -5,99 +5,88 @@ import { users } from "../db/schema/users.ts";
 import { config } from "../config.ts";
 import { AppError } from "../lib/errors.ts";
 import { authMiddleware, getUser } from "../middleware/auth.ts";
+import {
+  activateSubscription,
+  renewSubscription,
+  cancelSubscription,
+  findActiveSubscription,
+  findSubscriptionByProviderId,
+} from "../services/subscriptions.ts";
+import {
+  EASYPAY_CHECKOUT_SDK,
+  easypayFetch,
+  isEasypayMockMode,
+  orderKeyFor,
+} from "../services/easypay.ts";
+import {
+  findPlan,
+  findDefaultPlan,
+  listActivePlans,
+  planForSubscription,
+  periodEndFor,
+  type Plan,
+} from "../services/plans.ts";
+import { redeemVoucher, type RedeemFailure } from "../services/vouchers.ts";
+import { subscribeSchema, redeemVoucherSchema } from "../lib/schemas.ts";
+import { storeNotification, processInboxEntry } from "../services/webhook-inbox.ts";
 
-const EASYPAY_API_BASE = config.easypay.testing
-  ? "https://api.test.easypay.pt/2.0"
-  : "https://api.prod.easypay.pt/2.0";
-
-const EASYPAY_CHECKOUT_SDK = "https://cdn.easypay.pt/checkout/2.9.0/";
-
-const isMockMode = !config.easypay.accountId;
+// ─── Mock mode helpers ───
 
-if (isMockMode) {
-  console.log(
-    "[PAYMENT] Mock mode enabled — no EASYPAY_ACCOUNT_ID configured. Subscribe/cancel will work without Easypay.",
-  );
+function mockCreateSubscription(userId: number, plan: Plan) {
+  return activateSubscription(userId, "easypay", periodEndFor(plan.frequency), {
+    providerSubscriptionId: `mock_sub_${userId}`,
+    planId: plan.id,
+    amountCents: plan.priceCents,
+    currency: plan.currency,
+    providerReference: "mock",
+  });
 }
 
-// ─── Easypay API helpers ───
-
-async function easypayFetch(path: string, options: RequestInit = {}) {
-  const res = await fetch(`${EASYPAY_API_BASE}${path}`, {
-    ...options,
-    headers: {
-      "Content-Type": "application/json",
-      AccountId: config.easypay.accountId,
-      ApiKey: config.easypay.apiKey,
-      ...(options.headers || {}),
-    },
-  });
-  if (!res.ok) {
-    const body = await res.text().catch(() => "");
-    console.error(`Easypay API error ${res.status}: ${body}`);
-    throw AppError.internal(`Easypay API error: ${res.status}`);
-  }
-  return res.json();
+async function mockCancelSubscription(userId: number) {
+  const sub = await findActiveSubscription(userId);
+  if (sub) await cancelSubscription(sub, { note: "Cancelled by member" });
 }
 
-// ─── Mock mode helpers ───
+// ─── Plans ───
 
-function mockCreateSubscription(userId: number) {
-  const expiresAt = new Date();
-  expiresAt.setMonth(expiresAt.getMonth() + 1);
-  return db
-    .update(users)
-    .set({
-      subscriptionStatus: "active",
-      subscriptionSource: "easypay",
-      easypaySubscriptionId: `mock_sub_${userId}`,
-      subscriptionExpiresAt: expiresAt,
-      updatedAt: new Date(),
-    })
-    .where(eq(users.id, userId));
+/** The plan a member asked for, or the default plan; only active plans can be chosen. */
+async function choosePlan(planId: number | undefined): Promise<Plan> {
+  const plan = planId ? await findPlan(planId) : await findDefaultPlan();
+  if (!plan || !plan.isActive) {
+    throw AppError.badRequest("This subscription plan is not available", "PLAN_UNAVAILABLE");
+  }
+  return plan;
 }
 
-function mockCancelSubscription(userId: number) {
-  return db
-    .update(users)
-    .set({
-      subscriptionStatus: "expired",
-      updatedAt: new Date(),
-    })
-    .where(eq(users.id, userId));
-}
+// ─── Vouchers ───
 
-// ─── Routes ───
+const REDEEM_ERRORS: Record<RedeemFailure, [string, string]> = {
+  not_found: ["This voucher code is not valid", "VOUCHER_NOT_FOUND"],
+  inactive: ["This voucher is no longer valid", "VOUCHER_INACTIVE"],
+  expired: ["This voucher has expired", "VOUCHER_EXPIRED"],
+  exhausted: ["This voucher has already been used", "VOUCHER_EXHAUSTED"],
+  already_redeemed: ["You have already redeemed this voucher", "VOUCHER_ALREADY_REDEEMED"],
+  subscription_active: [
+    "Your current subscription cannot be extended with a voucher",
+    "SUBSCRIPTION_NOT_EXTENDABLE",
+  ],
+};
 
-const paymentRoutes = new Hono();
+// ─── Checkout ───
 
 /**
- * POST /api/payment/subscribe
- * Creates an Easypay Checkout session for a monthly subscription.
- * Returns a URL to the checkout page.
- * In mock mode: activates subscription directly and returns success URL.
+ * Create an Easypay Checkout session for a subscription to `plan` and return
+ * the URL of our page that embeds it (GET /api/payment/checkout/:id).
  */
-paymentRoutes.post("/subscribe", authMiddleware, async (c) => {
-  const authUser = getUser(c);
-
-  const user = await db.query.users.findFirst({
-    where: eq(users.id, authUser.id),
-  });
-  if (!user) throw AppError.notFound("User not found");
-
-  if (user.subscriptionStatus === "active") {
-    throw AppError.badRequest("You already have an active subscription");
-  }
-
-  if (isMockMode) {
-    console.log(`[MOCK PAYMENT] Activating subscription for user ${user.id}`);
-    await mockCreateSubscription(user.id);
-    return c.json({
-      url: `${config.urls.frontend}/subscription/success?session_id=mock_session`,
-    });
-  }
-
-  // Create Easypay checkout session
+async function createCheckout(
+  user: {
+    id: number;
+    email: string;
+    firstName: string | null;
+    lastName: string | null;
+  },
+  plan: Plan,
+): Promise<string> {
   const now = new Date();
   now.setMinutes(now.getMinutes() + 5); // Start 5 min from now
   const startTime = now.toISOString().replace("T", " ").slice(0, 16);
@@ -110,11 +99,11 @@ paymentRoutes.post("/subscribe", authMiddleware, async (c) => {
         methods: ["cc", "dd"],
         type: "sale",
         capture: {
-          descriptive: "Padmakara — Monthly Subscription",
+          descriptive: `Padmakara — ${plan.nameEn}`,
         },
-        currency: "EUR",
+        currency: plan.currency,
         start_time: startTime,
-        frequency: "1M",
+        frequency: plan.frequency,
         expiration_time: "2030-12-31 23:59",
         capture_now: true,
         retries: 2,
@@ -122,14 +111,14 @@ paymentRoutes.post("/subscribe", authMiddleware, async (c) => {
       order: {
         items: [
           {
-            description: "Padmakara Monthly Subscription",
+            description: `Padmakara ${plan.nameEn} Subscription`,
             quantity: 1,
-            key: `padmakara-monthly-user-${user.id}`,
-            value: 5,
+            key: `padmakara-${plan.slug}-user-${user.id}`,
+            value: plan.priceCents / 100,
           },
         ],
-        key: `user-${user.id}-${Date.now()}`,
-        value: 5,
+        key: orderKeyFor(user.id, plan.id),
+        value: plan.priceCents / 100,
       },
       customer: {
         name: [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email,
@@ -140,11 +129,127 @@ paymentRoutes.post("/subscribe", authMiddleware, async (c) => {
     }),
   });
 
-  // Store the checkout session id so we can link it back in the webhook
   // The checkout page URL includes the manifest session for the SDK
-  const checkoutPageUrl = `${config.urls.backend}/api/payment/checkout/${checkoutData.id}?session=${encodeURIComponent(checkoutData.session)}&userId=${user.id}`;
+  return `${config.urls.backend}/api/payment/checkout/${checkoutData.id}?session=${encodeURIComponent(checkoutData.session)}&userId=${user.id}`;
+}
+
+// ─── Routes ───
 
-  return c.json({ url: checkoutPageUrl });
+const paymentRoutes = new Hono();
+
+/**
+ * GET /api/payment/plans
+ * The subscription plans open to new subscribers, in display order.
+ */
+paymentRoutes.get("/plans", async (c) => {
+  const rows = await listActivePlans();
+  return c.json(
+    rows.map((plan) => ({
+      id: plan.id,
+      slug: plan.slug,
+      nameEn: plan.nameEn,
+      namePt: plan.namePt,
+      descriptionEn: plan.descriptionEn,
+      descriptionPt: plan.descriptionPt,
+      priceCents: plan.priceCents,
+      currency: plan.currency,
+      frequency: plan.frequency,
+    })),
+  );
+});
+
+/**
+ * POST /api/payment/subscribe
+ * Creates an Easypay Checkout session for a subscription to the chosen plan
+ * (`planId`; the default plan when omitted).
+ * Returns a URL to the checkout page.
+ * In mock mode: activates subscription directly and returns success URL.
+ */
+paymentRoutes.post("/subscribe", authMiddleware, async (c) => {
+  const authUser = getUser(c);
+  const { planId } = subscribeSchema.parse(await c.req.json().catch(() => ({})));
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, authUser.id),
+  });
+  if (!user) throw AppError.notFound("User not found");
+
+  if (user.subscriptionStatus === "active") {
+    throw AppError.badRequest("You already have an active subscription");
+  }
+
+  const plan = await choosePlan(planId);
+
+  if (isEasypayMockMode()) {
+    console.log(`[MOCK PAYMENT] Activating ${plan.slug} subscription for user ${user.id}`);
+    await mockCreateSubscription(user.id, plan);
+    return c.json({
+      url: `${config.urls.frontend}/subscription/success?session_id=mock_session`,
+    });
+  }
+
+  return c.json({ url: await createCheckout(user, plan) });
+});
+
+/**
+ * POST /api/payment/update-payment-method
+ * For a member whose renewal failed (past due): starts a new checkout so they
+ * can pay with another card or method, on the plan they already hold. The
+ * new subscription replaces the failing one when Easypay confirms it.
+ * In mock mode: settles the past-due subscription directly and returns success URL.
+ */
+paymentRoutes.post("/update-payment-method", authMiddleware, async (c) => {
+  const authUser = getUser(c);
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, authUser.id),
+  });
+  if (!user) throw AppError.notFound("User not found");
+
+  if (user.subscriptionStatus !== "past_due") {
+    throw AppError.badRequest("Your subscription has no failed payment to settle", "NOT_PAST_DUE");
+  }
+
+  const sub = await findActiveSubscription(user.id);
+  const plan = (sub && (await planForSubscription(sub))) || (await choosePlan(undefined));
+
+  if (isEasypayMockMode()) {
+    console.log(`[MOCK PAYMENT] Settling past-due subscription for user ${user.id}`);
+    if (sub) {
+      await renewSubscription(sub, periodEndFor(plan.frequency), {
+        amountCents: plan.priceCents,
+        currency: plan.currency,
+        providerReference: "mock",
+      });
+    }
+    return c.json({
+      url: `${config.urls.frontend}/subscription/success?session_id=mock_session`,
+    });
+  }
+
+  return c.json({ url: await createCheckout(user, plan) });
+});
+
+/**
+ * POST /api/payment/redeem
+ * Redeems a voucher code: adds its months to the member's subscription and
+ * grants access to its events.
+ */
+paymentRoutes.post("/redeem", authMiddleware, async (c) => {
+  const authUser = getUser(c);
+  const { code } = redeemVoucherSchema.parse(await c.req.json());
+
+  const result = await redeemVoucher(authUser.id, code);
+  if (!result.ok) {
+    const [message, errorCode] = REDEEM_ERRORS[result.reason];
+    throw AppError.badRequest(message, errorCode);
+  }
+
+  return c.json({
+    months: result.months,
+    subscriptionExpiresAt: result.subscriptionExpiresAt,
+    eventIds: result.eventIds,
+  });
 });
 
 /**
@@ -220,11 +325,14 @@ paymentRoutes.get("/checkout/:id", async (c) => {
 /**
  * POST /api/payment/webhook
  * Receives Easypay generic notifications.
- * Verifies by querying Easypay API, then updates user subscription.
+ * Each notification is stored in the webhook inbox, then verified by querying
+ * Easypay and recorded in the subscription ledger. Redeliveries of a stored
+ * notification are acknowledged without being applied again; failures are
+ * retried with backoff by the inbox retry loop.
  * In mock mode: returns 200 no-op.
  */
 paymentRoutes.post("/webhook", async (c) => {
-  if (isMockMode) {
+  if (isEasypayMockMode()) {
     return c.json({ received: true, mock: true });
   }
 
@@ -233,57 +341,12 @@ paymentRoutes.post("/webhook", async (c) => {
 
   console.log(`[EASYPAY WEBHOOK] type=${type} status=${status} id=${id} key=${key}`);
 
-  if (!id) {
-    return c.json({ received: true, ignored: true });
+  const { entry, duplicate } = await storeNotification(body);
+  if (duplicate || !entry) {
+    return c.json({ received: true, duplicate: true });
   }
 
-  // Verify the notification by querying Easypay for subscription details
-  try {
-    const subscription = await easypayFetch(`/subscription/${id}`);
-
-    // Extract userId from the order key (format: "user-{id}-{timestamp}")
-    const orderKey = subscription.order?.key || key || "";
-    const userIdMatch = orderKey.match(/^user-(\d+)/);
-    if (!userIdMatch) {
-      console.error(`[EASYPAY WEBHOOK] Cannot extract userId from key: ${orderKey}`);
-      return c.json({ received: true, ignored: true });
-    }
-
-    const userId = parseInt(userIdMatch[1], 10);
-    const subStatus = subscription.status;
-
-    if (subStatus === "active") {
-      // Calculate expiry from frequency (1M = 1 month from now per cycle)
-      const expiresAt = new Date();
-      expiresAt.setMonth(expiresAt.getMonth() + 1);
-
-      await db
-        .update(users)
-        .set({
-          subscriptionStatus: "active",
-          subscriptionSource: "easypay",
-          easypaySubscriptionId: id,
-          subscriptionExpiresAt: expiresAt,
-          updatedAt: new Date(),
-        })
-        .where(eq(users.id, userId));
-
-      console.log(`[EASYPAY WEBHOOK] Subscription activated for user ${userId}`);
-    } else if (subStatus === "inactive" || subStatus === "deleted") {
-      await db
-        .update(users)
-        .set({
-          subscriptionStatus: "expired",
-          updatedAt: new Date(),
-        })
-        .where(eq(users.id, userId));
-
-      console.log(`[EASYPAY WEBHOOK] Subscription cancelled for user ${userId}`);
-    }
-  } catch (err) {
-    // If we can't verify, log but don't fail — Easypay will retry
-    console.error(`[EASYPAY WEBHOOK] Failed to verify notification ${id}:`, err);
-  }
+  await processInboxEntry(entry.id);
 
   return c.json({ received: true });
 });
@@ -301,7 +364,7 @@ paymentRoutes.post("/cancel", authMiddleware, async (c) => {
   });
   if (!user) throw AppError.notFound("User not found");
 
-  if (isMockMode) {
+  if (isEasypayMockMode()) {
     console.log(`[MOCK PAYMENT] Cancelling subscription for user ${user.id}`);
     await mockCancelSubscription(user.id);
     return c.json({ url: `${config.urls.frontend}/subscription/cancel` });
@@ -317,13 +380,10 @@ paymentRoutes.post("/cancel", authMiddleware, async (c) => {
     body: JSON.stringify({ status: "inactive" }),
   });
 
-  await db
-    .update(users)
-    .set({
-      subscriptionStatus: "expired",
-      updatedAt: new Date(),
-    })
-    .where(eq(users.id, user.id));
+  const sub = await findSubscriptionByProviderId(user.easypaySubscriptionId);
+  if (sub && (sub.status === "active" || sub.status === "past_due")) {
+    await cancelSubscription(sub, { note: "Cancelled by member" });
+  }
 
   return c.json({ url: `${config.urls.frontend}/subscription/cancel` });
 });
@@ -4,8 +4,9 @@ import { db } from "../db/index.ts";
 import { events } from "../db/schema/retreats.ts";
 import { users } from "../db/schema/users.ts";
 import { optionalAuthMiddleware, getOptionalUser } from "../middleware/auth.ts";
+import { viewAsMiddleware } from "../middleware/view-as.ts";
 import { AppError } from "../lib/errors.ts";
-import { filterAccessibleEvents, AUDIENCE_SLUGS } from "../services/access.ts";
+import { createAccessResolver, AUDIENCE_SLUGS } from "../services/access.ts";
 
 const searchRoutes = new Hono();
 
@@ -107,8 +108,10 @@ const searchEventWith = {
   sessions: {
     orderBy: (s: any, { asc }: any) => [asc(s.sessionNumber)],
     with: {
+      audience: true,
       tracks: {
         orderBy: (t: any, { asc }: any) => [asc(t.trackNumber)],
+        with: { audience: true },
       },
     },
   },
@@ -116,7 +119,7 @@ const searchEventWith = {
 
 // ─── Search endpoint ─────────────────────────────────────────────────────
 
-searchRoutes.use("/*", optionalAuthMiddleware);
+searchRoutes.use("/*", optionalAuthMiddleware, viewAsMiddleware);
 
 /**
  * GET /api/search?q=bodhicitta&lang=pt
@@ -159,31 +162,30 @@ searchRoutes.get("/", async (c) => {
 
   if (authUser && (authUser.role === "admin" || authUser.role === "superadmin")) {
     accessibleEvents = allEvents;
-  } else if (authUser) {
-    const fullUser = await db.query.users.findFirst({
-      where: eq(users.id, authUser.id),
-    });
-    if (fullUser) {
-      accessibleEvents = await filterAccessibleEvents(
-        {
-          id: fullUser.id,
-          role: fullUser.role,
-          subscriptionStatus: fullUser.subscriptionStatus,
-          subscriptionExpiresAt: fullUser.subscriptionExpiresAt,
-        },
-        allEvents,
-      );
-    } else {
-      // User record not found — treat as unauthenticated
-      accessibleEvents = allEvents.filter(
-        (e) => e.audience?.slug === AUDIENCE_SLUGS.PUBLIC,
-      );
-    }
   } else {
-    // Unauthenticated — public events only
-    accessibleEvents = allEvents.filter(
-      (e) => e.audience?.slug === AUDIENCE_SLUGS.PUBLIC,
+    const fullUser = authUser
+      ? await db.query.users.findFirst({
+          where: eq(users.id, authUser.id),
+        })
+      : null;
+    // Unauthenticated (or user record not found) — public events only
+    const resolver = createAccessResolver(
+      fullUser
+        ? {
+            id: fullUser.id,
+            role: fullUser.role,
+            subscriptionStatus: fullUser.subscriptionStatus,
+            subscriptionExpiresAt: fullUser.subscriptionExpiresAt,
+          }
+        : null,
+      allEvents,
     );
+    const eventList = fullUser
+      ? await resolver.filter(allEvents)
+      : allEvents.filter((e) => e.audience?.slug === AUDIENCE_SLUGS.PUBLIC);
+
+    // Tracks of sessions restricted by their own audience must not match or be listed
+    accessibleEvents = await Promise.all(eventList.map((e) => resolver.lockRestricted(e)));
   }
 
   // Score and build results
@@ -4,6 +4,13 @@ import { db } from "../db/index.ts";
 import { users } from "../db/schema/users.ts";
 import { AppError } from "../lib/errors.ts";
 import { authMiddleware, getUser } from "../middleware/auth.ts";
+import { deleteAccountSchema } from "../lib/schemas.ts";
+import {
+  exportPersonalData,
+  pendingDeletion,
+  requestAccountDeletion,
+  cancelAccountDeletion,
+} from "../services/personal-data.ts";
 
 const userRoutes = new Hono();
 
@@ -71,4 +78,62 @@ userRoutes.put("/profile", async (c) => {
   return c.json(user);
 });
 
+// ─── Personal data ───
+
+/**
+ * GET /api/users/me/export - Download everything we hold about the current user as JSON
+ */
+userRoutes.get("/me/export", async (c) => {
+  const authUser = getUser(c);
+  const now = new Date();
+
+  const data = await exportPersonalData(authUser.id, now);
+  if (!data) throw AppError.notFound("User not found");
+
+  return c.body(JSON.stringify(data, null, 2), 200, {
+    "Content-Type": "application/json; charset=utf-8",
+    "Content-Disposition": `attachment; filename="padmakara-data-${now.toISOString().slice(0, 10)}.json"`,
+  });
+});
+
+/**
+ * GET /api/users/me/deletion - The current user's pending account deletion, if any
+ */
+userRoutes.get("/me/deletion", async (c) => {
+  const authUser = getUser(c);
+  const deletion = await pendingDeletion(authUser.id);
+  return c.json({ pending: !!deletion, scheduledFor: deletion?.scheduledFor ?? null });
+});
+
+/**
+ * DELETE /api/users/me - Ask for the current user's account to be deleted
+ * Body: { confirmEmail } — must match the account's email
+ * The account is erased after the cooling-off period unless cancelled first.
+ */
+userRoutes.delete("/me", async (c) => {
+  const authUser = getUser(c);
+  const { confirmEmail } = deleteAccountSchema.parse(await c.req.json());
+
+  const result = await requestAccountDeletion(authUser.id, confirmEmail);
+  if (!result.ok) {
+    if (result.reason === "not_found") throw AppError.notFound("User not found");
+    if (result.reason === "staff_account") {
+      throw AppError.forbidden("Staff accounts cannot be deleted this way; ask an administrator");
+    }
+    throw AppError.badRequest("The email address does not match your account", "CONFIRMATION_MISMATCH");
+  }
+
+  return c.json({ pending: true, scheduledFor: result.deletion.scheduledFor }, 202);
+});
+
+/**
+ * POST /api/users/me/deletion/cancel - Call off a pending account deletion
+ */
+userRoutes.post("/me/deletion/cancel", async (c) => {
+  const authUser = getUser(c);
+  const cancelled = await cancelAccountDeletion(authUser.id);
+  if (!cancelled) throw AppError.notFound("No account deletion is pending");
+  return c.json({ pending: false, scheduledFor: null });
+});
+
 export { userRoutes };
@@ -0,0 +1,44 @@
+/**
+ * Run the Easypay simulator as a local server, so the backend can be driven
+ * through full subscription lifecycles without an Easypay account.
+ *
+ * Start it, then run the backend against it:
+ *   bun run easypay:simulator
+ *   EASYPAY_ACCOUNT_ID=sim EASYPAY_API_KEY=sim EASYPAY_API_BASE=http://localhost:4010/2.0 bun run dev
+ *
+ * Subscribe from the app, then move the subscription along:
+ *   curl localhost:4010/_simulator                                          # checkouts and subscriptions
+ *   curl -X POST localhost:4010/_simulator/checkouts/<id>/complete          # activate
+ *   curl -X POST localhost:4010/_simulator/subscriptions/<id>/renew         # or fail, deactivate, delete
+ *
+ * Environment:
+ *   EASYPAY_SIMULATOR_PORT      (default 4010)
+ *   EASYPAY_SIMULATOR_WEBHOOK   (default <BACKEND_URL>/api/payment/webhook)
+ */
+
+import { config } from "../config.ts";
+import { createEasypaySimulator } from "../services/easypay-simulator.ts";
+
+const port = parseInt(process.env.EASYPAY_SIMULATOR_PORT || "4010", 10);
+const webhookUrl =
+  process.env.EASYPAY_SIMULATOR_WEBHOOK || `${config.urls.backend}/api/payment/webhook`;
+
+const simulator = createEasypaySimulator({
+  notify: async (payload) => {
+    console.log(`[SIMULATOR] Notifying ${payload.type} ${payload.status} for ${payload.id}`);
+    const res = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(payload),
+    });
+    console.log(`[SIMULATOR] Webhook answered ${res.status}`);
+  },
+});
+
+console.log(`[SIMULATOR] Easypay simulator on http://localhost:${port}/2.0, notifying ${webhookUrl}`);
+
+// Served by Bun, like src/index.ts
+export default {
+  port,
+  fetch: simulator.app.fetch,
+};
@@ -0,0 +1,139 @@
+import { AUDIENCE_SLUGS, type AccessDeniedReason, type AccessResult } from "./access.ts";
+
+export type AccessLanguage = "en" | "pt";
+
+export type AccessAction =
+  | { type: "login"; label: string }
+  | { type: "subscribe"; label: string; path: string }
+  | { type: "join_group"; label: string; groupId: number; groupName: string }
+  | { type: "request_access"; label: string; path: string };
+
+export interface AccessExplanation {
+  eventId: number;
+  allowed: boolean;
+  reason: AccessDeniedReason | null;
+  message: string | null;
+  actions: AccessAction[];
+}
+
+interface EventForExplanation {
+  id: number;
+  audience?: { slug: string } | null;
+  eventRetreatGroups?: Array<{
+    retreatGroup?: { id: number; nameEn: string; namePt: string | null } | null;
+  }>;
+}
+
+const MESSAGES = {
+  en: {
+    AUTH_REQUIRED: "Please log in to open this recording.",
+    SUBSCRIPTION_REQUIRED: "This recording is available to subscribers.",
+    GROUP_MEMBERSHIP_REQUIRED: "This recording is reserved for members of the retreat group.",
+    EVENT_ATTENDANCE_REQUIRED: "This recording is reserved for those who attended the event.",
+    ACCESS_DENIED_ON_REQUEST: "This recording is available on request only.",
+    ACCESS_DENIED_INITIATION: "This recording is reserved for those who received the initiation.",
+    ACCESS_DENIED: "This recording is not available to your account.",
+    login: "Log in",
+    subscribe: "Subscribe",
+    joinGroup: (name: string) => `Ask to join ${name}`,
+    requestAccess: "Request access",
+  },
+  pt: {
+    AUTH_REQUIRED: "Por favor inicie sessão para abrir esta gravação.",
+    SUBSCRIPTION_REQUIRED: "Esta gravação está disponível para assinantes.",
+    GROUP_MEMBERSHIP_REQUIRED: "Esta gravação está reservada aos membros do grupo de retiro.",
+    EVENT_ATTENDANCE_REQUIRED: "Esta gravação está reservada a quem participou no evento.",
+    ACCESS_DENIED_ON_REQUEST: "Esta gravação está disponível apenas mediante pedido.",
+    ACCESS_DENIED_INITIATION: "Esta gravação está reservada a quem recebeu a iniciação.",
+    ACCESS_DENIED: "Esta gravação não está disponível para a sua conta.",
+    login: "Iniciar sessão",
+    subscribe: "Assinar",
+    joinGroup: (name: string) => `Pedir para aderir a ${name}`,
+    requestAccess: "Pedir acesso",
+  },
+} as const;
+
+/** The session or track the decision was made for, if narrower than the event. */
+interface ExplanationTarget {
+  sessionId?: number;
+  trackId?: number;
+}
+
+/**
+ * Turn an access decision into a user-facing explanation with next steps.
+ * The reason codes are those returned by checkEventAccess. With a `target`,
+ * the access request is filed for that session or track, whose audience
+ * `event` is expected to carry already.
+ */
+export function explainEventAccess(
+  event: EventForExplanation,
+  result: AccessResult,
+  language: AccessLanguage,
+  target: ExplanationTarget = {},
+): AccessExplanation {
+  if (result.allowed) {
+    return { eventId: event.id, allowed: true, reason: null, message: null, actions: [] };
+  }
+
+  const t = MESSAGES[language];
+  const audienceSlug = event.audience?.slug;
+  const actions: AccessAction[] = [];
+  let message: string;
+
+  const requestAccess: AccessAction = {
+    type: "request_access",
+    label: t.requestAccess,
+    path: target.trackId
+      ? `/api/events/${event.id}/request-access?trackId=${target.trackId}`
+      : target.sessionId
+        ? `/api/events/${event.id}/request-access?sessionId=${target.sessionId}`
+        : `/api/events/${event.id}/request-access`,
+  };
+
+  switch (result.reason) {
+    case "AUTH_REQUIRED":
+      message = t.AUTH_REQUIRED;
+      actions.push({ type: "login", label: t.login });
+      break;
+
+    case "SUBSCRIPTION_REQUIRED":
+      message = t.SUBSCRIPTION_REQUIRED;
+      actions.push({ type: "subscribe", label: t.subscribe, path: "/api/payment/subscribe" });
+      break;
+
+    case "GROUP_MEMBERSHIP_REQUIRED":
+      message = t.GROUP_MEMBERSHIP_REQUIRED;
+      for (const erg of event.eventRetreatGroups ?? []) {
+        const group = erg.retreatGroup;
+        if (!group) continue;
+        const groupName = (language === "pt" && group.namePt) || group.nameEn;
+        actions.push({
+          type: "join_group",
+          label: t.joinGroup(groupName),
+          groupId: group.id,
+          groupName,
+        });
+      }
+      break;
+
+    case "EVENT_ATTENDANCE_REQUIRED":
+      // Attendance is recorded by admins; it cannot be requested from the app
+      message = t.EVENT_ATTENDANCE_REQUIRED;
+      break;
+
+    case "ACCESS_DENIED":
+    default:
+      if (audienceSlug === AUDIENCE_SLUGS.ON_REQUEST) {
+        message = t.ACCESS_DENIED_ON_REQUEST;
+        actions.push(requestAccess);
+      } else if (audienceSlug === AUDIENCE_SLUGS.INITIATION) {
+        message = t.ACCESS_DENIED_INITIATION;
+        actions.push(requestAccess);
+      } else {
+        message = t.ACCESS_DENIED;
+      }
+      break;
+  }
+
+  return { eventId: event.id, allowed: false, reason: result.reason, message, actions };
+}
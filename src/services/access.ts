@@ -37,26 +37,118 @@ interface EventForAccess {
   audienceId?: number | null;
 }
 
+/** A session or track that may override its event's audience. */
+interface ContentForAccess {
+  audience?: { slug: string } | null;
+}
+
+/**
+ * The session and/or track being opened within an event. The most specific
+ * audience override wins: track, then session, then the event's own audience.
+ */
+export interface AccessScope {
+  session?: ContentForAccess | null;
+  track?: ContentForAccess | null;
+}
+
+interface SessionForAccess extends ContentForAccess {
+  tracks?: ContentForAccess[];
+}
+
+interface GrantWindow {
+  validFrom: Date | null;
+  validUntil: Date | null;
+}
+
+/** Past-due members keep access until their grace period (the expiry) ends. */
 function hasActiveSubscription(user: UserForAccess): boolean {
-  if (user.subscriptionStatus !== "active") return false;
+  if (user.subscriptionStatus !== "active" && user.subscriptionStatus !== "past_due") return false;
   if (user.subscriptionExpiresAt && user.subscriptionExpiresAt < new Date()) return false;
   return true;
 }
 
+/** Substitute the overriding audience, if any, keeping the event for grants and group links. */
+export function scopeEvent(event: EventForAccess, scope?: AccessScope): EventForAccess {
+  const override = scope?.track?.audience ?? scope?.session?.audience;
+  return override ? { ...event, audience: override } : event;
+}
+
 /**
- * Check if a user can access a specific event based on audience rules.
- *
- * Access model:
- * - Admin/superadmin: always allowed
- * - Public events: always allowed
- * - Subscriber events: active subscription
- * - Group member events: active subscription + user in event's group
- * - Event participant events: active subscription + user attended event
- * - On request / initiation: admin-granted via userEventAttendance (subscription optional)
+ * Whether an event access grant is in effect at the given time.
+ * A null validFrom/validUntil leaves that side of the window open.
  */
-export async function checkEventAccess(
+export function isGrantActive(grant: GrantWindow, now: Date = new Date()): boolean {
+  if (grant.validFrom && grant.validFrom > now) return false;
+  if (grant.validUntil && grant.validUntil <= now) return false;
+  return true;
+}
+
+/**
+ * Whether a retreat group membership counts for access. Only confirmed
+ * members qualify — pending, lapsed and removed memberships do not.
+ */
+export function isMembershipActive(membership: { status: string }): boolean {
+  return membership.status === "confirmed";
+}
+
+/**
+ * Facts the audience rules depend on. checkEventAccess answers them with
+ * per-event queries; createAccessResolver preloads them for a whole list.
+ */
+interface AccessLookup {
+  hasGrant(eventId: number): Promise<boolean>;
+  eventGroupIds(eventId: number): Promise<number[]>;
+  isMemberOfAny(groupIds: number[]): Promise<boolean>;
+}
+
+/**
+ * Lookup backed by one query per question — used for single-event checks.
+ */
+function queryLookup(userId: number): AccessLookup {
+  return {
+    async hasGrant(eventId) {
+      const grant = await db.query.userEventAttendance.findFirst({
+        where: and(
+          eq(userEventAttendance.userId, userId),
+          eq(userEventAttendance.eventId, eventId),
+        ),
+      });
+      if (!grant) return false;
+      return isGrantActive({
+        validFrom: grant.validFrom ?? null,
+        validUntil: grant.validUntil ?? null,
+      });
+    },
+
+    async eventGroupIds(eventId) {
+      const eventGroups = await db
+        .select({ retreatGroupId: eventRetreatGroups.retreatGroupId })
+        .from(eventRetreatGroups)
+        .where(eq(eventRetreatGroups.eventId, eventId));
+      return eventGroups.map((g) => g.retreatGroupId);
+    },
+
+    async isMemberOfAny(groupIds) {
+      const membership = await db.query.userGroupMemberships.findFirst({
+        where: and(
+          eq(userGroupMemberships.userId, userId),
+          inArray(userGroupMemberships.retreatGroupId, groupIds),
+          eq(userGroupMemberships.status, "confirmed"),
+        ),
+      });
+      return !!membership;
+    },
+  };
+}
+
+/**
+ * Apply the audience rules to one event. The only source of truth for access
+ * decisions — both checkEventAccess and the list resolver go through here.
+ */
+async function evaluateAccess(
   user: UserForAccess | null,
   event: EventForAccess,
+  lookup: () => AccessLookup,
 ): Promise<AccessResult> {
   const audienceSlug = event.audience?.slug;
 
@@ -81,13 +173,7 @@ export async function checkEventAccess(
     audienceSlug === AUDIENCE_SLUGS.ON_REQUEST ||
     audienceSlug === AUDIENCE_SLUGS.INITIATION
   ) {
-    const attendance = await db.query.userEventAttendance.findFirst({
-      where: and(
-        eq(userEventAttendance.userId, user.id),
-        eq(userEventAttendance.eventId, event.id),
-      ),
-    });
-    if (attendance) return { allowed: true };
+    if (await lookup().hasGrant(event.id)) return { allowed: true };
     return { allowed: false, reason: "ACCESS_DENIED" };
   }
 
@@ -106,42 +192,18 @@ export async function checkEventAccess(
   // should have access to those recordings even without formal group membership.
   if (audienceSlug === AUDIENCE_SLUGS.GROUP_MEMBERS) {
     // Check event attendance first (covers cross-group participants)
-    const attendance = await db.query.userEventAttendance.findFirst({
-      where: and(
-        eq(userEventAttendance.userId, user.id),
-        eq(userEventAttendance.eventId, event.id),
-      ),
-    });
-    if (attendance) return { allowed: true };
-
-    const eventGroups = await db
-      .select({ retreatGroupId: eventRetreatGroups.retreatGroupId })
-      .from(eventRetreatGroups)
-      .where(eq(eventRetreatGroups.eventId, event.id));
+    if (await lookup().hasGrant(event.id)) return { allowed: true };
 
-    if (eventGroups.length === 0) return { allowed: true }; // No groups linked = open to subscribers
+    const eventGroupIds = await lookup().eventGroupIds(event.id);
+    if (eventGroupIds.length === 0) return { allowed: true }; // No groups linked = open to subscribers
 
-    const eventGroupIds = eventGroups.map((g) => g.retreatGroupId);
-    const membership = await db.query.userGroupMemberships.findFirst({
-      where: and(
-        eq(userGroupMemberships.userId, user.id),
-        inArray(userGroupMemberships.retreatGroupId, eventGroupIds),
-      ),
-    });
-
-    if (membership) return { allowed: true };
+    if (await lookup().isMemberOfAny(eventGroupIds)) return { allowed: true };
     return { allowed: false, reason: "GROUP_MEMBERSHIP_REQUIRED" };
   }
 
   // Event participant events: subscription + user attended this event
   if (audienceSlug === AUDIENCE_SLUGS.EVENT_PARTICIPANTS) {
-    const attendance = await db.query.userEventAttendance.findFirst({
-      where: and(
-        eq(userEventAttendance.userId, user.id),
-        eq(userEventAttendance.eventId, event.id),
-      ),
-    });
-    if (attendance) return { allowed: true };
+    if (await lookup().hasGrant(event.id)) return { allowed: true };
     return { allowed: false, reason: "EVENT_ATTENDANCE_REQUIRED" };
   }
 
@@ -149,6 +211,150 @@ export async function checkEventAccess(
   return { allowed: false, reason: "ACCESS_DENIED" };
 }
 
+/**
+ * Check if a user can access a specific event based on audience rules.
+ *
+ * Access model:
+ * - Admin/superadmin: always allowed
+ * - Public events: always allowed
+ * - Subscriber events: active subscription
+ * - Group member events: active subscription + user in event's group
+ * - Event participant events: active subscription + user attended event
+ * - On request / initiation: admin-granted via userEventAttendance (subscription optional)
+ *
+ * userEventAttendance rows only count while their validFrom/validUntil window is open.
+ * Pass a scope to check a session or track that overrides the event's audience.
+ */
+export async function checkEventAccess(
+  user: UserForAccess | null,
+  event: EventForAccess,
+  scope?: AccessScope,
+): Promise<AccessResult> {
+  return evaluateAccess(user, scopeEvent(event, scope), () => queryLookup(user!.id));
+}
+
+export interface AccessResolver {
+  check(event: EventForAccess, scope?: AccessScope): Promise<AccessResult>;
+  filter<T extends EventForAccess>(eventList: T[]): Promise<T[]>;
+  lockRestricted<T extends EventForAccess & { sessions?: SessionForAccess[] }>(
+    event: T,
+  ): Promise<T>;
+}
+
+/**
+ * Build an access resolver for one user over a list of events.
+ *
+ * Gives the same answers as checkEventAccess, but loads the user's grants,
+ * group memberships and the events' group links at most once each (and only
+ * when some event actually needs them), then decides in memory.
+ */
+export function createAccessResolver(
+  user: UserForAccess | null,
+  eventList: EventForAccess[] = [],
+): AccessResolver {
+  let grantsPromise: Promise<Map<number, GrantWindow>> | null = null;
+  let membershipsPromise: Promise<Set<number>> | null = null;
+  const eventGroupsCache = new Map<number, number[]>();
+  let eventGroupsPreloaded: Promise<void> | null = null;
+
+  const loadGrants = () => {
+    grantsPromise ??= db.query.userEventAttendance
+      .findMany({ where: eq(userEventAttendance.userId, user!.id) })
+      .then(
+        (rows) =>
+          new Map(
+            rows.map((r) => [
+              r.eventId,
+              { validFrom: r.validFrom ?? null, validUntil: r.validUntil ?? null },
+            ]),
+          ),
+      );
+    return grantsPromise;
+  };
+
+  const loadMemberships = () => {
+    membershipsPromise ??= db.query.userGroupMemberships
+      .findMany({ where: eq(userGroupMemberships.userId, user!.id) })
+      .then((rows) => new Set(rows.filter(isMembershipActive).map((r) => r.retreatGroupId)));
+    return membershipsPromise;
+  };
+
+  // Group links are only consulted for group-member events, so preload just those
+  const loadEventGroups = async (ids: number[]) => {
+    const missing = ids.filter((id) => !eventGroupsCache.has(id));
+    if (missing.length === 0) return;
+    const rows = await db
+      .select({
+        eventId: eventRetreatGroups.eventId,
+        retreatGroupId: eventRetreatGroups.retreatGroupId,
+      })
+      .from(eventRetreatGroups)
+      .where(inArray(eventRetreatGroups.eventId, missing));
+    for (const id of missing) eventGroupsCache.set(id, []);
+    for (const row of rows) eventGroupsCache.get(row.eventId)!.push(row.retreatGroupId);
+  };
+
+  const lookup: AccessLookup = {
+    async hasGrant(eventId) {
+      const grant = (await loadGrants()).get(eventId);
+      return !!grant && isGrantActive(grant);
+    },
+
+    async eventGroupIds(eventId) {
+      eventGroupsPreloaded ??= loadEventGroups(
+        eventList
+          .filter((e) => e.audience?.slug === AUDIENCE_SLUGS.GROUP_MEMBERS)
+          .map((e) => e.id),
+      );
+      await eventGroupsPreloaded;
+      await loadEventGroups([eventId]);
+      return eventGroupsCache.get(eventId) ?? [];
+    },
+
+    async isMemberOfAny(groupIds) {
+      const memberships = await loadMemberships();
+      return groupIds.some((id) => memberships.has(id));
+    },
+  };
+
+  const check = (event: EventForAccess, scope?: AccessScope) =>
+    evaluateAccess(user, scopeEvent(event, scope), () => lookup);
+
+  return {
+    check,
+    async filter(events) {
+      const results = await Promise.all(events.map((e) => check(e)));
+      return events.filter((_, i) => results[i]!.allowed);
+    },
+
+    // Only overridden content is re-checked: the rest shares the event's
+    // decision, which the caller has already enforced.
+    async lockRestricted(event) {
+      if (!event.sessions) return event;
+      const sessionList = await Promise.all(
+        event.sessions.map(async (session) => {
+          if (session.audience && !(await check(event, { session })).allowed) {
+            return { ...session, locked: true, tracks: [] };
+          }
+          const trackResults = await Promise.all(
+            (session.tracks ?? []).map(
+              async (track) => !track.audience || (await check(event, { session, track })).allowed,
+            ),
+          );
+          return {
+            ...session,
+            locked: false,
+            ...(session.tracks && {
+              tracks: session.tracks.filter((_, i) => trackResults[i]),
+            }),
+          };
+        }),
+      );
+      return { ...event, sessions: sessionList };
+    },
+  };
+}
+
 /**
  * Check which events from a list the user can access.
  * Returns the subset of events the user is allowed to see.
@@ -157,11 +363,5 @@ export async function filterAccessibleEvents<T extends EventForAccess>(
   user: UserForAccess | null,
   eventList: T[],
 ): Promise<T[]> {
-  const results = await Promise.all(
-    eventList.map(async (event) => {
-      const result = await checkEventAccess(user, event);
-      return result.allowed ? event : null;
-    }),
-  );
-  return results.filter((e): e is T => e !== null);
+  return createAccessResolver(user, eventList).filter(eventList);
 }
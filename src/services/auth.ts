@@ -3,6 +3,8 @@ import bcrypt from "bcryptjs";
 import { config } from "../config.ts";
 
 const JWT_SECRET = new TextEncoder().encode(config.jwt.secret);
+// A separate key, so a login challenge can never pass as an access token
+const TWO_FACTOR_SECRET = new TextEncoder().encode(`${config.jwt.secret}:two-factor`);
 
 function parseExpiry(expiry: string): number {
   const match = expiry.match(/^(\d+)(s|m|h|d)$/);
@@ -33,10 +35,19 @@ export interface TokenPayload {
   sub: number;
   email: string;
   role: string;
+  /** The login passed a second factor (TOTP or backup code). */
+  mfa?: boolean;
+  /** The user's token version when issued; tokens from older versions are revoked. */
+  ver?: number;
 }
 
 export async function createAccessToken(payload: TokenPayload): Promise<string> {
-  return await new jose.SignJWT({ email: payload.email, role: payload.role })
+  return await new jose.SignJWT({
+    email: payload.email,
+    role: payload.role,
+    ver: payload.ver ?? 0,
+    ...(payload.mfa ? { mfa: true } : {}),
+  })
     .setProtectedHeader({ alg: "HS256" })
     .setSubject(String(payload.sub))
     .setIssuedAt()
@@ -45,7 +56,11 @@ export async function createAccessToken(payload: TokenPayload): Promise<string>
 }
 
 export async function createRefreshToken(payload: TokenPayload): Promise<string> {
-  return await new jose.SignJWT({ type: "refresh" })
+  return await new jose.SignJWT({
+    type: "refresh",
+    ver: payload.ver ?? 0,
+    ...(payload.mfa ? { mfa: true } : {}),
+  })
     .setProtectedHeader({ alg: "HS256" })
     .setSubject(String(payload.sub))
     .setIssuedAt()
@@ -53,9 +68,34 @@ export async function createRefreshToken(payload: TokenPayload): Promise<string>
     .sign(JWT_SECRET);
 }
 
-export async function verifyToken(token: string): Promise<jose.JWTPayload & { email?: string; role?: string }> {
+export async function verifyToken(
+  token: string,
+): Promise<jose.JWTPayload & { email?: string; role?: string; mfa?: boolean; ver?: number }> {
   const { payload } = await jose.jwtVerify(token, JWT_SECRET);
-  return payload as jose.JWTPayload & { email?: string; role?: string };
+  return payload as jose.JWTPayload & { email?: string; role?: string; mfa?: boolean; ver?: number };
+}
+
+/**
+ * Short-lived token handed out after a correct password when the account
+ * needs a second factor; it only lets the holder finish that login.
+ */
+export async function createTwoFactorToken(userId: number): Promise<string> {
+  return await new jose.SignJWT({ type: "two_factor" })
+    .setProtectedHeader({ alg: "HS256" })
+    .setSubject(String(userId))
+    .setIssuedAt()
+    .setExpirationTime("10m")
+    .sign(TWO_FACTOR_SECRET);
+}
+
+/** The user id of a login challenge, or null if it is invalid or expired. */
+export async function verifyTwoFactorToken(token: string): Promise<number | null> {
+  try {
+    const { payload } = await jose.jwtVerify(token, TWO_FACTOR_SECRET);
+    return payload.type === "two_factor" ? parseInt(payload.sub!, 10) : null;
+  } catch {
+    return null;
+  }
 }
 
 export function generateMagicLinkToken(): string {
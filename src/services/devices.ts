@@ -0,0 +1,99 @@
+import { eq, and, asc } from "drizzle-orm";
+import { db } from "../db/index.ts";
+import { deviceActivations } from "../db/schema/auth.ts";
+import { config } from "../config.ts";
+import { revokeDeviceTokens } from "./refresh-tokens.ts";
+
+export type Device = typeof deviceActivations.$inferSelect;
+
+export type DeviceLimitPolicy = "evict_lru" | "ask";
+
+export type DeviceSlotResult =
+  | { ok: true; evicted: Device[] }
+  | { ok: false; reason: "limit_reached"; limit: number; devices: Device[] }
+  | { ok: false; reason: "invalid_replacement" };
+
+/** Parse DEVICE_LIMIT_BY_ROLE ("user=2,admin=0") into a limit per role. */
+export function parseRoleLimits(spec: string): Record<string, number> {
+  const limits: Record<string, number> = {};
+  for (const pair of spec.split(",")) {
+    if (!pair.trim()) continue;
+    const match = /^\s*([\w-]+)\s*=\s*(\d+)\s*$/.exec(pair);
+    if (!match) throw new Error(`Invalid device limit: ${pair}`);
+    limits[match[1]!] = parseInt(match[2]!, 10);
+  }
+  return limits;
+}
+
+/** How many devices an account with `role` may have active at once; 0 means no limit. */
+export function deviceLimitFor(role: string): number {
+  return parseRoleLimits(config.devices.limitByRole)[role] ?? config.devices.limit;
+}
+
+export function deviceLimitPolicy(): DeviceLimitPolicy {
+  return config.devices.policy === "ask" ? "ask" : "evict_lru";
+}
+
+/** Deactivate a device and revoke the refresh tokens issued to it. */
+export async function deactivateDevice(deviceId: number, now: Date = new Date()): Promise<void> {
+  await db
+    .update(deviceActivations)
+    .set({ isActive: false })
+    .where(eq(deviceActivations.id, deviceId));
+  await revokeDeviceTokens(deviceId, now);
+}
+
+/**
+ * Make room for activating `fingerprint` on a member's account. A device
+ * that is already active for them never counts against the limit. When the
+ * other active devices fill it, the one named by `replaceDeviceId` is
+ * deactivated; without one, the least recently used are (evict_lru) or the
+ * caller is told to ask the member which to replace (ask).
+ */
+export async function claimDeviceSlot(
+  user: { id: number; role: string },
+  fingerprint: string,
+  replaceDeviceId?: number,
+  now: Date = new Date(),
+): Promise<DeviceSlotResult> {
+  const limit = deviceLimitFor(user.role);
+  if (limit === 0) return { ok: true, evicted: [] };
+
+  const active = await db.query.deviceActivations.findMany({
+    where: and(eq(deviceActivations.userId, user.id), eq(deviceActivations.isActive, true)),
+    orderBy: [asc(deviceActivations.lastUsed)],
+  });
+  const others = active.filter((d) => d.deviceFingerprint !== fingerprint);
+  const excess = others.length - limit + 1;
+  if (excess <= 0) return { ok: true, evicted: [] };
+
+  let evicted: Device[];
+  if (replaceDeviceId !== undefined) {
+    const chosen = others.find((d) => d.id === replaceDeviceId);
+    if (!chosen) return { ok: false, reason: "invalid_replacement" };
+    // If the limit was lowered, the oldest of the rest make up the difference
+    evicted = [chosen, ...others.filter((d) => d !== chosen).slice(0, excess - 1)];
+  } else if (deviceLimitPolicy() === "ask") {
+    return { ok: false, reason: "limit_reached", limit, devices: others };
+  } else {
+    evicted = others.slice(0, excess);
+  }
+
+  for (const device of evicted) {
+    await deactivateDevice(device.id, now);
+  }
+  return { ok: true, evicted };
+}
+
+/** A device in the format the mobile app expects. */
+export function formatDevice(d: Device) {
+  return {
+    id: d.id,
+    device_fingerprint: d.deviceFingerprint,
+    device_name: d.deviceName,
+    device_type: d.deviceType,
+    activated_at: d.activatedAt.toISOString(),
+    last_used: d.lastUsed.toISOString(),
+    is_active: d.isActive,
+  };
+}
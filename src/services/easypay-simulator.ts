@@ -0,0 +1,201 @@
+import { Hono } from "hono";
+
+/**
+ * A local stand-in for the parts of the Easypay 2.0 API we use — checkout
+ * creation, subscription lookup and deactivation — plus drivers that move a
+ * subscription through its lifecycle and send the generic notifications
+ * Easypay would. Point EASYPAY_API_BASE at it (see scripts/easypay-simulator.ts)
+ * or route fetch to `app` in tests.
+ */
+
+export type SimulatedSubscriptionStatus = "active" | "inactive" | "deleted";
+
+export interface SimulatedSubscription {
+  id: string;
+  status: SimulatedSubscriptionStatus;
+  value: number;
+  currency: string;
+  frequency: string;
+  order: { key: string; items?: unknown[] };
+  customer: Record<string, unknown>;
+  captures: { id: string; status: "success" | "failed"; date: string }[];
+  created_at: string;
+}
+
+export interface SimulatedCheckout {
+  id: string;
+  session: string;
+  status: "pending" | "completed";
+  request: any;
+  subscriptionId: string | null;
+}
+
+export interface EasypaySimulatorOptions {
+  /** Deliver a generic notification to our webhook. */
+  notify: (payload: Record<string, unknown>) => Promise<void>;
+}
+
+function easypayDate(): string {
+  return new Date().toISOString().replace("T", " ").replace("Z", "");
+}
+
+function errorBody(message: string) {
+  return { status: "error", message: [message] };
+}
+
+export function createEasypaySimulator(options: EasypaySimulatorOptions) {
+  const checkouts = new Map<string, SimulatedCheckout>();
+  const subscriptions = new Map<string, SimulatedSubscription>();
+
+  async function notify(sub: SimulatedSubscription, type: string, status: "success" | "failed") {
+    await options.notify({
+      id: sub.id,
+      key: sub.order.key,
+      type,
+      status,
+      messages: [status === "success" ? "Your request was successfully completed" : "Payment failed"],
+      date: easypayDate(),
+    });
+  }
+
+  function findSubscription(id: string): SimulatedSubscription {
+    const sub = subscriptions.get(id);
+    if (!sub) throw new Error(`Unknown simulated subscription ${id}`);
+    return sub;
+  }
+
+  // ─── Lifecycle drivers ───
+
+  /** The member finished the checkout: the subscription exists and its first charge is captured. */
+  async function completeCheckout(checkoutId: string): Promise<SimulatedSubscription> {
+    const checkout = checkouts.get(checkoutId);
+    if (!checkout) throw new Error(`Unknown simulated checkout ${checkoutId}`);
+    if (checkout.status === "completed") return findSubscription(checkout.subscriptionId!);
+
+    const { payment, order, customer } = checkout.request;
+    const sub: SimulatedSubscription = {
+      id: crypto.randomUUID(),
+      status: "active",
+      value: order?.value ?? 0,
+      currency: payment?.currency ?? "EUR",
+      frequency: payment?.frequency ?? "1M",
+      order: { key: order?.key ?? "", items: order?.items },
+      customer: customer ?? {},
+      captures: [{ id: crypto.randomUUID(), status: "success", date: easypayDate() }],
+      created_at: easypayDate(),
+    };
+    subscriptions.set(sub.id, sub);
+    checkout.status = "completed";
+    checkout.subscriptionId = sub.id;
+    await notify(sub, "subscription_create", "success");
+    return sub;
+  }
+
+  /** A monthly charge succeeded. */
+  async function renew(subscriptionId: string): Promise<void> {
+    const sub = findSubscription(subscriptionId);
+    sub.status = "active";
+    sub.captures.push({ id: crypto.randomUUID(), status: "success", date: easypayDate() });
+    await notify(sub, "subscription_capture", "success");
+  }
+
+  /** A monthly charge failed; the subscription stays active while Easypay retries. */
+  async function failCharge(subscriptionId: string): Promise<void> {
+    const sub = findSubscription(subscriptionId);
+    sub.captures.push({ id: crypto.randomUUID(), status: "failed", date: easypayDate() });
+    await notify(sub, "subscription_capture", "failed");
+  }
+
+  /** Easypay stopped the subscription (retries exhausted, or cancelled in the backoffice). */
+  async function deactivate(subscriptionId: string): Promise<void> {
+    const sub = findSubscription(subscriptionId);
+    sub.status = "inactive";
+    await notify(sub, "subscription_update", "success");
+  }
+
+  /** The subscription was deleted. */
+  async function remove(subscriptionId: string): Promise<void> {
+    const sub = findSubscription(subscriptionId);
+    sub.status = "deleted";
+    await notify(sub, "subscription_delete", "success");
+  }
+
+  // ─── Easypay API ───
+
+  const app = new Hono();
+
+  app.use("/2.0/*", async (c, next) => {
+    if (!c.req.header("AccountId") || !c.req.header("ApiKey")) {
+      return c.json(errorBody("Missing AccountId or ApiKey"), 401);
+    }
+    await next();
+  });
+
+  app.post("/2.0/checkout", async (c) => {
+    const body = await c.req.json().catch(() => null);
+    if (!body?.type?.includes("subscription") || !body.payment?.frequency || !body.order?.key) {
+      return c.json(errorBody("Invalid checkout request"), 400);
+    }
+    const checkout: SimulatedCheckout = {
+      id: crypto.randomUUID(),
+      session: crypto.randomUUID(),
+      status: "pending",
+      request: body,
+      subscriptionId: null,
+    };
+    checkouts.set(checkout.id, checkout);
+    return c.json({ id: checkout.id, session: checkout.session, config: null }, 201);
+  });
+
+  app.get("/2.0/subscription/:id", (c) => {
+    const sub = subscriptions.get(c.req.param("id"));
+    if (!sub) return c.json(errorBody("Subscription not found"), 404);
+    return c.json(sub);
+  });
+
+  app.patch("/2.0/subscription/:id", async (c) => {
+    const sub = subscriptions.get(c.req.param("id"));
+    if (!sub) return c.json(errorBody("Subscription not found"), 404);
+    const body = await c.req.json().catch(() => ({}));
+    if (body.status === "active" || body.status === "inactive") sub.status = body.status;
+    return c.json({ status: "ok", id: sub.id });
+  });
+
+  // ─── Simulator controls ───
+
+  app.get("/_simulator", (c) =>
+    c.json({ checkouts: [...checkouts.values()], subscriptions: [...subscriptions.values()] }),
+  );
+
+  app.post("/_simulator/checkouts/:id/complete", async (c) =>
+    c.json(await completeCheckout(c.req.param("id"))),
+  );
+
+  const drivers: Record<string, (id: string) => Promise<void>> = {
+    renew,
+    fail: failCharge,
+    deactivate,
+    delete: remove,
+  };
+
+  app.post("/_simulator/subscriptions/:id/:action", async (c) => {
+    const driver = drivers[c.req.param("action")];
+    if (!driver) return c.json(errorBody("Unknown action"), 404);
+    if (!subscriptions.has(c.req.param("id"))) return c.json(errorBody("Subscription not found"), 404);
+    await driver(c.req.param("id"));
+    return c.json(subscriptions.get(c.req.param("id")));
+  });
+
+  return {
+    app,
+    checkouts,
+    subscriptions,
+    completeCheckout,
+    renew,
+    failCharge,
+    deactivate,
+    remove,
+  };
+}
+
+export type EasypaySimulator = ReturnType<typeof createEasypaySimulator>;
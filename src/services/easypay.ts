@@ -0,0 +1,201 @@
+import { config } from "../config.ts";
+import { AppError } from "../lib/errors.ts";
+import {
+  activateSubscription,
+  renewSubscription,
+  cancelSubscription,
+  recordFailedCharge,
+  markPastDue,
+  hasLedgerReference,
+  findSubscriptionByProviderId,
+  findPastDueSubscriptions,
+} from "./subscriptions.ts";
+import { findPlan, findDefaultPlan, planForSubscription, periodEndFor } from "./plans.ts";
+
+export const EASYPAY_CHECKOUT_SDK = "https://cdn.easypay.pt/checkout/2.9.0/";
+
+/** The Easypay API in use: the configured override (the simulator), else test or production. */
+export function easypayApiBase(): string {
+  if (config.easypay.apiBase) return config.easypay.apiBase;
+  return config.easypay.testing
+    ? "https://api.test.easypay.pt/2.0"
+    : "https://api.prod.easypay.pt/2.0";
+}
+
+/**
+ * Without an account id, subscribe/cancel bypass Easypay entirely. Read on
+ * every request so tests can switch between mock mode and the simulator.
+ */
+export function isEasypayMockMode(): boolean {
+  return !config.easypay.accountId;
+}
+
+if (isEasypayMockMode()) {
+  console.log(
+    "[PAYMENT] Mock mode enabled — no EASYPAY_ACCOUNT_ID configured. Subscribe/cancel will work without Easypay.",
+  );
+}
+
+// ─── Plans ───
+
+/** Billing frequency when no plan can be found; Easypay subscriptions predating plans were monthly. */
+const FALLBACK_FREQUENCY = "1M";
+
+/** Order key for a checkout, parsed back by the notification handler. */
+export function orderKeyFor(userId: number, planId: number): string {
+  return `user-${userId}-plan-${planId}-${Date.now()}`;
+}
+
+// ─── API ───
+
+export async function easypayFetch(path: string, options: RequestInit = {}) {
+  const res = await fetch(`${easypayApiBase()}${path}`, {
+    ...options,
+    headers: {
+      "Content-Type": "application/json",
+      AccountId: config.easypay.accountId,
+      ApiKey: config.easypay.apiKey,
+      ...(options.headers || {}),
+    },
+  });
+  if (!res.ok) {
+    const body = await res.text().catch(() => "");
+    console.error(`Easypay API error ${res.status}: ${body}`);
+    throw new AppError(502, `Easypay API error: ${res.status}`, "EASYPAY_ERROR");
+  }
+  return res.json();
+}
+
+// ─── Notifications ───
+
+/**
+ * A member who paid again with a new payment method now has a new Easypay
+ * subscription: close the past-due ones it replaces, and stop Easypay from
+ * retrying their charges.
+ */
+async function replacePastDueSubscriptions(userId: number, newProviderId: string) {
+  const stale = await findPastDueSubscriptions(userId);
+  for (const sub of stale) {
+    if (sub.providerSubscriptionId === newProviderId) continue;
+    if (sub.providerSubscriptionId) {
+      await easypayFetch(`/subscription/${sub.providerSubscriptionId}`, {
+        method: "PATCH",
+        body: JSON.stringify({ status: "inactive" }),
+      }).catch((err) => {
+        console.error(`[EASYPAY WEBHOOK] Could not deactivate ${sub.providerSubscriptionId}:`, err);
+      });
+    }
+    await cancelSubscription(sub, { note: "Replaced by a new payment method" });
+  }
+}
+
+/** The fields we use from an Easypay generic notification. */
+export interface EasypayNotification {
+  id?: string;
+  key?: string;
+  type?: string;
+  status?: string;
+  date?: string;
+}
+
+/** The fields we use from Easypay's GET /subscription/:id. */
+export interface EasypaySubscription {
+  id: string;
+  status: string; // active | inactive | deleted
+  value?: number;
+  order?: { key?: string };
+  captures?: { id: string; status: string; date: string }[];
+}
+
+/** The id of the subscription's latest successful charge, if Easypay lists one. */
+function latestCaptureId(subscription: EasypaySubscription): string | null {
+  const captures = (subscription.captures ?? []).filter((capture) => capture.status === "success");
+  return captures[captures.length - 1]?.id ?? null;
+}
+
+/**
+ * Apply one Easypay generic notification: verify it by querying Easypay for
+ * the subscription, then record the change in the subscription ledger.
+ * A known subscription is renewed only by a successful capture whose
+ * transaction the ledger does not hold yet, so a repeated notification never
+ * extends the period twice. Returns "ignored" for notifications that carry
+ * nothing to act on; throws when Easypay cannot be reached, or does not list
+ * the capture yet, so the caller can retry.
+ */
+export async function handleEasypayNotification(
+  notification: EasypayNotification,
+): Promise<"processed" | "ignored"> {
+  const { id, key, type, status } = notification;
+  if (!id) return "ignored";
+
+  const subscription = (await easypayFetch(`/subscription/${id}`)) as EasypaySubscription;
+
+  // Extract userId and plan from the order key ("user-{id}-plan-{planId}-{timestamp}",
+  // or "user-{id}-{timestamp}" for checkouts from before plans)
+  const orderKey = subscription.order?.key || key || "";
+  const keyMatch = orderKey.match(/^user-(\d+)(?:-plan-(\d+))?/);
+  if (!keyMatch) {
+    console.error(`[EASYPAY WEBHOOK] Cannot extract userId from key: ${orderKey}`);
+    return "ignored";
+  }
+
+  const userId = parseInt(keyMatch[1]!, 10);
+  const subStatus = subscription.status;
+  const existing = await findSubscriptionByProviderId(id);
+  const captureId = latestCaptureId(subscription);
+  const details = {
+    amountCents: typeof subscription.value === "number" ? Math.round(subscription.value * 100) : null,
+    providerReference: key || id,
+  };
+  const paid = { ...details, providerReference: captureId ?? details.providerReference };
+
+  if (status === "failed") {
+    // A capture Easypay could not collect — it retries on its own schedule,
+    // while the member keeps access for the grace period and is asked to pay
+    if (existing) {
+      await recordFailedCharge(existing, { ...details, note: `Notification type ${type}` });
+      await markPastDue(existing, { providerReference: key || id, note: "Renewal charge failed" });
+    }
+    console.log(`[EASYPAY WEBHOOK] Charge failed for user ${userId}`);
+  } else if (subStatus === "active") {
+    // Each successful cycle covers one billing period of the plan from now
+    if (existing) {
+      if (type !== "subscription_capture" || status !== "success") return "ignored";
+      // Without the capture id a repeat cannot be told apart from a new charge,
+      // so wait for Easypay to list it rather than risk renewing twice
+      if (!captureId) throw new Error(`Easypay lists no successful capture for subscription ${id} yet`);
+      if (await hasLedgerReference(existing.id, captureId)) return "ignored";
+      const plan = await planForSubscription(existing);
+      await renewSubscription(existing, periodEndFor(plan?.frequency ?? FALLBACK_FREQUENCY), paid);
+      console.log(`[EASYPAY WEBHOOK] Subscription renewed for user ${userId}`);
+    } else {
+      // The first charge is recorded with the activation, so its capture does not renew
+      const plan = keyMatch[2] ? await findPlan(parseInt(keyMatch[2], 10)) : await findDefaultPlan();
+      await activateSubscription(userId, "easypay", periodEndFor(plan?.frequency ?? FALLBACK_FREQUENCY), {
+        ...paid,
+        providerSubscriptionId: id,
+        planId: plan?.id ?? null,
+      });
+      await replacePastDueSubscriptions(userId, id);
+      console.log(`[EASYPAY WEBHOOK] Subscription activated for user ${userId}`);
+    }
+  } else if (subStatus === "inactive") {
+    // Easypay gave up collecting: the grace period starts rather than losing access now
+    if (existing) {
+      await markPastDue(existing, { providerReference: key || id, note: "Easypay status inactive" });
+    }
+    console.log(`[EASYPAY WEBHOOK] Subscription past due for user ${userId}`);
+  } else if (subStatus === "deleted") {
+    if (existing && (existing.status === "active" || existing.status === "past_due")) {
+      await cancelSubscription(existing, {
+        providerReference: key || id,
+        note: `Easypay status ${subStatus}`,
+      });
+    }
+    console.log(`[EASYPAY WEBHOOK] Subscription cancelled for user ${userId}`);
+  } else {
+    return "ignored";
+  }
+
+  return "processed";
+}
@@ -0,0 +1,125 @@
+import { eq, and, gt, isNull } from "drizzle-orm";
+import { db } from "../db/index.ts";
+import { users } from "../db/schema/users.ts";
+import { emailChangeRequests, magicLinkTokens, userApprovalRequests } from "../db/schema/auth.ts";
+import { config } from "../config.ts";
+import { generateMagicLinkToken, hashToken, magicLinkExpiresAt } from "./auth.ts";
+import {
+  sendEmail,
+  buildEmailChangeConfirmationEmail,
+  buildEmailChangedNoticeEmail,
+} from "./email.ts";
+
+export type EmailChangeRequestResult =
+  | { ok: true; newEmail: string; confirmUrl: string }
+  | { ok: false; reason: "not_found" | "unchanged" | "taken" };
+
+export type EmailChangeConfirmResult =
+  | { ok: true; userId: number; oldEmail: string; newEmail: string; language: string }
+  | { ok: false; reason: "invalid" | "taken" };
+
+/** Whether another account already signs in with `email`. */
+async function emailTaken(email: string, userId: number): Promise<boolean> {
+  const owner = await db.query.users.findFirst({
+    where: eq(users.email, email),
+    columns: { id: true },
+  });
+  return !!owner && owner.id !== userId;
+}
+
+/**
+ * Start moving a user's account to `newEmail`: replace any unconfirmed
+ * request and send a confirmation link to the new address. Nothing changes
+ * until that link is opened. `requestedById` is the admin acting for the user.
+ */
+export async function requestEmailChange(
+  userId: number,
+  newEmail: string,
+  requestedById: number | null = null,
+): Promise<EmailChangeRequestResult> {
+  const email = newEmail.toLowerCase().trim();
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { id: true, email: true, preferredLanguage: true },
+  });
+  if (!user) return { ok: false, reason: "not_found" };
+  if (email === user.email) return { ok: false, reason: "unchanged" };
+  if (await emailTaken(email, userId)) return { ok: false, reason: "taken" };
+
+  const token = generateMagicLinkToken();
+  await db
+    .delete(emailChangeRequests)
+    .where(and(eq(emailChangeRequests.userId, userId), isNull(emailChangeRequests.confirmedAt)));
+  await db.insert(emailChangeRequests).values({
+    userId,
+    newEmail: email,
+    tokenHash: await hashToken(token),
+    expiresAt: magicLinkExpiresAt(),
+    requestedById,
+  });
+
+  const confirmUrl = `${config.urls.backend}/api/auth/email-change/${token}?lang=${user.preferredLanguage}`;
+  const { subject, html } = buildEmailChangeConfirmationEmail(confirmUrl, user.preferredLanguage);
+  await sendEmail({ to: email, subject, html });
+
+  return { ok: true, newEmail: email, confirmUrl };
+}
+
+/**
+ * Apply the email change behind a confirmation link. The account keeps its
+ * id, so devices, sessions and subscriptions stay with it; approval requests
+ * filed under the old address move to the new one, and magic links already
+ * sent to the old address stop working. The old address is told about it.
+ */
+export async function confirmEmailChange(
+  token: string,
+  now: Date = new Date(),
+): Promise<EmailChangeConfirmResult> {
+  const request = await db.query.emailChangeRequests.findFirst({
+    where: and(
+      eq(emailChangeRequests.tokenHash, await hashToken(token)),
+      isNull(emailChangeRequests.confirmedAt),
+      gt(emailChangeRequests.expiresAt, now),
+    ),
+    with: { user: { columns: { id: true, email: true, preferredLanguage: true, isActive: true } } },
+  });
+  if (!request || !request.user.isActive) return { ok: false, reason: "invalid" };
+  // Someone may have taken the address since the link was sent
+  if (await emailTaken(request.newEmail, request.userId)) return { ok: false, reason: "taken" };
+
+  const { user } = request;
+  const [claimed] = await db
+    .update(emailChangeRequests)
+    .set({ confirmedAt: now })
+    .where(and(eq(emailChangeRequests.id, request.id), isNull(emailChangeRequests.confirmedAt)))
+    .returning({ id: emailChangeRequests.id });
+  if (!claimed) return { ok: false, reason: "invalid" };
+
+  await db
+    .update(users)
+    .set({ email: request.newEmail, isVerified: true, updatedAt: now })
+    .where(eq(users.id, user.id));
+  await db
+    .update(userApprovalRequests)
+    .set({ email: request.newEmail })
+    .where(eq(userApprovalRequests.email, user.email));
+  await db
+    .update(magicLinkTokens)
+    .set({ isUsed: true })
+    .where(and(eq(magicLinkTokens.email, user.email), eq(magicLinkTokens.isUsed, false)));
+
+  try {
+    const { subject, html } = buildEmailChangedNoticeEmail(user.preferredLanguage, request.newEmail);
+    await sendEmail({ to: user.email, subject, html });
+  } catch (error) {
+    console.error(`[Email change] Notice to ${user.email} failed:`, error);
+  }
+
+  return {
+    ok: true,
+    userId: user.id,
+    oldEmail: user.email,
+    newEmail: request.newEmail,
+    language: user.preferredLanguage,
+  };
+}
@@ -1,5 +1,11 @@
 import { config } from "../config.ts";
 
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Uint8Array;
+}
+
 /**
  * Send an email. In development, just logs to console.
  * In production, integrate with AWS SES.
@@ -8,11 +14,15 @@ export async function sendEmail(options: {
   to: string;
   subject: string;
   html: string;
+  attachments?: EmailAttachment[];
 }): Promise<void> {
   if (config.isDev) {
     console.log(`[EMAIL] To: ${options.to}`);
     console.log(`[EMAIL] Subject: ${options.subject}`);
     console.log(`[EMAIL] Body: ${options.html}`);
+    for (const attachment of options.attachments ?? []) {
+      console.log(`[EMAIL] Attachment: ${attachment.filename} (${attachment.content.byteLength} bytes)`);
+    }
     return;
   }
 
@@ -51,3 +61,281 @@ export function buildMagicLinkEmail(
     `,
   };
 }
+
+export function buildAccessGrantedEmail(
+  eventTitle: string,
+  language: string,
+  validUntil: Date | null,
+  adminMessage?: string | null,
+): { subject: string; html: string } {
+  const note = adminMessage
+    ? `<p style="padding: 12px; background: #f7f7f7; border-radius: 6px;">${adminMessage}</p>`
+    : "";
+
+  if (language === "pt") {
+    const until = validUntil
+      ? `<p style="color: #666; font-size: 14px;">O acesso está disponível até ${validUntil.toLocaleDateString("pt-PT")}.</p>`
+      : "";
+    return {
+      subject: "Pedido de acesso aprovado - Padmakara",
+      html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Padmakara</h2>
+          <p>O seu pedido de acesso a <strong>${eventTitle}</strong> foi aprovado.</p>
+          <p>Já pode abrir as gravações na aplicação.</p>
+          ${note}
+          ${until}
+        </div>
+      `,
+    };
+  }
+
+  const until = validUntil
+    ? `<p style="color: #666; font-size: 14px;">Access is available until ${validUntil.toLocaleDateString("en-GB")}.</p>`
+    : "";
+  return {
+    subject: "Access request approved - Padmakara",
+    html: `
+      <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Padmakara</h2>
+        <p>Your request to access <strong>${eventTitle}</strong> has been approved.</p>
+        <p>You can now open the recordings in the app.</p>
+        ${note}
+        ${until}
+      </div>
+    `,
+  };
+}
+
+export function buildSubscriptionReminderEmail(
+  language: string,
+  expiresAt: Date,
+  daysLeft: number,
+): { subject: string; html: string } {
+  if (language === "pt") {
+    const when = daysLeft <= 1 ? "amanhã" : `dentro de ${daysLeft} dias`;
+    return {
+      subject: "A sua assinatura está a terminar - Padmakara",
+      html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Padmakara</h2>
+          <p>A sua assinatura termina ${when}, a ${expiresAt.toLocaleDateString("pt-PT")}.</p>
+          <p>Para continuar a ouvir os ensinamentos, renove-a antes dessa data. Se pagou em numerário ou por transferência, contacte-nos para a renovar.</p>
+        </div>
+      `,
+    };
+  }
+
+  const when = daysLeft <= 1 ? "tomorrow" : `in ${daysLeft} days`;
+  return {
+    subject: "Your subscription is ending - Padmakara",
+    html: `
+      <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Padmakara</h2>
+        <p>Your subscription ends ${when}, on ${expiresAt.toLocaleDateString("en-GB")}.</p>
+        <p>To keep listening to the teachings, please renew it before then. If you paid in cash or by bank transfer, get in touch with us to renew.</p>
+      </div>
+    `,
+  };
+}
+
+export function buildManualRenewalDigestEmail(
+  language: string,
+  members: { name: string; email: string; source: string; expiresAt: Date }[],
+): { subject: string; html: string } {
+  const locale = language === "pt" ? "pt-PT" : "en-GB";
+  const rows = members
+    .map(
+      (m) =>
+        `<tr><td style="padding: 4px 8px;">${m.name}</td><td style="padding: 4px 8px;">${m.email}</td><td style="padding: 4px 8px;">${m.source}</td><td style="padding: 4px 8px;">${m.expiresAt.toLocaleDateString(locale)}</td></tr>`,
+    )
+    .join("");
+
+  if (language === "pt") {
+    return {
+      subject: `${members.length} assinatura(s) para renovar manualmente - Padmakara`,
+      html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Padmakara</h2>
+          <p>As seguintes assinaturas pagas em numerário ou por transferência terminam nos próximos dias e têm de ser renovadas manualmente:</p>
+          <table style="border-collapse: collapse; font-size: 14px;">${rows}</table>
+        </div>
+      `,
+    };
+  }
+
+  return {
+    subject: `${members.length} subscription(s) to renew manually - Padmakara`,
+    html: `
+      <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Padmakara</h2>
+        <p>These cash and bank-transfer subscriptions end in the coming days and need to be renewed by hand:</p>
+        <table style="border-collapse: collapse; font-size: 14px;">${rows}</table>
+      </div>
+    `,
+  };
+}
+
+export function buildPaymentFailedEmail(
+  language: string,
+  step: "dunning_first" | "dunning_reminder" | "dunning_final",
+  graceEndsAt: Date,
+  updatePaymentUrl: string,
+): { subject: string; html: string } {
+  if (language === "pt") {
+    const subject =
+      step === "dunning_final"
+        ? "Último aviso: atualize o seu pagamento - Padmakara"
+        : step === "dunning_reminder"
+          ? "Lembrete: o pagamento da sua assinatura falhou - Padmakara"
+          : "O pagamento da sua assinatura falhou - Padmakara";
+    return {
+      subject,
+      html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Padmakara</h2>
+          <p>Não conseguimos cobrar a renovação da sua assinatura.</p>
+          <p>Continua a ter acesso às gravações até ${graceEndsAt.toLocaleDateString("pt-PT")}. Para não o perder, atualize o seu meio de pagamento:</p>
+          <p><a href="${updatePaymentUrl}" style="display: inline-block; padding: 12px 24px; background: #4A5568; color: white; text-decoration: none; border-radius: 6px;">Atualizar pagamento</a></p>
+        </div>
+      `,
+    };
+  }
+
+  const subject =
+    step === "dunning_final"
+      ? "Final notice: update your payment - Padmakara"
+      : step === "dunning_reminder"
+        ? "Reminder: your subscription payment failed - Padmakara"
+        : "Your subscription payment failed - Padmakara";
+  return {
+    subject,
+    html: `
+      <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Padmakara</h2>
+        <p>We could not collect the renewal of your subscription.</p>
+        <p>You keep access to the recordings until ${graceEndsAt.toLocaleDateString("en-GB")}. To keep it, please update your payment method:</p>
+        <p><a href="${updatePaymentUrl}" style="display: inline-block; padding: 12px 24px; background: #4A5568; color: white; text-decoration: none; border-radius: 6px;">Update payment</a></p>
+      </div>
+    `,
+  };
+}
+
+export function buildPaymentReceiptEmail(
+  language: string,
+  receiptNumber: string,
+  paidUntil: Date,
+): { subject: string; html: string } {
+  if (language === "pt") {
+    return {
+      subject: `Recibo ${receiptNumber} - Padmakara`,
+      html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Padmakara</h2>
+          <p>Obrigado pelo seu pagamento. Em anexo segue o recibo n.º ${receiptNumber}.</p>
+          <p>A sua assinatura está paga até ${paidUntil.toLocaleDateString("pt-PT")}.</p>
+        </div>
+      `,
+    };
+  }
+
+  return {
+    subject: `Receipt ${receiptNumber} - Padmakara`,
+    html: `
+      <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Padmakara</h2>
+        <p>Thank you for your payment. Receipt no. ${receiptNumber} is attached.</p>
+        <p>Your subscription is paid until ${paidUntil.toLocaleDateString("en-GB")}.</p>
+      </div>
+    `,
+  };
+}
+
+export function buildAccountDeletionEmail(
+  language: string,
+  scheduledFor: Date,
+): { subject: string; html: string } {
+  if (language === "pt") {
+    return {
+      subject: "Pedido de eliminação da conta - Padmakara",
+      html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Padmakara</h2>
+          <p>Recebemos o seu pedido para eliminar a sua conta. Os seus dados pessoais serão apagados a ${scheduledFor.toLocaleDateString("pt-PT")}.</p>
+          <p>Se mudar de ideias, pode cancelar o pedido na aplicação até essa data. Se não fez este pedido, entre na aplicação e cancele-o.</p>
+        </div>
+      `,
+    };
+  }
+
+  return {
+    subject: "Account deletion requested - Padmakara",
+    html: `
+      <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Padmakara</h2>
+        <p>We received your request to delete your account. Your personal data will be erased on ${scheduledFor.toLocaleDateString("en-GB")}.</p>
+        <p>If you change your mind, you can cancel the request in the app until then. If you did not make this request, sign in to the app and cancel it.</p>
+      </div>
+    `,
+  };
+}
+
+export function buildEmailChangeConfirmationEmail(
+  confirmUrl: string,
+  language: string,
+): { subject: string; html: string } {
+  if (language === "pt") {
+    return {
+      subject: "Confirme o seu novo email - Padmakara",
+      html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Padmakara</h2>
+          <p>Foi pedido que este passe a ser o email da sua conta. Clique no link abaixo para o confirmar:</p>
+          <p><a href="${confirmUrl}" style="display: inline-block; padding: 12px 24px; background: #4A5568; color: white; text-decoration: none; border-radius: 6px;">Confirmar o novo email</a></p>
+          <p style="color: #666; font-size: 14px;">Este link expira em 1 hora. Se não fez este pedido, ignore este email.</p>
+        </div>
+      `,
+    };
+  }
+
+  return {
+    subject: "Confirm your new email - Padmakara",
+    html: `
+      <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Padmakara</h2>
+        <p>We were asked to make this the email address of your account. Click the link below to confirm it:</p>
+        <p><a href="${confirmUrl}" style="display: inline-block; padding: 12px 24px; background: #4A5568; color: white; text-decoration: none; border-radius: 6px;">Confirm new email</a></p>
+        <p style="color: #666; font-size: 14px;">This link expires in 1 hour. If you did not ask for this, you can ignore this email.</p>
+      </div>
+    `,
+  };
+}
+
+export function buildEmailChangedNoticeEmail(
+  language: string,
+  newEmail: string,
+): { subject: string; html: string } {
+  if (language === "pt") {
+    return {
+      subject: "O email da sua conta foi alterado - Padmakara",
+      html: `
+        <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2>Padmakara</h2>
+          <p>O email da sua conta passou a ser <strong>${newEmail}</strong>. Os links de acesso passam a ser enviados para esse endereço.</p>
+          <p>Se não fez esta alteração, contacte-nos de imediato.</p>
+        </div>
+      `,
+    };
+  }
+
+  return {
+    subject: "Your account email was changed - Padmakara",
+    html: `
+      <div style="font-family: sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Padmakara</h2>
+        <p>The email address of your account is now <strong>${newEmail}</strong>. Login links will be sent there from now on.</p>
+        <p>If you did not make this change, please contact us right away.</p>
+      </div>
+    `,
+  };
+}
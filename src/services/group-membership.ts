@@ -0,0 +1,38 @@
+export type MembershipStatus = "pending" | "confirmed" | "lapsed" | "removed";
+
+/**
+ * Allowed retreat group membership transitions. A confirmed member can lapse
+ * (e.g. stopped attending) and be re-confirmed; removed members can be
+ * re-admitted through pending or straight to confirmed.
+ */
+export const MEMBERSHIP_TRANSITIONS: Record<MembershipStatus, readonly MembershipStatus[]> = {
+  pending: ["confirmed", "removed"],
+  confirmed: ["lapsed", "removed"],
+  lapsed: ["confirmed", "removed"],
+  removed: ["pending", "confirmed"],
+};
+
+export function canTransitionMembership(from: string, to: MembershipStatus): boolean {
+  return MEMBERSHIP_TRANSITIONS[from as MembershipStatus]?.includes(to) ?? false;
+}
+
+/**
+ * Column values for moving a membership into `status`: stamps the matching
+ * lifecycle timestamp and records who made the change.
+ */
+export function membershipStatusValues(
+  status: MembershipStatus,
+  changedById: number | null,
+  note: string | null = null,
+  now: Date = new Date(),
+) {
+  return {
+    status,
+    statusChangedAt: now,
+    statusChangedById: changedById,
+    statusNote: note,
+    ...(status === "confirmed" && { confirmedAt: now }),
+    ...(status === "lapsed" && { lapsedAt: now }),
+    ...(status === "removed" && { removedAt: now }),
+  };
+}
@@ -0,0 +1,257 @@
+import { eq, sql } from "drizzle-orm";
+import { PDFDocument, StandardFonts, rgb } from "pdf-lib";
+import { db, type Executor } from "../db/index.ts";
+import { users } from "../db/schema/users.ts";
+import { manualPayments, receiptSequences } from "../db/schema/payments.ts";
+import {
+  activateSubscription,
+  renewSubscription,
+  findActiveSubscription,
+  type Subscription,
+} from "./subscriptions.ts";
+import { periodEndFor } from "./plans.ts";
+import { sendEmail, buildPaymentReceiptEmail } from "./email.ts";
+
+export type ManualPayment = typeof manualPayments.$inferSelect;
+
+export type ManualPaymentMethod = "cash" | "bank_transfer";
+
+// ─── Receipt numbers ───
+
+/** Receipt numbers restart each year: "2026/0001", "2026/0002", … */
+export function formatReceiptNumber(year: number, sequence: number): string {
+  return `${year}/${String(sequence).padStart(4, "0")}`;
+}
+
+/**
+ * Take the next receipt number for the year `issuedAt` falls in. The year's
+ * counter is incremented in a single statement, so concurrent payments never
+ * share a number.
+ */
+export async function nextReceiptNumber(issuedAt: Date = new Date(), tx: Executor = db): Promise<string> {
+  const year = issuedAt.getUTCFullYear();
+  const [row] = await tx
+    .insert(receiptSequences)
+    .values({ year, lastNumber: 1 })
+    .onConflictDoUpdate({
+      target: receiptSequences.year,
+      set: { lastNumber: sql`${receiptSequences.lastNumber} + 1` },
+    })
+    .returning({ lastNumber: receiptSequences.lastNumber });
+  return formatReceiptNumber(year, row!.lastNumber);
+}
+
+// ─── Recording ───
+
+export interface ManualPaymentInput {
+  amountCents: number;
+  currency?: string;
+  method: ManualPaymentMethod;
+  paidAt: Date;
+  /** Defaults to the end of the member's current period, or `paidAt` without one. */
+  periodStart?: Date | null;
+  /** Either an explicit period end or a number of months from `periodStart`. */
+  periodEnd?: Date | null;
+  months?: number | null;
+  reference?: string | null;
+  note?: string | null;
+  recordedById?: number | null;
+}
+
+export type RecordPaymentFailure = "user_not_found" | "subscription_not_extendable" | "invalid_period";
+
+export type RecordPaymentResult =
+  | { ok: true; payment: ManualPayment; subscription: Subscription }
+  | { ok: false; reason: RecordPaymentFailure };
+
+/**
+ * Record a cash or bank-transfer payment and extend the member's subscription
+ * to the end of the period it covers. A manual subscription the member
+ * already holds is renewed (never shortened) and takes the payment's method
+ * as its source; without one a new subscription starts. Members billed by
+ * Easypay, or with open-ended access, cannot be extended this way. The receipt
+ * number, the subscription change and the payment are written together or
+ * not at all.
+ */
+export async function recordManualPayment(
+  userId: number,
+  input: ManualPaymentInput,
+  now: Date = new Date(),
+): Promise<RecordPaymentResult> {
+  const user = await db.query.users.findFirst({ where: eq(users.id, userId) });
+  if (!user) return { ok: false, reason: "user_not_found" };
+
+  const current = await findActiveSubscription(userId);
+  if (current && (current.source === "easypay" || current.currentPeriodEnd === null)) {
+    return { ok: false, reason: "subscription_not_extendable" };
+  }
+
+  const currentEnd = current?.currentPeriodEnd ?? null;
+  const periodStart =
+    input.periodStart ?? (currentEnd && currentEnd > input.paidAt ? currentEnd : input.paidAt);
+  const periodEnd =
+    input.periodEnd ?? (input.months ? periodEndFor(`${input.months}M`, periodStart) : null);
+  if (!periodEnd || periodEnd <= periodStart) return { ok: false, reason: "invalid_period" };
+
+  return db.transaction(async (tx): Promise<RecordPaymentResult> => {
+    const receiptNumber = await nextReceiptNumber(now, tx);
+    const details = {
+      amountCents: input.amountCents,
+      currency: input.currency ?? "EUR",
+      providerReference: input.reference ?? null,
+      note: `Receipt ${receiptNumber}`,
+      recordedById: input.recordedById ?? null,
+      occurredAt: input.paidAt,
+    };
+
+    let subscription: Subscription;
+    if (current) {
+      const extendedTo = currentEnd && currentEnd > periodEnd ? currentEnd : periodEnd;
+      await renewSubscription(current, extendedTo, { ...details, source: input.method }, tx);
+      subscription = { ...current, source: input.method, currentPeriodEnd: extendedTo };
+    } else {
+      subscription = await activateSubscription(userId, input.method, periodEnd, details, tx);
+    }
+
+    const [payment] = await tx
+      .insert(manualPayments)
+      .values({
+        receiptNumber,
+        userId,
+        subscriptionId: subscription.id,
+        payerName: [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email,
+        payerEmail: user.email,
+        amountCents: input.amountCents,
+        currency: input.currency ?? "EUR",
+        method: input.method,
+        paidAt: input.paidAt,
+        periodStart,
+        periodEnd,
+        reference: input.reference ?? null,
+        note: input.note ?? null,
+        recordedById: input.recordedById ?? null,
+        createdAt: now,
+      })
+      .returning();
+
+    return { ok: true, payment: payment!, subscription };
+  });
+}
+
+// ─── Receipt ───
+
+const RECEIPT_LABELS = {
+  en: {
+    title: "Receipt",
+    issued: "Issued",
+    receivedFrom: "Received from",
+    amount: "Amount",
+    method: "Payment method",
+    paidAt: "Payment date",
+    period: "Period covered",
+    reference: "Reference",
+    methods: { cash: "Cash", bank_transfer: "Bank transfer" } as Record<string, string>,
+    footer: "Subscription to the Padmakara teachings archive.",
+  },
+  pt: {
+    title: "Recibo",
+    issued: "Emitido em",
+    receivedFrom: "Recebido de",
+    amount: "Montante",
+    method: "Meio de pagamento",
+    paidAt: "Data do pagamento",
+    period: "Período abrangido",
+    reference: "Referência",
+    methods: { cash: "Numerário", bank_transfer: "Transferência bancária" } as Record<string, string>,
+    footer: "Assinatura do arquivo de ensinamentos Padmakara.",
+  },
+};
+
+/** The member's language for their receipt, falling back to English once they are gone. */
+export async function receiptLanguage(payment: ManualPayment): Promise<string> {
+  if (!payment.userId) return "en";
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, payment.userId),
+    columns: { preferredLanguage: true },
+  });
+  return user?.preferredLanguage ?? "en";
+}
+
+export function receiptFilename(payment: ManualPayment): string {
+  return `receipt-${payment.receiptNumber.replace("/", "-")}.pdf`;
+}
+
+/**
+ * Render a receipt as a one-page A4 PDF. Uses the standard Helvetica font,
+ * whose encoding covers Portuguese and the euro sign; formatted amounts use
+ * plain spaces in place of the non-breaking ones Intl produces.
+ */
+export async function buildReceiptPdf(payment: ManualPayment, language: string): Promise<Uint8Array> {
+  const labels = language === "pt" ? RECEIPT_LABELS.pt : RECEIPT_LABELS.en;
+  const locale = language === "pt" ? "pt-PT" : "en-GB";
+  const date = (d: Date) => d.toLocaleDateString(locale, { timeZone: "UTC" });
+  const amount = new Intl.NumberFormat(locale, { style: "currency", currency: payment.currency })
+    .format(payment.amountCents / 100)
+    .replace(/\s/g, " ");
+
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(`${labels.title} ${payment.receiptNumber}`);
+  const page = pdfDoc.addPage([595.28, 841.89]);
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+  const grey = rgb(0.4, 0.4, 0.4);
+  const left = 56;
+  let y = 770;
+
+  page.drawText("Padmakara", { x: left, y, size: 22, font: bold });
+  y -= 40;
+  page.drawText(`${labels.title} ${payment.receiptNumber}`, { x: left, y, size: 16, font: bold });
+  y -= 20;
+  page.drawText(`${labels.issued} ${date(payment.createdAt)}`, { x: left, y, size: 10, font, color: grey });
+  y -= 40;
+
+  const rows: [string, string][] = [
+    [labels.receivedFrom, `${payment.payerName} <${payment.payerEmail}>`],
+    [labels.amount, amount],
+    [labels.method, labels.methods[payment.method] ?? payment.method],
+    [labels.paidAt, date(payment.paidAt)],
+    [labels.period, `${date(payment.periodStart)} – ${date(payment.periodEnd)}`],
+  ];
+  if (payment.reference) rows.push([labels.reference, payment.reference]);
+
+  for (const [label, value] of rows) {
+    page.drawText(label, { x: left, y, size: 11, font, color: grey });
+    page.drawText(value, { x: left + 140, y, size: 11, font });
+    y -= 22;
+  }
+
+  page.drawText(labels.footer, { x: left, y: 60, size: 9, font, color: grey });
+  return pdfDoc.save();
+}
+
+/**
+ * Email the receipt to the member (at their current address, or the one on
+ * the receipt once they are gone) and note when it was sent.
+ */
+export async function sendReceipt(payment: ManualPayment, now: Date = new Date()): Promise<ManualPayment> {
+  const user = payment.userId
+    ? await db.query.users.findFirst({ where: eq(users.id, payment.userId) })
+    : undefined;
+  const language = user?.preferredLanguage ?? "en";
+  const pdf = await buildReceiptPdf(payment, language);
+  const { subject, html } = buildPaymentReceiptEmail(language, payment.receiptNumber, payment.periodEnd);
+
+  await sendEmail({
+    to: user?.email ?? payment.payerEmail,
+    subject,
+    html,
+    attachments: [{ filename: receiptFilename(payment), contentType: "application/pdf", content: pdf }],
+  });
+
+  const [updated] = await db
+    .update(manualPayments)
+    .set({ receiptSentAt: now })
+    .where(eq(manualPayments.id, payment.id))
+    .returning();
+  return updated ?? { ...payment, receiptSentAt: now };
+}
@@ -0,0 +1,46 @@
+import type { Context } from "hono";
+import { db } from "../db/index.ts";
+import { mediaAccessLog } from "../db/schema/media-access-log.ts";
+import { clientIp } from "../middleware/rate-limit.ts";
+
+export type MediaResourceType = "audio" | "transcript" | "zip";
+
+/** Who is asking, as far as the request tells us. */
+export interface MediaAccessContext {
+  deviceFingerprint: string | null;
+  ipAddress: string | null;
+}
+
+export interface MediaAccessEntry extends MediaAccessContext {
+  userId: number | null;
+  resourceType: MediaResourceType;
+  resourceId: string | number;
+  eventId: number | null;
+}
+
+/**
+ * Read device and IP from the request. Apps send their device fingerprint
+ * in X-Device-Fingerprint; the IP is the one our reverse proxy saw (see
+ * clientIp), not whatever the client put in X-Forwarded-For.
+ */
+export function mediaAccessContext(c: Context): MediaAccessContext {
+  return {
+    deviceFingerprint: c.req.header("x-device-fingerprint") || null,
+    ipAddress: clientIp(c),
+  };
+}
+
+/**
+ * Record that media was handed out. Never throws — a failed log write is
+ * reported but must not block playback or downloads.
+ */
+export async function logMediaAccess(entry: MediaAccessEntry): Promise<void> {
+  try {
+    await db.insert(mediaAccessLog).values({
+      ...entry,
+      resourceId: String(entry.resourceId),
+    });
+  } catch (error) {
+    console.error(`[MediaAccess] Failed to log ${entry.resourceType} ${entry.resourceId}:`, error);
+  }
+}
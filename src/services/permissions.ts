@@ -0,0 +1,92 @@
+/**
+ * Admin roles and what each may do. Every admin API area (/api/admin/<resource>)
+ * is a resource; a role grants "read" (GET) or "write" (anything, reads
+ * included) on each. Roles not listed here, like "user", have no admin access.
+ */
+export const adminResources = [
+  "events",
+  "sessions",
+  "tracks",
+  "upload",
+  "teachers",
+  "places",
+  "groups",
+  "event-types",
+  "audiences",
+  "users",
+  "approvals",
+  "access-requests",
+  "media-access",
+  "audit-log",
+  "plans",
+  "vouchers",
+  "payments",
+  "subscription-ledger",
+  "reports",
+  "webhook-inbox",
+  "job-runs",
+  "account-deletions",
+  "migrations",
+  // Not API areas: changing a user's role on /users/:id, and resetting a
+  // user's second factor on /users/:id/two-factor
+  "roles",
+  "two-factor-reset",
+] as const;
+
+export type AdminResource = (typeof adminResources)[number];
+export type AdminAction = "read" | "write";
+export type Grants = Partial<Record<AdminResource, AdminAction>>;
+
+const everythingBut = (...excluded: AdminResource[]): Grants =>
+  Object.fromEntries(adminResources.filter((r) => !excluded.includes(r)).map((r) => [r, "write"]));
+const everything = everythingBut();
+
+export const adminRoles: Record<string, Grants> = {
+  superadmin: everything,
+  // Everything but taking the second factor off an account
+  admin: everythingBut("two-factor-reset"),
+  // Content editor: events with their sessions and tracks, and the reference data they use
+  editor: {
+    events: "write",
+    sessions: "write",
+    tracks: "write",
+    upload: "write",
+    teachers: "write",
+    places: "write",
+    groups: "write",
+    "event-types": "write",
+    audiences: "write",
+  },
+  uploader: { upload: "write" },
+  // Membership secretary: members, their access and payments
+  secretary: {
+    users: "write",
+    approvals: "write",
+    "access-requests": "write",
+    "media-access": "read",
+    payments: "write",
+    "subscription-ledger": "read",
+    plans: "read",
+    groups: "read",
+    events: "read",
+    "account-deletions": "read",
+  },
+  migrations: { migrations: "write", "job-runs": "read" },
+};
+
+/** Every role a user can have, for validating role changes. */
+export const roleValues = ["user", ...Object.keys(adminRoles)] as [string, ...string[]];
+
+/** Whether the role gives any access to the admin API. */
+export function isAdminRole(role: string): boolean {
+  return Object.hasOwn(adminRoles, role);
+}
+
+export function permissionsFor(role: string): Grants {
+  return isAdminRole(role) ? adminRoles[role]! : {};
+}
+
+export function can(role: string, resource: AdminResource, action: AdminAction): boolean {
+  const granted = permissionsFor(role)[resource];
+  return granted === "write" || (granted === "read" && action === "read");
+}
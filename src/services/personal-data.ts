@@ -0,0 +1,274 @@
+import { eq, and, lte, inArray, desc } from "drizzle-orm";
+import { db } from "../db/index.ts";
+import { users, userGroupMemberships, userEventAttendance } from "../db/schema/users.ts";
+import {
+  refreshTokens,
+  magicLinkTokens,
+  deviceActivations,
+  userApprovalRequests,
+  emailChangeRequests,
+} from "../db/schema/auth.ts";
+import { userProgress, bookmarks, userNotes } from "../db/schema/user-content.ts";
+import { subscriptions } from "../db/schema/subscriptions.ts";
+import { manualPayments } from "../db/schema/payments.ts";
+import { eventAccessRequests } from "../db/schema/event-access-requests.ts";
+import { downloadRequests } from "../db/schema/download-requests.ts";
+import { voucherRedemptions } from "../db/schema/vouchers.ts";
+import { mediaAccessLog } from "../db/schema/media-access-log.ts";
+import { accountDeletions } from "../db/schema/account-deletions.ts";
+import { config } from "../config.ts";
+import { cancelSubscription } from "./subscriptions.ts";
+import { easypayFetch, isEasypayMockMode } from "./easypay.ts";
+import { removeTwoFactor } from "./two-factor.ts";
+import { revokeUserSessions } from "./sessions.ts";
+import { isAdminRole } from "./permissions.ts";
+import { sendEmail, buildAccountDeletionEmail } from "./email.ts";
+import type { ScheduledJob } from "./scheduler.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AccountDeletion = typeof accountDeletions.$inferSelect;
+
+export type DeletionRequestResult =
+  | { ok: true; deletion: AccountDeletion }
+  | { ok: false; reason: "not_found" | "confirmation_mismatch" | "staff_account" };
+
+// ─── Export ───
+
+/**
+ * Everything we hold about a member, for them to download: the profile, their
+ * devices, listening history, bookmarks and notes, subscriptions with their
+ * ledger and receipts, vouchers redeemed, the media access log (with the IP
+ * address and device of each play), and the requests they made, email
+ * changes included. Secrets (password hash, token version, two-factor secret,
+ * link tokens) are left out.
+ */
+export async function exportPersonalData(userId: number, now: Date = new Date()) {
+  const profile = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { passwordHash: false, tokenVersion: false },
+    with: {
+      groupMemberships: { with: { retreatGroup: { columns: { id: true, nameEn: true } } } },
+      eventAttendance: { with: { event: { columns: { id: true, eventCode: true, titleEn: true } } } },
+    },
+  });
+  if (!profile) return null;
+
+  const [
+    devices,
+    progress,
+    userBookmarks,
+    notes,
+    userSubscriptions,
+    payments,
+    redemptions,
+    mediaAccess,
+    approvalRequests,
+    accessRequests,
+    emailChanges,
+  ] = await Promise.all([
+    db.query.deviceActivations.findMany({ where: eq(deviceActivations.userId, userId) }),
+    db.query.userProgress.findMany({ where: eq(userProgress.userId, userId) }),
+    db.query.bookmarks.findMany({ where: eq(bookmarks.userId, userId) }),
+    db.query.userNotes.findMany({ where: eq(userNotes.userId, userId) }),
+    db.query.subscriptions.findMany({
+      where: eq(subscriptions.userId, userId),
+      with: { plan: { columns: { id: true, nameEn: true } }, entries: true },
+    }),
+    db.query.manualPayments.findMany({ where: eq(manualPayments.userId, userId) }),
+    db.query.voucherRedemptions.findMany({
+      where: eq(voucherRedemptions.userId, userId),
+      with: { voucher: { columns: { code: true, months: true } } },
+    }),
+    db.query.mediaAccessLog.findMany({
+      where: eq(mediaAccessLog.userId, userId),
+      orderBy: [desc(mediaAccessLog.accessedAt)],
+    }),
+    db.query.userApprovalRequests.findMany({ where: eq(userApprovalRequests.email, profile.email) }),
+    db.query.eventAccessRequests.findMany({ where: eq(eventAccessRequests.userId, userId) }),
+    db.query.emailChangeRequests.findMany({
+      where: eq(emailChangeRequests.userId, userId),
+      columns: { tokenHash: false },
+    }),
+  ]);
+
+  const { groupMemberships, eventAttendance, ...user } = profile;
+  return {
+    exportedAt: now.toISOString(),
+    profile: user,
+    groupMemberships,
+    eventAttendance,
+    devices,
+    progress,
+    bookmarks: userBookmarks,
+    notes,
+    subscriptions: userSubscriptions,
+    payments,
+    voucherRedemptions: redemptions,
+    mediaAccess,
+    approvalRequests,
+    eventAccessRequests: accessRequests,
+    emailChangeRequests: emailChanges,
+  };
+}
+
+// ─── Deletion requests ───
+
+/** The member's deletion waiting for its cooling-off period to end, if any. */
+export async function pendingDeletion(userId: number): Promise<AccountDeletion | null> {
+  const deletion = await db.query.accountDeletions.findFirst({
+    where: and(eq(accountDeletions.userId, userId), eq(accountDeletions.status, "pending")),
+  });
+  return deletion ?? null;
+}
+
+/**
+ * Schedule the member's account for erasure once the cooling-off period has
+ * passed. The member confirms by typing their email address. Asking again
+ * while a deletion is pending returns that deletion unchanged. Staff accounts
+ * are refused: an admin has to remove their role first.
+ */
+export async function requestAccountDeletion(
+  userId: number,
+  confirmEmail: string,
+  now: Date = new Date(),
+): Promise<DeletionRequestResult> {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { id: true, email: true, role: true, preferredLanguage: true },
+  });
+  if (!user) return { ok: false, reason: "not_found" };
+  if (confirmEmail.trim().toLowerCase() !== user.email.toLowerCase()) {
+    return { ok: false, reason: "confirmation_mismatch" };
+  }
+  if (isAdminRole(user.role)) return { ok: false, reason: "staff_account" };
+
+  const existing = await pendingDeletion(userId);
+  if (existing) return { ok: true, deletion: existing };
+
+  const [deletion] = await db
+    .insert(accountDeletions)
+    .values({
+      userId,
+      requestedAt: now,
+      scheduledFor: new Date(now.getTime() + config.accountDeletion.coolingOffDays * DAY_MS),
+    })
+    .returning();
+
+  try {
+    const { subject, html } = buildAccountDeletionEmail(user.preferredLanguage, deletion!.scheduledFor);
+    await sendEmail({ to: user.email, subject, html });
+  } catch (error) {
+    console.error(`[Account deletion] Notice to ${user.email} failed:`, error);
+  }
+
+  return { ok: true, deletion: deletion! };
+}
+
+/** Call off the member's pending deletion. Returns null if there was none. */
+export async function cancelAccountDeletion(
+  userId: number,
+  now: Date = new Date(),
+): Promise<AccountDeletion | null> {
+  const [cancelled] = await db
+    .update(accountDeletions)
+    .set({ status: "cancelled", cancelledAt: now })
+    .where(and(eq(accountDeletions.userId, userId), eq(accountDeletions.status, "pending")))
+    .returning();
+  return cancelled ?? null;
+}
+
+// ─── Erasure ───
+
+/**
+ * Erase a member's personal data. Subscriptions still running are cancelled
+ * (and stopped at Easypay). Listening history, devices, notes, requests and
+ * sign-in data are deleted; the media access log entries are kept for the
+ * trail but no longer point at the member, and lose their IP addresses and
+ * device fingerprints. The users row stays, anonymized, because the
+ * subscription ledger, receipts and voucher redemptions must be retained for
+ * the accounts and still point at it.
+ */
+export async function eraseAccount(userId: number, now: Date = new Date()): Promise<void> {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { id: true, email: true },
+  });
+  if (!user) return;
+
+  const running = await db.query.subscriptions.findMany({
+    where: and(eq(subscriptions.userId, userId), inArray(subscriptions.status, ["active", "past_due"])),
+  });
+  for (const sub of running) {
+    if (sub.providerSubscriptionId && sub.source === "easypay" && !isEasypayMockMode()) {
+      await easypayFetch(`/subscription/${sub.providerSubscriptionId}`, {
+        method: "PATCH",
+        body: JSON.stringify({ status: "inactive" }),
+      }).catch((err) => {
+        console.error(`[Account deletion] Could not deactivate ${sub.providerSubscriptionId}:`, err);
+      });
+    }
+    await cancelSubscription(sub, { note: "Account deleted" });
+  }
+
+  await removeTwoFactor(userId);
+  await db.delete(refreshTokens).where(eq(refreshTokens.userId, userId));
+  await db.delete(deviceActivations).where(eq(deviceActivations.userId, userId));
+  await db.delete(magicLinkTokens).where(eq(magicLinkTokens.email, user.email));
+  await db.delete(userApprovalRequests).where(eq(userApprovalRequests.email, user.email));
+  await db.delete(emailChangeRequests).where(eq(emailChangeRequests.userId, userId));
+  await db.delete(userProgress).where(eq(userProgress.userId, userId));
+  await db.delete(bookmarks).where(eq(bookmarks.userId, userId));
+  await db.delete(userNotes).where(eq(userNotes.userId, userId));
+  await db.delete(userGroupMemberships).where(eq(userGroupMemberships.userId, userId));
+  await db.delete(userEventAttendance).where(eq(userEventAttendance.userId, userId));
+  await db.delete(eventAccessRequests).where(eq(eventAccessRequests.userId, userId));
+  await db.delete(downloadRequests).where(eq(downloadRequests.userId, userId));
+  await db
+    .update(mediaAccessLog)
+    .set({ userId: null, ipAddress: null, deviceFingerprint: null })
+    .where(eq(mediaAccessLog.userId, userId));
+
+  await db
+    .update(users)
+    .set({
+      email: `deleted-${userId}@deleted.invalid`,
+      passwordHash: null,
+      firstName: null,
+      lastName: null,
+      dharmaName: null,
+      isActive: false,
+      isVerified: false,
+      subscriptionNotes: null,
+      easypaySubscriptionId: null,
+      lastActivity: null,
+      updatedAt: now,
+    })
+    .where(eq(users.id, userId));
+  await revokeUserSessions(userId, now);
+}
+
+/** Erase every account whose cooling-off period has ended. */
+export async function processAccountDeletions(now: Date = new Date()): Promise<{ erased: number }> {
+  const due = await db.query.accountDeletions.findMany({
+    where: and(eq(accountDeletions.status, "pending"), lte(accountDeletions.scheduledFor, now)),
+  });
+
+  let erased = 0;
+  for (const deletion of due) {
+    // A user an admin removed outright has nothing left to erase
+    if (deletion.userId) await eraseAccount(deletion.userId, now);
+    await db
+      .update(accountDeletions)
+      .set({ status: "completed", completedAt: now })
+      .where(eq(accountDeletions.id, deletion.id));
+    erased++;
+  }
+  return { erased };
+}
+
+export const accountDeletionJob: ScheduledJob = {
+  name: "account-deletion",
+  intervalMs: 60 * 60 * 1000, // hourly
+  run: () => processAccountDeletions(),
+};
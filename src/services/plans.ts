@@ -0,0 +1,47 @@
+import { eq, asc } from "drizzle-orm";
+import { db } from "../db/index.ts";
+import { plans } from "../db/schema/plans.ts";
+
+export type Plan = typeof plans.$inferSelect;
+
+/**
+ * The end of one paid period of `frequency` starting at `from`: "1M" is a
+ * calendar month, "1Y" a calendar year.
+ */
+export function periodEndFor(frequency: string, from: Date = new Date()): Date {
+  const match = /^(\d+)([MY])$/.exec(frequency);
+  if (!match) throw new Error(`Unknown plan frequency: ${frequency}`);
+  const count = parseInt(match[1]!, 10);
+  const end = new Date(from);
+  if (match[2] === "Y") end.setFullYear(end.getFullYear() + count);
+  else end.setMonth(end.getMonth() + count);
+  return end;
+}
+
+export async function findPlan(id: number): Promise<Plan | null> {
+  const plan = await db.query.plans.findFirst({ where: eq(plans.id, id) });
+  return plan ?? null;
+}
+
+/** Plans open to new subscribers, in display order. */
+export async function listActivePlans(): Promise<Plan[]> {
+  return db.query.plans.findMany({
+    where: eq(plans.isActive, true),
+    orderBy: [asc(plans.displayOrder), asc(plans.id)],
+  });
+}
+
+/** The plan for a subscriber who does not choose one: the first active plan. */
+export async function findDefaultPlan(): Promise<Plan | null> {
+  const [plan] = await listActivePlans();
+  return plan ?? null;
+}
+
+/**
+ * The plan a subscription is billed on. Subscriptions from before plans
+ * existed have none and are billed on the default plan.
+ */
+export async function planForSubscription(sub: { planId: number | null }): Promise<Plan | null> {
+  if (sub.planId) return findPlan(sub.planId);
+  return findDefaultPlan();
+}
@@ -0,0 +1,124 @@
+import { lte, sql } from "drizzle-orm";
+import { db } from "../db/index.ts";
+import { rateLimitBuckets } from "../db/schema/rate-limits.ts";
+import { config } from "../config.ts";
+import type { ScheduledJob } from "./scheduler.ts";
+
+/** How many requests a key has made in its current window, and when the window ends. */
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * Where request counts live. Windows are fixed: the first hit on a key (or
+ * the first after its window ended) opens a window of `windowMs`.
+ */
+export interface RateLimitStore {
+  hit(key: string, windowMs: number, now?: Date): Promise<RateLimitHit>;
+  /** Drop keys whose window has ended; returns how many were dropped. */
+  prune(now?: Date): Promise<number>;
+}
+
+// ─── Limits ───
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/** Parse a limit written as "<requests>/<window>", e.g. "5/15m" or "3/1d". */
+export function parseLimit(spec: string): { limit: number; windowMs: number } {
+  const match = /^(\d+)\/(\d+)([smhd])$/.exec(spec.trim());
+  if (!match) throw new Error(`Invalid rate limit: ${spec}`);
+  return {
+    limit: parseInt(match[1]!, 10),
+    windowMs: parseInt(match[2]!, 10) * UNIT_MS[match[3]!]!,
+  };
+}
+
+// ─── Stores ───
+
+/** Counts kept in this process. Fine for a single instance; lost on restart. */
+export function createMemoryStore(): RateLimitStore {
+  const buckets = new Map<string, RateLimitHit>();
+
+  async function prune(now: Date = new Date()): Promise<number> {
+    let dropped = 0;
+    for (const [key, bucket] of buckets) {
+      if (bucket.resetAt <= now) {
+        buckets.delete(key);
+        dropped++;
+      }
+    }
+    return dropped;
+  }
+
+  return {
+    async hit(key, windowMs, now = new Date()) {
+      let bucket = buckets.get(key);
+      if (!bucket || bucket.resetAt <= now) {
+        // Keep the map from growing without bound between scheduled prunes
+        if (!bucket && buckets.size >= 10_000) await prune(now);
+        bucket = { count: 0, resetAt: new Date(now.getTime() + windowMs) };
+        buckets.set(key, bucket);
+      }
+      bucket.count++;
+      return { ...bucket };
+    },
+    prune,
+  };
+}
+
+/**
+ * Counts kept in rate_limit_buckets, shared by every instance. Each hit is a
+ * single upsert that either counts into the open window or starts a new one.
+ */
+export function createPostgresStore(): RateLimitStore {
+  return {
+    async hit(key, windowMs, now = new Date()) {
+      const resetAt = new Date(now.getTime() + windowMs);
+      const windowEnded = sql`${rateLimitBuckets.resetAt} <= ${now.toISOString()}::timestamptz`;
+      const [row] = await db
+        .insert(rateLimitBuckets)
+        .values({ key, count: 1, resetAt })
+        .onConflictDoUpdate({
+          target: rateLimitBuckets.key,
+          set: {
+            count: sql`case when ${windowEnded} then 1 else ${rateLimitBuckets.count} + 1 end`,
+            resetAt: sql`case when ${windowEnded} then ${resetAt.toISOString()}::timestamptz else ${rateLimitBuckets.resetAt} end`,
+          },
+        })
+        .returning({ count: rateLimitBuckets.count, resetAt: rateLimitBuckets.resetAt });
+      return row!;
+    },
+    async prune(now = new Date()) {
+      const dropped = await db
+        .delete(rateLimitBuckets)
+        .where(lte(rateLimitBuckets.resetAt, now))
+        .returning({ key: rateLimitBuckets.key });
+      return dropped.length;
+    },
+  };
+}
+
+let store: RateLimitStore | null = null;
+
+/** The store picked by RATE_LIMIT_STORE, created on first use. */
+export function getRateLimitStore(): RateLimitStore {
+  store ??= config.rateLimit.store === "postgres" ? createPostgresStore() : createMemoryStore();
+  return store;
+}
+
+/** Swap the store, e.g. for a fresh one in tests. */
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+export const rateLimitPruneJob: ScheduledJob = {
+  name: "rate-limit-prune",
+  intervalMs: 60 * 60 * 1000, // hourly
+  run: async () => ({ pruned: await getRateLimitStore().prune() }),
+};
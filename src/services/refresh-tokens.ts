@@ -0,0 +1,121 @@
+import { eq, and, isNull, lte } from "drizzle-orm";
+import { db } from "../db/index.ts";
+import { refreshTokens, deviceActivations } from "../db/schema/auth.ts";
+import { hashToken, refreshTokenExpiresAt } from "./auth.ts";
+import type { ScheduledJob } from "./scheduler.ts";
+
+export type RefreshToken = typeof refreshTokens.$inferSelect;
+
+/** The family a new token joins and the device session it belongs to. */
+export interface RefreshTokenLink {
+  familyId?: string;
+  deviceActivationId?: number | null;
+}
+
+export type ConsumeResult =
+  | { ok: true; token: RefreshToken }
+  | { ok: false; reason: "not_found" | "revoked" | "reused" };
+
+/**
+ * Store a newly signed refresh token. Without a `familyId` it starts a new
+ * family, as a login does. Returns the stored row.
+ */
+export async function storeRefreshToken(
+  userId: number,
+  token: string,
+  link: RefreshTokenLink = {},
+): Promise<RefreshToken> {
+  const [row] = await db
+    .insert(refreshTokens)
+    .values({
+      userId,
+      tokenHash: await hashToken(token),
+      familyId: link.familyId ?? crypto.randomUUID(),
+      deviceActivationId: link.deviceActivationId ?? null,
+      expiresAt: refreshTokenExpiresAt(),
+    })
+    .returning();
+  return row!;
+}
+
+/**
+ * Spend a refresh token so it can be exchanged exactly once. Used tokens are
+ * kept until they expire: presenting one again means it was copied, so the
+ * whole family is revoked and its device session deactivated.
+ */
+export async function consumeRefreshToken(token: string, now: Date = new Date()): Promise<ConsumeResult> {
+  const stored = await db.query.refreshTokens.findFirst({
+    where: eq(refreshTokens.tokenHash, await hashToken(token)),
+  });
+
+  if (!stored || stored.expiresAt <= now) return { ok: false, reason: "not_found" };
+  if (stored.revokedAt) return { ok: false, reason: "revoked" };
+
+  // Claiming the token in the update keeps two concurrent refreshes from both succeeding
+  const [claimed] = stored.usedAt
+    ? []
+    : await db
+        .update(refreshTokens)
+        .set({ usedAt: now })
+        .where(and(eq(refreshTokens.id, stored.id), isNull(refreshTokens.usedAt)))
+        .returning();
+
+  if (!claimed) {
+    await revokeFamily(stored, now);
+    return { ok: false, reason: "reused" };
+  }
+  return { ok: true, token: claimed };
+}
+
+/** Record which token replaced a consumed one. */
+export async function markReplaced(tokenId: number, replacedById: number): Promise<void> {
+  await db
+    .update(refreshTokens)
+    .set({ replacedById })
+    .where(eq(refreshTokens.id, tokenId));
+}
+
+async function revokeFamily(token: RefreshToken, now: Date): Promise<void> {
+  console.warn(
+    `[AUTH] Refresh token reuse for user ${token.userId} (family ${token.familyId}); revoking the family`,
+  );
+  await db
+    .update(refreshTokens)
+    .set({ revokedAt: now })
+    .where(and(eq(refreshTokens.familyId, token.familyId), isNull(refreshTokens.revokedAt)));
+
+  if (token.deviceActivationId !== null) {
+    await db
+      .update(deviceActivations)
+      .set({ isActive: false })
+      .where(eq(deviceActivations.id, token.deviceActivationId));
+  }
+}
+
+/** Revoke every refresh token issued to a device session, e.g. when it is forgotten. */
+export async function revokeDeviceTokens(deviceActivationId: number, now: Date = new Date()): Promise<void> {
+  await db
+    .update(refreshTokens)
+    .set({ revokedAt: now })
+    .where(and(eq(refreshTokens.deviceActivationId, deviceActivationId), isNull(refreshTokens.revokedAt)));
+}
+
+/** Revoke every refresh token a user holds, on all devices. */
+export async function revokeUserTokens(userId: number, now: Date = new Date()): Promise<void> {
+  await db
+    .update(refreshTokens)
+    .set({ revokedAt: now })
+    .where(and(eq(refreshTokens.userId, userId), isNull(refreshTokens.revokedAt)));
+}
+
+export const refreshTokenPruneJob: ScheduledJob = {
+  name: "refresh-token-prune",
+  intervalMs: 24 * 60 * 60 * 1000, // daily
+  run: async () => {
+    const pruned = await db
+      .delete(refreshTokens)
+      .where(lte(refreshTokens.expiresAt, new Date()))
+      .returning({ id: refreshTokens.id });
+    return { pruned: pruned.length };
+  },
+};
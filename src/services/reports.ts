@@ -0,0 +1,293 @@
+import { eq, and, or, gt, gte, lt, lte, inArray, isNotNull, sql } from "drizzle-orm";
+import { db } from "../db/index.ts";
+import { users } from "../db/schema/users.ts";
+import { plans } from "../db/schema/plans.ts";
+import { subscriptions, subscriptionLedger } from "../db/schema/subscriptions.ts";
+
+/**
+ * Figures for the admin reports area. Membership over time is rebuilt from
+ * the subscriptions table, the current split from the derived users columns,
+ * and revenue from the amounts recorded in the subscription ledger (Easypay
+ * charges and manual payments alike). Months are calendar months in UTC,
+ * keyed "YYYY-MM".
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ─── Months ───
+
+export function monthKey(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+export function monthStart(key: string): Date {
+  return new Date(`${key}-01T00:00:00Z`);
+}
+
+function nextMonthStart(key: string): Date {
+  const start = monthStart(key);
+  start.setUTCMonth(start.getUTCMonth() + 1);
+  return start;
+}
+
+/** Every month from `from` to `to`, both included. */
+export function monthRange(from: string, to: string): string[] {
+  const months: string[] = [];
+  for (let d = monthStart(from); d <= monthStart(to); d.setUTCMonth(d.getUTCMonth() + 1)) {
+    months.push(monthKey(d));
+  }
+  return months;
+}
+
+/** The last `count` months up to and including the one `now` is in. */
+export function lastMonths(count: number, now: Date = new Date()): { from: string; to: string } {
+  const from = monthStart(monthKey(now));
+  from.setUTCMonth(from.getUTCMonth() - (count - 1));
+  return { from: monthKey(from), to: monthKey(now) };
+}
+
+// ─── Subscribers over time ───
+
+export interface MembershipSpan {
+  userId: number;
+  startedAt: Date;
+  endedAt: Date | null; // null = still current
+}
+
+export interface MonthlySubscribers {
+  month: string;
+  active: number;
+  new: number;
+  churned: number;
+}
+
+/**
+ * When a subscription stopped giving access: when it was cancelled, or the
+ * end of its grace or paid period once expired. Null while it is current.
+ */
+export function subscriptionEndedAt(sub: {
+  status: string;
+  currentPeriodEnd: Date | null;
+  graceEndsAt: Date | null;
+  cancelledAt: Date | null;
+  updatedAt: Date;
+}): Date | null {
+  if (sub.status === "active" || sub.status === "past_due") return null;
+  if (sub.status === "cancelled") return sub.cancelledAt ?? sub.updatedAt;
+  return sub.graceEndsAt ?? sub.currentPeriodEnd ?? sub.updatedAt;
+}
+
+/**
+ * Join each member's overlapping spans, and spans less than a day apart, so
+ * switching how they pay is not counted as leaving and coming back.
+ */
+function mergeSpans(spans: MembershipSpan[]): MembershipSpan[] {
+  const byUser = new Map<number, MembershipSpan[]>();
+  for (const span of spans) {
+    const list = byUser.get(span.userId) ?? [];
+    list.push(span);
+    byUser.set(span.userId, list);
+  }
+
+  const merged: MembershipSpan[] = [];
+  for (const list of byUser.values()) {
+    list.sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+    let current: MembershipSpan | null = null;
+    for (const span of list) {
+      if (
+        current &&
+        (current.endedAt === null || span.startedAt.getTime() <= current.endedAt.getTime() + DAY_MS)
+      ) {
+        if (current.endedAt !== null && (span.endedAt === null || span.endedAt > current.endedAt)) {
+          current.endedAt = span.endedAt;
+        }
+      } else {
+        current = { ...span };
+        merged.push(current);
+      }
+    }
+  }
+  return merged;
+}
+
+/**
+ * Per month: members with access at the end of the month (or now, for the
+ * month in progress), memberships that started in it — including members
+ * coming back after a lapse — and memberships that ended in it.
+ */
+export function monthlySubscribers(
+  spans: MembershipSpan[],
+  months: string[],
+  now: Date = new Date(),
+): MonthlySubscribers[] {
+  const memberships = mergeSpans(spans);
+  return months.map((month) => {
+    const start = monthStart(month);
+    const end = nextMonthStart(month);
+    const at = end < now ? end : now;
+    let active = 0;
+    let started = 0;
+    let churned = 0;
+    for (const m of memberships) {
+      if (m.startedAt < at && (m.endedAt === null || m.endedAt >= at)) active++;
+      if (m.startedAt >= start && m.startedAt < end) started++;
+      if (m.endedAt !== null && m.endedAt >= start && m.endedAt < end && m.endedAt <= now) churned++;
+    }
+    return { month, active, new: started, churned };
+  });
+}
+
+export async function subscribersReport(
+  from: string,
+  to: string,
+  now: Date = new Date(),
+): Promise<MonthlySubscribers[]> {
+  const rows = await db
+    .select({
+      userId: subscriptions.userId,
+      status: subscriptions.status,
+      startedAt: subscriptions.startedAt,
+      currentPeriodEnd: subscriptions.currentPeriodEnd,
+      graceEndsAt: subscriptions.graceEndsAt,
+      cancelledAt: subscriptions.cancelledAt,
+      updatedAt: subscriptions.updatedAt,
+    })
+    .from(subscriptions)
+    .where(lt(subscriptions.startedAt, nextMonthStart(to)));
+
+  const spans = rows.map((row) => ({
+    userId: row.userId,
+    startedAt: row.startedAt,
+    endedAt: subscriptionEndedAt(row),
+  }));
+  return monthlySubscribers(spans, monthRange(from, to), now);
+}
+
+// ─── Current split by source ───
+
+export interface SourceSplit {
+  source: string;
+  active: number;
+  pastDue: number;
+  total: number;
+}
+
+/** Members with access right now, by how they pay. */
+export async function sourcesReport(): Promise<SourceSplit[]> {
+  const rows = await db
+    .select({
+      source: users.subscriptionSource,
+      status: users.subscriptionStatus,
+      count: sql<number>`count(*)::int`,
+    })
+    .from(users)
+    .where(inArray(users.subscriptionStatus, ["active", "past_due"]))
+    .groupBy(users.subscriptionSource, users.subscriptionStatus);
+
+  const bySource = new Map<string, SourceSplit>();
+  for (const row of rows) {
+    const source = row.source ?? "unknown";
+    const split = bySource.get(source) ?? { source, active: 0, pastDue: 0, total: 0 };
+    if (row.status === "past_due") split.pastDue += row.count;
+    else split.active += row.count;
+    split.total += row.count;
+    bySource.set(source, split);
+  }
+  return [...bySource.values()].sort((a, b) => b.total - a.total);
+}
+
+// ─── Upcoming expiries ───
+
+export interface UpcomingExpiry {
+  subscriptionId: number;
+  userId: number;
+  name: string;
+  email: string;
+  source: string;
+  status: string;
+  plan: string | null;
+  endsAt: Date;
+  renewsAutomatically: boolean;
+}
+
+/**
+ * Subscriptions whose access ends within `days`: the paid period for active
+ * ones, the grace period for those past due. Active Easypay subscriptions
+ * are expected to renew on their own; everything else needs a member or an
+ * admin to act.
+ */
+export async function expiriesReport(days: number, now: Date = new Date()): Promise<UpcomingExpiry[]> {
+  const until = new Date(now.getTime() + days * DAY_MS);
+  const subs = await db.query.subscriptions.findMany({
+    where: or(
+      and(
+        eq(subscriptions.status, "active"),
+        gt(subscriptions.currentPeriodEnd, now),
+        lte(subscriptions.currentPeriodEnd, until),
+      ),
+      and(
+        eq(subscriptions.status, "past_due"),
+        gt(subscriptions.graceEndsAt, now),
+        lte(subscriptions.graceEndsAt, until),
+      ),
+    ),
+    with: {
+      user: { columns: { id: true, email: true, firstName: true, lastName: true } },
+      plan: { columns: { nameEn: true } },
+    },
+  });
+
+  return subs
+    .map((sub) => ({
+      subscriptionId: sub.id,
+      userId: sub.userId,
+      name: [sub.user.firstName, sub.user.lastName].filter(Boolean).join(" ") || sub.user.email,
+      email: sub.user.email,
+      source: sub.source,
+      status: sub.status,
+      plan: sub.plan?.nameEn ?? null,
+      endsAt: (sub.status === "past_due" ? sub.graceEndsAt : sub.currentPeriodEnd)!,
+      renewsAutomatically: sub.source === "easypay" && sub.status === "active",
+    }))
+    .sort((a, b) => a.endsAt.getTime() - b.endsAt.getTime());
+}
+
+// ─── Revenue ───
+
+export interface RevenueRow {
+  month: string;
+  planId: number | null;
+  plan: string | null; // null for subscriptions without a plan (manual payments)
+  provider: string;
+  currency: string;
+  payments: number;
+  amountCents: number;
+}
+
+/** Money received per month, plan and payment source, from the ledger. */
+export async function revenueReport(from: string, to: string): Promise<RevenueRow[]> {
+  const month = sql<string>`to_char(${subscriptionLedger.occurredAt} at time zone 'UTC', 'YYYY-MM')`;
+  return db
+    .select({
+      month,
+      planId: subscriptions.planId,
+      plan: plans.nameEn,
+      provider: subscriptionLedger.provider,
+      currency: subscriptionLedger.currency,
+      payments: sql<number>`count(*)::int`,
+      amountCents: sql<number>`sum(${subscriptionLedger.amountCents})::int`,
+    })
+    .from(subscriptionLedger)
+    .leftJoin(subscriptions, eq(subscriptionLedger.subscriptionId, subscriptions.id))
+    .leftJoin(plans, eq(subscriptions.planId, plans.id))
+    .where(
+      and(
+        inArray(subscriptionLedger.type, ["activation", "renewal"]),
+        isNotNull(subscriptionLedger.amountCents),
+        gte(subscriptionLedger.occurredAt, monthStart(from)),
+        lt(subscriptionLedger.occurredAt, nextMonthStart(to)),
+      ),
+    )
+    .groupBy(month, subscriptions.planId, plans.nameEn, subscriptionLedger.provider, subscriptionLedger.currency)
+    .orderBy(month, plans.nameEn, subscriptionLedger.provider);
+}
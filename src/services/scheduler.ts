@@ -0,0 +1,62 @@
+import { eq } from "drizzle-orm";
+import { db } from "../db/index.ts";
+import { jobRuns } from "../db/schema/job-runs.ts";
+
+/** A background job run on a fixed interval. `run` reports what it did. */
+export interface ScheduledJob {
+  name: string;
+  intervalMs: number;
+  run: () => Promise<Record<string, unknown>>;
+}
+
+const running = new Set<string>();
+
+/**
+ * Run a job once and record the run in job_runs. Jobs must be safe to run
+ * more than once; a run still in progress in this process is not started
+ * again. Never throws.
+ */
+export async function runJob(job: ScheduledJob): Promise<Record<string, unknown> | null> {
+  if (running.has(job.name)) return null;
+  running.add(job.name);
+
+  let runId: number | undefined;
+  try {
+    const [run] = await db.insert(jobRuns).values({ job: job.name }).returning({ id: jobRuns.id });
+    runId = run?.id;
+
+    const result = await job.run();
+    if (runId) {
+      await db
+        .update(jobRuns)
+        .set({ status: "succeeded", result, finishedAt: new Date() })
+        .where(eq(jobRuns.id, runId));
+    }
+    return result;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Scheduler] Job ${job.name} failed:`, error);
+    if (runId) {
+      await db
+        .update(jobRuns)
+        .set({ status: "failed", error: message, finishedAt: new Date() })
+        .where(eq(jobRuns.id, runId))
+        .catch(() => {});
+    }
+    return null;
+  } finally {
+    running.delete(job.name);
+  }
+}
+
+/**
+ * Run each job now and then on its interval. Returns a function that stops
+ * the scheduler.
+ */
+export function startScheduler(jobs: ScheduledJob[]): () => void {
+  const timers = jobs.map((job) => {
+    void runJob(job);
+    return setInterval(() => void runJob(job), job.intervalMs);
+  });
+  return () => timers.forEach((timer) => clearInterval(timer));
+}
@@ -0,0 +1,67 @@
+import { eq, sql } from "drizzle-orm";
+import { db } from "../db/index.ts";
+import { users } from "../db/schema/users.ts";
+import { config } from "../config.ts";
+import { revokeUserTokens } from "./refresh-tokens.ts";
+
+/**
+ * Access tokens are stateless JWTs, so revoking them relies on the user's
+ * token version: every token carries the version it was issued under, and
+ * authMiddleware refuses tokens whose version is no longer current. The
+ * version (with isActive) is cached briefly so most requests skip the query.
+ */
+interface SessionState {
+  tokenVersion: number;
+  isActive: boolean;
+}
+
+const cache = new Map<number, { state: SessionState | null; expiresAt: number }>();
+/** Past this many entries, expired ones are dropped on the next lookup. */
+const CACHE_SWEEP_SIZE = 10_000;
+
+async function sessionState(userId: number, now = Date.now()): Promise<SessionState | null> {
+  const cached = cache.get(userId);
+  if (cached && cached.expiresAt > now) return cached.state;
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+    columns: { tokenVersion: true, isActive: true },
+  });
+  const state = user ?? null;
+
+  if (cache.size >= CACHE_SWEEP_SIZE) {
+    for (const [id, entry] of cache) {
+      if (entry.expiresAt <= now) cache.delete(id);
+    }
+  }
+  cache.set(userId, { state, expiresAt: now + config.jwt.sessionCacheSeconds * 1000 });
+  return state;
+}
+
+/**
+ * Whether a token issued under `tokenVersion` is still good: the user exists,
+ * is active, and has not been signed out everywhere since.
+ */
+export async function isSessionCurrent(userId: number, tokenVersion: number): Promise<boolean> {
+  const state = await sessionState(userId);
+  return !!state && state.isActive && state.tokenVersion === tokenVersion;
+}
+
+/** Drop a user's cached state so the next request reads it again. */
+export function forgetSession(userId: number): void {
+  cache.delete(userId);
+}
+
+/**
+ * Sign a user out everywhere: bump the token version, which invalidates every
+ * access and refresh token already issued, and revoke the stored refresh
+ * tokens. Used on deactivation, role changes and "sign out everywhere".
+ */
+export async function revokeUserSessions(userId: number, now: Date = new Date()): Promise<void> {
+  await db
+    .update(users)
+    .set({ tokenVersion: sql`${users.tokenVersion} + 1`, updatedAt: now })
+    .where(eq(users.id, userId));
+  await revokeUserTokens(userId, now);
+  forgetSession(userId);
+}
@@ -0,0 +1,222 @@
+import { eq, and, ne, gt, lte, isNotNull, inArray } from "drizzle-orm";
+import { db } from "../db/index.ts";
+import { users } from "../db/schema/users.ts";
+import { subscriptions, subscriptionReminders } from "../db/schema/subscriptions.ts";
+import { config } from "../config.ts";
+import { expireSubscription, markPastDue, type Subscription } from "./subscriptions.ts";
+import {
+  sendEmail,
+  buildSubscriptionReminderEmail,
+  buildManualRenewalDigestEmail,
+  buildPaymentFailedEmail,
+} from "./email.ts";
+import { adminRoles, can } from "./permissions.ts";
+import type { ScheduledJob } from "./scheduler.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Members are reminded this many days before their period ends. */
+const REMINDER_DAYS = 7;
+
+/** Sources an admin has to renew by hand. */
+const MANUAL_SOURCES = ["cash", "bank_transfer"];
+
+export type DunningStep = "dunning_first" | "dunning_reminder" | "dunning_final";
+
+export type ReminderKind = "expiry_7d" | "expiry_1d" | "manual_renewal" | DunningStep;
+
+export type SweepResult = {
+  expired: number;
+  pastDue: number;
+  reminded: number;
+  dunning: number;
+  manualRenewals: number;
+};
+
+/** Whole days left until `end`, rounded up. */
+export function daysUntil(end: Date, now: Date): number {
+  return Math.ceil((end.getTime() - now.getTime()) / DAY_MS);
+}
+
+/** The member reminder due for a period ending in `daysLeft` days. */
+export function reminderKindFor(daysLeft: number): ReminderKind {
+  return daysLeft <= 1 ? "expiry_1d" : "expiry_7d";
+}
+
+/**
+ * The payment-failed email due for a past-due subscription: the first one
+ * straight away, a reminder halfway through the grace period and a final
+ * notice on its last day. Only the latest due step is sent if the sweep
+ * missed earlier ones.
+ */
+export function dunningStepFor(pastDueSince: Date, graceEndsAt: Date, now: Date): DunningStep {
+  if (graceEndsAt.getTime() - now.getTime() <= DAY_MS) return "dunning_final";
+  const halfway = pastDueSince.getTime() + (graceEndsAt.getTime() - pastDueSince.getTime()) / 2;
+  return now.getTime() >= halfway ? "dunning_reminder" : "dunning_first";
+}
+
+/**
+ * Record a reminder as sent. Returns false if it already was, so each
+ * reminder goes out once per subscription period however often we sweep.
+ */
+async function claimReminder(
+  sub: Subscription,
+  kind: ReminderKind,
+  periodEnd: Date = sub.currentPeriodEnd!,
+): Promise<boolean> {
+  const [claimed] = await db
+    .insert(subscriptionReminders)
+    .values({ subscriptionId: sub.id, kind, periodEnd })
+    .onConflictDoNothing()
+    .returning({ id: subscriptionReminders.id });
+  return !!claimed;
+}
+
+/** Give a reminder back when it could not be sent, so the next sweep retries it. */
+async function releaseReminder(
+  sub: Subscription,
+  kind: ReminderKind,
+  periodEnd: Date = sub.currentPeriodEnd!,
+) {
+  await db
+    .delete(subscriptionReminders)
+    .where(
+      and(
+        eq(subscriptionReminders.subscriptionId, sub.id),
+        eq(subscriptionReminders.kind, kind),
+        eq(subscriptionReminders.periodEnd, periodEnd),
+      ),
+    );
+}
+
+const memberColumns = {
+  columns: { id: true, email: true, firstName: true, lastName: true, preferredLanguage: true, isActive: true },
+} as const;
+
+/**
+ * Close subscriptions whose period has ended, remind members whose
+ * subscription does not renew automatically, chase members whose renewal
+ * failed, and tell admins which cash and bank-transfer members need
+ * renewing. Safe to run any number of times.
+ */
+export async function sweepSubscriptions(now: Date = new Date()): Promise<SweepResult> {
+  const result: SweepResult = { expired: 0, pastDue: 0, reminded: 0, dunning: 0, manualRenewals: 0 };
+
+  // ─── Expire ───
+  // An Easypay period that ended without a renewal is treated as a failed
+  // renewal: the member gets the grace period instead of losing access
+  const overdue = await db.query.subscriptions.findMany({
+    where: and(
+      eq(subscriptions.status, "active"),
+      isNotNull(subscriptions.currentPeriodEnd),
+      lte(subscriptions.currentPeriodEnd, now),
+    ),
+  });
+  for (const sub of overdue) {
+    if (sub.source === "easypay") {
+      if (await markPastDue(sub, { note: "Period ended without a renewal" })) result.pastDue++;
+    } else if (await expireSubscription(sub, { note: "Period ended" })) {
+      result.expired++;
+    }
+  }
+
+  const graceOver = await db.query.subscriptions.findMany({
+    where: and(eq(subscriptions.status, "past_due"), lte(subscriptions.graceEndsAt, now)),
+  });
+  for (const sub of graceOver) {
+    if (await expireSubscription(sub, { note: "Grace period ended" })) result.expired++;
+  }
+
+  // ─── Chase failed renewals ───
+  const pastDue = await db.query.subscriptions.findMany({
+    where: and(eq(subscriptions.status, "past_due"), gt(subscriptions.graceEndsAt, now)),
+    with: { user: memberColumns },
+  });
+  for (const sub of pastDue) {
+    if (!sub.user.isActive || !sub.pastDueSince || !sub.graceEndsAt) continue;
+    const step = dunningStepFor(sub.pastDueSince, sub.graceEndsAt, now);
+    if (!(await claimReminder(sub, step, sub.graceEndsAt))) continue;
+    try {
+      const { subject, html } = buildPaymentFailedEmail(
+        sub.user.preferredLanguage,
+        step,
+        sub.graceEndsAt,
+        `${config.urls.frontend}/subscription/update-payment`,
+      );
+      await sendEmail({ to: sub.user.email, subject, html });
+      result.dunning++;
+    } catch (error) {
+      console.error(`[Sweeper] Payment-failed email to ${sub.user.email} failed:`, error);
+      await releaseReminder(sub, step, sub.graceEndsAt);
+    }
+  }
+
+  // ─── Remind members ───
+  // Easypay renews on its own; everyone else has to act before the period ends
+  const upcoming = await db.query.subscriptions.findMany({
+    where: and(
+      eq(subscriptions.status, "active"),
+      ne(subscriptions.source, "easypay"),
+      gt(subscriptions.currentPeriodEnd, now),
+      lte(subscriptions.currentPeriodEnd, new Date(now.getTime() + REMINDER_DAYS * DAY_MS)),
+    ),
+    with: { user: memberColumns },
+  });
+
+  for (const sub of upcoming) {
+    if (!sub.user.isActive) continue;
+    const daysLeft = daysUntil(sub.currentPeriodEnd!, now);
+    const kind = reminderKindFor(daysLeft);
+    if (!(await claimReminder(sub, kind))) continue;
+    try {
+      const { subject, html } = buildSubscriptionReminderEmail(
+        sub.user.preferredLanguage,
+        sub.currentPeriodEnd!,
+        daysLeft,
+      );
+      await sendEmail({ to: sub.user.email, subject, html });
+      result.reminded++;
+    } catch (error) {
+      console.error(`[Sweeper] Reminder to ${sub.user.email} failed:`, error);
+      await releaseReminder(sub, kind);
+    }
+  }
+
+  // ─── Tell admins about manual renewals ───
+  const manual: typeof upcoming = [];
+  for (const sub of upcoming.filter((s) => MANUAL_SOURCES.includes(s.source))) {
+    if (await claimReminder(sub, "manual_renewal")) manual.push(sub);
+  }
+  if (manual.length > 0) {
+    // Every admin role that manages members, not only "admin"
+    const staffRoles = Object.keys(adminRoles).filter((role) => can(role, "users", "write"));
+    const admins = await db.query.users.findMany({
+      where: and(inArray(users.role, staffRoles), eq(users.isActive, true)),
+      columns: { email: true, preferredLanguage: true },
+    });
+    const members = manual.map((sub) => ({
+      name: [sub.user.firstName, sub.user.lastName].filter(Boolean).join(" ") || sub.user.email,
+      email: sub.user.email,
+      source: sub.source,
+      expiresAt: sub.currentPeriodEnd!,
+    }));
+    try {
+      for (const admin of admins) {
+        const { subject, html } = buildManualRenewalDigestEmail(admin.preferredLanguage, members);
+        await sendEmail({ to: admin.email, subject, html });
+      }
+      result.manualRenewals = manual.length;
+    } catch (error) {
+      console.error("[Sweeper] Manual renewal digest failed:", error);
+      for (const sub of manual) await releaseReminder(sub, "manual_renewal");
+    }
+  }
+
+  return result;
+}
+
+export const subscriptionSweepJob: ScheduledJob = {
+  name: "subscription-sweep",
+  intervalMs: 60 * 60 * 1000, // hourly
+  run: () => sweepSubscriptions(),
+};
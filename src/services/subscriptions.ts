@@ -0,0 +1,335 @@
+import { eq, and, desc, inArray } from "drizzle-orm";
+import { db, type Executor } from "../db/index.ts";
+import { config } from "../config.ts";
+import { users } from "../db/schema/users.ts";
+import { subscriptions, subscriptionLedger } from "../db/schema/subscriptions.ts";
+
+export type SubscriptionSource = "easypay" | "cash" | "admin" | "bank_transfer" | "voucher";
+
+export type LedgerEntryType =
+  | "activation"
+  | "renewal"
+  | "charge_failed"
+  | "past_due"
+  | "cancellation"
+  | "expiry"
+  | "adjustment";
+
+export type Subscription = typeof subscriptions.$inferSelect;
+
+/** What the ledger records about a change, beyond its type. */
+export interface LedgerDetails {
+  amountCents?: number | null;
+  currency?: string;
+  providerReference?: string | null;
+  note?: string | null;
+  recordedById?: number | null;
+  occurredAt?: Date;
+}
+
+/** The users.subscription* columns, as derived from a user's subscriptions. */
+export interface SubscriptionState {
+  subscriptionStatus: "active" | "past_due" | "expired" | "none";
+  subscriptionSource: string | null;
+  subscriptionExpiresAt: Date | null;
+  easypaySubscriptionId: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** When access ends: the period end, or the grace end while past due. */
+function accessEndsAt(sub: Subscription): Date | null {
+  return sub.status === "past_due" ? sub.graceEndsAt : sub.currentPeriodEnd;
+}
+
+function isCurrent(sub: Subscription, now: Date): boolean {
+  if (sub.status !== "active" && sub.status !== "past_due") return false;
+  const end = accessEndsAt(sub);
+  return !end || end > now;
+}
+
+/**
+ * Derive a user's subscription columns from their subscriptions. The current
+ * subscription with the latest access end wins (open-ended beats dated, and a
+ * paid-up one beats one past due); without one the user is "expired" if they
+ * ever subscribed, else "none".
+ */
+export function deriveSubscriptionState(
+  subs: Subscription[],
+  now: Date = new Date(),
+): SubscriptionState {
+  const current = subs
+    .filter((s) => isCurrent(s, now))
+    .sort((a, b) => {
+      if (a.status !== b.status) return a.status === "active" ? -1 : 1;
+      const aEnd = accessEndsAt(a)?.getTime() ?? Infinity;
+      const bEnd = accessEndsAt(b)?.getTime() ?? Infinity;
+      return bEnd - aEnd;
+    })[0];
+  const latest =
+    current ?? [...subs].sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())[0];
+
+  if (!latest) {
+    return {
+      subscriptionStatus: "none",
+      subscriptionSource: null,
+      subscriptionExpiresAt: null,
+      easypaySubscriptionId: null,
+    };
+  }
+  return {
+    subscriptionStatus: current ? (current.status === "past_due" ? "past_due" : "active") : "expired",
+    subscriptionSource: latest.source,
+    subscriptionExpiresAt: current ? accessEndsAt(current) : latest.currentPeriodEnd,
+    easypaySubscriptionId: latest.source === "easypay" ? latest.providerSubscriptionId : null,
+  };
+}
+
+/**
+ * Recompute users.subscription* from the subscriptions table. Called after
+ * every ledger write so access checks keep reading the user row.
+ */
+export async function syncUserSubscription(userId: number, tx: Executor = db): Promise<SubscriptionState> {
+  const subs = await tx.query.subscriptions.findMany({
+    where: eq(subscriptions.userId, userId),
+  });
+  const state = deriveSubscriptionState(subs);
+  await tx
+    .update(users)
+    .set({ ...state, updatedAt: new Date() })
+    .where(eq(users.id, userId));
+  return state;
+}
+
+async function appendLedger(
+  sub: Subscription,
+  type: LedgerEntryType,
+  details: LedgerDetails,
+  period: { start?: Date | null; end?: Date | null } = {},
+  tx: Executor = db,
+) {
+  await tx.insert(subscriptionLedger).values({
+    subscriptionId: sub.id,
+    userId: sub.userId,
+    type,
+    amountCents: details.amountCents ?? null,
+    currency: details.currency ?? "EUR",
+    provider: sub.source,
+    providerReference: details.providerReference ?? null,
+    periodStart: period.start ?? null,
+    periodEnd: period.end ?? null,
+    note: details.note ?? null,
+    recordedById: details.recordedById ?? null,
+    ...(details.occurredAt && { occurredAt: details.occurredAt }),
+  });
+}
+
+/** The user's most recently started active (or past due) subscription, if any. */
+export async function findActiveSubscription(userId: number, tx: Executor = db): Promise<Subscription | null> {
+  const subs = await tx.query.subscriptions.findMany({
+    where: and(eq(subscriptions.userId, userId), inArray(subscriptions.status, ["active", "past_due"])),
+    orderBy: [desc(subscriptions.startedAt)],
+  });
+  return subs[0] ?? null;
+}
+
+/** The user's subscriptions currently in their grace period. */
+export async function findPastDueSubscriptions(userId: number): Promise<Subscription[]> {
+  return db.query.subscriptions.findMany({
+    where: and(eq(subscriptions.userId, userId), eq(subscriptions.status, "past_due")),
+  });
+}
+
+/** The most recent subscription carrying this provider (Easypay) id, if any. */
+export async function findSubscriptionByProviderId(
+  providerSubscriptionId: string,
+): Promise<Subscription | null> {
+  const sub = await db.query.subscriptions.findFirst({
+    where: eq(subscriptions.providerSubscriptionId, providerSubscriptionId),
+    orderBy: [desc(subscriptions.startedAt)],
+  });
+  return sub ?? null;
+}
+
+/** Whether the subscription's ledger already records this provider transaction. */
+export async function hasLedgerReference(subscriptionId: number, providerReference: string): Promise<boolean> {
+  const entry = await db.query.subscriptionLedger.findFirst({
+    where: and(
+      eq(subscriptionLedger.subscriptionId, subscriptionId),
+      eq(subscriptionLedger.providerReference, providerReference),
+    ),
+    columns: { id: true },
+  });
+  return !!entry;
+}
+
+/**
+ * Start a new subscription and record the activation. Pass `tx` to make it
+ * part of a larger transaction.
+ */
+export async function activateSubscription(
+  userId: number,
+  source: SubscriptionSource,
+  periodEnd: Date | null,
+  details: LedgerDetails & { providerSubscriptionId?: string | null; planId?: number | null } = {},
+  tx: Executor = db,
+): Promise<Subscription> {
+  const now = details.occurredAt ?? new Date();
+  const [sub] = await tx
+    .insert(subscriptions)
+    .values({
+      userId,
+      source,
+      status: "active",
+      providerSubscriptionId: details.providerSubscriptionId ?? null,
+      planId: details.planId ?? null,
+      startedAt: now,
+      currentPeriodEnd: periodEnd,
+    })
+    .returning();
+  await appendLedger(sub!, "activation", details, { start: now, end: periodEnd }, tx);
+  await syncUserSubscription(userId, tx);
+  return sub!;
+}
+
+/**
+ * Extend a subscription to a new period end and record the renewal. A manual
+ * subscription paid for another way from now on can change `source` as well.
+ * Pass `tx` to make it part of a larger transaction.
+ */
+export async function renewSubscription(
+  sub: Subscription,
+  periodEnd: Date | null,
+  details: LedgerDetails & { source?: SubscriptionSource } = {},
+  tx: Executor = db,
+): Promise<void> {
+  const periodStart = sub.currentPeriodEnd ?? details.occurredAt ?? new Date();
+  const source = details.source ?? sub.source;
+  await tx
+    .update(subscriptions)
+    .set({
+      source,
+      status: "active",
+      currentPeriodEnd: periodEnd,
+      cancelledAt: null,
+      pastDueSince: null,
+      graceEndsAt: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(subscriptions.id, sub.id));
+  await appendLedger({ ...sub, source }, "renewal", details, { start: periodStart, end: periodEnd }, tx);
+  await syncUserSubscription(sub.userId, tx);
+}
+
+/**
+ * Record a charge the provider could not collect. The subscription itself is
+ * left as it is — the provider retries and reports the outcome separately.
+ */
+export async function recordFailedCharge(sub: Subscription, details: LedgerDetails = {}): Promise<void> {
+  await appendLedger(sub, "charge_failed", details);
+}
+
+/**
+ * A renewal failed: keep access for the grace period, counted from the end of
+ * the period already paid for, while the member is asked to pay. Only an
+ * active subscription moves to past due; returns whether this call moved it.
+ */
+export async function markPastDue(sub: Subscription, details: LedgerDetails = {}): Promise<boolean> {
+  const now = details.occurredAt ?? new Date();
+  const paidUntil = sub.currentPeriodEnd && sub.currentPeriodEnd > now ? sub.currentPeriodEnd : now;
+  const graceEndsAt = new Date(paidUntil.getTime() + config.subscriptions.graceDays * DAY_MS);
+  const moved = await db
+    .update(subscriptions)
+    .set({ status: "past_due", pastDueSince: now, graceEndsAt, updatedAt: now })
+    .where(and(eq(subscriptions.id, sub.id), eq(subscriptions.status, "active")))
+    .returning({ id: subscriptions.id });
+  if (moved.length === 0) return false;
+  await appendLedger(sub, "past_due", details, { start: sub.currentPeriodEnd, end: graceEndsAt });
+  await syncUserSubscription(sub.userId);
+  return true;
+}
+
+/**
+ * End a subscription (cancelled by the member, the provider or an admin).
+ */
+export async function cancelSubscription(sub: Subscription, details: LedgerDetails = {}): Promise<void> {
+  const now = details.occurredAt ?? new Date();
+  await db
+    .update(subscriptions)
+    .set({ status: "cancelled", cancelledAt: now, updatedAt: now })
+    .where(eq(subscriptions.id, sub.id));
+  await appendLedger(sub, "cancellation", details);
+  await syncUserSubscription(sub.userId);
+}
+
+/**
+ * Close a subscription whose period (or grace period) has run out and record
+ * the expiry. Only a current subscription is closed, so a repeated sweep
+ * records nothing; returns whether this call closed it.
+ */
+export async function expireSubscription(sub: Subscription, details: LedgerDetails = {}): Promise<boolean> {
+  const closed = await db
+    .update(subscriptions)
+    .set({ status: "expired", updatedAt: new Date() })
+    .where(and(eq(subscriptions.id, sub.id), inArray(subscriptions.status, ["active", "past_due"])))
+    .returning({ id: subscriptions.id });
+  if (closed.length === 0) return false;
+  await appendLedger(sub, "expiry", details, { end: sub.currentPeriodEnd });
+  await syncUserSubscription(sub.userId);
+  return true;
+}
+
+/**
+ * Admin correction of a user's subscription, as edited on the user screen.
+ * Starts a subscription when activating someone without one, ends the current
+ * one when setting them inactive (a user with history derives as "expired",
+ * never back to "none"), settles or starts a grace period when moving between
+ * active and past due, and otherwise adjusts it in place.
+ */
+export async function adjustSubscription(
+  userId: number,
+  change: {
+    status?: "active" | "past_due" | "expired" | "none";
+    source?: SubscriptionSource | null;
+    expiresAt?: Date | null;
+  },
+  details: LedgerDetails = {},
+): Promise<void> {
+  const current = await findActiveSubscription(userId);
+
+  if (change.status === "past_due") {
+    if (current?.status === "active") await markPastDue(current, details);
+    return;
+  }
+
+  if (change.status !== undefined && change.status !== "active") {
+    if (current) await cancelSubscription(current, details);
+    return;
+  }
+
+  // Reactivating or extending a member in their grace period settles it
+  if (current?.status === "past_due" && (change.status === "active" || change.expiresAt !== undefined)) {
+    const periodEnd = change.expiresAt !== undefined ? change.expiresAt : current.currentPeriodEnd;
+    await renewSubscription(current, periodEnd, details);
+    return;
+  }
+
+  if (!current) {
+    if (change.status === "active") {
+      await activateSubscription(userId, change.source ?? "admin", change.expiresAt ?? null, details);
+    }
+    return;
+  }
+
+  const periodEnd = change.expiresAt !== undefined ? change.expiresAt : current.currentPeriodEnd;
+  const source = change.source ?? current.source;
+  await db
+    .update(subscriptions)
+    .set({ source, currentPeriodEnd: periodEnd, updatedAt: new Date() })
+    .where(eq(subscriptions.id, current.id));
+  await appendLedger({ ...current, source }, "adjustment", details, {
+    start: current.currentPeriodEnd,
+    end: periodEnd,
+  });
+  await syncUserSubscription(userId);
+}
@@ -0,0 +1,262 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { eq, and, or, lt, isNull } from "drizzle-orm";
+import QRCode from "qrcode";
+import { db } from "../db/index.ts";
+import { userTwoFactor, twoFactorBackupCodes } from "../db/schema/auth.ts";
+import { config } from "../config.ts";
+import { hashToken } from "./auth.ts";
+
+/** TOTP parameters (RFC 6238 defaults, which every authenticator app supports). */
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+/** Codes from one step before or after are accepted, to allow for clock drift. */
+const DRIFT_STEPS = 1;
+const BACKUP_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  required: boolean;
+  backupCodesRemaining: number;
+}
+
+export interface Provisioning {
+  secret: string;
+  otpauthUrl: string;
+  /** The otpauth URL as a PNG data URL, for scanning with an authenticator app. */
+  qrCode: string;
+}
+
+export type EnrollResult =
+  | { ok: true; backupCodes: string[] }
+  | { ok: false; reason: "not_started" | "already_enabled" | "invalid_code" };
+
+// ─── TOTP ───
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let out = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      out += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) out += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return out;
+}
+
+export function base32Decode(text: string): Buffer {
+  const clean = text.toUpperCase().replace(/=+$/, "").replace(/\s/g, "");
+  let bits = 0;
+  let value = 0;
+  const out: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character: ${char}`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      out.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(out);
+}
+
+/** A new random secret (160 bits, base32 as authenticator apps expect). */
+export function generateSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+export function timeStep(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / STEP_SECONDS);
+}
+
+/** The code for a secret at a time step (HOTP with the step as counter, RFC 4226). */
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1]! & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+/**
+ * The time step a code matches, within the allowed drift, or null. Steps
+ * up to `lastUsedStep` are refused so an observed code cannot be replayed.
+ */
+export function matchTotp(
+  secret: string,
+  code: string,
+  now: Date = new Date(),
+  lastUsedStep: number | null = null,
+): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+  const current = timeStep(now);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if (timingSafeEqual(Buffer.from(totpCode(secret, step)), Buffer.from(normalized))) return step;
+  }
+  return null;
+}
+
+export function otpauthUrl(email: string, secret: string): string {
+  const issuer = config.twoFactor.issuer;
+  const label = encodeURIComponent(`${issuer}:${email}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+// ─── Policy ───
+
+/** Whether accounts with this role must use a second factor for password logins. */
+export function twoFactorRequiredFor(role: string): boolean {
+  return config.twoFactor.requiredRoles
+    .split(",")
+    .map((r) => r.trim())
+    .includes(role);
+}
+
+export async function getTwoFactorStatus(user: { id: number; role: string }): Promise<TwoFactorStatus> {
+  const [record, codes] = await Promise.all([
+    db.query.userTwoFactor.findFirst({ where: eq(userTwoFactor.userId, user.id) }),
+    db.query.twoFactorBackupCodes.findMany({
+      where: and(eq(twoFactorBackupCodes.userId, user.id), isNull(twoFactorBackupCodes.usedAt)),
+      columns: { id: true },
+    }),
+  ]);
+  return {
+    enabled: !!record?.confirmedAt,
+    required: twoFactorRequiredFor(user.role),
+    backupCodesRemaining: codes.length,
+  };
+}
+
+// ─── Enrollment ───
+
+/**
+ * Start (or restart) enrollment with a fresh secret. The secret only takes
+ * effect once confirmed with a code, so an abandoned enrollment is harmless.
+ */
+export async function startEnrollment(
+  user: { id: number; email: string },
+): Promise<Provisioning | null> {
+  const existing = await db.query.userTwoFactor.findFirst({
+    where: eq(userTwoFactor.userId, user.id),
+  });
+  if (existing?.confirmedAt) return null;
+
+  const secret = generateSecret();
+  await db
+    .insert(userTwoFactor)
+    .values({ userId: user.id, secret })
+    .onConflictDoUpdate({
+      target: userTwoFactor.userId,
+      set: { secret, confirmedAt: null, lastUsedStep: null, createdAt: new Date() },
+    });
+
+  const url = otpauthUrl(user.email, secret);
+  return { secret, otpauthUrl: url, qrCode: await QRCode.toDataURL(url) };
+}
+
+/** Finish enrollment with a code from the app; returns the first set of backup codes. */
+export async function confirmEnrollment(
+  userId: number,
+  code: string,
+  now: Date = new Date(),
+): Promise<EnrollResult> {
+  const record = await db.query.userTwoFactor.findFirst({
+    where: eq(userTwoFactor.userId, userId),
+  });
+  if (!record) return { ok: false, reason: "not_started" };
+  if (record.confirmedAt) return { ok: false, reason: "already_enabled" };
+
+  const step = matchTotp(record.secret, code, now);
+  if (step === null) return { ok: false, reason: "invalid_code" };
+
+  await db
+    .update(userTwoFactor)
+    .set({ confirmedAt: now, lastUsedStep: step })
+    .where(eq(userTwoFactor.userId, userId));
+  return { ok: true, backupCodes: await replaceBackupCodes(userId) };
+}
+
+/** Generate a new set of backup codes, invalidating the previous ones. */
+export async function replaceBackupCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  await db.delete(twoFactorBackupCodes).where(eq(twoFactorBackupCodes.userId, userId));
+  await db.insert(twoFactorBackupCodes).values(
+    await Promise.all(codes.map(async (code) => ({ userId, codeHash: await hashToken(code) }))),
+  );
+  return codes;
+}
+
+/** Remove the second factor and its backup codes (disabling, or recovery by a superadmin). */
+export async function removeTwoFactor(userId: number): Promise<void> {
+  await db.delete(twoFactorBackupCodes).where(eq(twoFactorBackupCodes.userId, userId));
+  await db.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+}
+
+// ─── Verification ───
+
+/**
+ * Check a second factor for an enrolled account: a TOTP code, or else an
+ * unused backup code, which is then spent. Returns false for anything else,
+ * including accounts that have not finished enrolling.
+ */
+export async function verifySecondFactor(
+  userId: number,
+  code: string,
+  now: Date = new Date(),
+): Promise<boolean> {
+  const record = await db.query.userTwoFactor.findFirst({
+    where: eq(userTwoFactor.userId, userId),
+  });
+  if (!record?.confirmedAt) return false;
+
+  const step = matchTotp(record.secret, code, now, record.lastUsedStep);
+  if (step !== null) {
+    // Claiming the step in the update keeps a concurrent login from using the same code
+    const [claimed] = await db
+      .update(userTwoFactor)
+      .set({ lastUsedStep: step })
+      .where(
+        and(
+          eq(userTwoFactor.userId, userId),
+          or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step)),
+        ),
+      )
+      .returning({ userId: userTwoFactor.userId });
+    return !!claimed;
+  }
+
+  const codeHash = await hashToken(code.trim().toLowerCase());
+  const [spent] = await db
+    .update(twoFactorBackupCodes)
+    .set({ usedAt: now })
+    .where(
+      and(
+        eq(twoFactorBackupCodes.userId, userId),
+        eq(twoFactorBackupCodes.codeHash, codeHash),
+        isNull(twoFactorBackupCodes.usedAt),
+      ),
+    )
+    .returning({ id: twoFactorBackupCodes.id });
+  return !!spent;
+}
@@ -0,0 +1,212 @@
+import { randomInt } from "crypto";
+import { eq, and, lt, sql } from "drizzle-orm";
+import { db } from "../db/index.ts";
+import { userEventAttendance } from "../db/schema/users.ts";
+import { vouchers, voucherEvents, voucherRedemptions } from "../db/schema/vouchers.ts";
+import {
+  activateSubscription,
+  renewSubscription,
+  findActiveSubscription,
+  type Subscription,
+} from "./subscriptions.ts";
+import { periodEndFor } from "./plans.ts";
+
+export type Voucher = typeof vouchers.$inferSelect;
+
+// No 0/O or 1/I, so codes survive being read aloud or copied by hand
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+/** A random code in the form XXXX-XXXX-XXXX. */
+export function generateVoucherCode(): string {
+  const groups = Array.from({ length: 3 }, () =>
+    Array.from({ length: 4 }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join(""),
+  );
+  return groups.join("-");
+}
+
+/** Codes are matched case-insensitively and ignoring spaces. */
+export function normalizeVoucherCode(code: string): string {
+  return code.toUpperCase().replace(/\s+/g, "");
+}
+
+// ─── Creation ───
+
+export interface VoucherTerms {
+  months?: number | null;
+  eventIds?: number[];
+  maxRedemptions?: number;
+  expiresAt?: Date | null;
+  batchLabel?: string | null;
+  note?: string | null;
+  createdById?: number | null;
+}
+
+/**
+ * Create `quantity` vouchers on the same terms. A custom `code` is only used
+ * for a single voucher; batches always get generated codes.
+ */
+export async function createVouchers(
+  terms: VoucherTerms,
+  quantity = 1,
+  code?: string,
+): Promise<Voucher[]> {
+  const codes =
+    code && quantity === 1
+      ? [normalizeVoucherCode(code)]
+      : Array.from({ length: quantity }, generateVoucherCode);
+
+  const created = await db
+    .insert(vouchers)
+    .values(
+      codes.map((c) => ({
+        code: c,
+        batchLabel: terms.batchLabel ?? null,
+        months: terms.months ?? null,
+        maxRedemptions: terms.maxRedemptions ?? 1,
+        expiresAt: terms.expiresAt ?? null,
+        note: terms.note ?? null,
+        createdById: terms.createdById ?? null,
+      })),
+    )
+    .returning();
+
+  const eventIds = terms.eventIds ?? [];
+  if (eventIds.length > 0) {
+    await db
+      .insert(voucherEvents)
+      .values(created.flatMap((v) => eventIds.map((eventId) => ({ voucherId: v.id, eventId }))));
+  }
+  return created;
+}
+
+// ─── Redemption ───
+
+export type RedeemFailure =
+  | "not_found"
+  | "inactive"
+  | "expired"
+  | "exhausted"
+  | "already_redeemed"
+  | "subscription_active";
+
+export type RedeemResult =
+  | {
+      ok: true;
+      voucherId: number;
+      months: number | null;
+      subscriptionExpiresAt: Date | null;
+      eventIds: number[];
+    }
+  | { ok: false; reason: RedeemFailure };
+
+/**
+ * Why a voucher cannot be redeemed right now, if it cannot. The usage limit
+ * is checked again atomically when the redemption is claimed.
+ */
+function unavailableReason(voucher: Voucher, now: Date): RedeemFailure | null {
+  if (!voucher.isActive) return "inactive";
+  if (voucher.expiresAt && voucher.expiresAt <= now) return "expired";
+  if (voucher.redemptionCount >= voucher.maxRedemptions) return "exhausted";
+  return null;
+}
+
+/**
+ * Months are added to a manual subscription the member already holds (from
+ * the later of now and its current end). An Easypay subscription, or an
+ * open-ended one, cannot be extended this way.
+ */
+function canExtend(current: Subscription | null): boolean {
+  return !current || (current.source !== "easypay" && current.currentPeriodEnd !== null);
+}
+
+/**
+ * Redeem a voucher for a member: record the redemption, then add its months
+ * to their subscription, which takes source "voucher", and grant its events
+ * (grant source "voucher"). A grant the member already has for one of the
+ * events is kept, but left open-ended so a lapsed or future window no longer
+ * stands in the way. The redemption, the subscription and the grants are
+ * written together or not at all.
+ */
+export async function redeemVoucher(
+  userId: number,
+  rawCode: string,
+  now: Date = new Date(),
+): Promise<RedeemResult> {
+  const code = normalizeVoucherCode(rawCode);
+  const voucher = await db.query.vouchers.findFirst({
+    where: eq(vouchers.code, code),
+    with: { events: true },
+  });
+  if (!voucher) return { ok: false, reason: "not_found" };
+
+  const unavailable = unavailableReason(voucher, now);
+  if (unavailable) return { ok: false, reason: unavailable };
+
+  const current = voucher.months ? await findActiveSubscription(userId) : null;
+  if (voucher.months && !canExtend(current)) return { ok: false, reason: "subscription_active" };
+
+  return db.transaction(async (tx): Promise<RedeemResult> => {
+    const [redemption] = await tx
+      .insert(voucherRedemptions)
+      .values({ voucherId: voucher.id, userId, redeemedAt: now })
+      .onConflictDoNothing()
+      .returning();
+    if (!redemption) return { ok: false, reason: "already_redeemed" };
+
+    // Claim a use only while uses remain, so concurrent redemptions cannot exceed the limit
+    const claimed = await tx
+      .update(vouchers)
+      .set({ redemptionCount: sql`${vouchers.redemptionCount} + 1`, updatedAt: now })
+      .where(and(eq(vouchers.id, voucher.id), lt(vouchers.redemptionCount, vouchers.maxRedemptions)))
+      .returning({ id: vouchers.id });
+    if (claimed.length === 0) {
+      await tx.delete(voucherRedemptions).where(eq(voucherRedemptions.id, redemption.id));
+      return { ok: false, reason: "exhausted" };
+    }
+
+    const details = { providerReference: code, note: "Voucher redeemed", occurredAt: now };
+    let subscriptionExpiresAt: Date | null = null;
+    if (voucher.months) {
+      let sub: Subscription;
+      if (current) {
+        const from = current.currentPeriodEnd! > now ? current.currentPeriodEnd! : now;
+        subscriptionExpiresAt = periodEndFor(`${voucher.months}M`, from);
+        await renewSubscription(current, subscriptionExpiresAt, { ...details, source: "voucher" }, tx);
+        sub = current;
+      } else {
+        subscriptionExpiresAt = periodEndFor(`${voucher.months}M`, now);
+        sub = await activateSubscription(userId, "voucher", subscriptionExpiresAt, details, tx);
+      }
+      await tx
+        .update(voucherRedemptions)
+        .set({ subscriptionId: sub.id })
+        .where(eq(voucherRedemptions.id, redemption.id));
+    }
+
+    const eventIds = voucher.events.map((e) => e.eventId);
+    if (eventIds.length > 0) {
+      const { validFrom } = userEventAttendance;
+      await tx
+        .insert(userEventAttendance)
+        .values(
+          eventIds.map((eventId) => ({
+            userId,
+            eventId,
+            source: "voucher",
+            validFrom: now,
+            note: `Voucher ${code}`,
+          })),
+        )
+        .onConflictDoUpdate({
+          target: [userEventAttendance.userId, userEventAttendance.eventId],
+          // A window that has not started yet starts now; an open start stays open
+          set: {
+            validFrom: sql`case when ${validFrom} > ${now} then ${now} else ${validFrom} end`,
+            validUntil: null,
+          },
+        });
+    }
+
+    return { ok: true, voucherId: voucher.id, months: voucher.months, subscriptionExpiresAt, eventIds };
+  });
+}
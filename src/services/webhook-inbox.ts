@@ -0,0 +1,157 @@
+import { createHash } from "node:crypto";
+import { eq, and, or, inArray, lt, lte, isNull, asc } from "drizzle-orm";
+import { db } from "../db/index.ts";
+import { webhookInbox } from "../db/schema/webhook-inbox.ts";
+import { handleEasypayNotification, type EasypayNotification } from "./easypay.ts";
+
+export type InboxStatus = "pending" | "processing" | "processed" | "ignored" | "failed" | "dead";
+
+export type InboxEntry = typeof webhookInbox.$inferSelect;
+
+/** Delay before each retry; after the last one the entry is marked dead. */
+export const RETRY_DELAYS_MS = [
+  60_000, // 1 min
+  5 * 60_000, // 5 min
+  30 * 60_000, // 30 min
+  2 * 60 * 60_000, // 2 h
+  12 * 60 * 60_000, // 12 h
+];
+
+export const MAX_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+const RETRY_INTERVAL_MS = 60_000;
+
+/** A claim older than this died with the process that made it; the entry is taken up again. */
+export const PROCESSING_TIMEOUT_MS = 10 * 60_000;
+
+/**
+ * Stable id for a notification. Easypay resends the same payload on retry,
+ * so type, id, status and date identify it; without a date the whole payload
+ * is hashed.
+ */
+export function notificationIdFor(payload: EasypayNotification): string {
+  const { type, id, status, date } = payload;
+  const suffix = date ?? createHash("sha256").update(JSON.stringify(payload)).digest("hex").slice(0, 16);
+  return `${type ?? "unknown"}:${id ?? "none"}:${status ?? "none"}:${suffix}`;
+}
+
+/** When the next attempt is due after `attempts` failures, or null once exhausted. */
+export function nextAttemptAfter(attempts: number, now: Date = new Date()): Date | null {
+  const delay = RETRY_DELAYS_MS[attempts - 1];
+  return delay === undefined ? null : new Date(now.getTime() + delay);
+}
+
+/**
+ * Store a notification in the inbox. A notification already stored is not
+ * stored again; `duplicate` tells the caller it has been seen before.
+ */
+export async function storeNotification(
+  payload: EasypayNotification,
+  provider = "easypay",
+): Promise<{ entry: InboxEntry | null; duplicate: boolean }> {
+  const [entry] = await db
+    .insert(webhookInbox)
+    .values({
+      provider,
+      notificationId: notificationIdFor(payload),
+      payload: payload as Record<string, unknown>,
+    })
+    .onConflictDoNothing({ target: webhookInbox.notificationId })
+    .returning();
+  return { entry: entry ?? null, duplicate: !entry };
+}
+
+/** Entries left "processing" past the timeout, by a crash or a restart mid-notification. */
+function staleClaim(now: Date) {
+  return and(
+    eq(webhookInbox.status, "processing"),
+    or(
+      isNull(webhookInbox.claimedAt),
+      lt(webhookInbox.claimedAt, new Date(now.getTime() - PROCESSING_TIMEOUT_MS)),
+    ),
+  );
+}
+
+/**
+ * Process one inbox entry. The entry is claimed first (pending/failed →
+ * processing) so concurrent deliveries and the retry loop never apply the
+ * same notification twice; a claim that outlived PROCESSING_TIMEOUT_MS can be
+ * taken over. Failures are recorded with the next attempt time; never throws.
+ */
+export async function processInboxEntry(id: number): Promise<InboxStatus | null> {
+  const now = new Date();
+  const [claimed] = await db
+    .update(webhookInbox)
+    .set({ status: "processing", claimedAt: now })
+    .where(
+      and(
+        eq(webhookInbox.id, id),
+        or(inArray(webhookInbox.status, ["pending", "failed"]), staleClaim(now)),
+      ),
+    )
+    .returning();
+  if (!claimed) return null;
+
+  const attempts = claimed.attempts + 1;
+  try {
+    const outcome = await handleEasypayNotification(claimed.payload as EasypayNotification);
+    await db
+      .update(webhookInbox)
+      .set({ status: outcome, attempts, lastError: null, nextAttemptAt: null, processedAt: now })
+      .where(eq(webhookInbox.id, id));
+    return outcome;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const nextAttemptAt = nextAttemptAfter(attempts, now);
+    const status: InboxStatus = nextAttemptAt ? "failed" : "dead";
+    console.error(`[WebhookInbox] Notification ${claimed.notificationId} failed (attempt ${attempts}):`, error);
+    await db
+      .update(webhookInbox)
+      .set({ status, attempts, lastError: message, nextAttemptAt })
+      .where(eq(webhookInbox.id, id));
+    return status;
+  }
+}
+
+/** Process every failed entry whose next attempt is due, and every stale claim. */
+export async function retryDueNotifications(now: Date = new Date()): Promise<number> {
+  const due = await db.query.webhookInbox.findMany({
+    where: or(
+      and(
+        eq(webhookInbox.status, "failed"),
+        or(isNull(webhookInbox.nextAttemptAt), lte(webhookInbox.nextAttemptAt, now)),
+      ),
+      staleClaim(now),
+    ),
+    orderBy: [asc(webhookInbox.receivedAt)],
+    limit: 50,
+  });
+  for (const entry of due) {
+    await processInboxEntry(entry.id);
+  }
+  return due.length;
+}
+
+/**
+ * Admin replay of a failed or dead entry: it gets a fresh set of attempts
+ * and is processed straight away. Returns null if it cannot be replayed.
+ */
+export async function replayNotification(id: number): Promise<InboxStatus | null> {
+  const [reset] = await db
+    .update(webhookInbox)
+    .set({ status: "pending", attempts: 0, nextAttemptAt: null })
+    .where(and(eq(webhookInbox.id, id), inArray(webhookInbox.status, ["failed", "dead"])))
+    .returning();
+  if (!reset) return null;
+  return processInboxEntry(id);
+}
+
+/** Periodically retry failed notifications. Returns a function that stops the loop. */
+export function startWebhookRetryLoop(intervalMs = RETRY_INTERVAL_MS): () => void {
+  const timer = setInterval(() => {
+    retryDueNotifications().catch((error) => {
+      console.error("[WebhookInbox] Retry sweep failed:", error);
+    });
+  }, intervalMs);
+  return () => clearInterval(timer);
+}
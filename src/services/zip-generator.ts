@@ -1,7 +1,7 @@
 import archiver from "archiver";
 import { Readable } from "stream";
 import { db } from "../db/index.ts";
-import { downloadRequests, events, sessions, tracks } from "../db/schema/index.ts";
+import { downloadRequests, events, sessions, tracks, users } from "../db/schema/index.ts";
 import { eq, and } from "drizzle-orm";
 import {
   getObjectStream,
@@ -10,6 +10,8 @@ import {
   buildTrackS3Key,
   generatePresignedDownloadUrl,
 } from "./s3.ts";
+import { createAccessResolver } from "./access.ts";
+import { logMediaAccess, type MediaAccessContext } from "./media-access-log.ts";
 
 const ZIP_EXPIRY_HOURS = 24;
 const PROGRESS_UPDATE_INTERVAL = 5; // Update progress every N files
@@ -30,6 +32,7 @@ export async function generateRetreatZip(
   requestId: string,
   eventId: number,
   userId: number,
+  accessContext: MediaAccessContext = { deviceFingerprint: null, ipAddress: null },
 ): Promise<void> {
   try {
     console.log(`[ZIP] Starting generation for request ${requestId}, event ${eventId}`);
@@ -44,14 +47,17 @@ export async function generateRetreatZip(
       })
       .where(eq(downloadRequests.id, requestId));
 
-    // Fetch event with all tracks
+    // Fetch event with all tracks (and the audiences that may restrict them)
     const eventData = await db.query.events.findFirst({
       where: eq(events.id, eventId),
       with: {
+        audience: true,
         sessions: {
           with: {
+            audience: true,
             tracks: {
               orderBy: (tracks, { asc }) => [asc(tracks.trackNumber)],
+              with: { audience: true },
             },
           },
           orderBy: (sessions, { asc }) => [asc(sessions.sessionDate)],
@@ -63,9 +69,20 @@ export async function generateRetreatZip(
       throw new Error(`Event ${eventId} not found`);
     }
 
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, userId),
+    });
+
+    if (!user) {
+      throw new Error(`User ${userId} not found`);
+    }
+
+    // Leave out sessions/tracks whose own audience the user does not satisfy
+    const visibleEvent = await createAccessResolver(user, [eventData]).lockRestricted(eventData);
+
     // Build flat list of tracks with session info
     const trackList: TrackInfo[] = [];
-    for (const session of eventData.sessions) {
+    for (const session of visibleEvent.sessions) {
       for (const track of session.tracks) {
         if (track.s3Key) {
           trackList.push({
@@ -198,6 +215,14 @@ export async function generateRetreatZip(
       })
       .where(eq(downloadRequests.id, requestId));
 
+    await logMediaAccess({
+      ...accessContext,
+      userId,
+      resourceType: "zip",
+      resourceId: requestId,
+      eventId,
+    });
+
     console.log(`[ZIP] Generation completed successfully for request ${requestId}`);
   } catch (error) {
     console.error(`[ZIP] Generation failed for request ${requestId}:`, error);
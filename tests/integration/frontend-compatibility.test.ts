@@ -29,6 +29,13 @@ vi.mock("../../src/db/index.ts", () => ({
   },
 }));
 
+// Every token counts as current; token versions are covered in tests/services/sessions.test.ts
+vi.mock("../../src/services/sessions.ts", () => ({
+  isSessionCurrent: vi.fn().mockResolvedValue(true),
+  revokeUserSessions: vi.fn().mockResolvedValue(undefined),
+  forgetSession: vi.fn(),
+}));
+
 // Mock email service
 vi.mock("../../src/services/email.ts", () => ({
   sendEmail: vi.fn().mockResolvedValue(undefined),
@@ -44,7 +51,8 @@ import { db } from "../../src/db/index.ts";
 function mockInsertChain(returning?: any[]) {
   const chain = {
     values: vi.fn().mockReturnThis(),
-    returning: vi.fn().mockResolvedValue(returning ?? []),
+    // Stored refresh tokens are read back for their id
+    returning: vi.fn().mockResolvedValue(returning ?? [{ id: 1 }]),
   };
   return chain;
 }
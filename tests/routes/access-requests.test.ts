@@ -0,0 +1,458 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { testJson } from "../helpers.ts";
+
+// Mock the database module before importing anything that uses it
+vi.mock("../../src/db/index.ts", () => {
+  const db: any = {
+    query: {
+      events: { findFirst: vi.fn() },
+      sessions: { findFirst: vi.fn() },
+      tracks: { findFirst: vi.fn() },
+      users: { findFirst: vi.fn() },
+      eventAccessRequests: { findFirst: vi.fn(), findMany: vi.fn() },
+      userEventAttendance: { findFirst: vi.fn() },
+    },
+    insert: vi.fn(),
+    update: vi.fn(),
+    select: vi.fn(),
+  };
+  db.transaction = vi.fn(async (run: (tx: any) => unknown) => run(db));
+  return { db };
+});
+
+// Every token counts as current; token versions are covered in tests/services/sessions.test.ts
+vi.mock("../../src/services/sessions.ts", () => ({
+  isSessionCurrent: vi.fn().mockResolvedValue(true),
+  revokeUserSessions: vi.fn().mockResolvedValue(undefined),
+  forgetSession: vi.fn(),
+}));
+
+// Mock email service
+vi.mock("../../src/services/email.ts", () => ({
+  sendEmail: vi.fn().mockResolvedValue(undefined),
+  buildAccessGrantedEmail: vi.fn().mockReturnValue({
+    subject: "Access request approved",
+    html: "<p>Approved</p>",
+  }),
+}));
+
+import { db } from "../../src/db/index.ts";
+import { createAccessToken } from "../../src/services/auth.ts";
+import { sendEmail, buildAccessGrantedEmail } from "../../src/services/email.ts";
+
+function mockUpdateChain(returning: any[] = [{ id: 1 }]) {
+  return {
+    set: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(returning),
+  };
+}
+
+function mockInsertChain(returning?: any[]) {
+  return {
+    values: vi.fn().mockReturnThis(),
+    onConflictDoUpdate: vi.fn().mockResolvedValue(undefined),
+    returning: vi.fn().mockResolvedValue(returning ?? []),
+  };
+}
+
+function mockCountChain(count: number) {
+  return vi.fn().mockReturnValue({
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockResolvedValue([{ count }]),
+    }),
+  });
+}
+
+async function adminHeader() {
+  const token = await createAccessToken({ sub: 100, email: "admin@test.com", role: "admin" });
+  return { Authorization: `Bearer ${token}` };
+}
+
+async function userHeader() {
+  const token = await createAccessToken({ sub: 1, email: "user@test.com", role: "user" });
+  return { Authorization: `Bearer ${token}` };
+}
+
+function mockUser(overrides: Record<string, any> = {}) {
+  return {
+    id: 1,
+    email: "user@test.com",
+    role: "user",
+    preferredLanguage: "en",
+    subscriptionStatus: "none",
+    subscriptionExpiresAt: null,
+    ...overrides,
+  };
+}
+
+function mockAccessRequest(overrides: Record<string, any> = {}) {
+  return {
+    id: 1,
+    userId: 1,
+    eventId: 7,
+    message: "I attended the initiation in 2019",
+    status: "pending",
+    adminMessage: null,
+    requestedAt: new Date(),
+    reviewedAt: null,
+    reviewedById: null,
+    user: mockUser(),
+    event: {
+      id: 7,
+      titleEn: "Spring Retreat",
+      titlePt: "Retiro da Primavera",
+      audience: { slug: "received-initiation" },
+    },
+    ...overrides,
+  };
+}
+
+describe("POST /api/events/:id/request-access", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (db.query.users.findFirst as any).mockResolvedValue(mockUser());
+    (db.query.userEventAttendance.findFirst as any).mockResolvedValue(null);
+  });
+
+  it("creates a pending request with the user's message", async () => {
+    (db.query.events.findFirst as any).mockResolvedValue({
+      id: 7,
+      audience: { slug: "available-on-request-only" },
+    });
+    (db.query.eventAccessRequests.findFirst as any).mockResolvedValue(null);
+    const insertChain = mockInsertChain([{ id: 12, status: "pending" }]);
+    (db.insert as any).mockReturnValue(insertChain);
+
+    const { status, body } = await testJson("/api/events/7/request-access", {
+      method: "POST",
+      headers: await userHeader(),
+      body: JSON.stringify({ message: "Please" }),
+    });
+
+    expect(status).toBe(201);
+    expect(body).toEqual({ request_id: 12, status: "pending" });
+    expect(insertChain.values).toHaveBeenCalledWith({ userId: 1, eventId: 7, message: "Please" });
+  });
+
+  it("returns the open request instead of creating a duplicate", async () => {
+    (db.query.events.findFirst as any).mockResolvedValue({
+      id: 7,
+      audience: { slug: "received-initiation" },
+    });
+    (db.query.eventAccessRequests.findFirst as any).mockResolvedValue({ id: 4, status: "pending" });
+
+    const { status, body } = await testJson("/api/events/7/request-access", {
+      method: "POST",
+      headers: await userHeader(),
+    });
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ request_id: 4, status: "pending" });
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+
+  it("rejects requests for other audiences", async () => {
+    (db.query.events.findFirst as any).mockResolvedValue({
+      id: 7,
+      audience: { slug: "free-subscribers" },
+    });
+
+    const { status, body } = await testJson("/api/events/7/request-access", {
+      method: "POST",
+      headers: await userHeader(),
+    });
+
+    expect(status).toBe(400);
+    expect(body.code).toBe("ACCESS_REQUEST_NOT_ALLOWED");
+  });
+
+  it("accepts requests for a session overridden to on-request", async () => {
+    (db.query.events.findFirst as any).mockResolvedValue({
+      id: 7,
+      audience: { slug: "free-subscribers" },
+    });
+    (db.query.sessions.findFirst as any).mockResolvedValue({
+      id: 12,
+      eventId: 7,
+      audience: { slug: "available-on-request-only" },
+    });
+    (db.query.eventAccessRequests.findFirst as any).mockResolvedValue(null);
+    const insertChain = mockInsertChain([{ id: 13, status: "pending" }]);
+    (db.insert as any).mockReturnValue(insertChain);
+
+    const { status, body } = await testJson("/api/events/7/request-access?sessionId=12", {
+      method: "POST",
+      headers: await userHeader(),
+    });
+
+    expect(status).toBe(201);
+    expect(body).toEqual({ request_id: 13, status: "pending" });
+  });
+
+  it("rejects requests for a track that is not restricted", async () => {
+    (db.query.events.findFirst as any).mockResolvedValue({
+      id: 7,
+      audience: { slug: "received-initiation" },
+    });
+    (db.query.tracks.findFirst as any).mockResolvedValue({
+      id: 40,
+      audience: { slug: "free-subscribers" },
+      session: { id: 12, eventId: 7, audience: null },
+    });
+
+    const { status, body } = await testJson("/api/events/7/request-access?trackId=40", {
+      method: "POST",
+      headers: await userHeader(),
+    });
+
+    expect(status).toBe(400);
+    expect(body.code).toBe("ACCESS_REQUEST_NOT_ALLOWED");
+  });
+
+  it("only accepts requests for published events", async () => {
+    (db.query.events.findFirst as any).mockResolvedValue(undefined);
+
+    const { status } = await testJson("/api/events/7/request-access", {
+      method: "POST",
+      headers: await userHeader(),
+    });
+
+    expect(status).toBe(404);
+    const { params } = new PgDialect().sqlToQuery(
+      (db.query.events.findFirst as any).mock.calls[0][0].where,
+    );
+    expect(params).toContain("published");
+  });
+
+  it("returns 409 when the user already has access", async () => {
+    (db.query.events.findFirst as any).mockResolvedValue({
+      id: 7,
+      audience: { slug: "received-initiation" },
+    });
+    (db.query.userEventAttendance.findFirst as any).mockResolvedValue({
+      validFrom: null,
+      validUntil: null,
+    });
+
+    const { status } = await testJson("/api/events/7/request-access", {
+      method: "POST",
+      headers: await userHeader(),
+    });
+
+    expect(status).toBe(409);
+  });
+});
+
+describe("Admin access request routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns 403 for non-admin user", async () => {
+    const { status } = await testJson("/api/admin/access-requests", {
+      headers: await userHeader(),
+    });
+    expect(status).toBe(403);
+  });
+
+  it("lists access requests", async () => {
+    (db.query.eventAccessRequests.findMany as any).mockResolvedValue([mockAccessRequest()]);
+    (db.select as any) = mockCountChain(1);
+
+    const { status, body } = await testJson(
+      "/api/admin/access-requests?_start=0&_end=25&_sort=requestedAt&_order=DESC",
+      { headers: await adminHeader() },
+    );
+
+    expect(status).toBe(200);
+    expect(body).toHaveLength(1);
+    expect(body[0].event.titleEn).toBe("Spring Retreat");
+  });
+
+  describe("POST /api/admin/access-requests/:id/approve", () => {
+    it("grants access, marks the request approved and emails the user", async () => {
+      (db.query.eventAccessRequests.findFirst as any).mockResolvedValue(
+        mockAccessRequest({ user: mockUser({ preferredLanguage: "pt" }) }),
+      );
+      const insertChain = mockInsertChain();
+      (db.insert as any).mockReturnValue(insertChain);
+      const updateChain = mockUpdateChain();
+      (db.update as any).mockReturnValue(updateChain);
+
+      const { status } = await testJson("/api/admin/access-requests/1/approve", {
+        method: "POST",
+        headers: await adminHeader(),
+        body: JSON.stringify({ validUntil: "2099-01-01T00:00:00.000Z" }),
+      });
+
+      expect(status).toBe(200);
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 1,
+          eventId: 7,
+          source: "initiation",
+          validUntil: new Date("2099-01-01T00:00:00.000Z"),
+          grantedById: 100,
+        }),
+      );
+      expect(updateChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "approved", reviewedById: 100 }),
+      );
+      expect(buildAccessGrantedEmail).toHaveBeenCalledWith(
+        "Retiro da Primavera",
+        "pt",
+        new Date("2099-01-01T00:00:00.000Z"),
+        undefined,
+      );
+      expect(sendEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ to: "user@test.com" }),
+      );
+    });
+
+    it("records on-request grants as admin grants", async () => {
+      (db.query.eventAccessRequests.findFirst as any).mockResolvedValue(
+        mockAccessRequest({
+          event: { id: 7, titleEn: "Talk", titlePt: null, audience: { slug: "available-on-request-only" } },
+        }),
+      );
+      const insertChain = mockInsertChain();
+      (db.insert as any).mockReturnValue(insertChain);
+      (db.update as any).mockReturnValue(mockUpdateChain());
+
+      await testJson("/api/admin/access-requests/1/approve", {
+        method: "POST",
+        headers: await adminHeader(),
+      });
+
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ source: "admin", validUntil: null }),
+      );
+    });
+
+    it("still approves when the email cannot be sent", async () => {
+      (db.query.eventAccessRequests.findFirst as any).mockResolvedValue(mockAccessRequest());
+      const insertChain = mockInsertChain();
+      (db.insert as any).mockReturnValue(insertChain);
+      (db.update as any).mockReturnValue(mockUpdateChain());
+      (sendEmail as any).mockRejectedValueOnce(new Error("SMTP down"));
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const { status } = await testJson("/api/admin/access-requests/1/approve", {
+        method: "POST",
+        headers: await adminHeader(),
+      });
+
+      expect(status).toBe(200);
+      expect(insertChain.values).toHaveBeenCalled();
+      expect(consoleSpy).toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it("rejects a validUntil in the past", async () => {
+      (db.query.eventAccessRequests.findFirst as any).mockResolvedValue(mockAccessRequest());
+
+      const { status, body } = await testJson("/api/admin/access-requests/1/approve", {
+        method: "POST",
+        headers: await adminHeader(),
+        body: JSON.stringify({ validUntil: "2000-01-01" }),
+      });
+
+      expect(status).toBe(400);
+      expect(body.code).toBe("INVALID_GRANT_WINDOW");
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+
+    it("returns 400 for already-processed request", async () => {
+      (db.query.eventAccessRequests.findFirst as any).mockResolvedValue(
+        mockAccessRequest({ status: "rejected" }),
+      );
+
+      const { status, body } = await testJson("/api/admin/access-requests/1/approve", {
+        method: "POST",
+        headers: await adminHeader(),
+      });
+
+      expect(status).toBe(400);
+      expect(body.error).toBe("Request already rejected");
+    });
+
+    it("returns 409 when another admin reviewed the request meanwhile", async () => {
+      (db.query.eventAccessRequests.findFirst as any).mockResolvedValue(mockAccessRequest());
+      const updateChain = mockUpdateChain([]);
+      (db.update as any).mockReturnValue(updateChain);
+
+      const { status } = await testJson("/api/admin/access-requests/1/approve", {
+        method: "POST",
+        headers: await adminHeader(),
+      });
+
+      expect(status).toBe(409);
+      const { params } = new PgDialect().sqlToQuery(updateChain.where.mock.calls[0]![0]);
+      expect(params).toContain("pending");
+      expect(db.insert).not.toHaveBeenCalled();
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /api/admin/access-requests/:id/reject", () => {
+    it("stores admin message on rejection", async () => {
+      (db.query.eventAccessRequests.findFirst as any).mockResolvedValue(mockAccessRequest());
+      const updateChain = mockUpdateChain();
+      (db.update as any).mockReturnValue(updateChain);
+
+      const { status } = await testJson("/api/admin/access-requests/1/reject", {
+        method: "POST",
+        headers: await adminHeader(),
+        body: JSON.stringify({ adminMessage: "No record of attendance" }),
+      });
+
+      expect(status).toBe(200);
+      expect(updateChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: "rejected",
+          adminMessage: "No record of attendance",
+          reviewedById: 100,
+        }),
+      );
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+
+    it("validates the admin message", async () => {
+      (db.query.eventAccessRequests.findFirst as any).mockResolvedValue(mockAccessRequest());
+
+      const { status } = await testJson("/api/admin/access-requests/1/reject", {
+        method: "POST",
+        headers: await adminHeader(),
+        body: JSON.stringify({ adminMessage: 42 }),
+      });
+
+      expect(status).toBe(400);
+      expect(db.update).not.toHaveBeenCalled();
+    });
+
+    it("returns 409 when another admin reviewed the request meanwhile", async () => {
+      (db.query.eventAccessRequests.findFirst as any).mockResolvedValue(mockAccessRequest());
+      (db.update as any).mockReturnValue(mockUpdateChain([]));
+
+      const { status } = await testJson("/api/admin/access-requests/1/reject", {
+        method: "POST",
+        headers: await adminHeader(),
+      });
+
+      expect(status).toBe(409);
+    });
+
+    it("returns 404 for non-existent request", async () => {
+      (db.query.eventAccessRequests.findFirst as any).mockResolvedValue(null);
+
+      const { status } = await testJson("/api/admin/access-requests/999/reject", {
+        method: "POST",
+        headers: await adminHeader(),
+      });
+
+      expect(status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { testJson } from "../helpers.ts";
+
+// Mock the database module before importing anything that uses it
+vi.mock("../../src/db/index.ts", () => ({
+  db: {
+    query: {
+      users: { findFirst: vi.fn() },
+      userTwoFactor: { findFirst: vi.fn() },
+      twoFactorBackupCodes: { findMany: vi.fn().mockResolvedValue([]) },
+    },
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+// Every token counts as current; token versions are covered in tests/services/sessions.test.ts
+vi.mock("../../src/services/sessions.ts", () => ({
+  isSessionCurrent: vi.fn().mockResolvedValue(true),
+  revokeUserSessions: vi.fn().mockResolvedValue(undefined),
+  forgetSession: vi.fn(),
+}));
+
+import { db } from "../../src/db/index.ts";
+import { createAccessToken } from "../../src/services/auth.ts";
+import { revokeUserSessions } from "../../src/services/sessions.ts";
+import { can, isAdminRole, permissionsFor } from "../../src/services/permissions.ts";
+
+async function headerFor(role: string) {
+  const token = await createAccessToken({ sub: 100, email: `${role}@test.com`, role });
+  return { Authorization: `Bearer ${token}` };
+}
+
+const member = { id: 1, email: "member@test.com", role: "user", isActive: true };
+
+describe("Admin roles", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (db.query.users.findFirst as any).mockResolvedValue(member);
+  });
+
+  it("grants reads with write access, but not the other way round", () => {
+    expect(can("secretary", "users", "write")).toBe(true);
+    expect(can("secretary", "events", "read")).toBe(true);
+    expect(can("secretary", "events", "write")).toBe(false);
+    expect(can("uploader", "events", "read")).toBe(false);
+    expect(can("admin", "migrations", "write")).toBe(true);
+    expect(permissionsFor("user")).toEqual({});
+    expect(isAdminRole("user")).toBe(false);
+    expect(isAdminRole("toString")).toBe(false);
+  });
+
+  it("keeps members out of the admin API", async () => {
+    const { status, body } = await testJson("/api/admin/users/1/two-factor", {
+      headers: await headerFor("user"),
+    });
+
+    expect(status).toBe(403);
+    expect(body.error).toBe("Admin access required");
+  });
+
+  it("lets a role into the areas it was given", async () => {
+    const { status } = await testJson("/api/admin/users/1/two-factor", {
+      headers: await headerFor("secretary"),
+    });
+
+    expect(status).toBe(200);
+  });
+
+  it("refuses areas the role was not given", async () => {
+    const { status, body } = await testJson("/api/admin/users/1/two-factor", {
+      headers: await headerFor("editor"),
+    });
+
+    expect(status).toBe(403);
+    expect(body.code).toBe("PERMISSION_DENIED");
+  });
+
+  it("refuses changes where the role may only read", async () => {
+    const { status, body } = await testJson("/api/admin/events/1", {
+      method: "DELETE",
+      headers: await headerFor("secretary"),
+    });
+
+    expect(status).toBe(403);
+    expect(body.code).toBe("PERMISSION_DENIED");
+  });
+
+  it("lets only roles with the roles permission change a user's role", async () => {
+    const { status, body } = await testJson("/api/admin/users/1", {
+      method: "PUT",
+      headers: await headerFor("secretary"),
+      body: JSON.stringify({ role: "superadmin" }),
+    });
+
+    expect(status).toBe(403);
+    expect(body.code).toBe("PERMISSION_DENIED");
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
+  it("lets only roles with the two-factor-reset permission reset a second factor", async () => {
+    const { status, body } = await testJson("/api/admin/users/1/two-factor", {
+      method: "DELETE",
+      headers: await headerFor("admin"),
+    });
+
+    expect(status).toBe(403);
+    expect(body.code).toBe("PERMISSION_DENIED");
+    expect(can("superadmin", "two-factor-reset", "write")).toBe(true);
+    expect(permissionsFor("admin")).not.toHaveProperty("two-factor-reset");
+  });
+});
+
+describe("Staff accounts", () => {
+  const staff = { id: 2, email: "admin2@test.com", role: "admin", isActive: true };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (db.query.users.findFirst as any).mockResolvedValue(staff);
+    (db.insert as any).mockReturnValue({ values: vi.fn().mockResolvedValue(undefined) });
+  });
+
+  it("cannot be deactivated by a role without the roles permission", async () => {
+    const { status, body } = await testJson("/api/admin/users/2", {
+      method: "PUT",
+      headers: await headerFor("secretary"),
+      body: JSON.stringify({ isActive: false }),
+    });
+
+    expect(status).toBe(403);
+    expect(body.code).toBe("PERMISSION_DENIED");
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
+  it("cannot be deleted by a role without the roles permission", async () => {
+    const { status, body } = await testJson("/api/admin/users/2", {
+      method: "DELETE",
+      headers: await headerFor("secretary"),
+    });
+
+    expect(status).toBe(403);
+    expect(body.code).toBe("PERMISSION_DENIED");
+    expect(db.delete).not.toHaveBeenCalled();
+  });
+
+  it("cannot be signed out by a role without the roles permission", async () => {
+    const { status, body } = await testJson("/api/admin/users/2/sign-out", {
+      method: "POST",
+      headers: await headerFor("secretary"),
+    });
+
+    expect(status).toBe(403);
+    expect(body.code).toBe("PERMISSION_DENIED");
+    expect(revokeUserSessions).not.toHaveBeenCalled();
+  });
+
+  it("cannot have their email moved by a role without the roles permission", async () => {
+    const { status, body } = await testJson("/api/admin/users/2/email-change", {
+      method: "POST",
+      headers: await headerFor("secretary"),
+      body: JSON.stringify({ email: "mine@test.com" }),
+    });
+
+    expect(status).toBe(403);
+    expect(body.code).toBe("PERMISSION_DENIED");
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+
+  it("cannot have their devices renamed or revoked by a role without the roles permission", async () => {
+    const rename = await testJson("/api/admin/users/2/devices/5", {
+      method: "PUT",
+      headers: await headerFor("secretary"),
+      body: JSON.stringify({ deviceName: "Stolen phone" }),
+    });
+    const revoke = await testJson("/api/admin/users/2/devices/5", {
+      method: "DELETE",
+      headers: await headerFor("secretary"),
+    });
+
+    expect(rename.status).toBe(403);
+    expect(revoke.status).toBe(403);
+    expect(revoke.body.code).toBe("PERMISSION_DENIED");
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
+  it("can be managed by roles with the roles permission", async () => {
+    (db.delete as any).mockReturnValue({
+      where: vi.fn().mockReturnThis(),
+      returning: vi.fn().mockResolvedValue([{ id: 2, email: staff.email }]),
+    });
+
+    const signOut = await testJson("/api/admin/users/2/sign-out", {
+      method: "POST",
+      headers: await headerFor("superadmin"),
+    });
+    const removal = await testJson("/api/admin/users/2", {
+      method: "DELETE",
+      headers: await headerFor("admin"),
+    });
+
+    expect(signOut.status).toBe(200);
+    expect(revokeUserSessions).toHaveBeenCalledWith(2);
+    expect(removal.status).toBe(200);
+  });
+
+  it("leaves members to the secretary", async () => {
+    (db.query.users.findFirst as any).mockResolvedValue(member);
+
+    const { status } = await testJson("/api/admin/users/1/sign-out", {
+      method: "POST",
+      headers: await headerFor("secretary"),
+    });
+
+    expect(status).toBe(200);
+    expect(revokeUserSessions).toHaveBeenCalledWith(1);
+  });
+});
@@ -14,6 +14,13 @@ vi.mock("../../src/db/index.ts", () => ({
   },
 }));
 
+// Every token counts as current; token versions are covered in tests/services/sessions.test.ts
+vi.mock("../../src/services/sessions.ts", () => ({
+  isSessionCurrent: vi.fn().mockResolvedValue(true),
+  revokeUserSessions: vi.fn().mockResolvedValue(undefined),
+  forgetSession: vi.fn(),
+}));
+
 // Mock email service
 vi.mock("../../src/services/email.ts", () => ({
   sendEmail: vi.fn().mockResolvedValue(undefined),
@@ -1,5 +1,5 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
-import { testJson } from "../helpers.ts";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { testJson, testRequest } from "../helpers.ts";
 
 // Mock the database module before importing anything that uses it
 vi.mock("../../src/db/index.ts", () => ({
@@ -10,7 +10,10 @@ vi.mock("../../src/db/index.ts", () => ({
       magicLinkTokens: { findFirst: vi.fn() },
       deviceActivations: { findFirst: vi.fn(), findMany: vi.fn().mockResolvedValue([]) },
       userApprovalRequests: { findFirst: vi.fn() },
+      emailChangeRequests: { findFirst: vi.fn() },
       userGroupMemberships: { findFirst: vi.fn(), findMany: vi.fn().mockResolvedValue([]) },
+      userTwoFactor: { findFirst: vi.fn() },
+      twoFactorBackupCodes: { findMany: vi.fn().mockResolvedValue([]) },
     },
     insert: vi.fn(),
     update: vi.fn(),
@@ -18,6 +21,13 @@ vi.mock("../../src/db/index.ts", () => ({
   },
 }));
 
+// Every token counts as current; token versions are covered in tests/services/sessions.test.ts
+vi.mock("../../src/services/sessions.ts", () => ({
+  isSessionCurrent: vi.fn().mockResolvedValue(true),
+  revokeUserSessions: vi.fn().mockResolvedValue(undefined),
+  forgetSession: vi.fn(),
+}));
+
 // Mock email service
 vi.mock("../../src/services/email.ts", () => ({
   sendEmail: vi.fn().mockResolvedValue(undefined),
@@ -25,29 +35,45 @@ vi.mock("../../src/services/email.ts", () => ({
     subject: "Your login link",
     html: "<p>Click here</p>",
   }),
+  buildEmailChangeConfirmationEmail: vi.fn().mockReturnValue({
+    subject: "Confirm your new email",
+    html: "<p>Confirm</p>",
+  }),
+  buildEmailChangedNoticeEmail: vi.fn().mockReturnValue({
+    subject: "Your email was changed",
+    html: "<p>Changed</p>",
+  }),
 }));
 
 import { db } from "../../src/db/index.ts";
+import { config } from "../../src/config.ts";
+import { sendEmail } from "../../src/services/email.ts";
+import { timeStep, totpCode } from "../../src/services/two-factor.ts";
+import { isSessionCurrent, revokeUserSessions } from "../../src/services/sessions.ts";
 import {
   hashPassword,
   createAccessToken,
   createRefreshToken,
   hashToken,
+  createTwoFactorToken,
+  verifyToken,
 } from "../../src/services/auth.ts";
 
 // Helper to create mock chain for insert/update/delete
 function mockInsertChain(returning?: any[]) {
   const chain = {
     values: vi.fn().mockReturnThis(),
-    returning: vi.fn().mockResolvedValue(returning ?? []),
+    // Stored refresh tokens are read back for their id
+    returning: vi.fn().mockResolvedValue(returning ?? [{ id: 1 }]),
   };
   return chain;
 }
 
-function mockUpdateChain() {
+function mockUpdateChain(returning?: any[]) {
   const chain = {
     set: vi.fn().mockReturnThis(),
-    where: vi.fn().mockResolvedValue(undefined),
+    where: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(returning ?? []),
   };
   return chain;
 }
@@ -64,6 +90,10 @@ describe("Auth routes", () => {
     vi.clearAllMocks();
   });
 
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
   describe("POST /api/auth/login", () => {
     it("returns 401 for non-existent user", async () => {
       (db.query.users.findFirst as any).mockResolvedValue(null);
@@ -177,6 +207,125 @@ describe("Auth routes", () => {
     });
   });
 
+  describe("Two-factor login", () => {
+    const secret = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+    const originalRequiredRoles = config.twoFactor.requiredRoles;
+
+    async function adminUser() {
+      return {
+        id: 1,
+        email: "admin@test.com",
+        passwordHash: await hashPassword("password123"),
+        firstName: "Admin",
+        lastName: "User",
+        isActive: true,
+        role: "admin",
+      };
+    }
+
+    afterEach(() => {
+      (config.twoFactor as any).requiredRoles = originalRequiredRoles;
+      (db.query.userTwoFactor.findFirst as any).mockResolvedValue(undefined);
+    });
+
+    it("asks for a code instead of issuing tokens when two-factor is enabled", async () => {
+      (db.query.users.findFirst as any).mockResolvedValue(await adminUser());
+      (db.query.userTwoFactor.findFirst as any).mockResolvedValue({
+        userId: 1,
+        secret,
+        confirmedAt: new Date(),
+        lastUsedStep: null,
+      });
+
+      const { status, body } = await testJson("/api/auth/login", {
+        method: "POST",
+        body: JSON.stringify({ email: "admin@test.com", password: "password123" }),
+      });
+
+      expect(status).toBe(200);
+      expect(body.status).toBe("two_factor_required");
+      expect(body.twoFactorToken).toBeDefined();
+      expect(body.accessToken).toBeUndefined();
+    });
+
+    it("asks for setup when the role requires two-factor", async () => {
+      (config.twoFactor as any).requiredRoles = "admin,superadmin";
+      (db.query.users.findFirst as any).mockResolvedValue(await adminUser());
+      (db.query.userTwoFactor.findFirst as any).mockResolvedValue(undefined);
+
+      const { body } = await testJson("/api/auth/login", {
+        method: "POST",
+        body: JSON.stringify({ email: "admin@test.com", password: "password123" }),
+      });
+
+      expect(body.status).toBe("two_factor_setup_required");
+    });
+
+    it("issues tokens marked as two-factor for a valid code", async () => {
+      (db.query.users.findFirst as any).mockResolvedValue(await adminUser());
+      (db.query.userTwoFactor.findFirst as any).mockResolvedValue({
+        userId: 1,
+        secret,
+        confirmedAt: new Date(),
+        lastUsedStep: null,
+      });
+      (db.insert as any).mockReturnValue(mockInsertChain());
+      (db.update as any).mockReturnValue(mockUpdateChain([{ userId: 1 }]));
+
+      const { status, body } = await testJson("/api/auth/login/2fa", {
+        method: "POST",
+        body: JSON.stringify({
+          twoFactorToken: await createTwoFactorToken(1),
+          code: totpCode(secret, timeStep()),
+        }),
+      });
+
+      expect(status).toBe(200);
+      expect(body.user.id).toBe(1);
+      expect((await verifyToken(body.accessToken))?.mfa).toBe(true);
+    });
+
+    it("rejects a wrong code", async () => {
+      (db.query.users.findFirst as any).mockResolvedValue(await adminUser());
+      (db.query.userTwoFactor.findFirst as any).mockResolvedValue({
+        userId: 1,
+        secret,
+        confirmedAt: new Date(),
+        lastUsedStep: null,
+      });
+      // No backup code matches either
+      (db.update as any).mockReturnValue(mockUpdateChain([]));
+
+      const { status, body } = await testJson("/api/auth/login/2fa", {
+        method: "POST",
+        body: JSON.stringify({ twoFactorToken: await createTwoFactorToken(1), code: "abcde-12345" }),
+      });
+
+      expect(status).toBe(401);
+      expect(body.error).toBe("Invalid authentication code");
+    });
+
+    it("does not accept a login challenge as an access token", async () => {
+      const { status } = await testJson("/api/auth/me", {
+        headers: { Authorization: `Bearer ${await createTwoFactorToken(1)}` },
+      });
+
+      expect(status).toBe(401);
+    });
+
+    it("keeps sessions without a second factor out of the admin API when required", async () => {
+      (config.twoFactor as any).requiredRoles = "admin,superadmin";
+      const accessToken = await createAccessToken({ sub: 1, email: "admin@test.com", role: "admin" });
+
+      const { status, body } = await testJson("/api/admin/users", {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+
+      expect(status).toBe(403);
+      expect(body.code).toBe("TWO_FACTOR_REQUIRED");
+    });
+  });
+
   describe("POST /api/auth/request-magic-link", () => {
     const devicePayload = {
       device_fingerprint: "test-fingerprint-abc123",
@@ -398,25 +547,31 @@ describe("Auth routes", () => {
     it("rotates tokens on successful refresh", async () => {
       const rt = await createRefreshToken({ sub: 1, email: "test@test.com", role: "user" });
       const rtHash = await hashToken(rt);
-
-      (db.query.refreshTokens.findFirst as any).mockResolvedValue({
+      const stored = {
         id: 10,
         userId: 1,
         tokenHash: rtHash,
+        familyId: "family-1",
+        deviceActivationId: 5,
+        usedAt: null,
+        revokedAt: null,
         expiresAt: new Date(Date.now() + 86400000),
-      });
+      };
+
+      (db.query.refreshTokens.findFirst as any).mockResolvedValue(stored);
 
       (db.query.users.findFirst as any).mockResolvedValue({
         id: 1,
         email: "test@test.com",
         isActive: true,
         role: "user",
+        tokenVersion: 0,
       });
 
-      const deleteChain = mockDeleteChain();
-      (db.delete as any).mockReturnValue(deleteChain);
+      const updateChain = mockUpdateChain([{ ...stored, usedAt: new Date() }]);
+      (db.update as any).mockReturnValue(updateChain);
 
-      const insertChain = mockInsertChain();
+      const insertChain = mockInsertChain([{ id: 11 }]);
       (db.insert as any).mockReturnValue(insertChain);
 
       const { status, body } = await testJson("/api/auth/refresh", {
@@ -427,10 +582,119 @@ describe("Auth routes", () => {
       expect(status).toBe(200);
       expect(body.accessToken).toBeDefined();
       expect(body.refreshToken).toBeDefined();
-      // Old token was deleted (rotation)
-      expect(db.delete).toHaveBeenCalled();
-      // New token was inserted
-      expect(db.insert).toHaveBeenCalled();
+      // Old token was marked used, then pointed at its replacement
+      expect(updateChain.set).toHaveBeenCalledWith({ usedAt: expect.any(Date) });
+      expect(updateChain.set).toHaveBeenCalledWith({ replacedById: 11 });
+      // New token joins the same family and device session
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 1, familyId: "family-1", deviceActivationId: 5 }),
+      );
+    });
+
+    it("revokes the family and deactivates the device when a used token is presented again", async () => {
+      const rt = await createRefreshToken({ sub: 1, email: "test@test.com", role: "user" });
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+
+      (db.query.refreshTokens.findFirst as any).mockResolvedValue({
+        id: 10,
+        userId: 1,
+        tokenHash: await hashToken(rt),
+        familyId: "family-1",
+        deviceActivationId: 5,
+        usedAt: new Date(Date.now() - 60000),
+        revokedAt: null,
+        expiresAt: new Date(Date.now() + 86400000),
+      });
+
+      const updateChain = mockUpdateChain();
+      (db.update as any).mockReturnValue(updateChain);
+
+      const { status, body } = await testJson("/api/auth/refresh", {
+        method: "POST",
+        body: JSON.stringify({ refreshToken: rt }),
+      });
+
+      expect(status).toBe(401);
+      expect(body.error).toBe("Refresh token was already used; please sign in again");
+      expect(updateChain.set).toHaveBeenCalledWith({ revokedAt: expect.any(Date) });
+      expect(updateChain.set).toHaveBeenCalledWith({ isActive: false });
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+
+    it("returns 401 for a revoked refresh token", async () => {
+      const rt = await createRefreshToken({ sub: 1, email: "test@test.com", role: "user" });
+
+      (db.query.refreshTokens.findFirst as any).mockResolvedValue({
+        id: 10,
+        userId: 1,
+        tokenHash: await hashToken(rt),
+        familyId: "family-1",
+        deviceActivationId: 5,
+        usedAt: null,
+        revokedAt: new Date(),
+        expiresAt: new Date(Date.now() + 86400000),
+      });
+
+      const { status, body } = await testJson("/api/auth/refresh", {
+        method: "POST",
+        body: JSON.stringify({ refreshToken: rt }),
+      });
+
+      expect(status).toBe(401);
+      expect(body.error).toBe("Invalid or expired refresh token");
+      expect(db.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /api/auth/device/deactivate", () => {
+    it("revokes the refresh tokens issued to the device", async () => {
+      const accessToken = await createAccessToken({ sub: 1, email: "test@test.com", role: "user" });
+
+      (db.query.deviceActivations.findFirst as any).mockResolvedValue({
+        id: 5,
+        userId: 1,
+        deviceFingerprint: "device-1",
+      });
+
+      const updateChain = mockUpdateChain();
+      (db.update as any).mockReturnValue(updateChain);
+
+      const { status, body } = await testJson("/api/auth/device/deactivate", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${accessToken}` },
+        body: JSON.stringify({ device_fingerprint: "device-1" }),
+      });
+
+      expect(status).toBe(200);
+      expect(body.status).toBe("deactivated");
+      expect(updateChain.set).toHaveBeenCalledWith({ isActive: false });
+      expect(updateChain.set).toHaveBeenCalledWith({ revokedAt: expect.any(Date) });
+    });
+  });
+
+  describe("POST /api/auth/request-approval", () => {
+    it("records the IP the proxy saw, not hops the client added", async () => {
+      (db.query.userApprovalRequests.findFirst as any).mockResolvedValue(undefined);
+      const insertChain = mockInsertChain();
+      (db.insert as any).mockReturnValue(insertChain);
+
+      const { status } = await testJson("/api/auth/request-approval", {
+        method: "POST",
+        headers: { "X-Forwarded-For": "198.51.100.66, 203.0.113.9" },
+        body: JSON.stringify({
+          email: "new@test.com",
+          first_name: "New",
+          last_name: "Member",
+          device_fingerprint: "device-1",
+          device_name: "iPhone",
+          device_type: "ios",
+        }),
+      });
+
+      expect(status).toBe(200);
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ email: "new@test.com", ipAddress: "203.0.113.9" }),
+      );
     });
   });
 
@@ -530,4 +794,151 @@ describe("Auth routes", () => {
       expect(body.message).toBe("Logged out");
     });
   });
+
+  describe("Session revocation", () => {
+    it("signs the caller out everywhere", async () => {
+      const accessToken = await createAccessToken({ sub: 1, email: "user@test.com", role: "user" });
+
+      const { status } = await testJson("/api/auth/logout-everywhere", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+
+      expect(status).toBe(200);
+      expect(revokeUserSessions).toHaveBeenCalledWith(1);
+    });
+
+    it("refuses access tokens from before a revocation", async () => {
+      (isSessionCurrent as any).mockResolvedValueOnce(false);
+      const accessToken = await createAccessToken({ sub: 1, email: "user@test.com", role: "user", ver: 0 });
+
+      const { status, body } = await testJson("/api/auth/me", {
+        headers: { Authorization: `Bearer ${accessToken}` },
+      });
+
+      expect(status).toBe(401);
+      expect(body.code).toBe("SESSION_REVOKED");
+      expect(isSessionCurrent).toHaveBeenCalledWith(1, 0);
+    });
+
+    it("refuses refresh tokens from before a revocation", async () => {
+      const rt = await createRefreshToken({ sub: 1, email: "user@test.com", role: "user", ver: 0 });
+      (db.query.refreshTokens.findFirst as any).mockResolvedValue({
+        id: 10,
+        userId: 1,
+        tokenHash: await hashToken(rt),
+        familyId: "family-1",
+        deviceActivationId: null,
+        usedAt: null,
+        revokedAt: null,
+        expiresAt: new Date(Date.now() + 86400000),
+      });
+      (db.query.users.findFirst as any).mockResolvedValue({
+        id: 1,
+        email: "user@test.com",
+        isActive: true,
+        role: "user",
+        tokenVersion: 1,
+      });
+      (db.update as any).mockReturnValue(mockUpdateChain([{ id: 10 }]));
+
+      const { status, body } = await testJson("/api/auth/refresh", {
+        method: "POST",
+        body: JSON.stringify({ refreshToken: rt }),
+      });
+
+      expect(status).toBe(401);
+      expect(body.code).toBe("SESSION_REVOKED");
+    });
+  });
+
+  describe("Email change", () => {
+    const member = { id: 1, email: "old@test.com", preferredLanguage: "en", isActive: true };
+
+    async function memberHeader() {
+      const token = await createAccessToken({ sub: 1, email: member.email, role: "user" });
+      return { Authorization: `Bearer ${token}` };
+    }
+
+    it("sends a confirmation link to the new address", async () => {
+      // The member, then nobody owning the new address
+      (db.query.users.findFirst as any).mockResolvedValueOnce(member).mockResolvedValueOnce(undefined);
+      const insertChain = { values: vi.fn().mockResolvedValue(undefined) };
+      (db.insert as any).mockReturnValue(insertChain);
+      (db.delete as any).mockReturnValue(mockDeleteChain());
+
+      const { status, body } = await testJson("/api/auth/user/email", {
+        method: "POST",
+        headers: await memberHeader(),
+        body: JSON.stringify({ email: "New@Test.com" }),
+      });
+
+      expect(status).toBe(202);
+      expect(body).toMatchObject({ status: "confirmation_sent", email: "new@test.com" });
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 1, newEmail: "new@test.com" }),
+      );
+      expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: "new@test.com" }));
+    });
+
+    it("refuses an address another account uses", async () => {
+      (db.query.users.findFirst as any).mockResolvedValueOnce(member).mockResolvedValueOnce({ id: 8 });
+
+      const { status, body } = await testJson("/api/auth/user/email", {
+        method: "POST",
+        headers: await memberHeader(),
+        body: JSON.stringify({ email: "taken@test.com" }),
+      });
+
+      expect(status).toBe(409);
+      expect(body.code).toBe("EMAIL_TAKEN");
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+
+    it("moves the account when the link is opened", async () => {
+      (db.query.emailChangeRequests.findFirst as any).mockResolvedValue({
+        id: 3,
+        userId: 1,
+        newEmail: "new@test.com",
+        user: member,
+      });
+      (db.query.users.findFirst as any).mockResolvedValue(undefined);
+      const updateChain = mockUpdateChain([{ id: 3 }]);
+      (db.update as any).mockReturnValue(updateChain);
+
+      const res = await testRequest("/api/auth/email-change/some-token");
+      const html = await res.text();
+
+      expect(res.status).toBe(200);
+      expect(html).toContain("Email Changed");
+      expect(html).toContain("new@test.com");
+      expect(updateChain.set).toHaveBeenCalledWith(expect.objectContaining({ email: "new@test.com" }));
+      expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: "old@test.com" }));
+    });
+
+    it("refuses a link that has expired or was already used", async () => {
+      // Only unconfirmed, unexpired requests are looked up
+      (db.query.emailChangeRequests.findFirst as any).mockResolvedValue(undefined);
+
+      const res = await testRequest("/api/auth/email-change/some-token");
+
+      expect(await res.text()).toContain("This link is invalid or has expired");
+      expect(db.update).not.toHaveBeenCalled();
+    });
+
+    it("refuses when the address was taken after the link was sent", async () => {
+      (db.query.emailChangeRequests.findFirst as any).mockResolvedValue({
+        id: 3,
+        userId: 1,
+        newEmail: "new@test.com",
+        user: member,
+      });
+      (db.query.users.findFirst as any).mockResolvedValue({ id: 8 });
+
+      const res = await testRequest("/api/auth/email-change/some-token?lang=pt");
+
+      expect(await res.text()).toContain("Este email já está a ser usado por outra conta.");
+      expect(db.update).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { testJson } from "../helpers.ts";
+
+// Mock the database module before importing anything that uses it
+vi.mock("../../src/db/index.ts", () => ({
+  db: {
+    query: {
+      events: { findFirst: vi.fn() },
+      sessions: { findFirst: vi.fn() },
+      tracks: { findFirst: vi.fn() },
+      users: { findFirst: vi.fn() },
+      userEventAttendance: { findFirst: vi.fn().mockResolvedValue(null) },
+      userGroupMemberships: { findFirst: vi.fn().mockResolvedValue(null) },
+    },
+    select: vi.fn(() => ({
+      from: vi.fn(() => ({
+        where: vi.fn(() => Promise.resolve([{ retreatGroupId: 3 }])),
+      })),
+    })),
+  },
+}));
+
+// Every token counts as current; token versions are covered in tests/services/sessions.test.ts
+vi.mock("../../src/services/sessions.ts", () => ({
+  isSessionCurrent: vi.fn().mockResolvedValue(true),
+  revokeUserSessions: vi.fn().mockResolvedValue(undefined),
+  forgetSession: vi.fn(),
+}));
+
+import { db } from "../../src/db/index.ts";
+import { createAccessToken } from "../../src/services/auth.ts";
+
+function makeEvent(slug: string, overrides: Record<string, any> = {}) {
+  return {
+    id: 7,
+    titleEn: "Spring Retreat",
+    audience: { slug },
+    eventRetreatGroups: [
+      { retreatGroup: { id: 3, nameEn: "Dharma Group", namePt: "Grupo Dharma" } },
+    ],
+    ...overrides,
+  };
+}
+
+function makeUser(overrides: Record<string, any> = {}) {
+  return {
+    id: 1,
+    email: "user@test.com",
+    role: "user",
+    preferredLanguage: "en",
+    subscriptionStatus: "active",
+    subscriptionExpiresAt: null,
+    ...overrides,
+  };
+}
+
+async function userHeader() {
+  const token = await createAccessToken({ sub: 1, email: "user@test.com", role: "user" });
+  return { Authorization: `Bearer ${token}` };
+}
+
+describe("GET /api/events/:id/access", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns 404 for an unknown event", async () => {
+    (db.query.events.findFirst as any).mockResolvedValue(null);
+
+    const { status } = await testJson("/api/events/99/access");
+    expect(status).toBe(404);
+  });
+
+  it("reports allowed for public events without auth", async () => {
+    (db.query.events.findFirst as any).mockResolvedValue(makeEvent("free-anyone"));
+
+    const { status, body } = await testJson("/api/events/7/access");
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ eventId: 7, allowed: true, reason: null, message: null, actions: [] });
+  });
+
+  it("asks anonymous users to log in", async () => {
+    (db.query.events.findFirst as any).mockResolvedValue(makeEvent("free-subscribers"));
+
+    const { body } = await testJson("/api/events/7/access");
+
+    expect(body.allowed).toBe(false);
+    expect(body.reason).toBe("AUTH_REQUIRED");
+    expect(body.actions).toEqual([{ type: "login", label: "Log in" }]);
+  });
+
+  it("offers a subscription when one is required", async () => {
+    (db.query.events.findFirst as any).mockResolvedValue(makeEvent("free-subscribers"));
+    (db.query.users.findFirst as any).mockResolvedValue(makeUser({ subscriptionStatus: "none" }));
+
+    const { body } = await testJson("/api/events/7/access", { headers: await userHeader() });
+
+    expect(body.reason).toBe("SUBSCRIPTION_REQUIRED");
+    expect(body.actions[0]).toMatchObject({ type: "subscribe", path: "/api/payment/subscribe" });
+  });
+
+  it("names the groups to join, localized from the user's language", async () => {
+    (db.query.events.findFirst as any).mockResolvedValue(makeEvent("retreat-group-members"));
+    (db.query.users.findFirst as any).mockResolvedValue(makeUser({ preferredLanguage: "pt" }));
+
+    const { body } = await testJson("/api/events/7/access", { headers: await userHeader() });
+
+    expect(body.reason).toBe("GROUP_MEMBERSHIP_REQUIRED");
+    expect(body.message).toBe("Esta gravação está reservada aos membros do grupo de retiro.");
+    expect(body.actions).toEqual([
+      {
+        type: "join_group",
+        label: "Pedir para aderir a Grupo Dharma",
+        groupId: 3,
+        groupName: "Grupo Dharma",
+      },
+    ]);
+  });
+
+  it("suggests requesting access for on-request events, honoring ?lang", async () => {
+    (db.query.events.findFirst as any).mockResolvedValue(makeEvent("available-on-request-only"));
+    (db.query.users.findFirst as any).mockResolvedValue(makeUser({ preferredLanguage: "pt" }));
+
+    const { body } = await testJson("/api/events/7/access?lang=en", {
+      headers: await userHeader(),
+    });
+
+    expect(body.reason).toBe("ACCESS_DENIED");
+    expect(body.message).toBe("This recording is available on request only.");
+    expect(body.actions).toEqual([
+      { type: "request_access", label: "Request access", path: "/api/events/7/request-access" },
+    ]);
+  });
+
+  it("answers for a session whose audience overrides the event's", async () => {
+    (db.query.events.findFirst as any).mockResolvedValue(makeEvent("free-anyone"));
+    (db.query.sessions.findFirst as any).mockResolvedValue({
+      id: 12,
+      eventId: 7,
+      audience: { slug: "free-subscribers" },
+    });
+    (db.query.users.findFirst as any).mockResolvedValue(makeUser({ subscriptionStatus: "none" }));
+
+    const { status, body } = await testJson("/api/events/7/access?sessionId=12", {
+      headers: await userHeader(),
+    });
+
+    expect(status).toBe(200);
+    expect(body.allowed).toBe(false);
+    expect(body.reason).toBe("SUBSCRIPTION_REQUIRED");
+  });
+
+  it("files access requests for the restricted session", async () => {
+    (db.query.events.findFirst as any).mockResolvedValue(makeEvent("free-subscribers"));
+    (db.query.sessions.findFirst as any).mockResolvedValue({
+      id: 12,
+      eventId: 7,
+      audience: { slug: "received-initiation" },
+    });
+    (db.query.users.findFirst as any).mockResolvedValue(makeUser());
+
+    const { body } = await testJson("/api/events/7/access?sessionId=12", {
+      headers: await userHeader(),
+    });
+
+    expect(body.actions).toEqual([
+      {
+        type: "request_access",
+        label: "Request access",
+        path: "/api/events/7/request-access?sessionId=12",
+      },
+    ]);
+  });
+
+  it("answers for a track, which wins over its session", async () => {
+    (db.query.events.findFirst as any).mockResolvedValue(makeEvent("free-subscribers"));
+    (db.query.tracks.findFirst as any).mockResolvedValue({
+      id: 40,
+      audience: { slug: "free-anyone" },
+      session: { id: 12, eventId: 7, audience: { slug: "free-subscribers" } },
+    });
+
+    const { body } = await testJson("/api/events/7/access?trackId=40");
+
+    expect(body.allowed).toBe(true);
+  });
+
+  it("returns 404 for a session of another event", async () => {
+    (db.query.events.findFirst as any).mockResolvedValue(makeEvent("free-anyone"));
+    (db.query.sessions.findFirst as any).mockResolvedValue(undefined);
+
+    const { status } = await testJson("/api/events/7/access?sessionId=99");
+    expect(status).toBe(404);
+  });
+
+  it("returns 404 for a track of another event", async () => {
+    (db.query.events.findFirst as any).mockResolvedValue(makeEvent("free-anyone"));
+    (db.query.tracks.findFirst as any).mockResolvedValue({
+      id: 40,
+      audience: null,
+      session: { id: 30, eventId: 8, audience: null },
+    });
+
+    const { status } = await testJson("/api/events/7/access?trackId=40");
+    expect(status).toBe(404);
+  });
+});
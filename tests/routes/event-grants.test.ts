@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { testJson } from "../helpers.ts";
+
+// Mock the database module before importing anything that uses it
+vi.mock("../../src/db/index.ts", () => ({
+  db: {
+    query: {
+      userEventAttendance: { findFirst: vi.fn() },
+    },
+    insert: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+// Every token counts as current; token versions are covered in tests/services/sessions.test.ts
+vi.mock("../../src/services/sessions.ts", () => ({
+  isSessionCurrent: vi.fn().mockResolvedValue(true),
+  revokeUserSessions: vi.fn().mockResolvedValue(undefined),
+  forgetSession: vi.fn(),
+}));
+
+import { db } from "../../src/db/index.ts";
+import { createAccessToken } from "../../src/services/auth.ts";
+
+function mockInsertChain() {
+  return {
+    values: vi.fn().mockReturnThis(),
+    onConflictDoUpdate: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+async function adminHeader() {
+  const token = await createAccessToken({ sub: 100, email: "admin@test.com", role: "admin" });
+  return { Authorization: `Bearer ${token}` };
+}
+
+describe("POST /api/admin/users/:id/events", () => {
+  let insertChain: ReturnType<typeof mockInsertChain>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    insertChain = mockInsertChain();
+    (db.insert as any).mockReturnValue(insertChain);
+  });
+
+  it("records a grant without a source as an admin grant", async () => {
+    const { status } = await testJson("/api/admin/users/1/events", {
+      method: "POST",
+      headers: await adminHeader(),
+      body: JSON.stringify({ eventId: 7, validUntil: "2026-12-31T00:00:00Z" }),
+    });
+
+    expect(status).toBe(201);
+    expect(insertChain.values).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 1,
+        eventId: 7,
+        source: "admin",
+        validUntil: new Date("2026-12-31T00:00:00Z"),
+        grantedById: 100,
+      }),
+    );
+  });
+
+  it("rejects dates that cannot be parsed", async () => {
+    const { status, body } = await testJson("/api/admin/users/1/events", {
+      method: "POST",
+      headers: await adminHeader(),
+      body: JSON.stringify({ eventId: 7, validFrom: "next tuesday" }),
+    });
+
+    expect(status).toBe(400);
+    expect(body.code).toBe("VALIDATION_ERROR");
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+
+  it("rejects a window that ends before it starts", async () => {
+    const { status, body } = await testJson("/api/admin/users/1/events", {
+      method: "POST",
+      headers: await adminHeader(),
+      body: JSON.stringify({ eventId: 7, validFrom: "2026-06-01", validUntil: "2026-05-01" }),
+    });
+
+    expect(status).toBe(400);
+    expect(body.code).toBe("VALIDATION_ERROR");
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+});
+
+describe("PUT /api/admin/users/:id/events/:eventId", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("rejects dates that cannot be parsed", async () => {
+    const { status } = await testJson("/api/admin/users/1/events/7", {
+      method: "PUT",
+      headers: await adminHeader(),
+      body: JSON.stringify({ validUntil: "soon" }),
+    });
+
+    expect(status).toBe(400);
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
+  it("leaves the source alone when it is not sent", async () => {
+    (db.query.userEventAttendance.findFirst as any).mockResolvedValue({
+      userId: 1,
+      eventId: 7,
+      source: "attended",
+      validFrom: null,
+      validUntil: null,
+    });
+    const updateChain = {
+      set: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      returning: vi.fn().mockResolvedValue([{}]),
+    };
+    (db.update as any).mockReturnValue(updateChain);
+
+    const { status } = await testJson("/api/admin/users/1/events/7", {
+      method: "PUT",
+      headers: await adminHeader(),
+      body: JSON.stringify({ validUntil: "2026-12-31T00:00:00Z" }),
+    });
+
+    expect(status).toBe(200);
+    expect(updateChain.set.mock.calls[0]![0]).not.toHaveProperty("source");
+  });
+});
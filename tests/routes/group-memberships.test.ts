@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { testJson } from "../helpers.ts";
+
+// Mock the database module before importing anything that uses it
+vi.mock("../../src/db/index.ts", () => ({
+  db: {
+    query: {
+      userGroupMemberships: { findFirst: vi.fn(), findMany: vi.fn() },
+    },
+    insert: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+// Every token counts as current; token versions are covered in tests/services/sessions.test.ts
+vi.mock("../../src/services/sessions.ts", () => ({
+  isSessionCurrent: vi.fn().mockResolvedValue(true),
+  revokeUserSessions: vi.fn().mockResolvedValue(undefined),
+  forgetSession: vi.fn(),
+}));
+
+import { db } from "../../src/db/index.ts";
+import { createAccessToken } from "../../src/services/auth.ts";
+
+function mockUpdateChain(returning: any[] = [{}]) {
+  return {
+    set: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(returning),
+  };
+}
+
+function mockInsertChain(returning: any[] = [{}]) {
+  return {
+    values: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(returning),
+  };
+}
+
+async function adminHeader() {
+  const token = await createAccessToken({ sub: 100, email: "admin@test.com", role: "admin" });
+  return { Authorization: `Bearer ${token}` };
+}
+
+function mockMembership(status: string) {
+  return { userId: 1, retreatGroupId: 5, status, joinedAt: new Date("2024-01-01") };
+}
+
+describe("Admin group membership lifecycle", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("adds a confirmed membership stamped with the admin", async () => {
+    (db.query.userGroupMemberships.findFirst as any).mockResolvedValue(null);
+    const insertChain = mockInsertChain([mockMembership("confirmed")]);
+    (db.insert as any).mockReturnValue(insertChain);
+
+    const { status } = await testJson("/api/admin/users/1/groups", {
+      method: "POST",
+      headers: await adminHeader(),
+      body: JSON.stringify({ retreatGroupId: 5 }),
+    });
+
+    expect(status).toBe(201);
+    expect(insertChain.values).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 1,
+        retreatGroupId: 5,
+        status: "confirmed",
+        confirmedAt: expect.any(Date),
+        statusChangedById: 100,
+      }),
+    );
+  });
+
+  it("rejects adding someone who is already a member", async () => {
+    (db.query.userGroupMemberships.findFirst as any).mockResolvedValue(mockMembership("pending"));
+
+    const { status } = await testJson("/api/admin/users/1/groups", {
+      method: "POST",
+      headers: await adminHeader(),
+      body: JSON.stringify({ retreatGroupId: 5 }),
+    });
+
+    expect(status).toBe(409);
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+
+  it("re-admits a removed member", async () => {
+    (db.query.userGroupMemberships.findFirst as any).mockResolvedValue(mockMembership("removed"));
+    const updateChain = mockUpdateChain([mockMembership("pending")]);
+    (db.update as any).mockReturnValue(updateChain);
+
+    const { status } = await testJson("/api/admin/users/1/groups", {
+      method: "POST",
+      headers: await adminHeader(),
+      body: JSON.stringify({ retreatGroupId: 5, status: "pending" }),
+    });
+
+    expect(status).toBe(201);
+    expect(updateChain.set).toHaveBeenCalledWith(expect.objectContaining({ status: "pending" }));
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+
+  it("lapses a confirmed member with a note", async () => {
+    (db.query.userGroupMemberships.findFirst as any).mockResolvedValue(mockMembership("confirmed"));
+    const updateChain = mockUpdateChain([mockMembership("lapsed")]);
+    (db.update as any).mockReturnValue(updateChain);
+
+    const { status, body } = await testJson("/api/admin/users/1/groups/5", {
+      method: "PUT",
+      headers: await adminHeader(),
+      body: JSON.stringify({ status: "lapsed", note: "No retreats since 2021" }),
+    });
+
+    expect(status).toBe(200);
+    expect(body.status).toBe("lapsed");
+    expect(updateChain.set).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: "lapsed",
+        lapsedAt: expect.any(Date),
+        statusChangedAt: expect.any(Date),
+        statusChangedById: 100,
+        statusNote: "No retreats since 2021",
+      }),
+    );
+  });
+
+  it("rejects transitions the lifecycle does not allow", async () => {
+    (db.query.userGroupMemberships.findFirst as any).mockResolvedValue(mockMembership("pending"));
+
+    const { status, body } = await testJson("/api/admin/users/1/groups/5", {
+      method: "PUT",
+      headers: await adminHeader(),
+      body: JSON.stringify({ status: "lapsed" }),
+    });
+
+    expect(status).toBe(400);
+    expect(body.code).toBe("INVALID_MEMBERSHIP_TRANSITION");
+    expect(db.update).not.toHaveBeenCalled();
+  });
+
+  it("keeps removed memberships instead of deleting them", async () => {
+    (db.query.userGroupMemberships.findFirst as any).mockResolvedValue(mockMembership("confirmed"));
+    const updateChain = mockUpdateChain();
+    (db.update as any).mockReturnValue(updateChain);
+
+    const { status } = await testJson("/api/admin/users/1/groups/5", {
+      method: "DELETE",
+      headers: await adminHeader(),
+    });
+
+    expect(status).toBe(200);
+    expect(updateChain.set).toHaveBeenCalledWith(
+      expect.objectContaining({ status: "removed", removedAt: expect.any(Date) }),
+    );
+  });
+
+  it("returns 404 for an unknown membership", async () => {
+    (db.query.userGroupMemberships.findFirst as any).mockResolvedValue(null);
+
+    const { status } = await testJson("/api/admin/users/1/groups/5", {
+      method: "PUT",
+      headers: await adminHeader(),
+      body: JSON.stringify({ status: "confirmed" }),
+    });
+
+    expect(status).toBe(404);
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { testJson } from "../helpers.ts";
+
+// Mock the database module before importing anything that uses it
+vi.mock("../../src/db/index.ts", () => ({
+  db: {
+    query: {
+      retreatGroups: { findFirst: vi.fn() },
+      events: { findMany: vi.fn() },
+      users: { findFirst: vi.fn() },
+      userEventAttendance: { findMany: vi.fn().mockResolvedValue([]) },
+      userGroupMemberships: { findMany: vi.fn().mockResolvedValue([]) },
+    },
+    select: vi.fn(() => ({
+      from: vi.fn(() => ({
+        where: vi.fn(() => Promise.resolve([{ eventId: 7 }])),
+      })),
+    })),
+  },
+}));
+
+// Every token counts as current; token versions are covered in tests/services/sessions.test.ts
+vi.mock("../../src/services/sessions.ts", () => ({
+  isSessionCurrent: vi.fn().mockResolvedValue(true),
+  revokeUserSessions: vi.fn().mockResolvedValue(undefined),
+  forgetSession: vi.fn(),
+}));
+
+import { db } from "../../src/db/index.ts";
+import { createAccessToken } from "../../src/services/auth.ts";
+
+async function userHeader() {
+  const token = await createAccessToken({ sub: 1, email: "user@test.com", role: "user" });
+  return { Authorization: `Bearer ${token}` };
+}
+
+describe("GET /api/groups/:id/events", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (db.query.retreatGroups.findFirst as any).mockResolvedValue({ id: 3, nameEn: "Dharma Group" });
+    (db.query.users.findFirst as any).mockResolvedValue({
+      id: 1,
+      role: "user",
+      subscriptionStatus: "active",
+      subscriptionExpiresAt: null,
+    });
+  });
+
+  it("locks sessions and tracks restricted below an accessible event", async () => {
+    (db.query.events.findMany as any).mockResolvedValue([
+      {
+        id: 7,
+        titleEn: "Spring Retreat",
+        audience: { slug: "free-subscribers" },
+        sessions: [
+          {
+            id: 12,
+            audience: { slug: "event-participants" },
+            tracks: [{ id: 40, audience: null, title: "Opening teaching" }],
+          },
+          {
+            id: 13,
+            audience: null,
+            tracks: [
+              { id: 41, audience: null, title: "Morning practice" },
+              { id: 42, audience: { slug: "received-initiation" }, title: "Empowerment" },
+            ],
+          },
+        ],
+      },
+    ]);
+
+    const { status, body } = await testJson("/api/groups/3/events", { headers: await userHeader() });
+
+    expect(status).toBe(200);
+    expect(body).toHaveLength(1);
+    const [restricted, open] = body[0].sessions;
+    expect(restricted).toMatchObject({ id: 12, locked: true, tracks: [] });
+    expect(open.locked).toBe(false);
+    expect(open.tracks.map((t: any) => t.id)).toEqual([41]);
+  });
+
+  it("leaves out events the user cannot access", async () => {
+    (db.query.events.findMany as any).mockResolvedValue([
+      { id: 7, audience: { slug: "available-on-request-only" }, sessions: [] },
+    ]);
+
+    const { status, body } = await testJson("/api/groups/3/events", { headers: await userHeader() });
+
+    expect(status).toBe(200);
+    expect(body).toEqual([]);
+  });
+});
@@ -0,0 +1,240 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { testJson } from "../helpers.ts";
+
+// Mock the database module before importing anything that uses it
+vi.mock("../../src/db/index.ts", () => ({
+  db: {
+    query: {
+      tracks: { findFirst: vi.fn() },
+      users: { findFirst: vi.fn() },
+      mediaAccessLog: { findMany: vi.fn() },
+      userEventAttendance: { findFirst: vi.fn().mockResolvedValue(null) },
+      userGroupMemberships: { findFirst: vi.fn().mockResolvedValue(null) },
+    },
+    insert: vi.fn(),
+    select: vi.fn(),
+  },
+}));
+
+// Every token counts as current; token versions are covered in tests/services/sessions.test.ts
+vi.mock("../../src/services/sessions.ts", () => ({
+  isSessionCurrent: vi.fn().mockResolvedValue(true),
+  revokeUserSessions: vi.fn().mockResolvedValue(undefined),
+  forgetSession: vi.fn(),
+}));
+
+// Mock S3 so no real URLs are signed
+vi.mock("../../src/services/s3.ts", () => ({
+  generatePresignedDownloadUrl: vi.fn().mockResolvedValue("https://s3.test/audio.mp3"),
+  getObjectText: vi.fn(),
+}));
+
+import { db } from "../../src/db/index.ts";
+import { createAccessToken } from "../../src/services/auth.ts";
+
+function mockInsertChain() {
+  return { values: vi.fn().mockResolvedValue(undefined) };
+}
+
+function mockCountChain(count: number) {
+  return vi.fn().mockReturnValue({
+    from: vi.fn().mockReturnValue({
+      where: vi.fn().mockResolvedValue([{ count }]),
+    }),
+  });
+}
+
+function mockSummaryChain(rows: any[]) {
+  const chain: any = {
+    from: vi.fn().mockReturnThis(),
+    leftJoin: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    groupBy: vi.fn().mockReturnThis(),
+    orderBy: vi.fn().mockReturnThis(),
+    limit: vi.fn().mockResolvedValue(rows),
+  };
+  return vi.fn().mockReturnValue(chain);
+}
+
+async function adminHeader() {
+  const token = await createAccessToken({ sub: 100, email: "admin@test.com", role: "admin" });
+  return { Authorization: `Bearer ${token}` };
+}
+
+async function userHeader(extra: Record<string, string> = {}) {
+  const token = await createAccessToken({ sub: 1, email: "user@test.com", role: "user" });
+  return { Authorization: `Bearer ${token}`, ...extra };
+}
+
+function mockTrack(eventAudience = "free-anyone") {
+  return {
+    id: 42,
+    s3Key: "events/7/audio.mp3",
+    audience: null,
+    session: {
+      audience: null,
+      event: { id: 7, audience: { slug: eventAudience } },
+    },
+  };
+}
+
+describe("Media access logging", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (db.query.users.findFirst as any).mockResolvedValue({
+      id: 1,
+      role: "user",
+      subscriptionStatus: "none",
+      subscriptionExpiresAt: null,
+    });
+  });
+
+  it("records every issued audio URL with device and IP", async () => {
+    (db.query.tracks.findFirst as any).mockResolvedValue(mockTrack());
+    const insertChain = mockInsertChain();
+    (db.insert as any).mockReturnValue(insertChain);
+
+    // The client sent a hop of its own; the proxy appended the address it saw
+    const { status } = await testJson("/api/media/audio/42", {
+      headers: await userHeader({
+        "X-Device-Fingerprint": "ios-abc123",
+        "X-Forwarded-For": "198.51.100.66, 203.0.113.9",
+      }),
+    });
+
+    expect(status).toBe(200);
+    expect(insertChain.values).toHaveBeenCalledWith({
+      userId: 1,
+      deviceFingerprint: "ios-abc123",
+      ipAddress: "203.0.113.9",
+      resourceType: "audio",
+      resourceId: "42",
+      eventId: 7,
+    });
+  });
+
+  it("does not log denied requests", async () => {
+    (db.query.tracks.findFirst as any).mockResolvedValue(mockTrack("free-subscribers"));
+
+    const { status } = await testJson("/api/media/audio/42", {
+      headers: await userHeader(),
+    });
+
+    expect(status).toBe(403);
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+
+  it("explains a denial with the reason code and the next step", async () => {
+    (db.query.tracks.findFirst as any).mockResolvedValue(mockTrack("free-subscribers"));
+
+    const { status, body } = await testJson("/api/media/audio/42?lang=en", {
+      headers: await userHeader(),
+    });
+
+    expect(status).toBe(403);
+    expect(body.code).toBe("SUBSCRIPTION_REQUIRED");
+    expect(body.reason).toBe("SUBSCRIPTION_REQUIRED");
+    expect(body.actions).toEqual([
+      expect.objectContaining({ type: "subscribe", path: "/api/payment/subscribe" }),
+    ]);
+  });
+
+  it("asks anonymous listeners to log in", async () => {
+    (db.query.tracks.findFirst as any).mockResolvedValue(mockTrack("free-subscribers"));
+
+    const { status, body } = await testJson("/api/media/audio/42");
+
+    expect(status).toBe(401);
+    expect(body.code).toBe("AUTH_REQUIRED");
+    expect(body.actions).toEqual([expect.objectContaining({ type: "login" })]);
+  });
+
+  it("still serves the URL when the log write fails", async () => {
+    (db.query.tracks.findFirst as any).mockResolvedValue(mockTrack());
+    (db.insert as any).mockReturnValue({
+      values: vi.fn().mockRejectedValue(new Error("connection lost")),
+    });
+    const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const { status, body } = await testJson("/api/media/audio/42", {
+      headers: await userHeader(),
+    });
+
+    expect(status).toBe(200);
+    expect(body.url).toBe("https://s3.test/audio.mp3");
+    consoleSpy.mockRestore();
+  });
+});
+
+describe("Admin media access routes", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns 403 for non-admin user", async () => {
+    const { status } = await testJson("/api/admin/media-access", {
+      headers: await userHeader(),
+    });
+    expect(status).toBe(403);
+  });
+
+  it("lists access rows", async () => {
+    (db.query.mediaAccessLog.findMany as any).mockResolvedValue([
+      {
+        id: 1,
+        userId: 1,
+        resourceType: "audio",
+        resourceId: "42",
+        user: { id: 1, email: "user@test.com" },
+        event: { id: 7, eventCode: "2024-PP2", titleEn: "Spring Retreat" },
+      },
+    ]);
+    (db.select as any) = mockCountChain(1);
+
+    const { status, body, headers } = await testJson(
+      "/api/admin/media-access?_start=0&_end=50&resourceType=audio&from=2024-01-01&to=2024-01-31",
+      { headers: await adminHeader() },
+    );
+
+    expect(status).toBe(200);
+    expect(body).toHaveLength(1);
+    expect(body[0].event.eventCode).toBe("2024-PP2");
+    expect(headers.get("Content-Range")).toContain("/1");
+  });
+
+  it("refuses dates that cannot be parsed", async () => {
+    const { status, body } = await testJson("/api/admin/media-access?from=yesterday", {
+      headers: await adminHeader(),
+    });
+
+    expect(status).toBe(400);
+    expect(body.code).toBe("VALIDATION_ERROR");
+    expect(db.query.mediaAccessLog.findMany).not.toHaveBeenCalled();
+  });
+
+  it("summarises access per user", async () => {
+    (db.select as any) = mockSummaryChain([
+      { userId: 1, email: "user@test.com", total: 120, devices: 9, ipAddresses: 14 },
+    ]);
+
+    const { status, body } = await testJson("/api/admin/media-access/summary/users", {
+      headers: await adminHeader(),
+    });
+
+    expect(status).toBe(200);
+    expect(body[0]).toMatchObject({ userId: 1, devices: 9, ipAddresses: 14 });
+  });
+
+  it("summarises access per event", async () => {
+    (db.select as any) = mockSummaryChain([
+      { eventId: 7, eventCode: "2024-PP2", titleEn: "Spring Retreat", total: 300, users: 25 },
+    ]);
+
+    const { status, body } = await testJson("/api/admin/media-access/summary/events?eventId=7", {
+      headers: await adminHeader(),
+    });
+
+    expect(status).toBe(200);
+    expect(body[0]).toMatchObject({ eventId: 7, users: 25 });
+  });
+});
@@ -1,18 +1,45 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { getTableColumns, is, SQL } from "drizzle-orm";
 import { testJson, testRequest } from "../helpers.ts";
 
 // Mock the database module before importing anything that uses it
-vi.mock("../../src/db/index.ts", () => ({
-  db: {
+vi.mock("../../src/db/index.ts", () => {
+  const db: any = {
     query: {
       users: { findFirst: vi.fn() },
+      subscriptions: { findFirst: vi.fn(), findMany: vi.fn() },
+      subscriptionLedger: { findFirst: vi.fn() },
+      webhookInbox: { findMany: vi.fn() },
+      plans: { findFirst: vi.fn(), findMany: vi.fn() },
+      vouchers: { findFirst: vi.fn() },
     },
+    insert: vi.fn(),
     update: vi.fn(),
-  },
+  };
+  // The transaction runs on the same mocks
+  db.transaction = vi.fn(async (run: (tx: any) => unknown) => run(db));
+  return { db };
+});
+
+// Every token counts as current; token versions are covered in tests/services/sessions.test.ts
+vi.mock("../../src/services/sessions.ts", () => ({
+  isSessionCurrent: vi.fn().mockResolvedValue(true),
+  revokeUserSessions: vi.fn().mockResolvedValue(undefined),
+  forgetSession: vi.fn(),
 }));
 
 import { db } from "../../src/db/index.ts";
+import {
+  users,
+  plans,
+  subscriptions,
+  subscriptionLedger,
+  webhookInbox,
+} from "../../src/db/schema/index.ts";
+import { config } from "../../src/config.ts";
 import { createAccessToken } from "../../src/services/auth.ts";
+import { isSessionCurrent } from "../../src/services/sessions.ts";
+import { createEasypaySimulator, type EasypaySimulator } from "../../src/services/easypay-simulator.ts";
 
 function mockUpdateChain() {
   const chain = {
@@ -22,6 +49,69 @@ function mockUpdateChain() {
   return chain;
 }
 
+function mockInsertChain(returning: any[] = []) {
+  return {
+    values: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(returning),
+  };
+}
+
+function mockSubscription(overrides: Record<string, any> = {}) {
+  const periodEnd = new Date();
+  periodEnd.setMonth(periodEnd.getMonth() + 1);
+  return {
+    id: 10,
+    userId: 1,
+    source: "easypay",
+    status: "active",
+    providerSubscriptionId: "mock_sub_1",
+    startedAt: new Date(),
+    currentPeriodEnd: periodEnd,
+    cancelledAt: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Wire the ledger writes for a mock-mode subscribe: the inserted subscription
+ * is what the users columns are then derived from.
+ */
+function mockActivation() {
+  const sub = mockSubscription();
+  const insertChain = mockInsertChain([sub]);
+  (db.insert as any).mockReturnValue(insertChain);
+  (db.query.subscriptions.findMany as any).mockResolvedValue([sub]);
+  return insertChain;
+}
+
+/** Wire a mock-mode cancel: the active subscription is found, then derived as cancelled. */
+function mockCancellation() {
+  const sub = mockSubscription();
+  (db.insert as any).mockReturnValue(mockInsertChain());
+  (db.query.subscriptions.findMany as any)
+    .mockResolvedValueOnce([sub])
+    .mockResolvedValueOnce([{ ...sub, status: "cancelled", cancelledAt: new Date() }]);
+}
+
+function mockPlan(overrides: Record<string, any> = {}) {
+  return {
+    id: 1,
+    slug: "monthly",
+    nameEn: "Monthly",
+    namePt: "Mensal",
+    descriptionEn: null,
+    descriptionPt: null,
+    priceCents: 500,
+    currency: "EUR",
+    frequency: "1M",
+    isActive: true,
+    displayOrder: 0,
+    ...overrides,
+  };
+}
+
+const annualPlan = () => mockPlan({ id: 2, slug: "annual", nameEn: "Annual", namePt: "Anual", priceCents: 5000, frequency: "1Y" });
+
 function mockUser(overrides: Record<string, any> = {}) {
   return {
     id: 1,
@@ -50,6 +140,7 @@ async function authHeader(overrides: Record<string, any> = {}) {
 describe("Payment routes (mock mode)", () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    (db.query.plans.findMany as any).mockResolvedValue([mockPlan()]);
   });
 
   // ─── Auth ───
@@ -103,6 +194,7 @@ describe("Payment routes (mock mode)", () => {
 
     it("activates subscription in mock mode", async () => {
       (db.query.users.findFirst as any).mockResolvedValue(mockUser());
+      const insertChain = mockActivation();
 
       const updateChain = mockUpdateChain();
       (db.update as any).mockReturnValue(updateChain);
@@ -117,7 +209,10 @@ describe("Payment routes (mock mode)", () => {
       expect(body.url).toContain("/subscription/success");
       expect(body.url).toContain("session_id=mock_session");
 
-      // Verify DB was updated
+      // Verify the activation was recorded and the user columns derived from it
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "activation", provider: "easypay", amountCents: 500 }),
+      );
       expect(db.update).toHaveBeenCalled();
       expect(updateChain.set).toHaveBeenCalledWith(
         expect.objectContaining({
@@ -130,6 +225,7 @@ describe("Payment routes (mock mode)", () => {
 
     it("sets expiry ~30 days from now", async () => {
       (db.query.users.findFirst as any).mockResolvedValue(mockUser());
+      const insertChain = mockActivation();
 
       const updateChain = mockUpdateChain();
       (db.update as any).mockReturnValue(updateChain);
@@ -137,18 +233,59 @@ describe("Payment routes (mock mode)", () => {
       const headers = await authHeader();
       await testJson("/api/payment/subscribe", { method: "POST", headers });
 
-      const setArg = updateChain.set.mock.calls[0][0];
-      const expiresAt = new Date(setArg.subscriptionExpiresAt);
+      const subscriptionValues = insertChain.values.mock.calls[0]![0];
+      const expiresAt = new Date(subscriptionValues.currentPeriodEnd);
       const now = new Date();
       const diffDays = (expiresAt.getTime() - now.getTime()) / (1000 * 60 * 60 * 24);
       expect(diffDays).toBeGreaterThan(27);
       expect(diffDays).toBeLessThan(32);
     });
 
+    it("subscribes to the chosen plan", async () => {
+      (db.query.users.findFirst as any).mockResolvedValue(mockUser());
+      (db.query.plans.findFirst as any).mockResolvedValue(annualPlan());
+      const insertChain = mockActivation();
+      (db.update as any).mockReturnValue(mockUpdateChain());
+
+      const headers = await authHeader();
+      const { status } = await testJson("/api/payment/subscribe", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ planId: 2 }),
+      });
+
+      expect(status).toBe(200);
+      const subscriptionValues = insertChain.values.mock.calls[0][0];
+      expect(subscriptionValues.planId).toBe(2);
+      const diffDays = (subscriptionValues.currentPeriodEnd.getTime() - Date.now()) / (1000 * 60 * 60 * 24);
+      expect(diffDays).toBeGreaterThan(364);
+      expect(diffDays).toBeLessThan(367);
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "activation", amountCents: 5000 }),
+      );
+    });
+
+    it("rejects a plan that is no longer offered", async () => {
+      (db.query.users.findFirst as any).mockResolvedValue(mockUser());
+      (db.query.plans.findFirst as any).mockResolvedValue(mockPlan({ id: 3, isActive: false }));
+
+      const headers = await authHeader();
+      const { status, body } = await testJson("/api/payment/subscribe", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ planId: 3 }),
+      });
+
+      expect(status).toBe(400);
+      expect(body.code).toBe("PLAN_UNAVAILABLE");
+      expect(db.insert).not.toHaveBeenCalled();
+    });
+
     it("allows subscription after expiry", async () => {
       (db.query.users.findFirst as any).mockResolvedValue(
         mockUser({ subscriptionStatus: "expired" }),
       );
+      mockActivation();
 
       const updateChain = mockUpdateChain();
       (db.update as any).mockReturnValue(updateChain);
@@ -164,6 +301,86 @@ describe("Payment routes (mock mode)", () => {
     });
   });
 
+  // ─── GET /api/payment/plans ───
+
+  describe("GET /api/payment/plans", () => {
+    it("lists the plans open to new subscribers", async () => {
+      (db.query.plans.findMany as any).mockResolvedValue([mockPlan(), annualPlan()]);
+
+      const { status, body } = await testJson("/api/payment/plans");
+
+      expect(status).toBe(200);
+      expect(body.map((plan: any) => plan.slug)).toEqual(["monthly", "annual"]);
+      expect(body[1]).toMatchObject({ namePt: "Anual", priceCents: 5000, frequency: "1Y" });
+    });
+  });
+
+  // ─── POST /api/payment/redeem ───
+
+  describe("POST /api/payment/redeem", () => {
+    it("returns 401 without auth", async () => {
+      const { status } = await testJson("/api/payment/redeem", {
+        method: "POST",
+        body: JSON.stringify({ code: "ABCD-EFGH-JKLM" }),
+      });
+      expect(status).toBe(401);
+    });
+
+    it("explains why a code cannot be redeemed", async () => {
+      (db.query.vouchers.findFirst as any).mockResolvedValue(undefined);
+
+      const headers = await authHeader();
+      const { status, body } = await testJson("/api/payment/redeem", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ code: "nope" }),
+      });
+
+      expect(status).toBe(400);
+      expect(body.code).toBe("VOUCHER_NOT_FOUND");
+    });
+
+    it("adds the voucher's months to the member's subscription", async () => {
+      (db.query.vouchers.findFirst as any).mockResolvedValue({
+        id: 7,
+        code: "ABCD-EFGH-JKLM",
+        months: 6,
+        maxRedemptions: 1,
+        redemptionCount: 0,
+        expiresAt: null,
+        isActive: true,
+        events: [],
+      });
+      (db.query.subscriptions.findMany as any).mockResolvedValue([]);
+      const insertChain = {
+        values: vi.fn().mockReturnThis(),
+        onConflictDoNothing: vi.fn().mockReturnThis(),
+        returning: vi.fn().mockResolvedValue([mockSubscription({ source: "voucher" })]),
+      };
+      (db.insert as any).mockReturnValue(insertChain);
+      const updateChain = {
+        ...mockUpdateChain(),
+        where: vi.fn().mockReturnThis(),
+        returning: vi.fn().mockResolvedValue([{ id: 7 }]),
+        then: (resolve: any) => resolve(undefined),
+      };
+      (db.update as any).mockReturnValue(updateChain);
+
+      const headers = await authHeader();
+      const { status, body } = await testJson("/api/payment/redeem", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ code: "abcd-efgh-jklm" }),
+      });
+
+      expect(status).toBe(200);
+      expect(body.months).toBe(6);
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ source: "voucher", status: "active" }),
+      );
+    });
+  });
+
   // ─── POST /api/payment/cancel ───
 
   describe("POST /api/payment/cancel", () => {
@@ -183,6 +400,7 @@ describe("Payment routes (mock mode)", () => {
       (db.query.users.findFirst as any).mockResolvedValue(
         mockUser({ subscriptionStatus: "active", easypaySubscriptionId: "mock_sub_1" }),
       );
+      mockCancellation();
 
       const updateChain = mockUpdateChain();
       (db.update as any).mockReturnValue(updateChain);
@@ -204,6 +422,51 @@ describe("Payment routes (mock mode)", () => {
     });
   });
 
+  // ─── POST /api/payment/update-payment-method ───
+
+  describe("POST /api/payment/update-payment-method", () => {
+    it("rejects a member whose payments are up to date", async () => {
+      (db.query.users.findFirst as any).mockResolvedValue(mockUser({ subscriptionStatus: "active" }));
+
+      const headers = await authHeader();
+      const { status, body } = await testJson("/api/payment/update-payment-method", {
+        method: "POST",
+        headers,
+      });
+
+      expect(status).toBe(400);
+      expect(body.code).toBe("NOT_PAST_DUE");
+    });
+
+    it("settles a past-due subscription in mock mode", async () => {
+      (db.query.users.findFirst as any).mockResolvedValue(
+        mockUser({ subscriptionStatus: "past_due", easypaySubscriptionId: "mock_sub_1" }),
+      );
+      const sub = mockSubscription({ status: "past_due", graceEndsAt: new Date(Date.now() + 86400000) });
+      (db.insert as any).mockReturnValue(mockInsertChain());
+      (db.query.subscriptions.findMany as any)
+        .mockResolvedValueOnce([sub])
+        .mockResolvedValueOnce([{ ...sub, status: "active", graceEndsAt: null }]);
+      const updateChain = mockUpdateChain();
+      (db.update as any).mockReturnValue(updateChain);
+
+      const headers = await authHeader();
+      const { status, body } = await testJson("/api/payment/update-payment-method", {
+        method: "POST",
+        headers,
+      });
+
+      expect(status).toBe(200);
+      expect(body.url).toContain("/subscription/success");
+      expect(updateChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "active", pastDueSince: null, graceEndsAt: null }),
+      );
+      expect(updateChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ subscriptionStatus: "active" }),
+      );
+    });
+  });
+
   // ─── POST /api/payment/webhook ───
 
   describe("POST /api/payment/webhook", () => {
@@ -248,6 +511,7 @@ describe("Payment routes (mock mode)", () => {
 
       // 1. Subscribe
       (db.query.users.findFirst as any).mockResolvedValue(mockUser());
+      mockActivation();
       let updateChain = mockUpdateChain();
       (db.update as any).mockReturnValue(updateChain);
 
@@ -262,6 +526,7 @@ describe("Payment routes (mock mode)", () => {
       (db.query.users.findFirst as any).mockResolvedValue(
         mockUser({ subscriptionStatus: "active", easypaySubscriptionId: "mock_sub_1" }),
       );
+      mockCancellation();
       updateChain = mockUpdateChain();
       (db.update as any).mockReturnValue(updateChain);
 
@@ -276,6 +541,7 @@ describe("Payment routes (mock mode)", () => {
       (db.query.users.findFirst as any).mockResolvedValue(
         mockUser({ subscriptionStatus: "expired" }),
       );
+      mockActivation();
       updateChain = mockUpdateChain();
       (db.update as any).mockReturnValue(updateChain);
 
@@ -288,3 +554,329 @@ describe("Payment routes (mock mode)", () => {
     });
   });
 });
+
+// ─── In-memory tables ───
+
+/**
+ * Just enough of the database for the real payment paths: rows per table,
+ * column defaults, onConflictDoNothing, and the eq/lt/isNull/inArray and
+ * and/or conditions the services filter on.
+ */
+function createMemoryDb() {
+  const tables = new Map<any, any[]>();
+  let nextId = 100;
+
+  function rows(table: any): any[] {
+    if (!tables.has(table)) tables.set(table, []);
+    return tables.get(table)!;
+  }
+
+  function keysOf(table: any) {
+    const keys = new Map<any, string>();
+    for (const [key, column] of Object.entries(getTableColumns(table))) keys.set(column, key);
+    return keys;
+  }
+
+  function matches(table: any, condition: any, row: any): boolean {
+    if (!condition) return true;
+    const keys = keysOf(table);
+    const chunks = condition.queryChunks;
+    const i = chunks.findIndex((chunk: any) => keys.has(chunk));
+    if (i >= 0) {
+      const op = chunks[i + 1].value.join("").trim();
+      const operand = chunks[i + 2];
+      const value = row[keys.get(chunks[i])!];
+      if (op === "=") return value === operand.value;
+      if (op === "<") return value < operand.value;
+      if (op === "is null") return value === null;
+      if (op === "in") return operand.some((param: any) => param.value === value);
+      throw new Error(`Unsupported operator in test database: ${op}`);
+    }
+    const nested = chunks.filter((chunk: any) => is(chunk, SQL));
+    const isOr = chunks.some((chunk: any) => chunk.value?.join?.("").trim() === "or");
+    return isOr
+      ? nested.some((chunk: any) => matches(table, chunk, row))
+      : nested.every((chunk: any) => matches(table, chunk, row));
+  }
+
+  function withDefaults(table: any, values: any) {
+    const row: any = {};
+    for (const [key, column] of Object.entries<any>(getTableColumns(table))) {
+      if (values[key] !== undefined) row[key] = values[key];
+      else if (key === "id") row.id = nextId++;
+      else if (column.defaultFn) row[key] = column.defaultFn();
+      else if (column.default !== undefined) row[key] = is(column.default, SQL) ? new Date() : column.default;
+      else row[key] = null;
+    }
+    return row;
+  }
+
+  /** A builder that runs when awaited, or through `.returning()`. */
+  function runnable(run: () => any[], builder: any) {
+    builder.returning = async () => run();
+    builder.then = (resolve: any, reject: any) =>
+      Promise.resolve().then(run).then(() => undefined).then(resolve, reject);
+    return builder;
+  }
+
+  function insert(table: any) {
+    let values: any;
+    let conflictTarget: any = null;
+    const builder: any = {
+      values(v: any) {
+        values = v;
+        return builder;
+      },
+      onConflictDoNothing(options: any = {}) {
+        conflictTarget = options.target;
+        return builder;
+      },
+    };
+    return runnable(() => {
+      const row = withDefaults(table, values);
+      if (conflictTarget) {
+        const key = keysOf(table).get(conflictTarget)!;
+        if (rows(table).some((r) => r[key] === row[key])) return [];
+      }
+      rows(table).push(row);
+      return [{ ...row }];
+    }, builder);
+  }
+
+  function update(table: any) {
+    let changes: any;
+    let condition: any;
+    const builder: any = {
+      set(c: any) {
+        changes = c;
+        return builder;
+      },
+      where(w: any) {
+        condition = w;
+        return builder;
+      },
+    };
+    return runnable(
+      () =>
+        rows(table)
+          .filter((row) => matches(table, condition, row))
+          .map((row) => ({ ...Object.assign(row, changes) })),
+      builder,
+    );
+  }
+
+  function query(table: any) {
+    const find = (options: any = {}) => rows(table).filter((row) => matches(table, options.where, row));
+    return {
+      findFirst: async (options?: any) => (find(options)[0] ? { ...find(options)[0] } : undefined),
+      findMany: async (options?: any) => find(options).map((row) => ({ ...row })),
+    };
+  }
+
+  return { rows, insert, update, query };
+}
+
+describe("Payment routes (Easypay simulator)", () => {
+  const SIMULATOR_BASE = "http://easypay.simulator/2.0";
+  const originalEasypay = { ...config.easypay };
+  let memory: ReturnType<typeof createMemoryDb>;
+  let simulator: EasypaySimulator;
+  let deliveries: { payload: any; body: any }[];
+
+  async function deliver(payload: any) {
+    const { body } = await testJson("/api/payment/webhook", {
+      method: "POST",
+      body: JSON.stringify(payload),
+    });
+    deliveries.push({ payload, body });
+  }
+
+  function member() {
+    return memory.rows(users).find((u) => u.id === 1);
+  }
+
+  function ledgerTypes() {
+    return memory.rows(subscriptionLedger).map((entry) => entry.type);
+  }
+
+  /** Subscribe through the API and complete the checkout in the simulator. */
+  async function subscribe(path = "/api/payment/subscribe", request: Record<string, any> = {}) {
+    const headers = await authHeader();
+    const { status, body } = await testJson(path, { method: "POST", headers, body: JSON.stringify(request) });
+    expect(status).toBe(200);
+    const checkoutId = new URL(body.url).pathname.split("/").pop()!;
+    return simulator.completeCheckout(checkoutId);
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.assign(config.easypay, { accountId: "sim", apiKey: "sim", apiBase: SIMULATOR_BASE });
+
+    // resetAllMocks below clears the module mock's default too
+    (isSessionCurrent as any).mockResolvedValue(true);
+    memory = createMemoryDb();
+    memory.rows(users).push(mockUser({ preferredLanguage: "en" }));
+    memory.rows(plans).push(mockPlan(), annualPlan());
+    const mockDb = db as any;
+    mockDb.insert.mockImplementation(memory.insert);
+    mockDb.update.mockImplementation(memory.update);
+    for (const [name, table] of [
+      ["users", users],
+      ["subscriptions", subscriptions],
+      ["subscriptionLedger", subscriptionLedger],
+      ["webhookInbox", webhookInbox],
+      ["plans", plans],
+    ] as const) {
+      const q = memory.query(table);
+      for (const method of ["findFirst", "findMany"] as const) {
+        mockDb.query[name][method]?.mockImplementation(q[method]);
+      }
+    }
+
+    deliveries = [];
+    simulator = createEasypaySimulator({ notify: deliver });
+    const realFetch = globalThis.fetch;
+    vi.stubGlobal("fetch", (input: any, init?: RequestInit) =>
+      String(input).startsWith(SIMULATOR_BASE)
+        ? simulator.app.request(String(input), init)
+        : realFetch(input, init),
+    );
+  });
+
+  afterEach(() => {
+    Object.assign(config.easypay, originalEasypay);
+    vi.unstubAllGlobals();
+    vi.resetAllMocks();
+  });
+
+  it("opens a checkout on Easypay and activates on its notification", async () => {
+    const headers = await authHeader();
+    const { body } = await testJson("/api/payment/subscribe", { method: "POST", headers });
+
+    expect(body.url).toContain("/api/payment/checkout/");
+    expect(body.url).toContain("session=");
+    const checkout = [...simulator.checkouts.values()][0]!;
+    expect(checkout.request.order.key).toMatch(/^user-1-/);
+    expect(checkout.request.payment.frequency).toBe("1M");
+    expect(member().subscriptionStatus).toBe("none");
+
+    const sub = await simulator.completeCheckout(checkout.id);
+
+    expect(deliveries[0]!.body).toEqual({ received: true });
+    expect(member()).toMatchObject({
+      subscriptionStatus: "active",
+      subscriptionSource: "easypay",
+      easypaySubscriptionId: sub.id,
+    });
+    expect(memory.rows(subscriptionLedger)[0]).toMatchObject({ type: "activation", amountCents: 500 });
+    expect(memory.rows(webhookInbox)[0].status).toBe("processed");
+  });
+
+  it("bills and extends an annual plan by the year", async () => {
+    const sub = await subscribe("/api/payment/subscribe", { planId: 2 });
+
+    const [checkout] = [...simulator.checkouts.values()];
+    expect(checkout!.request.payment.frequency).toBe("1Y");
+    expect(checkout!.request.order.value).toBe(50);
+    const [local] = memory.rows(subscriptions);
+    expect(local.planId).toBe(2);
+
+    await simulator.renew(sub.id);
+
+    const renewal = memory.rows(subscriptionLedger).find((entry) => entry.type === "renewal");
+    const days = (renewal.periodEnd.getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+    expect(days).toBeGreaterThan(364);
+  });
+
+  it("renews on each successful charge", async () => {
+    const sub = await subscribe();
+    await simulator.renew(sub.id);
+    await simulator.renew(sub.id);
+
+    expect(ledgerTypes()).toEqual(["activation", "renewal", "renewal"]);
+    expect(member().subscriptionStatus).toBe("active");
+  });
+
+  it("renews once for a charge Easypay notifies again", async () => {
+    const sub = await subscribe();
+    await simulator.renew(sub.id);
+    // Same charge, a later delivery: a new notification id, but the capture is already recorded
+    await deliver({ ...deliveries[1]!.payload, date: "2099-01-01 00:00:00" });
+
+    expect(deliveries[2]!.body).toEqual({ received: true });
+    expect(ledgerTypes()).toEqual(["activation", "renewal"]);
+    expect(memory.rows(webhookInbox)[2].status).toBe("ignored");
+  });
+
+  it("retries a successful capture Easypay does not list yet instead of renewing", async () => {
+    const sub = await subscribe();
+    simulator.subscriptions.get(sub.id)!.captures = [];
+    await deliver({ ...deliveries[0]!.payload, type: "subscription_capture", date: "2099-01-01 00:00:00" });
+    await deliver({ ...deliveries[0]!.payload, type: "subscription_capture", date: "2099-01-02 00:00:00" });
+
+    expect(deliveries[2]!.body).toEqual({ received: true });
+    expect(ledgerTypes()).toEqual(["activation"]);
+    expect(memory.rows(webhookInbox).slice(1).map((entry) => entry.status)).toEqual(["failed", "failed"]);
+  });
+
+  it("does not renew on notifications other than a successful capture", async () => {
+    const sub = await subscribe();
+    await deliver({ ...deliveries[0]!.payload, type: "subscription_update", date: "2099-01-01 00:00:00" });
+
+    expect(ledgerTypes()).toEqual(["activation"]);
+    expect(simulator.subscriptions.get(sub.id)!.status).toBe("active");
+  });
+
+  it("moves a member whose charge failed to past due, and replaces the subscription when they pay again", async () => {
+    const failing = await subscribe();
+    await simulator.failCharge(failing.id);
+
+    expect(ledgerTypes()).toEqual(["activation", "charge_failed", "past_due"]);
+    expect(member().subscriptionStatus).toBe("past_due");
+
+    const replacement = await subscribe("/api/payment/update-payment-method");
+
+    expect(member()).toMatchObject({
+      subscriptionStatus: "active",
+      easypaySubscriptionId: replacement.id,
+    });
+    expect(simulator.subscriptions.get(failing.id)!.status).toBe("inactive");
+    const old = memory.rows(subscriptions).find((s) => s.providerSubscriptionId === failing.id);
+    expect(old.status).toBe("cancelled");
+  });
+
+  it("starts the grace period when Easypay stops collecting", async () => {
+    const sub = await subscribe();
+    await simulator.deactivate(sub.id);
+
+    expect(member().subscriptionStatus).toBe("past_due");
+  });
+
+  it("cancels on Easypay and locally when the member cancels", async () => {
+    const sub = await subscribe();
+    const headers = await authHeader();
+    const { status } = await testJson("/api/payment/cancel", { method: "POST", headers });
+
+    expect(status).toBe(200);
+    expect(simulator.subscriptions.get(sub.id)!.status).toBe("inactive");
+    expect(member().subscriptionStatus).toBe("expired");
+    expect(ledgerTypes()).toContain("cancellation");
+  });
+
+  it("ends the subscription when Easypay deletes it", async () => {
+    const sub = await subscribe();
+    await simulator.remove(sub.id);
+
+    expect(ledgerTypes()).toEqual(["activation", "cancellation"]);
+    expect(member().subscriptionStatus).toBe("expired");
+  });
+
+  it("acknowledges a redelivered notification without applying it again", async () => {
+    await subscribe();
+    await deliver(deliveries[0]!.payload);
+
+    expect(deliveries[1]!.body).toEqual({ received: true, duplicate: true });
+    expect(ledgerTypes()).toEqual(["activation"]);
+    expect(memory.rows(webhookInbox)).toHaveLength(1);
+  });
+});
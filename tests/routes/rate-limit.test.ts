@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { testJson } from "../helpers.ts";
+
+// Mock the database module before importing anything that uses it
+vi.mock("../../src/db/index.ts", () => ({
+  db: {
+    query: {
+      users: { findFirst: vi.fn() },
+      deviceActivations: { findFirst: vi.fn() },
+    },
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+// Every code is wrong; the codes themselves are covered in tests/services/two-factor.test.ts
+vi.mock("../../src/services/two-factor.ts", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/services/two-factor.ts")>()),
+  verifySecondFactor: vi.fn().mockResolvedValue(false),
+}));
+
+import { db } from "../../src/db/index.ts";
+import { config } from "../../src/config.ts";
+import { createTwoFactorToken } from "../../src/services/auth.ts";
+import {
+  createMemoryStore,
+  setRateLimitStore,
+  parseLimit,
+  type RateLimitStore,
+} from "../../src/services/rate-limit.ts";
+
+const originalRateLimit = structuredClone(config.rateLimit);
+
+/** Routes hold on to their config.rateLimit entry, so limits are changed in place. */
+function setLimits(overrides: Record<string, any>) {
+  const rateLimit = config.rateLimit as any;
+  for (const [key, value] of Object.entries(overrides)) {
+    if (typeof value === "object") Object.assign(rateLimit[key], value);
+    else rateLimit[key] = value;
+  }
+}
+
+function restoreLimits() {
+  const rateLimit = config.rateLimit as any;
+  for (const [key, value] of Object.entries(originalRateLimit)) {
+    if (typeof value === "object") Object.assign(rateLimit[key], value);
+    else rateLimit[key] = value;
+  }
+}
+
+/** `forwardedFor` is the X-Forwarded-For the API receives, the proxy's hop last. */
+function login(email: string, forwardedFor = "203.0.113.7") {
+  return testJson("/api/auth/login", {
+    method: "POST",
+    headers: { "X-Forwarded-For": forwardedFor },
+    body: JSON.stringify({ email, password: "password123" }),
+  });
+}
+
+describe("Rate limiting", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setRateLimitStore(createMemoryStore());
+    (db.query.users.findFirst as any).mockResolvedValue(null);
+    (db.query.deviceActivations.findFirst as any).mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    restoreLimits();
+    vi.restoreAllMocks();
+  });
+
+  it("parses limits written as requests per window", () => {
+    expect(parseLimit("5/15m")).toEqual({ limit: 5, windowMs: 15 * 60 * 1000 });
+    expect(parseLimit("3/1d")).toEqual({ limit: 3, windowMs: 24 * 60 * 60 * 1000 });
+    expect(() => parseLimit("five per minute")).toThrow("Invalid rate limit");
+  });
+
+  it("opens a new window once the previous one ends", async () => {
+    const store = createMemoryStore();
+    const start = new Date("2026-01-01T00:00:00Z");
+
+    expect((await store.hit("k", 60_000, start)).count).toBe(1);
+    expect((await store.hit("k", 60_000, new Date(start.getTime() + 59_000))).count).toBe(2);
+    const next = await store.hit("k", 60_000, new Date(start.getTime() + 60_000));
+    expect(next).toEqual({ count: 1, resetAt: new Date(start.getTime() + 120_000) });
+    expect(await store.prune(new Date(start.getTime() + 200_000))).toBe(1);
+  });
+
+  it("refuses logins for an email past its limit with 429 and Retry-After", async () => {
+    setLimits({ login: { ip: "100/15m", email: "2/15m" } });
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    expect((await login("admin@test.com")).status).toBe(401);
+    expect((await login("ADMIN@test.com")).status).toBe(401);
+    const { status, body, headers } = await login("admin@test.com");
+    await login("admin@test.com");
+
+    expect(status).toBe(429);
+    expect(body.code).toBe("RATE_LIMITED");
+    expect(Number(headers.get("Retry-After"))).toBeGreaterThan(800);
+    // The lockout is logged once per window, not on every refused request
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0]![0]).toContain("login: email admin@test.com locked out");
+
+    // Another email is still let through
+    expect((await login("other@test.com")).status).toBe(401);
+  });
+
+  it("limits per client IP across emails", async () => {
+    setLimits({ login: { ip: "2/15m", email: "100/15m" } });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await login("a@test.com");
+    await login("b@test.com");
+    expect((await login("c@test.com")).status).toBe(429);
+    expect((await login("c@test.com", "198.51.100.4")).status).toBe(401);
+  });
+
+  it("ignores the hops a client adds in front of the proxy's", async () => {
+    setLimits({ login: { ip: "2/15m", email: "100/15m" } });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await login("a@test.com", "198.51.100.1, 203.0.113.7");
+    await login("b@test.com", "198.51.100.2, 203.0.113.7");
+    expect((await login("c@test.com", "198.51.100.3, 203.0.113.7")).status).toBe(429);
+  });
+
+  it("takes the client IP as many hops from the end as there are proxies", async () => {
+    setLimits({ trustedProxies: 2, login: { ip: "1/15m", email: "100/15m" } });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    await login("a@test.com", "198.51.100.1, 203.0.113.7, 10.0.0.1");
+    expect((await login("b@test.com", "198.51.100.2, 203.0.113.7, 10.0.0.2")).status).toBe(429);
+    expect((await login("c@test.com", "203.0.113.8, 10.0.0.1")).status).toBe(401);
+  });
+
+  it("limits device discovery per device fingerprint", async () => {
+    setLimits({ deviceDiscover: { ip: "100/5m", device: "1/5m" } });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const discover = (fingerprint: string) =>
+      testJson("/api/auth/device/discover", {
+        method: "POST",
+        body: JSON.stringify({ device_fingerprint: fingerprint }),
+      });
+
+    expect((await discover("device-1")).status).toBe(200);
+    expect((await discover("device-1")).status).toBe(429);
+    expect((await discover("device-2")).status).toBe(200);
+  });
+
+  it("limits second-factor attempts per challenged account across IPs", async () => {
+    setLimits({ twoFactor: { ip: "100/15m", account: "2/15m" } });
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    (db.query.users.findFirst as any).mockImplementation(async () => ({ id: 1, isActive: true }));
+    const verify = async (userId: number, forwardedFor: string) =>
+      testJson("/api/auth/login/2fa", {
+        method: "POST",
+        headers: { "X-Forwarded-For": forwardedFor },
+        body: JSON.stringify({ twoFactorToken: await createTwoFactorToken(userId), code: "123456" }),
+      });
+
+    expect((await verify(1, "198.51.100.1")).status).toBe(401);
+    expect((await verify(1, "198.51.100.2")).status).toBe(401);
+    // A fresh challenge for the same account does not reset the count
+    expect((await verify(1, "198.51.100.3")).status).toBe(429);
+    expect((await verify(2, "198.51.100.3")).status).toBe(401);
+  });
+
+  it("lets requests through when the store is unavailable", async () => {
+    setLimits({ login: { ip: "1/15m", email: "1/15m" } });
+    const failing: RateLimitStore = {
+      hit: vi.fn().mockRejectedValue(new Error("connection refused")),
+      prune: vi.fn(),
+    };
+    setRateLimitStore(failing);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await login("admin@test.com");
+    expect((await login("admin@test.com")).status).toBe(401);
+  });
+
+  it("does nothing when disabled", async () => {
+    setLimits({ enabled: false, login: { ip: "1/15m", email: "1/15m" } });
+
+    await login("admin@test.com");
+    expect((await login("admin@test.com")).status).toBe(401);
+  });
+});
@@ -9,8 +9,14 @@ vi.mock("../../src/db/index.ts", () => ({
       events: { findMany: vi.fn() },
       users: { findFirst: vi.fn() },
       // access.ts uses these for group/event attendance checks
-      userGroupMemberships: { findFirst: vi.fn().mockResolvedValue(null) },
-      userEventAttendance: { findFirst: vi.fn().mockResolvedValue(null) },
+      userGroupMemberships: {
+        findFirst: vi.fn().mockResolvedValue(null),
+        findMany: vi.fn().mockResolvedValue([]),
+      },
+      userEventAttendance: {
+        findFirst: vi.fn().mockResolvedValue(null),
+        findMany: vi.fn().mockResolvedValue([]),
+      },
     },
     select: vi.fn(() => ({
       from: vi.fn(() => ({
@@ -20,6 +26,13 @@ vi.mock("../../src/db/index.ts", () => ({
   },
 }));
 
+// Every token counts as current; token versions are covered in tests/services/sessions.test.ts
+vi.mock("../../src/services/sessions.ts", () => ({
+  isSessionCurrent: vi.fn().mockResolvedValue(true),
+  revokeUserSessions: vi.fn().mockResolvedValue(undefined),
+  forgetSession: vi.fn(),
+}));
+
 import { db } from "../../src/db/index.ts";
 import { createAccessToken } from "../../src/services/auth.ts";
 
@@ -152,6 +165,16 @@ describe("GET /api/search", () => {
       expect(body.results[0].event.id).toBe(1);
     });
 
+    it("does not match tracks of sessions restricted by an audience override", async () => {
+      const event = makeEvent();
+      event.sessions[1] = { ...event.sessions[1]!, audience: { slug: "received-initiation" } } as any;
+      (db.query.events.findMany as any).mockResolvedValue([event]);
+
+      const { body } = await testJson("/api/search?q=emptiness%20nature");
+
+      expect(body.results).toHaveLength(0);
+    });
+
     it("returns empty results when no match", async () => {
       const publicEvent = makeEvent();
       (db.query.events.findMany as any).mockResolvedValue([publicEvent]);
@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { testJson } from "../helpers.ts";
+
+// Mock the database module before importing anything that uses it
+vi.mock("../../src/db/index.ts", () => ({
+  db: {
+    query: {
+      events: { findMany: vi.fn(), findFirst: vi.fn() },
+      users: { findFirst: vi.fn() },
+      userEventAttendance: {
+        findFirst: vi.fn().mockResolvedValue(null),
+        findMany: vi.fn().mockResolvedValue([]),
+      },
+      userGroupMemberships: {
+        findFirst: vi.fn().mockResolvedValue(null),
+        findMany: vi.fn().mockResolvedValue([]),
+      },
+    },
+    insert: vi.fn(),
+    select: vi.fn(() => ({
+      from: vi.fn(() => ({
+        where: vi.fn(() => Promise.resolve([])),
+      })),
+    })),
+  },
+}));
+
+// Every token counts as current; token versions are covered in tests/services/sessions.test.ts
+vi.mock("../../src/services/sessions.ts", () => ({
+  isSessionCurrent: vi.fn().mockResolvedValue(true),
+  revokeUserSessions: vi.fn().mockResolvedValue(undefined),
+  forgetSession: vi.fn(),
+}));
+
+import { db } from "../../src/db/index.ts";
+import { config } from "../../src/config.ts";
+import { createAccessToken } from "../../src/services/auth.ts";
+
+function mockInsertChain() {
+  return { values: vi.fn().mockResolvedValue(undefined) };
+}
+
+async function adminHeader(extra: Record<string, string> = {}, mfa = false) {
+  const token = await createAccessToken({ sub: 100, email: "admin@test.com", role: "admin", mfa });
+  return { Authorization: `Bearer ${token}`, ...extra };
+}
+
+async function userHeader(extra: Record<string, string> = {}) {
+  const token = await createAccessToken({ sub: 1, email: "user@test.com", role: "user" });
+  return { Authorization: `Bearer ${token}`, ...extra };
+}
+
+const maria = {
+  id: 7,
+  email: "maria@test.com",
+  role: "user",
+  subscriptionStatus: "none",
+  subscriptionExpiresAt: null,
+};
+
+const publicEvent = { id: 1, titleEn: "Open Talk", audience: { slug: "free-anyone" } };
+const subscriberEvent = { id: 2, titleEn: "PP2 Retreat", audience: { slug: "free-subscribers" } };
+
+describe("X-View-As-User", () => {
+  const originalRequiredRoles = config.twoFactor.requiredRoles;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    (config.twoFactor as any).requiredRoles = originalRequiredRoles;
+  });
+
+  it("evaluates /api/events as the chosen user", async () => {
+    (db.query.users.findFirst as any).mockResolvedValue(maria);
+    (db.query.events.findMany as any).mockResolvedValue([publicEvent, subscriberEvent]);
+    (db.insert as any).mockReturnValue(mockInsertChain());
+
+    const { status, body, headers } = await testJson("/api/events", {
+      headers: await adminHeader({ "X-View-As-User": "7" }),
+    });
+
+    expect(status).toBe(200);
+    expect(body.map((e: any) => e.id)).toEqual([1]);
+    expect(headers.get("X-View-As-User")).toBe("7");
+  });
+
+  it("records every preview in the audit log", async () => {
+    (db.query.users.findFirst as any).mockResolvedValue(maria);
+    (db.query.events.findMany as any).mockResolvedValue([]);
+    const insertChain = mockInsertChain();
+    (db.insert as any).mockReturnValue(insertChain);
+
+    await testJson("/api/search?q=retreat", {
+      headers: await adminHeader({ "X-View-As-User": "7" }),
+    });
+
+    expect(insertChain.values).toHaveBeenCalledWith(
+      expect.objectContaining({
+        adminId: 100,
+        action: "view_as",
+        targetUserId: 7,
+        method: "GET",
+        path: "/api/search",
+      }),
+    );
+  });
+
+  it("explains event access from the user's point of view", async () => {
+    (db.query.users.findFirst as any).mockResolvedValue(maria);
+    (db.query.events.findFirst as any).mockResolvedValue(subscriberEvent);
+    (db.insert as any).mockReturnValue(mockInsertChain());
+
+    const { body } = await testJson("/api/events/2/access", {
+      headers: await adminHeader({ "X-View-As-User": "7" }),
+    });
+
+    expect(body.allowed).toBe(false);
+    expect(body.reason).toBe("SUBSCRIPTION_REQUIRED");
+  });
+
+  it("is forbidden for non-admins", async () => {
+    const { status } = await testJson("/api/events", {
+      headers: await userHeader({ "X-View-As-User": "7" }),
+    });
+
+    expect(status).toBe(403);
+    expect(db.insert).not.toHaveBeenCalled();
+  });
+
+  it("needs a second factor from roles that need one for the admin API", async () => {
+    (config.twoFactor as any).requiredRoles = "admin,superadmin";
+    (db.query.users.findFirst as any).mockResolvedValue(maria);
+    (db.query.events.findFirst as any).mockResolvedValue(subscriberEvent);
+    (db.insert as any).mockReturnValue(mockInsertChain());
+
+    // Also on the routes that work without signing in
+    const refused = await testJson("/api/events/2/access", {
+      headers: await adminHeader({ "X-View-As-User": "7" }),
+    });
+    expect(refused.status).toBe(403);
+    expect(refused.body.code).toBe("TWO_FACTOR_REQUIRED");
+    expect(db.insert).not.toHaveBeenCalled();
+
+    const allowed = await testJson("/api/events/2/access", {
+      headers: await adminHeader({ "X-View-As-User": "7" }, true),
+    });
+    expect(allowed.status).toBe(200);
+  });
+
+  it("is read-only", async () => {
+    const { status, body } = await testJson("/api/events/2/request-download", {
+      method: "POST",
+      headers: await adminHeader({ "X-View-As-User": "7" }),
+    });
+
+    expect(status).toBe(403);
+    expect(body.error).toBe("Viewing as another user is read-only");
+  });
+
+  it("returns 404 for an unknown user", async () => {
+    (db.query.users.findFirst as any).mockResolvedValue(null);
+
+    const { status } = await testJson("/api/groups", {
+      headers: await adminHeader({ "X-View-As-User": "999" }),
+    });
+
+    expect(status).toBe(404);
+  });
+});
@@ -6,9 +6,11 @@ vi.mock("../../src/db/index.ts", () => ({
     query: {
       userEventAttendance: {
         findFirst: vi.fn(),
+        findMany: vi.fn(),
       },
       userGroupMemberships: {
         findFirst: vi.fn(),
+        findMany: vi.fn(),
       },
     },
     select: vi.fn(),
@@ -22,6 +24,9 @@ const mockDb = db as any;
 import {
   checkEventAccess,
   filterAccessibleEvents,
+  createAccessResolver,
+  isGrantActive,
+  isMembershipActive,
   AUDIENCE_SLUGS,
 } from "../../src/services/access.ts";
 
@@ -36,7 +41,11 @@ function makeUser(overrides: Record<string, any> = {}) {
   };
 }
 
-function makeEvent(audienceSlug: string | null, id = 1) {
+function makeEvent(audienceSlug: string | null, id = 1): {
+  id: number;
+  audience: { slug: string } | null;
+  audienceId: number | null;
+} {
   return {
     id,
     audience: audienceSlug ? { slug: audienceSlug } : null,
@@ -161,6 +170,70 @@ describe("Access Control Service", () => {
       });
     });
 
+    describe("time-boxed grants", () => {
+      it("denies access when the grant has expired", async () => {
+        const user = makeUser({ subscriptionStatus: "none" });
+        const event = makeEvent(AUDIENCE_SLUGS.ON_REQUEST);
+
+        mockDb.query.userEventAttendance.findFirst.mockResolvedValueOnce({
+          userId: 1,
+          eventId: 1,
+          validFrom: null,
+          validUntil: new Date("2020-01-01"),
+        });
+
+        const result = await checkEventAccess(user, event);
+        expect(result).toEqual({ allowed: false, reason: "ACCESS_DENIED" });
+      });
+
+      it("denies access before the grant starts", async () => {
+        const user = makeUser();
+        const event = makeEvent(AUDIENCE_SLUGS.EVENT_PARTICIPANTS);
+
+        mockDb.query.userEventAttendance.findFirst.mockResolvedValueOnce({
+          userId: 1,
+          eventId: 1,
+          validFrom: new Date("2099-01-01"),
+          validUntil: null,
+        });
+
+        const result = await checkEventAccess(user, event);
+        expect(result).toEqual({ allowed: false, reason: "EVENT_ATTENDANCE_REQUIRED" });
+      });
+
+      it("allows access inside the grant window", async () => {
+        const user = makeUser({ subscriptionStatus: "none" });
+        const event = makeEvent(AUDIENCE_SLUGS.INITIATION);
+
+        mockDb.query.userEventAttendance.findFirst.mockResolvedValueOnce({
+          userId: 1,
+          eventId: 1,
+          validFrom: new Date("2020-01-01"),
+          validUntil: new Date("2099-12-31"),
+        });
+
+        const result = await checkEventAccess(user, event);
+        expect(result).toEqual({ allowed: true });
+      });
+
+      it("falls back to group membership when the cross-group grant expired", async () => {
+        const user = makeUser();
+        const event = makeEvent(AUDIENCE_SLUGS.GROUP_MEMBERS);
+
+        mockDb.query.userEventAttendance.findFirst.mockResolvedValueOnce({
+          userId: 1,
+          eventId: 1,
+          validFrom: null,
+          validUntil: new Date("2020-01-01"),
+        });
+        mockSelectChain([{ retreatGroupId: 5 }]);
+        mockDb.query.userGroupMemberships.findFirst.mockResolvedValueOnce(null);
+
+        const result = await checkEventAccess(user, event);
+        expect(result).toEqual({ allowed: false, reason: "GROUP_MEMBERSHIP_REQUIRED" });
+      });
+    });
+
     describe("subscriber events", () => {
       it("allows access with active subscription", async () => {
         const user = makeUser();
@@ -199,6 +272,26 @@ describe("Access Control Service", () => {
         const result = await checkEventAccess(user, event);
         expect(result).toEqual({ allowed: true });
       });
+
+      it("allows access while a past-due subscription is in its grace period", async () => {
+        const user = makeUser({
+          subscriptionStatus: "past_due",
+          subscriptionExpiresAt: new Date(Date.now() + 86400000),
+        });
+        const event = makeEvent(AUDIENCE_SLUGS.SUBSCRIBERS);
+        const result = await checkEventAccess(user, event);
+        expect(result).toEqual({ allowed: true });
+      });
+
+      it("denies access once the grace period has passed", async () => {
+        const user = makeUser({
+          subscriptionStatus: "past_due",
+          subscriptionExpiresAt: new Date("2020-01-01"),
+        });
+        const event = makeEvent(AUDIENCE_SLUGS.SUBSCRIBERS);
+        const result = await checkEventAccess(user, event);
+        expect(result).toEqual({ allowed: false, reason: "SUBSCRIPTION_REQUIRED" });
+      });
     });
 
     describe("group member events", () => {
@@ -298,6 +391,230 @@ describe("Access Control Service", () => {
     });
   });
 
+  describe("isGrantActive", () => {
+    const now = new Date("2025-06-15T12:00:00Z");
+
+    it("treats open-ended grants as active", () => {
+      expect(isGrantActive({ validFrom: null, validUntil: null }, now)).toBe(true);
+    });
+
+    it("is inactive before validFrom", () => {
+      expect(
+        isGrantActive({ validFrom: new Date("2025-07-01"), validUntil: null }, now),
+      ).toBe(false);
+    });
+
+    it("is inactive once validUntil is reached", () => {
+      expect(isGrantActive({ validFrom: null, validUntil: now }, now)).toBe(false);
+    });
+
+    it("is active between validFrom and validUntil", () => {
+      expect(
+        isGrantActive(
+          { validFrom: new Date("2025-06-01"), validUntil: new Date("2025-07-01") },
+          now,
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe("isMembershipActive", () => {
+    it("only counts confirmed memberships", () => {
+      expect(isMembershipActive({ status: "confirmed" })).toBe(true);
+      expect(isMembershipActive({ status: "pending" })).toBe(false);
+      expect(isMembershipActive({ status: "lapsed" })).toBe(false);
+      expect(isMembershipActive({ status: "removed" })).toBe(false);
+    });
+  });
+
+  describe("createAccessResolver", () => {
+    function mockResolverData({
+      grants = [] as any[],
+      memberships = [] as any[],
+      eventGroups = [] as any[],
+    }) {
+      mockDb.query.userEventAttendance.findMany.mockResolvedValue(grants);
+      mockDb.query.userGroupMemberships.findMany.mockResolvedValue(memberships);
+      mockDb.select.mockReturnValue({
+        from: vi.fn().mockReturnValue({
+          where: vi.fn().mockResolvedValue(eventGroups),
+        }),
+      });
+    }
+
+    it("decides a mixed list with one query per kind of fact", async () => {
+      const user = makeUser();
+      const events = [
+        makeEvent(AUDIENCE_SLUGS.PUBLIC, 1),
+        makeEvent(AUDIENCE_SLUGS.GROUP_MEMBERS, 2), // user in group 5
+        makeEvent(AUDIENCE_SLUGS.GROUP_MEMBERS, 3), // group 6, not a member
+        makeEvent(AUDIENCE_SLUGS.GROUP_MEMBERS, 4), // no groups linked
+        makeEvent(AUDIENCE_SLUGS.EVENT_PARTICIPANTS, 5), // attended
+        makeEvent(AUDIENCE_SLUGS.EVENT_PARTICIPANTS, 6), // not attended
+        makeEvent(AUDIENCE_SLUGS.ON_REQUEST, 7), // grant expired
+      ];
+      mockResolverData({
+        grants: [
+          { eventId: 5, validFrom: null, validUntil: null },
+          { eventId: 7, validFrom: null, validUntil: new Date("2020-01-01") },
+        ],
+        memberships: [{ retreatGroupId: 5, status: "confirmed" }],
+        eventGroups: [
+          { eventId: 2, retreatGroupId: 5 },
+          { eventId: 3, retreatGroupId: 6 },
+        ],
+      });
+
+      const resolver = createAccessResolver(user, events);
+      const results = await Promise.all(events.map((e) => resolver.check(e)));
+
+      expect(results).toEqual([
+        { allowed: true },
+        { allowed: true },
+        { allowed: false, reason: "GROUP_MEMBERSHIP_REQUIRED" },
+        { allowed: true },
+        { allowed: true },
+        { allowed: false, reason: "EVENT_ATTENDANCE_REQUIRED" },
+        { allowed: false, reason: "ACCESS_DENIED" },
+      ]);
+      expect(mockDb.query.userEventAttendance.findMany).toHaveBeenCalledTimes(1);
+      expect(mockDb.query.userGroupMemberships.findMany).toHaveBeenCalledTimes(1);
+      expect(mockDb.select).toHaveBeenCalledTimes(1);
+      expect(mockDb.query.userEventAttendance.findFirst).not.toHaveBeenCalled();
+    });
+
+    it("honors cross-group attendance for group member events", async () => {
+      const user = makeUser();
+      const event = makeEvent(AUDIENCE_SLUGS.GROUP_MEMBERS, 2);
+      mockResolverData({
+        grants: [{ eventId: 2, validFrom: null, validUntil: null }],
+        eventGroups: [{ eventId: 2, retreatGroupId: 9 }],
+      });
+
+      const result = await createAccessResolver(user, [event]).check(event);
+      expect(result).toEqual({ allowed: true });
+    });
+
+    it("ignores pending, lapsed and removed memberships", async () => {
+      const user = makeUser();
+      const events = [
+        makeEvent(AUDIENCE_SLUGS.GROUP_MEMBERS, 1),
+        makeEvent(AUDIENCE_SLUGS.GROUP_MEMBERS, 2),
+        makeEvent(AUDIENCE_SLUGS.GROUP_MEMBERS, 3),
+        makeEvent(AUDIENCE_SLUGS.GROUP_MEMBERS, 4),
+      ];
+      mockResolverData({
+        memberships: [
+          { retreatGroupId: 5, status: "pending" },
+          { retreatGroupId: 6, status: "lapsed" },
+          { retreatGroupId: 7, status: "removed" },
+          { retreatGroupId: 8, status: "confirmed" },
+        ],
+        eventGroups: [
+          { eventId: 1, retreatGroupId: 5 },
+          { eventId: 2, retreatGroupId: 6 },
+          { eventId: 3, retreatGroupId: 7 },
+          { eventId: 4, retreatGroupId: 8 },
+        ],
+      });
+
+      const visible = await createAccessResolver(user, events).filter(events);
+      expect(visible.map((e) => e.id)).toEqual([4]);
+    });
+
+    it("does not query anything for anonymous users or admins", async () => {
+      const events = [
+        makeEvent(AUDIENCE_SLUGS.SUBSCRIBERS, 1),
+        makeEvent(AUDIENCE_SLUGS.GROUP_MEMBERS, 2),
+      ];
+
+      const anonymous = await createAccessResolver(null, events).filter(events);
+      const admin = await createAccessResolver(makeUser({ role: "admin" }), events).filter(events);
+
+      expect(anonymous).toEqual([]);
+      expect(admin).toHaveLength(2);
+      expect(mockDb.query.userEventAttendance.findMany).not.toHaveBeenCalled();
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+
+    it("loads group links for events outside the preloaded list on demand", async () => {
+      const user = makeUser();
+      mockResolverData({
+        memberships: [{ retreatGroupId: 5, status: "confirmed" }],
+        eventGroups: [{ eventId: 8, retreatGroupId: 5 }],
+      });
+
+      const resolver = createAccessResolver(user, []);
+      const result = await resolver.check(makeEvent(AUDIENCE_SLUGS.GROUP_MEMBERS, 8));
+      expect(result).toEqual({ allowed: true });
+    });
+  });
+
+  describe("session and track audience overrides", () => {
+    const initiation = { slug: AUDIENCE_SLUGS.INITIATION };
+
+    it("checks the session's audience instead of the event's", async () => {
+      mockDb.query.userEventAttendance.findFirst.mockResolvedValueOnce(null);
+
+      const result = await checkEventAccess(makeUser(), makeEvent(AUDIENCE_SLUGS.PUBLIC), {
+        session: { audience: initiation },
+      });
+
+      expect(result).toEqual({ allowed: false, reason: "ACCESS_DENIED" });
+    });
+
+    it("lets a track override its session", async () => {
+      const result = await checkEventAccess(null, makeEvent(AUDIENCE_SLUGS.SUBSCRIBERS), {
+        session: { audience: initiation },
+        track: { audience: { slug: AUDIENCE_SLUGS.PUBLIC } },
+      });
+
+      expect(result).toEqual({ allowed: true });
+    });
+
+    it("inherits the event's audience when nothing is overridden", async () => {
+      const result = await checkEventAccess(null, makeEvent(AUDIENCE_SLUGS.PUBLIC), {
+        session: { audience: null },
+        track: { audience: null },
+      });
+
+      expect(result).toEqual({ allowed: true });
+    });
+
+    it("locks restricted sessions and drops restricted tracks", async () => {
+      mockDb.query.userEventAttendance.findMany.mockResolvedValueOnce([]);
+      const event = {
+        ...makeEvent(AUDIENCE_SLUGS.PUBLIC),
+        sessions: [
+          { id: 1, audience: null, tracks: [{ id: 10, audience: null }, { id: 11, audience: initiation }] },
+          { id: 2, audience: initiation, tracks: [{ id: 20, audience: null }] },
+        ],
+      };
+
+      const result = await createAccessResolver(makeUser(), [event]).lockRestricted(event);
+
+      expect(result.sessions).toEqual([
+        { id: 1, audience: null, locked: false, tracks: [{ id: 10, audience: null }] },
+        { id: 2, audience: initiation, locked: true, tracks: [] },
+      ]);
+      expect(mockDb.query.userEventAttendance.findMany).toHaveBeenCalledTimes(1);
+    });
+
+    it("unlocks restricted sessions for users with a grant", async () => {
+      mockDb.query.userEventAttendance.findMany.mockResolvedValueOnce([
+        { eventId: 1, validFrom: null, validUntil: null },
+      ]);
+      const event = {
+        ...makeEvent(AUDIENCE_SLUGS.PUBLIC),
+        sessions: [{ id: 2, audience: initiation, tracks: [{ id: 20, audience: null }] }],
+      };
+
+      const result = await createAccessResolver(makeUser(), [event]).lockRestricted(event);
+
+      expect(result.sessions![0]).toMatchObject({ locked: false, tracks: [{ id: 20 }] });
+    });
+  });
+
   describe("filterAccessibleEvents", () => {
     it("returns only accessible events", async () => {
       const user = makeUser();
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// vi.mock is hoisted — factory must not reference outer variables
+vi.mock("../../src/db/index.ts", () => ({
+  db: {
+    query: {
+      deviceActivations: { findMany: vi.fn() },
+    },
+    update: vi.fn(),
+  },
+}));
+
+import { db } from "../../src/db/index.ts";
+import { config } from "../../src/config.ts";
+import { claimDeviceSlot, deviceLimitFor, parseRoleLimits } from "../../src/services/devices.ts";
+const mockDb = db as any;
+
+const originalDevices = { ...config.devices };
+const member = { id: 1, role: "user" };
+
+function device(id: number, fingerprint: string, lastUsed: string) {
+  return {
+    id,
+    userId: 1,
+    deviceFingerprint: fingerprint,
+    deviceName: `Device ${id}`,
+    deviceType: "ios",
+    isActive: true,
+    lastUsed: new Date(lastUsed),
+    activatedAt: new Date("2026-01-01T00:00:00Z"),
+  };
+}
+
+// Oldest first, as claimDeviceSlot queries them
+const activeDevices = [
+  device(1, "phone-a", "2026-02-01T00:00:00Z"),
+  device(2, "tablet-b", "2026-03-01T00:00:00Z"),
+];
+
+let updateChain: any;
+
+function setDevices(overrides: Partial<typeof config.devices>) {
+  Object.assign(config.devices as any, overrides);
+}
+
+describe("Device limits", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    updateChain = { set: vi.fn().mockReturnThis(), where: vi.fn().mockResolvedValue(undefined) };
+    mockDb.update.mockReturnValue(updateChain);
+    mockDb.query.deviceActivations.findMany.mockResolvedValue(activeDevices);
+  });
+
+  afterEach(() => {
+    Object.assign(config.devices as any, originalDevices);
+  });
+
+  it("applies per-role limits over the global one", () => {
+    expect(parseRoleLimits("user=2, admin=0")).toEqual({ user: 2, admin: 0 });
+    expect(() => parseRoleLimits("user:2")).toThrow("Invalid device limit");
+
+    setDevices({ limit: 3, limitByRole: "admin=0" });
+    expect(deviceLimitFor("user")).toBe(3);
+    expect(deviceLimitFor("admin")).toBe(0);
+  });
+
+  it("lets any number of devices in without a limit", async () => {
+    setDevices({ limit: 0 });
+    expect(await claimDeviceSlot(member, "laptop-c")).toEqual({ ok: true, evicted: [] });
+    expect(mockDb.query.deviceActivations.findMany).not.toHaveBeenCalled();
+  });
+
+  it("does not count a device that is already active", async () => {
+    setDevices({ limit: 2 });
+    expect(await claimDeviceSlot(member, "tablet-b")).toEqual({ ok: true, evicted: [] });
+    expect(mockDb.update).not.toHaveBeenCalled();
+  });
+
+  it("signs out the least recently used device under evict_lru", async () => {
+    setDevices({ limit: 2, policy: "evict_lru" });
+    const result = await claimDeviceSlot(member, "laptop-c");
+
+    expect(result).toEqual({ ok: true, evicted: [activeDevices[0]] });
+    expect(updateChain.set).toHaveBeenCalledWith({ isActive: false });
+    // Its refresh tokens are revoked too
+    expect(updateChain.set).toHaveBeenCalledWith({ revokedAt: expect.any(Date) });
+  });
+
+  it("asks which device to replace under ask, then replaces the one picked", async () => {
+    setDevices({ limit: 2, policy: "ask" });
+
+    expect(await claimDeviceSlot(member, "laptop-c")).toEqual({
+      ok: false,
+      reason: "limit_reached",
+      limit: 2,
+      devices: activeDevices,
+    });
+    expect(mockDb.update).not.toHaveBeenCalled();
+
+    expect(await claimDeviceSlot(member, "laptop-c", 2)).toEqual({ ok: true, evicted: [activeDevices[1]] });
+    expect(await claimDeviceSlot(member, "laptop-c", 99)).toEqual({ ok: false, reason: "invalid_replacement" });
+  });
+
+  it("evicts enough devices when the limit was lowered", async () => {
+    setDevices({ limit: 1, policy: "ask" });
+    const result = await claimDeviceSlot(member, "laptop-c", 2);
+    expect(result).toEqual({ ok: true, evicted: [activeDevices[1], activeDevices[0]] });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// vi.mock is hoisted — factory must not reference outer variables
+vi.mock("../../src/db/index.ts", () => ({
+  db: {
+    query: {
+      users: { findFirst: vi.fn() },
+      emailChangeRequests: { findFirst: vi.fn() },
+    },
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock("../../src/services/email.ts", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/services/email.ts")>()),
+  sendEmail: vi.fn(),
+}));
+
+import { db } from "../../src/db/index.ts";
+import { sendEmail } from "../../src/services/email.ts";
+import { hashToken } from "../../src/services/auth.ts";
+import { requestEmailChange, confirmEmailChange } from "../../src/services/email-change.ts";
+const mockDb = db as any;
+
+const NOW = new Date("2026-03-01T12:00:00Z");
+
+const member = { id: 5, email: "old@test.com", preferredLanguage: "en", isActive: true };
+
+let insertChain: any;
+let updateChain: any;
+let deleteChain: any;
+
+describe("Email change", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    insertChain = { values: vi.fn().mockResolvedValue(undefined) };
+    updateChain = {
+      set: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      returning: vi.fn().mockResolvedValue([{ id: 1 }]),
+    };
+    deleteChain = { where: vi.fn().mockResolvedValue(undefined) };
+    mockDb.insert.mockReturnValue(insertChain);
+    mockDb.update.mockReturnValue(updateChain);
+    mockDb.delete.mockReturnValue(deleteChain);
+    // The user by id, then nobody owning the new address
+    mockDb.query.users.findFirst.mockImplementation(async () =>
+      mockDb.query.users.findFirst.mock.calls.length === 1 ? member : undefined,
+    );
+    mockDb.query.emailChangeRequests.findFirst.mockResolvedValue({
+      id: 1,
+      userId: 5,
+      newEmail: "new@test.com",
+      user: member,
+    });
+  });
+
+  describe("requestEmailChange", () => {
+    it("sends a confirmation link to the new address only", async () => {
+      const result = await requestEmailChange(5, " New@Test.com ");
+
+      expect(result).toMatchObject({ ok: true, newEmail: "new@test.com" });
+      const values = insertChain.values.mock.calls[0][0];
+      expect(values).toMatchObject({ userId: 5, newEmail: "new@test.com", requestedById: null });
+      // Only the hash is stored; the link carries the token
+      const token = (result as any).confirmUrl.match(/email-change\/([0-9a-f]+)/)[1];
+      expect(values.tokenHash).toBe(await hashToken(token));
+      // Unconfirmed requests are replaced
+      expect(mockDb.delete).toHaveBeenCalled();
+      expect(sendEmail).toHaveBeenCalledTimes(1);
+      expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: "new@test.com" }));
+    });
+
+    it("refuses the current address", async () => {
+      const result = await requestEmailChange(5, "OLD@test.com");
+      expect(result).toEqual({ ok: false, reason: "unchanged" });
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+
+    it("refuses an address another account uses", async () => {
+      mockDb.query.users.findFirst.mockResolvedValueOnce(member).mockResolvedValueOnce({ id: 8 });
+      const result = await requestEmailChange(5, "taken@test.com");
+      expect(result).toEqual({ ok: false, reason: "taken" });
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("confirmEmailChange", () => {
+    it("moves the account and its approval requests, and tells the old address", async () => {
+      const result = await confirmEmailChange("token", NOW);
+
+      expect(result).toMatchObject({ ok: true, userId: 5, oldEmail: "old@test.com", newEmail: "new@test.com" });
+      expect(updateChain.set).toHaveBeenCalledWith({ confirmedAt: NOW });
+      expect(updateChain.set).toHaveBeenCalledWith({ email: "new@test.com", isVerified: true, updatedAt: NOW });
+      expect(updateChain.set).toHaveBeenCalledWith({ email: "new@test.com" });
+      // Magic links already sent to the old address stop working
+      expect(updateChain.set).toHaveBeenCalledWith({ isUsed: true });
+      expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: "old@test.com" }));
+    });
+
+    it("refuses unknown, used or expired links", async () => {
+      mockDb.query.emailChangeRequests.findFirst.mockResolvedValue(undefined);
+      expect(await confirmEmailChange("token", NOW)).toEqual({ ok: false, reason: "invalid" });
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it("refuses when the address was taken since the link was sent", async () => {
+      mockDb.query.users.findFirst.mockResolvedValue({ id: 8 });
+      expect(await confirmEmailChange("token", NOW)).toEqual({ ok: false, reason: "taken" });
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it("applies a link once when opened twice at the same time", async () => {
+      updateChain.returning.mockResolvedValue([]);
+      expect(await confirmEmailChange("token", NOW)).toEqual({ ok: false, reason: "invalid" });
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+  });
+});
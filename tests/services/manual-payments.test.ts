@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PDFDocument } from "pdf-lib";
+
+// vi.mock is hoisted — factory must not reference outer variables
+vi.mock("../../src/db/index.ts", () => {
+  const db: any = {
+    query: {
+      users: { findFirst: vi.fn() },
+    },
+    insert: vi.fn(),
+    update: vi.fn(),
+  };
+  // The transaction runs on the same mocks
+  db.transaction = vi.fn(async (run: (tx: any) => unknown) => run(db));
+  return { db };
+});
+
+vi.mock("../../src/services/subscriptions.ts", () => ({
+  activateSubscription: vi.fn(),
+  renewSubscription: vi.fn(),
+  findActiveSubscription: vi.fn(),
+}));
+
+vi.mock("../../src/services/email.ts", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/services/email.ts")>()),
+  sendEmail: vi.fn(),
+}));
+
+import { db } from "../../src/db/index.ts";
+import {
+  activateSubscription,
+  renewSubscription,
+  findActiveSubscription,
+} from "../../src/services/subscriptions.ts";
+import { sendEmail } from "../../src/services/email.ts";
+const mockDb = db as any;
+
+import {
+  formatReceiptNumber,
+  recordManualPayment,
+  buildReceiptPdf,
+  sendReceipt,
+  type ManualPayment,
+} from "../../src/services/manual-payments.ts";
+
+const NOW = new Date("2026-03-10T12:00:00Z");
+const PAID_AT = new Date("2026-03-09T00:00:00Z");
+
+const member = {
+  id: 1,
+  email: "ana@example.com",
+  firstName: "Ana",
+  lastName: "Silva",
+  preferredLanguage: "pt",
+};
+
+function makePayment(overrides: Partial<ManualPayment> = {}): ManualPayment {
+  return {
+    id: 12,
+    receiptNumber: "2026/0003",
+    userId: 1,
+    subscriptionId: 40,
+    payerName: "Ana Silva",
+    payerEmail: "ana@example.com",
+    amountCents: 6000,
+    currency: "EUR",
+    method: "bank_transfer",
+    paidAt: PAID_AT,
+    periodStart: new Date("2026-03-09T00:00:00Z"),
+    periodEnd: new Date("2027-03-09T00:00:00Z"),
+    reference: "TRF 88231",
+    note: null,
+    recordedById: 9,
+    receiptSentAt: null,
+    createdAt: NOW,
+    ...overrides,
+  };
+}
+
+/**
+ * Wire the inserts a payment makes: the receipt number claim (upsert on the
+ * year's counter), then the payment row itself.
+ */
+function mockWrites(sequence = 3) {
+  const insertChain = {
+    values: vi.fn().mockReturnThis(),
+    onConflictDoUpdate: vi.fn().mockReturnThis(),
+    returning: vi
+      .fn()
+      .mockResolvedValueOnce([{ lastNumber: sequence }])
+      .mockImplementationOnce(async () => [{ id: 12, ...insertChain.values.mock.calls[1]![0] }]),
+  };
+  const updateChain = {
+    set: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue([]),
+  };
+  mockDb.insert.mockReturnValue(insertChain);
+  mockDb.update.mockReturnValue(updateChain);
+  return { insertChain, updateChain };
+}
+
+describe("Manual payments", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb.query.users.findFirst.mockResolvedValue(member);
+    (findActiveSubscription as any).mockResolvedValue(null);
+    (activateSubscription as any).mockResolvedValue({ id: 40, source: "bank_transfer" });
+  });
+
+  it("numbers receipts per year", () => {
+    expect(formatReceiptNumber(2026, 7)).toBe("2026/0007");
+    expect(formatReceiptNumber(2026, 12345)).toBe("2026/12345");
+  });
+
+  it("starts a subscription for a member without one and issues a receipt", async () => {
+    const { insertChain } = mockWrites(3);
+
+    const result = await recordManualPayment(
+      1,
+      { amountCents: 6000, method: "bank_transfer", paidAt: PAID_AT, months: 12, reference: "TRF 88231", recordedById: 9 },
+      NOW,
+    );
+
+    expect(result.ok).toBe(true);
+    expect(insertChain.values).toHaveBeenNthCalledWith(1, { year: 2026, lastNumber: 1 });
+    expect(activateSubscription).toHaveBeenCalledWith(
+      1,
+      "bank_transfer",
+      new Date("2027-03-09T00:00:00Z"),
+      expect.objectContaining({
+        amountCents: 6000,
+        providerReference: "TRF 88231",
+        note: "Receipt 2026/0003",
+        recordedById: 9,
+        occurredAt: PAID_AT,
+      }),
+      mockDb,
+    );
+    expect(insertChain.values).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        receiptNumber: "2026/0003",
+        subscriptionId: 40,
+        payerName: "Ana Silva",
+        periodStart: PAID_AT,
+        periodEnd: new Date("2027-03-09T00:00:00Z"),
+      }),
+    );
+  });
+
+  it("extends a manual subscription from its current end and takes the payment's method", async () => {
+    const current = { id: 5, source: "admin", status: "active", currentPeriodEnd: new Date("2026-04-01T00:00:00Z") };
+    (findActiveSubscription as any).mockResolvedValue(current);
+    mockWrites();
+
+    const result = await recordManualPayment(1, { amountCents: 1500, method: "cash", paidAt: PAID_AT, months: 3 }, NOW);
+
+    expect(result).toMatchObject({ ok: true, payment: { periodStart: new Date("2026-04-01T00:00:00Z") } });
+    expect(renewSubscription).toHaveBeenCalledWith(
+      current,
+      new Date("2026-07-01T00:00:00Z"),
+      expect.objectContaining({ source: "cash", amountCents: 1500 }),
+      mockDb,
+    );
+    expect(activateSubscription).not.toHaveBeenCalled();
+  });
+
+  it("never shortens a subscription when recording a payment for an earlier period", async () => {
+    const current = { id: 5, source: "cash", status: "active", currentPeriodEnd: new Date("2026-12-01T00:00:00Z") };
+    (findActiveSubscription as any).mockResolvedValue(current);
+    mockWrites();
+
+    await recordManualPayment(
+      1,
+      {
+        amountCents: 500,
+        method: "cash",
+        paidAt: PAID_AT,
+        periodStart: new Date("2026-01-01T00:00:00Z"),
+        periodEnd: new Date("2026-02-01T00:00:00Z"),
+      },
+      NOW,
+    );
+
+    expect(renewSubscription).toHaveBeenCalledWith(
+      current,
+      new Date("2026-12-01T00:00:00Z"),
+      expect.anything(),
+      mockDb,
+    );
+  });
+
+  it("fails as a whole when the payment cannot be stored", async () => {
+    const { insertChain } = mockWrites();
+    insertChain.returning
+      .mockReset()
+      .mockResolvedValueOnce([{ lastNumber: 3 }])
+      .mockRejectedValueOnce(new Error("disk full"));
+
+    await expect(
+      recordManualPayment(1, { amountCents: 500, method: "cash", paidAt: PAID_AT, months: 1 }, NOW),
+    ).rejects.toThrow("disk full");
+    // The receipt number, subscription and payment share one transaction, so it rolls back
+    expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+    expect(activateSubscription).toHaveBeenCalledWith(1, "cash", expect.any(Date), expect.anything(), mockDb);
+  });
+
+  it("refuses Easypay and open-ended subscriptions, unknown members and empty periods", async () => {
+    const input = { amountCents: 500, method: "cash" as const, paidAt: PAID_AT, months: 1 };
+
+    (findActiveSubscription as any).mockResolvedValueOnce({ id: 5, source: "easypay", currentPeriodEnd: NOW });
+    expect(await recordManualPayment(1, input, NOW)).toEqual({ ok: false, reason: "subscription_not_extendable" });
+
+    (findActiveSubscription as any).mockResolvedValueOnce({ id: 5, source: "admin", currentPeriodEnd: null });
+    expect(await recordManualPayment(1, input, NOW)).toEqual({ ok: false, reason: "subscription_not_extendable" });
+
+    mockDb.query.users.findFirst.mockResolvedValueOnce(undefined);
+    expect(await recordManualPayment(99, input, NOW)).toEqual({ ok: false, reason: "user_not_found" });
+
+    expect(
+      await recordManualPayment(1, { ...input, months: null, periodEnd: new Date("2026-01-01T00:00:00Z") }, NOW),
+    ).toEqual({ ok: false, reason: "invalid_period" });
+
+    // No receipt number is taken for a payment that was not recorded
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
+
+  it("renders a one-page receipt PDF", async () => {
+    const bytes = await buildReceiptPdf(makePayment(), "pt");
+    const pdf = await PDFDocument.load(bytes);
+
+    expect(pdf.getPageCount()).toBe(1);
+    expect(pdf.getTitle()).toBe("Recibo 2026/0003");
+  });
+
+  it("emails the receipt as an attachment and notes when it was sent", async () => {
+    const { updateChain } = mockWrites();
+
+    await sendReceipt(makePayment(), NOW);
+
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: "ana@example.com",
+        subject: "Recibo 2026/0003 - Padmakara",
+        attachments: [expect.objectContaining({ filename: "receipt-2026-0003.pdf", contentType: "application/pdf" })],
+      }),
+    );
+    expect(updateChain.set).toHaveBeenCalledWith({ receiptSentAt: NOW });
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// vi.mock is hoisted — factory must not reference outer variables
+vi.mock("../../src/db/index.ts", () => ({
+  db: {
+    query: {
+      users: { findFirst: vi.fn() },
+      accountDeletions: { findFirst: vi.fn(), findMany: vi.fn() },
+      subscriptions: { findMany: vi.fn() },
+      deviceActivations: { findMany: vi.fn() },
+      userProgress: { findMany: vi.fn() },
+      bookmarks: { findMany: vi.fn() },
+      userNotes: { findMany: vi.fn() },
+      manualPayments: { findMany: vi.fn() },
+      voucherRedemptions: { findMany: vi.fn() },
+      mediaAccessLog: { findMany: vi.fn() },
+      userApprovalRequests: { findMany: vi.fn() },
+      eventAccessRequests: { findMany: vi.fn() },
+      emailChangeRequests: { findMany: vi.fn() },
+    },
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock("../../src/services/subscriptions.ts", () => ({
+  cancelSubscription: vi.fn(),
+}));
+
+vi.mock("../../src/services/sessions.ts", () => ({
+  revokeUserSessions: vi.fn(),
+}));
+
+vi.mock("../../src/services/email.ts", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/services/email.ts")>()),
+  sendEmail: vi.fn(),
+}));
+
+import { db } from "../../src/db/index.ts";
+import { emailChangeRequests } from "../../src/db/schema/index.ts";
+import { config } from "../../src/config.ts";
+import { cancelSubscription } from "../../src/services/subscriptions.ts";
+import { revokeUserSessions } from "../../src/services/sessions.ts";
+import { sendEmail } from "../../src/services/email.ts";
+import {
+  exportPersonalData,
+  requestAccountDeletion,
+  eraseAccount,
+  processAccountDeletions,
+} from "../../src/services/personal-data.ts";
+const mockDb = db as any;
+
+const NOW = new Date("2026-03-01T12:00:00Z");
+const DAY = 24 * 60 * 60 * 1000;
+
+const member = { id: 5, email: "member@test.com", role: "user", preferredLanguage: "en" };
+
+let insertChain: any;
+let updateChain: any;
+let deleteChain: any;
+
+describe("Personal data", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    insertChain = {
+      values: vi.fn().mockReturnThis(),
+      returning: vi.fn().mockImplementation(async () => [
+        { id: 1, userId: 5, status: "pending", ...insertChain.values.mock.calls[0][0] },
+      ]),
+    };
+    updateChain = { set: vi.fn().mockReturnThis(), where: vi.fn().mockReturnThis(), returning: vi.fn() };
+    deleteChain = { where: vi.fn().mockResolvedValue(undefined) };
+    mockDb.insert.mockReturnValue(insertChain);
+    mockDb.update.mockReturnValue(updateChain);
+    mockDb.delete.mockReturnValue(deleteChain);
+    mockDb.query.users.findFirst.mockResolvedValue(member);
+    mockDb.query.accountDeletions.findFirst.mockResolvedValue(undefined);
+    for (const table of Object.values<any>(mockDb.query)) table.findMany?.mockResolvedValue([]);
+  });
+
+  describe("exportPersonalData", () => {
+    it("includes email changes without their link tokens", async () => {
+      mockDb.query.users.findFirst.mockResolvedValue({ ...member, groupMemberships: [], eventAttendance: [] });
+      const change = { id: 2, userId: 5, newEmail: "new@test.com", confirmedAt: null };
+      mockDb.query.emailChangeRequests.findMany.mockResolvedValue([change]);
+
+      const data = await exportPersonalData(5, NOW);
+
+      expect(data!.emailChangeRequests).toEqual([change]);
+      expect(mockDb.query.emailChangeRequests.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ columns: { tokenHash: false } }),
+      );
+    });
+
+    it("includes the vouchers redeemed and the media access log", async () => {
+      mockDb.query.users.findFirst.mockResolvedValue({ ...member, groupMemberships: [], eventAttendance: [] });
+      const redemption = { id: 3, voucherId: 7, userId: 5, voucher: { code: "ABCD-EFGH-JKLM", months: 12 } };
+      const play = { id: 40, userId: 5, resourceType: "audio", ipAddress: "203.0.113.9", deviceFingerprint: "fp" };
+      mockDb.query.voucherRedemptions.findMany.mockResolvedValue([redemption]);
+      mockDb.query.mediaAccessLog.findMany.mockResolvedValue([play]);
+
+      const data = await exportPersonalData(5, NOW);
+
+      expect(data).toMatchObject({
+        exportedAt: NOW.toISOString(),
+        profile: { id: 5, email: "member@test.com" },
+        voucherRedemptions: [redemption],
+        mediaAccess: [play],
+      });
+    });
+  });
+
+  describe("requestAccountDeletion", () => {
+    it("schedules the erasure after the cooling-off period and tells the member", async () => {
+      const result = await requestAccountDeletion(5, " Member@Test.com ", NOW);
+
+      expect(result.ok).toBe(true);
+      expect(insertChain.values).toHaveBeenCalledWith({
+        userId: 5,
+        requestedAt: NOW,
+        scheduledFor: new Date(NOW.getTime() + config.accountDeletion.coolingOffDays * DAY),
+      });
+      expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: "member@test.com" }));
+    });
+
+    it("refuses when the typed email does not match", async () => {
+      const result = await requestAccountDeletion(5, "someone@else.com", NOW);
+      expect(result).toEqual({ ok: false, reason: "confirmation_mismatch" });
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it("refuses staff accounts", async () => {
+      mockDb.query.users.findFirst.mockResolvedValue({ ...member, role: "secretary" });
+      const result = await requestAccountDeletion(5, "member@test.com", NOW);
+      expect(result).toEqual({ ok: false, reason: "staff_account" });
+    });
+
+    it("keeps the deletion already pending", async () => {
+      const pending = { id: 3, userId: 5, status: "pending", scheduledFor: new Date("2026-03-10") };
+      mockDb.query.accountDeletions.findFirst.mockResolvedValue(pending);
+
+      const result = await requestAccountDeletion(5, "member@test.com", NOW);
+      expect(result).toEqual({ ok: true, deletion: pending });
+      expect(mockDb.insert).not.toHaveBeenCalled();
+      expect(sendEmail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("eraseAccount", () => {
+    it("anonymizes the user, deletes personal rows and signs them out", async () => {
+      await eraseAccount(5, NOW);
+
+      expect(updateChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          email: "deleted-5@deleted.invalid",
+          passwordHash: null,
+          firstName: null,
+          lastName: null,
+          dharmaName: null,
+          isActive: false,
+        }),
+      );
+      // Access log entries stay for the trail, without anything that leads back to the member
+      expect(updateChain.set).toHaveBeenCalledWith({ userId: null, ipAddress: null, deviceFingerprint: null });
+      expect(mockDb.delete).toHaveBeenCalled();
+      // Pending email changes hold an address of theirs
+      expect(mockDb.delete).toHaveBeenCalledWith(emailChangeRequests);
+      expect(revokeUserSessions).toHaveBeenCalledWith(5, NOW);
+    });
+
+    it("cancels subscriptions that are still running", async () => {
+      const sub = { id: 9, userId: 5, source: "cash", status: "active", providerSubscriptionId: null };
+      mockDb.query.subscriptions.findMany.mockResolvedValue([sub]);
+
+      await eraseAccount(5, NOW);
+      expect(cancelSubscription).toHaveBeenCalledWith(sub, { note: "Account deleted" });
+    });
+  });
+
+  describe("processAccountDeletions", () => {
+    it("erases accounts whose cooling-off period is over and closes their requests", async () => {
+      mockDb.query.accountDeletions.findMany.mockResolvedValue([
+        { id: 1, userId: 5, status: "pending" },
+        // The user was removed by an admin in the meantime
+        { id: 2, userId: null, status: "pending" },
+      ]);
+
+      expect(await processAccountDeletions(NOW)).toEqual({ erased: 2 });
+      expect(revokeUserSessions).toHaveBeenCalledTimes(1);
+      expect(updateChain.set).toHaveBeenCalledWith({ status: "completed", completedAt: NOW });
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// vi.mock is hoisted — factory must not reference outer variables
+vi.mock("../../src/db/index.ts", () => ({
+  db: {
+    query: {
+      plans: { findFirst: vi.fn(), findMany: vi.fn() },
+    },
+  },
+}));
+
+import { db } from "../../src/db/index.ts";
+const mockDb = db as any;
+
+import { periodEndFor, planForSubscription } from "../../src/services/plans.ts";
+
+describe("Plans", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("counts a period in calendar months or years", () => {
+    const from = new Date("2025-06-15T10:00:00Z");
+    expect(periodEndFor("1M", from)).toEqual(new Date("2025-07-15T10:00:00Z"));
+    expect(periodEndFor("6M", from)).toEqual(new Date("2025-12-15T10:00:00Z"));
+    expect(periodEndFor("1Y", from)).toEqual(new Date("2026-06-15T10:00:00Z"));
+  });
+
+  it("refuses a frequency it does not know", () => {
+    expect(() => periodEndFor("weekly")).toThrow("Unknown plan frequency");
+  });
+
+  it("bills a subscription on its own plan, even one no longer offered", async () => {
+    const retired = { id: 3, slug: "supporter", frequency: "1M", isActive: false };
+    mockDb.query.plans.findFirst.mockResolvedValue(retired);
+
+    expect(await planForSubscription({ planId: 3 })).toBe(retired);
+    expect(mockDb.query.plans.findMany).not.toHaveBeenCalled();
+  });
+
+  it("bills a subscription from before plans on the default plan", async () => {
+    const monthly = { id: 1, slug: "monthly", frequency: "1M", isActive: true };
+    mockDb.query.plans.findMany.mockResolvedValue([monthly]);
+
+    expect(await planForSubscription({ planId: null })).toBe(monthly);
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// vi.mock is hoisted — factory must not reference outer variables
+vi.mock("../../src/db/index.ts", () => ({
+  db: {
+    select: vi.fn(),
+  },
+}));
+
+import { db } from "../../src/db/index.ts";
+const mockDb = db as any;
+
+import {
+  monthRange,
+  lastMonths,
+  subscriptionEndedAt,
+  monthlySubscribers,
+  sourcesReport,
+} from "../../src/services/reports.ts";
+import { toCsv } from "../../src/lib/csv.ts";
+
+const NOW = new Date("2026-03-15T12:00:00Z");
+const d = (iso: string) => new Date(`${iso}T00:00:00Z`);
+
+describe("Reports", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists the months of a range across a year boundary", () => {
+    expect(monthRange("2025-11", "2026-02")).toEqual(["2025-11", "2025-12", "2026-01", "2026-02"]);
+    expect(lastMonths(12, NOW)).toEqual({ from: "2025-04", to: "2026-03" });
+  });
+
+  it("takes the end of access from how a subscription finished", () => {
+    const base = {
+      currentPeriodEnd: d("2026-02-01"),
+      graceEndsAt: null,
+      cancelledAt: null,
+      updatedAt: d("2026-02-02"),
+    };
+    expect(subscriptionEndedAt({ ...base, status: "active" })).toBeNull();
+    expect(subscriptionEndedAt({ ...base, status: "past_due", graceEndsAt: d("2026-02-15") })).toBeNull();
+    expect(subscriptionEndedAt({ ...base, status: "cancelled", cancelledAt: d("2026-01-20") })).toEqual(
+      d("2026-01-20"),
+    );
+    expect(subscriptionEndedAt({ ...base, status: "expired" })).toEqual(d("2026-02-01"));
+    expect(subscriptionEndedAt({ ...base, status: "expired", graceEndsAt: d("2026-02-15") })).toEqual(
+      d("2026-02-15"),
+    );
+  });
+
+  it("counts active, new and churned members per month", () => {
+    const spans = [
+      // Member since before the range, still current
+      { userId: 1, startedAt: d("2025-06-10"), endedAt: null },
+      // Joined in January, left in February
+      { userId: 2, startedAt: d("2026-01-05"), endedAt: d("2026-02-20") },
+      // Joined in February, still current
+      { userId: 3, startedAt: d("2026-02-03"), endedAt: null },
+    ];
+
+    expect(monthlySubscribers(spans, ["2026-01", "2026-02", "2026-03"], NOW)).toEqual([
+      { month: "2026-01", active: 2, new: 1, churned: 0 },
+      { month: "2026-02", active: 2, new: 1, churned: 1 },
+      { month: "2026-03", active: 2, new: 0, churned: 0 },
+    ]);
+  });
+
+  it("does not count switching payment source as leaving", () => {
+    const spans = [
+      // Easypay cancelled, then paying cash from the same day
+      { userId: 1, startedAt: d("2025-10-01"), endedAt: new Date("2026-01-10T09:00:00Z") },
+      { userId: 1, startedAt: new Date("2026-01-10T15:00:00Z"), endedAt: null },
+      // Lapsed for a month, then came back
+      { userId: 2, startedAt: d("2025-10-01"), endedAt: d("2026-01-01") },
+      { userId: 2, startedAt: d("2026-02-01"), endedAt: null },
+    ];
+
+    expect(monthlySubscribers(spans, ["2026-01", "2026-02"], NOW)).toEqual([
+      { month: "2026-01", active: 1, new: 0, churned: 1 },
+      { month: "2026-02", active: 2, new: 1, churned: 0 },
+    ]);
+  });
+
+  it("splits current members by source", async () => {
+    const chain = {
+      from: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      groupBy: vi.fn().mockResolvedValue([
+        { source: "cash", status: "active", count: 3 },
+        { source: "easypay", status: "active", count: 10 },
+        { source: "easypay", status: "past_due", count: 2 },
+      ]),
+    };
+    mockDb.select.mockReturnValue(chain);
+
+    expect(await sourcesReport()).toEqual([
+      { source: "easypay", active: 10, pastDue: 2, total: 12 },
+      { source: "cash", active: 3, pastDue: 0, total: 3 },
+    ]);
+  });
+
+  it("exports rows as CSV, quoting where needed", () => {
+    const csv = toCsv(
+      [
+        { name: "Silva, Ana", note: 'said "hi"', at: d("2026-01-05"), plan: null },
+        { name: "Bo", note: "plain", at: d("2026-02-01"), plan: "Monthly" },
+      ],
+      ["name", "plan", "note", "at"],
+    );
+
+    expect(csv).toBe(
+      "name,plan,note,at\r\n" +
+        '"Silva, Ana",,"said ""hi""",2026-01-05T00:00:00.000Z\r\n' +
+        "Bo,Monthly,plain,2026-02-01T00:00:00.000Z\r\n",
+    );
+  });
+});
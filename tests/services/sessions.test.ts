@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+
+// vi.mock is hoisted — factory must not reference outer variables
+vi.mock("../../src/db/index.ts", () => ({
+  db: {
+    query: {
+      users: { findFirst: vi.fn() },
+    },
+    update: vi.fn(),
+  },
+}));
+
+import { db } from "../../src/db/index.ts";
+import { config } from "../../src/config.ts";
+import { forgetSession, isSessionCurrent, revokeUserSessions } from "../../src/services/sessions.ts";
+const mockDb = db as any;
+
+const originalCacheSeconds = config.jwt.sessionCacheSeconds;
+
+let updateChain: any;
+
+describe("Sessions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    forgetSession(1);
+    updateChain = { set: vi.fn().mockReturnThis(), where: vi.fn().mockResolvedValue(undefined) };
+    mockDb.update.mockReturnValue(updateChain);
+    mockDb.query.users.findFirst.mockResolvedValue({ tokenVersion: 2, isActive: true });
+  });
+
+  afterEach(() => {
+    (config.jwt as any).sessionCacheSeconds = originalCacheSeconds;
+  });
+
+  it("accepts tokens from the current version only", async () => {
+    expect(await isSessionCurrent(1, 2)).toBe(true);
+    expect(await isSessionCurrent(1, 1)).toBe(false);
+  });
+
+  it("refuses tokens of deactivated and deleted users", async () => {
+    mockDb.query.users.findFirst.mockResolvedValue({ tokenVersion: 2, isActive: false });
+    expect(await isSessionCurrent(1, 2)).toBe(false);
+
+    forgetSession(1);
+    mockDb.query.users.findFirst.mockResolvedValue(undefined);
+    expect(await isSessionCurrent(1, 2)).toBe(false);
+  });
+
+  it("caches the version between requests", async () => {
+    await isSessionCurrent(1, 2);
+    await isSessionCurrent(1, 2);
+    expect(mockDb.query.users.findFirst).toHaveBeenCalledTimes(1);
+  });
+
+  it("reads the version on every request without a cache", async () => {
+    (config.jwt as any).sessionCacheSeconds = 0;
+    await isSessionCurrent(1, 2);
+    await isSessionCurrent(1, 2);
+    expect(mockDb.query.users.findFirst).toHaveBeenCalledTimes(2);
+  });
+
+  it("signs a user out everywhere at once", async () => {
+    expect(await isSessionCurrent(1, 2)).toBe(true);
+
+    await revokeUserSessions(1);
+    mockDb.query.users.findFirst.mockResolvedValue({ tokenVersion: 3, isActive: true });
+
+    expect(updateChain.set).toHaveBeenCalledWith(
+      expect.objectContaining({ tokenVersion: expect.anything() }),
+    );
+    // Stored refresh tokens are revoked as well
+    expect(updateChain.set).toHaveBeenCalledWith({ revokedAt: expect.any(Date) });
+    // The cached version is dropped, so old tokens stop working right away
+    expect(await isSessionCurrent(1, 2)).toBe(false);
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+
+// vi.mock is hoisted — factory must not reference outer variables
+vi.mock("../../src/db/index.ts", () => ({
+  db: {
+    query: {
+      subscriptions: { findMany: vi.fn() },
+      users: { findMany: vi.fn() },
+    },
+    insert: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock("../../src/services/subscriptions.ts", () => ({
+  expireSubscription: vi.fn(),
+  markPastDue: vi.fn(),
+}));
+
+vi.mock("../../src/services/email.ts", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../src/services/email.ts")>()),
+  sendEmail: vi.fn(),
+}));
+
+import { db } from "../../src/db/index.ts";
+import { expireSubscription, markPastDue } from "../../src/services/subscriptions.ts";
+import { sendEmail } from "../../src/services/email.ts";
+const mockDb = db as any;
+
+import {
+  sweepSubscriptions,
+  reminderKindFor,
+  dunningStepFor,
+  daysUntil,
+} from "../../src/services/subscription-sweeper.ts";
+
+const NOW = new Date("2025-06-01T12:00:00Z");
+const DAY = 24 * 60 * 60 * 1000;
+
+function makeSub(overrides: Record<string, any> = {}) {
+  return {
+    id: 1,
+    userId: 1,
+    source: "cash",
+    status: "active",
+    providerSubscriptionId: null,
+    startedAt: new Date("2025-01-01"),
+    currentPeriodEnd: new Date(NOW.getTime() + 5 * DAY),
+    cancelledAt: null,
+    createdAt: new Date("2025-01-01"),
+    updatedAt: new Date("2025-01-01"),
+    user: {
+      id: 1,
+      email: "member@test.com",
+      firstName: "Ana",
+      lastName: "Silva",
+      preferredLanguage: "pt",
+      isActive: true,
+    },
+    ...overrides,
+  };
+}
+
+/** The sweep's queries, in the order it runs them. */
+function mockSweep(found: { overdue?: any[]; graceOver?: any[]; pastDue?: any[]; upcoming?: any[] }) {
+  mockDb.query.subscriptions.findMany
+    .mockResolvedValueOnce(found.overdue ?? [])
+    .mockResolvedValueOnce(found.graceOver ?? [])
+    .mockResolvedValueOnce(found.pastDue ?? [])
+    .mockResolvedValueOnce(found.upcoming ?? []);
+}
+
+/** Reminder claims: `true` means the row was inserted (first time), `false` a conflict. */
+function mockClaims(...claims: boolean[]) {
+  const chain = {
+    values: vi.fn().mockReturnThis(),
+    onConflictDoNothing: vi.fn().mockReturnThis(),
+    returning: vi.fn(),
+  };
+  claims.forEach((claimed) => chain.returning.mockResolvedValueOnce(claimed ? [{ id: 1 }] : []));
+  mockDb.insert.mockReturnValue(chain);
+  return chain;
+}
+
+describe("Subscription sweeper", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb.query.users.findMany.mockResolvedValue([
+      { email: "admin@test.com", preferredLanguage: "en" },
+    ]);
+  });
+
+  it("picks the 7-day reminder until the last day", () => {
+    expect(reminderKindFor(daysUntil(new Date(NOW.getTime() + 7 * DAY), NOW))).toBe("expiry_7d");
+    expect(reminderKindFor(daysUntil(new Date(NOW.getTime() + 2 * DAY), NOW))).toBe("expiry_7d");
+    expect(reminderKindFor(daysUntil(new Date(NOW.getTime() + 6 * 60 * 60 * 1000), NOW))).toBe("expiry_1d");
+  });
+
+  it("spaces the payment-failed emails over the grace period", () => {
+    const since = new Date(NOW.getTime() - DAY);
+    const graceEnd = new Date(since.getTime() + 7 * DAY);
+    expect(dunningStepFor(since, graceEnd, since)).toBe("dunning_first");
+    expect(dunningStepFor(since, graceEnd, new Date(since.getTime() + 4 * DAY))).toBe("dunning_reminder");
+    expect(dunningStepFor(since, graceEnd, new Date(graceEnd.getTime() - DAY / 2))).toBe("dunning_final");
+  });
+
+  it("expires manual subscriptions whose period has ended", async () => {
+    const overdue = makeSub({ currentPeriodEnd: new Date(NOW.getTime() - DAY) });
+    mockSweep({ overdue: [overdue] });
+    (expireSubscription as any).mockResolvedValue(true);
+
+    const result = await sweepSubscriptions(NOW);
+
+    expect(expireSubscription).toHaveBeenCalledWith(overdue, { note: "Period ended" });
+    expect(result.expired).toBe(1);
+  });
+
+  it("gives an Easypay subscription that was not renewed a grace period", async () => {
+    const overdue = makeSub({ source: "easypay", currentPeriodEnd: new Date(NOW.getTime() - DAY) });
+    mockSweep({ overdue: [overdue] });
+    (markPastDue as any).mockResolvedValue(true);
+
+    const result = await sweepSubscriptions(NOW);
+
+    expect(markPastDue).toHaveBeenCalledWith(overdue, expect.any(Object));
+    expect(expireSubscription).not.toHaveBeenCalled();
+    expect(result.pastDue).toBe(1);
+  });
+
+  it("expires past-due subscriptions once the grace period is over", async () => {
+    const lapsed = makeSub({ source: "easypay", status: "past_due", graceEndsAt: new Date(NOW.getTime() - 1000) });
+    mockSweep({ graceOver: [lapsed] });
+    (expireSubscription as any).mockResolvedValue(true);
+
+    const result = await sweepSubscriptions(NOW);
+
+    expect(expireSubscription).toHaveBeenCalledWith(lapsed, { note: "Grace period ended" });
+    expect(result.expired).toBe(1);
+  });
+
+  it("asks a past-due member to update their payment method", async () => {
+    const graceEndsAt = new Date(NOW.getTime() + 6 * DAY);
+    mockSweep({
+      pastDue: [
+        makeSub({ source: "easypay", status: "past_due", pastDueSince: NOW, graceEndsAt }),
+      ],
+    });
+    const claims = mockClaims(true);
+
+    const result = await sweepSubscriptions(NOW);
+
+    expect(result.dunning).toBe(1);
+    expect(claims.values).toHaveBeenCalledWith(
+      expect.objectContaining({ kind: "dunning_first", periodEnd: graceEndsAt }),
+    );
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: "member@test.com",
+        html: expect.stringContaining("/subscription/update-payment"),
+      }),
+    );
+  });
+
+  it("reminds the member in their language and tells admins about a cash renewal", async () => {
+    mockSweep({ upcoming: [makeSub()] });
+    const claims = mockClaims(true, true);
+
+    const result = await sweepSubscriptions(NOW);
+
+    expect(result).toEqual({ expired: 0, pastDue: 0, reminded: 1, dunning: 0, manualRenewals: 1 });
+    expect(claims.values).toHaveBeenCalledWith(
+      expect.objectContaining({ subscriptionId: 1, kind: "expiry_7d" }),
+    );
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ to: "member@test.com", subject: expect.stringContaining("assinatura") }),
+    );
+    expect(sendEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ to: "admin@test.com", html: expect.stringContaining("member@test.com") }),
+    );
+  });
+
+  it("sends the digest to every role that manages members", async () => {
+    mockSweep({ upcoming: [makeSub()] });
+    mockClaims(true, true);
+
+    await sweepSubscriptions(NOW);
+
+    const { params } = new PgDialect().sqlToQuery(mockDb.query.users.findMany.mock.calls[0][0].where);
+    expect(params).toEqual(expect.arrayContaining(["superadmin", "admin", "secretary"]));
+    expect(params).not.toContain("editor");
+  });
+
+  it("sends nothing again on a second run", async () => {
+    mockSweep({ upcoming: [makeSub()] });
+    mockClaims(false, false);
+
+    const result = await sweepSubscriptions(NOW);
+
+    expect(result).toEqual({ expired: 0, pastDue: 0, reminded: 0, dunning: 0, manualRenewals: 0 });
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it("releases a reminder that could not be sent", async () => {
+    mockSweep({ upcoming: [makeSub({ source: "admin" })] });
+    mockClaims(true);
+    (sendEmail as any).mockRejectedValueOnce(new Error("SES down"));
+    const deleteChain = { where: vi.fn().mockResolvedValue(undefined) };
+    mockDb.delete.mockReturnValue(deleteChain);
+
+    const result = await sweepSubscriptions(NOW);
+
+    expect(result.reminded).toBe(0);
+    expect(deleteChain.where).toHaveBeenCalled();
+  });
+});
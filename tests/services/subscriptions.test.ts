@@ -0,0 +1,236 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// vi.mock is hoisted — factory must not reference outer variables
+vi.mock("../../src/db/index.ts", () => ({
+  db: {
+    query: {
+      subscriptions: { findFirst: vi.fn(), findMany: vi.fn() },
+    },
+    insert: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+import { db } from "../../src/db/index.ts";
+const mockDb = db as any;
+
+import {
+  deriveSubscriptionState,
+  adjustSubscription,
+  renewSubscription,
+  markPastDue,
+} from "../../src/services/subscriptions.ts";
+
+const NOW = new Date("2025-06-01T00:00:00Z");
+
+function makeSub(overrides: Record<string, any> = {}) {
+  return {
+    id: 1,
+    userId: 1,
+    source: "easypay",
+    status: "active",
+    providerSubscriptionId: "ep_1",
+    planId: null,
+    startedAt: new Date("2025-01-01"),
+    currentPeriodEnd: new Date("2025-07-01"),
+    cancelledAt: null,
+    pastDueSince: null,
+    graceEndsAt: null,
+    createdAt: new Date("2025-01-01"),
+    updatedAt: new Date("2025-01-01"),
+    ...overrides,
+  };
+}
+
+function mockWrites() {
+  const insertChain = {
+    values: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue([makeSub({ id: 2, source: "admin" })]),
+  };
+  // Awaitable as is, or with .returning() for the conditional updates
+  const updateChain = {
+    set: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue([{ id: 1 }]),
+    then: (resolve: (v: unknown) => void) => resolve(undefined),
+  };
+  mockDb.insert.mockReturnValue(insertChain);
+  mockDb.update.mockReturnValue(updateChain);
+  return { insertChain, updateChain };
+}
+
+describe("Subscription ledger", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("deriveSubscriptionState", () => {
+    it("is none without any subscription", () => {
+      expect(deriveSubscriptionState([], NOW)).toEqual({
+        subscriptionStatus: "none",
+        subscriptionSource: null,
+        subscriptionExpiresAt: null,
+        easypaySubscriptionId: null,
+      });
+    });
+
+    it("is active while the period runs", () => {
+      const state = deriveSubscriptionState([makeSub()], NOW);
+      expect(state.subscriptionStatus).toBe("active");
+      expect(state.easypaySubscriptionId).toBe("ep_1");
+    });
+
+    it("is expired once the period has ended, even if never cancelled", () => {
+      const state = deriveSubscriptionState(
+        [makeSub({ currentPeriodEnd: new Date("2025-05-01") })],
+        NOW,
+      );
+      expect(state.subscriptionStatus).toBe("expired");
+    });
+
+    it("is expired after cancellation", () => {
+      const state = deriveSubscriptionState([makeSub({ status: "cancelled" })], NOW);
+      expect(state.subscriptionStatus).toBe("expired");
+    });
+
+    it("prefers the current subscription with the latest period end", () => {
+      const state = deriveSubscriptionState(
+        [
+          makeSub({ id: 1, currentPeriodEnd: new Date("2025-07-01") }),
+          makeSub({ id: 2, source: "cash", providerSubscriptionId: null, currentPeriodEnd: new Date("2026-01-01") }),
+          makeSub({ id: 3, source: "admin", status: "cancelled", currentPeriodEnd: null }),
+        ],
+        NOW,
+      );
+      expect(state).toEqual({
+        subscriptionStatus: "active",
+        subscriptionSource: "cash",
+        subscriptionExpiresAt: new Date("2026-01-01"),
+        easypaySubscriptionId: null,
+      });
+    });
+
+    it("keeps a past-due subscription current until its grace period ends", () => {
+      const pastDue = makeSub({
+        status: "past_due",
+        currentPeriodEnd: new Date("2025-05-30"),
+        pastDueSince: new Date("2025-05-30"),
+        graceEndsAt: new Date("2025-06-06"),
+      });
+      expect(deriveSubscriptionState([pastDue], NOW)).toMatchObject({
+        subscriptionStatus: "past_due",
+        subscriptionExpiresAt: new Date("2025-06-06"),
+      });
+      expect(deriveSubscriptionState([pastDue], new Date("2025-06-07")).subscriptionStatus).toBe("expired");
+    });
+
+    it("treats an open-ended subscription as outlasting dated ones", () => {
+      const state = deriveSubscriptionState(
+        [makeSub(), makeSub({ id: 2, source: "admin", currentPeriodEnd: null })],
+        NOW,
+      );
+      expect(state.subscriptionSource).toBe("admin");
+      expect(state.subscriptionExpiresAt).toBeNull();
+    });
+  });
+
+  describe("renewSubscription", () => {
+    it("records the renewal with the amount and the covered period", async () => {
+      const { insertChain, updateChain } = mockWrites();
+      mockDb.query.subscriptions.findMany.mockResolvedValue([makeSub()]);
+      const sub = makeSub();
+
+      await renewSubscription(sub, new Date("2025-08-01"), {
+        amountCents: 500,
+        providerReference: "ntf_123",
+      });
+
+      expect(updateChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "active", currentPeriodEnd: new Date("2025-08-01") }),
+      );
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          subscriptionId: 1,
+          userId: 1,
+          type: "renewal",
+          amountCents: 500,
+          provider: "easypay",
+          providerReference: "ntf_123",
+          periodStart: new Date("2025-07-01"),
+          periodEnd: new Date("2025-08-01"),
+        }),
+      );
+    });
+  });
+
+  describe("markPastDue", () => {
+    it("starts the grace period from the end of the paid period", async () => {
+      const { insertChain, updateChain } = mockWrites();
+      mockDb.query.subscriptions.findMany.mockResolvedValue([makeSub()]);
+
+      const moved = await markPastDue(makeSub(), { occurredAt: NOW });
+
+      expect(moved).toBe(true);
+      expect(updateChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: "past_due",
+          pastDueSince: NOW,
+          graceEndsAt: new Date("2025-07-08"),
+        }),
+      );
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "past_due", periodEnd: new Date("2025-07-08") }),
+      );
+    });
+  });
+
+  describe("adjustSubscription", () => {
+    it("starts an admin subscription for a user without one", async () => {
+      const { insertChain } = mockWrites();
+      mockDb.query.subscriptions.findMany.mockResolvedValue([]);
+
+      await adjustSubscription(
+        1,
+        { status: "active", expiresAt: new Date("2026-01-01") },
+        { recordedById: 100 },
+      );
+
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ source: "admin", currentPeriodEnd: new Date("2026-01-01") }),
+      );
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "activation", recordedById: 100 }),
+      );
+    });
+
+    it("cancels the current subscription when set inactive", async () => {
+      const { insertChain, updateChain } = mockWrites();
+      mockDb.query.subscriptions.findMany.mockResolvedValue([makeSub()]);
+
+      await adjustSubscription(1, { status: "expired" }, { recordedById: 100 });
+
+      expect(updateChain.set).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "cancelled" }),
+      );
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ type: "cancellation", recordedById: 100 }),
+      );
+    });
+
+    it("records a changed expiry as an adjustment", async () => {
+      const { insertChain } = mockWrites();
+      mockDb.query.subscriptions.findMany.mockResolvedValue([makeSub()]);
+
+      await adjustSubscription(1, { expiresAt: new Date("2025-12-31") }, { recordedById: 100 });
+
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: "adjustment",
+          periodStart: new Date("2025-07-01"),
+          periodEnd: new Date("2025-12-31"),
+          recordedById: 100,
+        }),
+      );
+    });
+  });
+});
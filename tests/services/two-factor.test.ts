@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// vi.mock is hoisted — factory must not reference outer variables
+vi.mock("../../src/db/index.ts", () => ({
+  db: {
+    query: {
+      userTwoFactor: { findFirst: vi.fn() },
+    },
+    update: vi.fn(),
+  },
+}));
+
+import { db } from "../../src/db/index.ts";
+import {
+  base32Decode,
+  base32Encode,
+  matchTotp,
+  otpauthUrl,
+  timeStep,
+  totpCode,
+  verifySecondFactor,
+} from "../../src/services/two-factor.ts";
+const mockDb = db as any;
+
+// The RFC 6238 test secret ("12345678901234567890" in ASCII)
+const secret = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const at = (seconds: number) => new Date(seconds * 1000);
+
+let updateChain: any;
+
+describe("Two-factor", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    updateChain = {
+      set: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      returning: vi.fn().mockResolvedValue([]),
+    };
+    mockDb.update.mockReturnValue(updateChain);
+    mockDb.query.userTwoFactor.findFirst.mockResolvedValue({
+      userId: 1,
+      secret,
+      confirmedAt: new Date("2026-01-01T00:00:00Z"),
+      lastUsedStep: null,
+    });
+  });
+
+  it("round-trips base32", () => {
+    expect(base32Encode(Buffer.from("12345678901234567890"))).toBe(secret);
+    expect(base32Decode(secret).toString()).toBe("12345678901234567890");
+  });
+
+  it("matches the RFC 6238 test vectors", () => {
+    // The RFC lists 8 digits; authenticator apps show the last 6
+    expect(totpCode(secret, timeStep(at(59)))).toBe("287082");
+    expect(totpCode(secret, timeStep(at(1111111109)))).toBe("081804");
+    expect(totpCode(secret, timeStep(at(2000000000)))).toBe("279037");
+  });
+
+  it("accepts one step of clock drift either way, but no more", () => {
+    const now = at(1111111109);
+    const step = timeStep(now);
+    expect(matchTotp(secret, totpCode(secret, step - 1), now)).toBe(step - 1);
+    expect(matchTotp(secret, totpCode(secret, step + 1), now)).toBe(step + 1);
+    expect(matchTotp(secret, totpCode(secret, step - 2), now)).toBeNull();
+    expect(matchTotp(secret, "12345", now)).toBeNull();
+  });
+
+  it("refuses a code from a step that was already used", () => {
+    const now = at(1111111109);
+    const step = timeStep(now);
+    expect(matchTotp(secret, totpCode(secret, step), now, step)).toBeNull();
+    expect(matchTotp(secret, totpCode(secret, step), now, step - 1)).toBe(step);
+  });
+
+  it("builds an otpauth URL for authenticator apps", () => {
+    const url = otpauthUrl("admin@test.com", secret);
+    expect(url).toMatch(/^otpauth:\/\/totp\/Padmakara%3Aadmin%40test\.com\?/);
+    expect(url).toContain(`secret=${secret}`);
+  });
+
+  it("claims the time step of an accepted code", async () => {
+    const now = at(1111111109);
+    updateChain.returning.mockResolvedValueOnce([{ userId: 1 }]);
+
+    expect(await verifySecondFactor(1, totpCode(secret, timeStep(now)), now)).toBe(true);
+    expect(updateChain.set).toHaveBeenCalledWith({ lastUsedStep: timeStep(now) });
+  });
+
+  it("loses to a concurrent login with the same code", async () => {
+    const now = at(1111111109);
+    expect(await verifySecondFactor(1, totpCode(secret, timeStep(now)), now)).toBe(false);
+  });
+
+  it("spends a backup code", async () => {
+    const now = at(1111111109);
+    updateChain.returning.mockResolvedValueOnce([{ id: 7 }]);
+
+    expect(await verifySecondFactor(1, " ABCDE-12345 ", now)).toBe(true);
+    expect(updateChain.set).toHaveBeenCalledWith({ usedAt: now });
+  });
+
+  it("refuses every code before enrollment is confirmed", async () => {
+    mockDb.query.userTwoFactor.findFirst.mockResolvedValue({
+      userId: 1,
+      secret,
+      confirmedAt: null,
+      lastUsedStep: null,
+    });
+    const now = at(1111111109);
+    expect(await verifySecondFactor(1, totpCode(secret, timeStep(now)), now)).toBe(false);
+    expect(mockDb.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// vi.mock is hoisted — factory must not reference outer variables
+vi.mock("../../src/db/index.ts", () => {
+  const db: any = {
+    query: {
+      vouchers: { findFirst: vi.fn() },
+    },
+    insert: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  };
+  // The transaction runs on the same mocks
+  db.transaction = vi.fn(async (run: (tx: any) => unknown) => run(db));
+  return { db };
+});
+
+vi.mock("../../src/services/subscriptions.ts", () => ({
+  activateSubscription: vi.fn(),
+  renewSubscription: vi.fn(),
+  findActiveSubscription: vi.fn(),
+}));
+
+import { db } from "../../src/db/index.ts";
+import {
+  activateSubscription,
+  renewSubscription,
+  findActiveSubscription,
+} from "../../src/services/subscriptions.ts";
+const mockDb = db as any;
+
+import {
+  generateVoucherCode,
+  normalizeVoucherCode,
+  redeemVoucher,
+} from "../../src/services/vouchers.ts";
+
+const NOW = new Date("2025-06-01T12:00:00Z");
+
+function makeVoucher(overrides: Record<string, any> = {}) {
+  return {
+    id: 7,
+    code: "ABCD-EFGH-JKLM",
+    batchLabel: "Monastics 2025",
+    months: 12,
+    maxRedemptions: 1,
+    redemptionCount: 0,
+    expiresAt: null,
+    isActive: true,
+    events: [],
+    ...overrides,
+  };
+}
+
+/**
+ * Wire the writes a redemption makes: the redemption insert (`redeemed`
+ * false means the member already had one), the use claim (`claimed` false
+ * means the last use was just taken), then any follow-up writes.
+ */
+function mockWrites({ redeemed = true, claimed = true } = {}) {
+  const insertChain = {
+    values: vi.fn().mockReturnThis(),
+    onConflictDoNothing: vi.fn().mockReturnThis(),
+    onConflictDoUpdate: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(redeemed ? [{ id: 99 }] : []),
+    // Event grants are awaited without returning()
+    then: (resolve: any) => resolve(undefined),
+  };
+  const updateChain = {
+    set: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(claimed ? [{ id: 7 }] : []),
+    then: (resolve: any) => resolve(undefined),
+  };
+  const deleteChain = { where: vi.fn().mockResolvedValue(undefined) };
+  mockDb.insert.mockReturnValue(insertChain);
+  mockDb.update.mockReturnValue(updateChain);
+  mockDb.delete.mockReturnValue(deleteChain);
+  return { insertChain, updateChain, deleteChain };
+}
+
+describe("Vouchers", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    (findActiveSubscription as any).mockResolvedValue(null);
+    (activateSubscription as any).mockResolvedValue({ id: 40 });
+  });
+
+  it("generates readable codes and matches them loosely", () => {
+    expect(generateVoucherCode()).toMatch(/^[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}$/);
+    expect(normalizeVoucherCode(" abcd-efgh -jklm ")).toBe("ABCD-EFGH-JKLM");
+  });
+
+  it("starts a voucher subscription for a member without one", async () => {
+    mockDb.query.vouchers.findFirst.mockResolvedValue(makeVoucher());
+    const { updateChain } = mockWrites();
+
+    const result = await redeemVoucher(1, "abcd-efgh-jklm", NOW);
+
+    expect(result).toMatchObject({ ok: true, months: 12 });
+    expect(activateSubscription).toHaveBeenCalledWith(
+      1,
+      "voucher",
+      new Date("2026-06-01T12:00:00Z"),
+      expect.objectContaining({ providerReference: "ABCD-EFGH-JKLM" }),
+      mockDb,
+    );
+    // The redemption is linked to the subscription it started
+    expect(updateChain.set).toHaveBeenCalledWith({ subscriptionId: 40 });
+  });
+
+  it("adds the months after the end of a manual subscription, which becomes a voucher one", async () => {
+    const current = { id: 5, source: "cash", status: "active", currentPeriodEnd: new Date("2025-08-01T00:00:00Z") };
+    (findActiveSubscription as any).mockResolvedValue(current);
+    mockDb.query.vouchers.findFirst.mockResolvedValue(makeVoucher({ months: 3 }));
+    mockWrites();
+
+    const result = await redeemVoucher(1, "ABCD-EFGH-JKLM", NOW);
+
+    expect(result.ok).toBe(true);
+    expect(renewSubscription).toHaveBeenCalledWith(
+      current,
+      new Date("2025-11-01T00:00:00Z"),
+      expect.objectContaining({ note: "Voucher redeemed", source: "voucher" }),
+      mockDb,
+    );
+    expect(activateSubscription).not.toHaveBeenCalled();
+  });
+
+  it("does not extend an Easypay subscription", async () => {
+    (findActiveSubscription as any).mockResolvedValue({ id: 5, source: "easypay", currentPeriodEnd: NOW });
+    mockDb.query.vouchers.findFirst.mockResolvedValue(makeVoucher());
+
+    const result = await redeemVoucher(1, "ABCD-EFGH-JKLM", NOW);
+
+    expect(result).toEqual({ ok: false, reason: "subscription_active" });
+    expect(mockDb.insert).not.toHaveBeenCalled();
+  });
+
+  it("grants the voucher's events with source voucher", async () => {
+    mockDb.query.vouchers.findFirst.mockResolvedValue(
+      makeVoucher({ months: null, events: [{ eventId: 3 }, { eventId: 4 }] }),
+    );
+    const { insertChain } = mockWrites();
+
+    const result = await redeemVoucher(1, "ABCD-EFGH-JKLM", NOW);
+
+    expect(result).toMatchObject({ ok: true, eventIds: [3, 4] });
+    expect(insertChain.values).toHaveBeenCalledWith([
+      expect.objectContaining({ userId: 1, eventId: 3, source: "voucher" }),
+      expect.objectContaining({ userId: 1, eventId: 4, source: "voucher" }),
+    ]);
+    expect(findActiveSubscription).not.toHaveBeenCalled();
+  });
+
+  it("reopens a grant the member already has, even one that has lapsed", async () => {
+    mockDb.query.vouchers.findFirst.mockResolvedValue(makeVoucher({ months: null, events: [{ eventId: 3 }] }));
+    const { insertChain } = mockWrites();
+
+    await redeemVoucher(1, "ABCD-EFGH-JKLM", NOW);
+
+    const [{ set }] = insertChain.onConflictDoUpdate.mock.calls[0]!;
+    expect(set.validUntil).toBeNull();
+    // The grant keeps its source and note
+    expect(set).not.toHaveProperty("source");
+    expect(set).not.toHaveProperty("note");
+  });
+
+  it("redeems inside one transaction, so a failed write gives nothing away", async () => {
+    mockDb.query.vouchers.findFirst.mockResolvedValue(makeVoucher());
+    mockWrites();
+    (activateSubscription as any).mockRejectedValue(new Error("connection lost"));
+
+    await expect(redeemVoucher(1, "ABCD-EFGH-JKLM", NOW)).rejects.toThrow("connection lost");
+    expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+    expect(mockDb.insert).toHaveBeenCalledTimes(1);
+  });
+
+  it("refuses unknown, deactivated, expired and used-up vouchers", async () => {
+    mockDb.query.vouchers.findFirst.mockResolvedValueOnce(undefined);
+    expect(await redeemVoucher(1, "NOPE", NOW)).toEqual({ ok: false, reason: "not_found" });
+
+    mockDb.query.vouchers.findFirst.mockResolvedValueOnce(makeVoucher({ isActive: false }));
+    expect(await redeemVoucher(1, "X", NOW)).toEqual({ ok: false, reason: "inactive" });
+
+    mockDb.query.vouchers.findFirst.mockResolvedValueOnce(makeVoucher({ expiresAt: new Date("2025-05-31") }));
+    expect(await redeemVoucher(1, "X", NOW)).toEqual({ ok: false, reason: "expired" });
+
+    mockDb.query.vouchers.findFirst.mockResolvedValueOnce(makeVoucher({ redemptionCount: 1 }));
+    expect(await redeemVoucher(1, "X", NOW)).toEqual({ ok: false, reason: "exhausted" });
+  });
+
+  it("lets a member redeem a voucher only once", async () => {
+    mockDb.query.vouchers.findFirst.mockResolvedValue(makeVoucher({ maxRedemptions: 10 }));
+    mockWrites({ redeemed: false });
+
+    expect(await redeemVoucher(1, "ABCD-EFGH-JKLM", NOW)).toEqual({ ok: false, reason: "already_redeemed" });
+    expect(activateSubscription).not.toHaveBeenCalled();
+  });
+
+  it("gives the redemption back when another member took the last use", async () => {
+    mockDb.query.vouchers.findFirst.mockResolvedValue(makeVoucher());
+    const { deleteChain } = mockWrites({ claimed: false });
+
+    expect(await redeemVoucher(1, "ABCD-EFGH-JKLM", NOW)).toEqual({ ok: false, reason: "exhausted" });
+    expect(deleteChain.where).toHaveBeenCalled();
+    expect(activateSubscription).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+
+// vi.mock is hoisted — factory must not reference outer variables
+vi.mock("../../src/db/index.ts", () => ({
+  db: {
+    query: {
+      webhookInbox: { findFirst: vi.fn(), findMany: vi.fn() },
+    },
+    insert: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock("../../src/services/easypay.ts", () => ({
+  handleEasypayNotification: vi.fn(),
+}));
+
+import { db } from "../../src/db/index.ts";
+import { handleEasypayNotification } from "../../src/services/easypay.ts";
+const mockDb = db as any;
+const mockHandle = handleEasypayNotification as any;
+
+import {
+  notificationIdFor,
+  nextAttemptAfter,
+  storeNotification,
+  processInboxEntry,
+  retryDueNotifications,
+  replayNotification,
+  MAX_ATTEMPTS,
+  PROCESSING_TIMEOUT_MS,
+} from "../../src/services/webhook-inbox.ts";
+
+const NOTIFICATION = {
+  id: "ep_sub_1",
+  key: "user-1-1700000000000",
+  type: "subscription_capture",
+  status: "success",
+  date: "2025-06-01 10:00",
+};
+
+function makeEntry(overrides: Record<string, any> = {}) {
+  return {
+    id: 7,
+    provider: "easypay",
+    notificationId: notificationIdFor(NOTIFICATION),
+    payload: NOTIFICATION,
+    status: "processing",
+    attempts: 0,
+    lastError: null,
+    nextAttemptAt: null,
+    claimedAt: null,
+    receivedAt: new Date("2025-06-01"),
+    processedAt: null,
+    ...overrides,
+  };
+}
+
+/** Each update() call gets its own chain; `returning` resolves to the given rows in turn. */
+function mockUpdates(...returns: any[][]) {
+  const chains = returns.map((rows) => ({
+    set: vi.fn().mockReturnThis(),
+    where: vi.fn().mockReturnThis(),
+    returning: vi.fn().mockResolvedValue(rows),
+  }));
+  chains.forEach((chain) => mockDb.update.mockReturnValueOnce(chain));
+  return chains;
+}
+
+describe("Webhook inbox", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDb.update.mockReset();
+  });
+
+  describe("notificationIdFor", () => {
+    it("is stable for a redelivered notification", () => {
+      expect(notificationIdFor({ ...NOTIFICATION })).toBe(notificationIdFor(NOTIFICATION));
+    });
+
+    it("tells apart a success and a failure for the same subscription", () => {
+      expect(notificationIdFor({ ...NOTIFICATION, status: "failed" })).not.toBe(
+        notificationIdFor(NOTIFICATION),
+      );
+    });
+  });
+
+  describe("nextAttemptAfter", () => {
+    it("backs off with each failure and gives up after the last delay", () => {
+      const now = new Date("2025-06-01T00:00:00Z");
+      expect(nextAttemptAfter(1, now)).toEqual(new Date("2025-06-01T00:01:00Z"));
+      expect(nextAttemptAfter(2, now)).toEqual(new Date("2025-06-01T00:05:00Z"));
+      expect(nextAttemptAfter(MAX_ATTEMPTS, now)).toBeNull();
+    });
+  });
+
+  describe("storeNotification", () => {
+    it("reports a notification already in the inbox as a duplicate", async () => {
+      const insertChain = {
+        values: vi.fn().mockReturnThis(),
+        onConflictDoNothing: vi.fn().mockReturnThis(),
+        returning: vi.fn().mockResolvedValue([]),
+      };
+      mockDb.insert.mockReturnValue(insertChain);
+
+      const result = await storeNotification(NOTIFICATION);
+
+      expect(result).toEqual({ entry: null, duplicate: true });
+      expect(insertChain.values).toHaveBeenCalledWith(
+        expect.objectContaining({ notificationId: notificationIdFor(NOTIFICATION) }),
+      );
+    });
+  });
+
+  describe("processInboxEntry", () => {
+    it("marks a handled notification as processed", async () => {
+      const [, done] = mockUpdates([makeEntry()], []);
+      mockHandle.mockResolvedValue("processed");
+
+      const outcome = await processInboxEntry(7);
+
+      expect(outcome).toBe("processed");
+      expect(mockHandle).toHaveBeenCalledWith(NOTIFICATION);
+      expect(done!.set).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "processed", attempts: 1, processedAt: expect.any(Date) }),
+      );
+    });
+
+    it("records when the entry was claimed", async () => {
+      const [claim] = mockUpdates([makeEntry()], []);
+      mockHandle.mockResolvedValue("processed");
+
+      await processInboxEntry(7);
+
+      expect(claim!.set).toHaveBeenCalledWith({ status: "processing", claimedAt: expect.any(Date) });
+    });
+
+    it("does nothing when the entry is already claimed or done", async () => {
+      mockUpdates([]);
+
+      const outcome = await processInboxEntry(7);
+
+      expect(outcome).toBeNull();
+      expect(mockHandle).not.toHaveBeenCalled();
+    });
+
+    it("schedules a retry when Easypay cannot be reached", async () => {
+      const [, failed] = mockUpdates([makeEntry()], []);
+      mockHandle.mockRejectedValue(new Error("Easypay API error: 503"));
+
+      const outcome = await processInboxEntry(7);
+
+      expect(outcome).toBe("failed");
+      expect(failed!.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: "failed",
+          attempts: 1,
+          lastError: "Easypay API error: 503",
+          nextAttemptAt: expect.any(Date),
+        }),
+      );
+    });
+
+    it("gives up after the last attempt", async () => {
+      const [, failed] = mockUpdates([makeEntry({ attempts: MAX_ATTEMPTS - 1 })], []);
+      mockHandle.mockRejectedValue(new Error("Easypay API error: 503"));
+
+      const outcome = await processInboxEntry(7);
+
+      expect(outcome).toBe("dead");
+      expect(failed!.set).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "dead", attempts: MAX_ATTEMPTS, nextAttemptAt: null }),
+      );
+    });
+  });
+
+  describe("retryDueNotifications", () => {
+    it("takes up entries left processing past the timeout", async () => {
+      const now = new Date("2025-06-01T12:00:00Z");
+      const stale = makeEntry({ claimedAt: new Date(now.getTime() - PROCESSING_TIMEOUT_MS - 1) });
+      mockDb.query.webhookInbox.findMany.mockResolvedValue([stale]);
+      mockUpdates([stale], []);
+      mockHandle.mockResolvedValue("processed");
+
+      expect(await retryDueNotifications(now)).toBe(1);
+
+      const { sql } = new PgDialect().sqlToQuery(mockDb.query.webhookInbox.findMany.mock.calls[0][0].where);
+      expect(sql).toContain('"webhook_inbox"."claimed_at" <');
+      expect(mockHandle).toHaveBeenCalledWith(NOTIFICATION);
+    });
+  });
+
+  describe("replayNotification", () => {
+    it("resets a dead entry and processes it again", async () => {
+      const [reset] = mockUpdates(
+        [makeEntry({ status: "pending" })],
+        [makeEntry()],
+        [],
+      );
+      mockHandle.mockResolvedValue("processed");
+
+      const outcome = await replayNotification(7);
+
+      expect(outcome).toBe("processed");
+      expect(reset!.set).toHaveBeenCalledWith(
+        expect.objectContaining({ status: "pending", attempts: 0 }),
+      );
+    });
+  });
+});